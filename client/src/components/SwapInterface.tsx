@@ -16,9 +16,10 @@ export interface TokenMetadata {
 interface SwapInterfaceProps {
   tokens: TokenMetadata[];
   chainId?: number;
+  slippage?: number; // Percentage
 }
 
-export function SwapInterface({ tokens, chainId = 137 }: SwapInterfaceProps) {
+export function SwapInterface({ tokens, chainId = 137, slippage = 0.5 }: SwapInterfaceProps) {
   const [amount, setAmount] = useState('');
   const [tokenIn, setTokenIn] = useState<TokenMetadata | null>(null);
   const [tokenOut, setTokenOut] = useState<TokenMetadata | null>(null);
@@ -29,6 +30,7 @@ export function SwapInterface({ tokens, chainId = 137 }: SwapInterfaceProps) {
       tokenOut: tokenOut?.address || '',
       amountIn: amount,
       chainId,
+      slippage,
     },
     { enabled: !!tokenIn && !!tokenOut && !!amount }
   );
@@ -74,11 +76,24 @@ export function SwapInterface({ tokens, chainId = 137 }: SwapInterfaceProps) {
     setTokenOut(temp);
   };
 
+  const getLiquidityWarning = (): string | null => {
+    if (!quote) return null;
+    const thinLegs = quote.distribution?.filter(d => d.liquidityRisk === 'high').length || 0;
+    if (quote.liquidityRisk === 'high') {
+      return `High price impact (${quote.priceImpact?.toFixed(2)}%): this trade moves thin pools. You may receive much less than the mid price.`;
+    }
+    if (thinLegs > 0) {
+      return `${thinLegs} leg(s) of this split route through thin pools.`;
+    }
+    if (quote.liquidityRisk === 'medium') {
+      return `Price impact of ${quote.priceImpact?.toFixed(2)}%. Consider a smaller amount.`;
+    }
+    return null;
+  };
+
   const outputAmount = getOutputAmount();
   const routeInfo = getRouteInfo();
-  const priceImpact = tokenOut && outputAmount && amount 
-    ? ((parseFloat(outputAmount) / parseFloat(amount)) * 100).toFixed(2) 
-    : '0';
+  const liquidityWarning = getLiquidityWarning();
 
   return (
     <Card className="w-full max-w-md mx-auto p-6 shadow-lg border-0 bg-gradient-to-br from-slate-50 to-white">
@@ -150,10 +165,47 @@ export function SwapInterface({ tokens, chainId = 137 }: SwapInterfaceProps) {
 
         {quote && outputAmount && (
           <div className="bg-gradient-to-br from-blue-50 to-blue-100 p-4 rounded-lg space-y-3 border border-blue-200">
-            <div className="flex justify-between items-center">
-              <span className="text-sm font-medium text-gray-700">Exchange Rate:</span>
-              <span className="font-bold text-blue-600">{priceImpact}%</span>
-            </div>
+            {quote.executionPrice !== undefined && (
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-medium text-gray-700">Exchange Rate:</span>
+                <span className="font-bold text-blue-600">
+                  1 {tokenIn?.symbol} = {formatNumber(String(quote.executionPrice), 6)} {tokenOut?.symbol}
+                </span>
+              </div>
+            )}
+
+            {quote.priceImpact !== undefined && (
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-medium text-gray-700">Price Impact:</span>
+                <span
+                  className={`font-bold ${
+                    quote.liquidityRisk === 'high'
+                      ? 'text-red-600'
+                      : quote.liquidityRisk === 'medium'
+                        ? 'text-yellow-600'
+                        : 'text-green-600'
+                  }`}
+                >
+                  {quote.priceImpact.toFixed(2)}%
+                </span>
+              </div>
+            )}
+
+            {quote.amountOutMinimum && (
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-medium text-gray-700">Minimum Received ({quote.slippage ?? slippage}%):</span>
+                <span className="text-sm font-semibold text-gray-700">{formatNumber(quote.amountOutMinimum, 6)}</span>
+              </div>
+            )}
+
+            {quote.estimatedGas !== undefined && (
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-medium text-gray-700">Network Fee:</span>
+                <span className="text-sm text-gray-600">
+                  {quote.gasCostUSD !== undefined ? `~$${quote.gasCostUSD.toFixed(2)}` : '--'} ({quote.estimatedGas.toLocaleString()} gas)
+                </span>
+              </div>
+            )}
 
             {routeInfo && (
               <div className="flex justify-between items-start">
@@ -168,7 +220,14 @@ export function SwapInterface({ tokens, chainId = 137 }: SwapInterfaceProps) {
                 {quote.distribution.map((d, idx) => (
                   <div key={idx} className="text-xs text-gray-600 mb-1 flex justify-between">
                     <span>{d.route.slice(-1)[0].slice(0, 6)}...</span>
-                    <span className="font-semibold">{formatNumber(d.amount, 2)}</span>
+                    <span className="font-semibold">
+                      {formatNumber(d.amount, 2)}
+                      {d.priceImpact !== undefined && (
+                        <span className={d.liquidityRisk === 'high' ? 'text-red-600' : 'text-gray-500'}>
+                          {' '}({d.priceImpact.toFixed(2)}%)
+                        </span>
+                      )}
+                    </span>
                   </div>
                 ))}
               </div>
@@ -176,6 +235,16 @@ export function SwapInterface({ tokens, chainId = 137 }: SwapInterfaceProps) {
           </div>
         )}
 
+        {quote && liquidityWarning && (
+          <div
+            className={`py-3 px-4 rounded-lg text-sm ${
+              quote.liquidityRisk === 'high' ? 'text-red-700 bg-red-50' : 'text-yellow-700 bg-yellow-50'
+            }`}
+          >
+            ⚠️ {liquidityWarning}
+          </div>
+        )}
+
         {/* Swap Button */}
         <Button
           onClick={() => console.log('Swap initiated')}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useMemo } from 'react';
 import { Search, Plus, TrendingUp, Loader } from 'lucide-react';
 import { useMarketOverview } from '@/hooks/useMarketOverview';
+import { usePriceStream } from '@/hooks/usePriceStream';
 import { useDebounce } from '@/hooks/useDebounce';
 import { marketViewerClient } from '@/lib/api/MarketViewerClient';
 import { Button } from './ui/button';
@@ -31,6 +32,9 @@ export function TokenMarketView({ tokens, chainId, onAddToken, isAddingToken }:
   // STEP 2: Fetch the detailed market data (hot path) for only these specific tokens.
   const { data: overview, isLoading, error } = useMarketOverview(chainId, tokenAddresses);
 
+  // STEP 2b: Keep those prices live with server-pushed deltas.
+  usePriceStream(chainId, tokenAddresses);
+
   useEffect(() => {
     if (debouncedSearchTerm.trim().length === 0) {
       setSearchResults([]);
@@ -0,0 +1,146 @@
+/**
+ * usePriceStream - Live Price Updates Hook
+ *
+ * Subscribes to the server price stream (WebSocket /api/market/stream) for a list of tokens
+ * and merges pushed price deltas into the cached market overview queries.
+ * The subscription also keeps the tokens' pools refreshing on the server (no stay-alive needed).
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { priceStreamServerMessageSchema } from '@shared/schema';
+import type { MarketOverview, PriceStreamClientMessage, PriceUpdate } from '@shared/schema';
+
+const STREAM_PATH = '/api/market/stream';
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+/**
+ * Hook to stream prices for a list of tokens into the market overview cache.
+ *
+ * @param chainId - Network chain ID (1 for Ethereum, 137 for Polygon).
+ * @param tokenAddresses - Token addresses to subscribe to.
+ * @returns Whether the stream is currently connected.
+ *
+ * @example
+ * const { data: overview } = useMarketOverview(137, addresses);
+ * const { isConnected } = usePriceStream(137, addresses);
+ */
+export function usePriceStream(chainId: number, tokenAddresses: string[]): { isConnected: boolean } {
+  const queryClient = useQueryClient();
+  const [isConnected, setIsConnected] = useState(false);
+  const socketRef = useRef<WebSocket | null>(null);
+  const subscribedRef = useRef<{ chainId: number; tokens: string[] }>({ chainId, tokens: [] });
+
+  // One connection per component, reconnecting with exponential backoff
+  useEffect(() => {
+    let closed = false;
+    let attempt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(`${protocol}//${window.location.host}${STREAM_PATH}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempt = 0;
+        setIsConnected(true);
+        // Re-subscribe after a reconnect
+        const { chainId: subscribedChain, tokens } = subscribedRef.current;
+        if (tokens.length > 0) {
+          sendMessage(socket, { type: 'subscribe', chainId: subscribedChain, tokens });
+        }
+      };
+
+      socket.onmessage = (event) => {
+        let payload: unknown;
+        try {
+          payload = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        const parsed = priceStreamServerMessageSchema.safeParse(payload);
+        if (!parsed.success) return;
+
+        const message = parsed.data;
+        if (message.type === 'error') {
+          console.error(`[PriceStream] ${message.message}`);
+          return;
+        }
+        queryClient.setQueriesData<MarketOverview | null>(
+          { queryKey: ['market', 'overview', message.chainId] },
+          (overview) => mergePrices(overview, message.prices, message.timestamp)
+        );
+      };
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        if (socketRef.current === socket) socketRef.current = null;
+        if (closed) return;
+        const delay = Math.min(1000 * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+        attempt++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [queryClient]);
+
+  // Move the subscription whenever the chain or token list changes
+  useEffect(() => {
+    const tokens = tokenAddresses.map(address => address.toLowerCase());
+    const previous = subscribedRef.current;
+    subscribedRef.current = { chainId, tokens };
+
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+
+    if (previous.tokens.length > 0) {
+      sendMessage(socket, { type: 'unsubscribe', chainId: previous.chainId, tokens: previous.tokens });
+    }
+    if (tokens.length > 0) {
+      sendMessage(socket, { type: 'subscribe', chainId, tokens });
+    }
+  }, [chainId, tokenAddresses]);
+
+  return { isConnected };
+}
+
+function sendMessage(socket: WebSocket, message: PriceStreamClientMessage): void {
+  socket.send(JSON.stringify(message));
+}
+
+/**
+ * Apply price deltas to a cached overview; tokens not in the overview are ignored
+ */
+function mergePrices(
+  overview: MarketOverview | null | undefined,
+  prices: PriceUpdate[],
+  timestamp: number
+): MarketOverview | null | undefined {
+  if (!overview) return overview;
+
+  const updates = new Map(prices.map(update => [update.address.toLowerCase(), update]));
+  let changed = false;
+  const tokens = overview.tokens.map(token => {
+    const update = updates.get(token.address.toLowerCase());
+    if (!update) return token;
+    changed = true;
+    return {
+      ...token,
+      price: update.price,
+      ...(update.priceConfidence !== undefined && { priceConfidence: update.priceConfidence }),
+      dataSource: 'multicall' as const,
+      timestamp,
+    };
+  });
+
+  return changed ? { ...overview, tokens, timestamp } : overview;
+}
@@ -14,12 +14,13 @@ interface UseSwapQuoteParams {
   tokenOut: string | null | undefined;
   amountIn: string;
   chainId: number;
+  slippage?: number;
 }
 
 /**
  * Hook to fetch a swap quote
  * 
- * @param params - Quote parameters (tokenIn, tokenOut, amountIn, chainId)
+ * @param params - Quote parameters (tokenIn, tokenOut, amountIn, chainId, slippage)
  * @param options - React Query options (optional)
  * @returns Query result with swap quote data
  * 
@@ -35,10 +36,10 @@ export function useSwapQuote(
   params: UseSwapQuoteParams,
   options?: Omit<UseQueryOptions<SwapQuote | null>, 'queryKey' | 'queryFn'>
 ): UseQueryResult<SwapQuote | null, Error> {
-  const { tokenIn, tokenOut, amountIn, chainId } = params;
+  const { tokenIn, tokenOut, amountIn, chainId, slippage } = params;
 
   return useQuery({
-    queryKey: ['swap', 'quote', tokenIn, tokenOut, amountIn, chainId],
+    queryKey: ['swap', 'quote', tokenIn, tokenOut, amountIn, chainId, slippage],
     queryFn: async () => {
       if (!tokenIn || !tokenOut || !amountIn || amountIn === '0') {
         return null;
@@ -48,6 +49,7 @@ export function useSwapQuote(
         tokenOut,
         amountIn,
         chainId,
+        slippage,
       });
     },
     staleTime: 30 * 1000, // 30 seconds (quotes refresh frequently)
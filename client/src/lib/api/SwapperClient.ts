@@ -5,7 +5,7 @@
  * All methods return data typed from shared/schema.ts for type safety
  */
 
-import type { SwapQuote, QuoteResponse } from '@shared/schema';
+import type { SwapQuote, QuoteResponse, SwapBuildResponse } from '@shared/schema';
 
 /**
  * Parameters for requesting a swap quote
@@ -15,6 +15,18 @@ export interface QuoteParams {
   tokenOut: string;
   amountIn: string;
   chainId: number;
+  slippage?: number; // Percentage, default 0.5%
+}
+
+/**
+ * Parameters for building unsigned swap transactions from a quote
+ */
+export interface BuildParams {
+  quote: SwapQuote;
+  recipient: string;
+  slippage?: number; // Percentage, defaults to the quote's slippage
+  deadlineSeconds?: number; // From now, default 20 minutes
+  walletAddress?: string; // Sender; enables allowance checks
 }
 
 /**
@@ -40,7 +52,7 @@ export class SwapperClient {
    */
   public async getQuote(params: QuoteParams): Promise<SwapQuote | null> {
     try {
-      const { tokenIn, tokenOut, amountIn, chainId } = params;
+      const { tokenIn, tokenOut, amountIn, chainId, slippage } = params;
       console.log(`🔄 [Swapper] Getting quote: ${amountIn} from ${tokenIn.slice(0, 6)}... to ${tokenOut.slice(0, 6)}...`);
 
       const response = await fetch(`${this.baseUrl}/swap/quote`, {
@@ -53,6 +65,7 @@ export class SwapperClient {
           tokenOut,
           amountIn,
           chainId,
+          slippage,
         }),
       });
 
@@ -77,6 +90,41 @@ export class SwapperClient {
     }
   }
 
+  /**
+   * Build unsigned transactions for a quote
+   * POST /api/swap/build
+   *
+   * The server never signs or broadcasts: send the approvals marked required,
+   * then the swap transactions, from the user's wallet.
+   *
+   * @param params - Quote and execution parameters
+   * @returns Transactions and approvals, or null if the quote cannot be built
+   */
+  public async buildSwap(params: BuildParams): Promise<SwapBuildResponse | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/swap/build`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(params),
+      });
+
+      const data: SwapBuildResponse = await response.json();
+
+      if (response.ok && data.success) {
+        console.log(`✓ [Swapper] Built ${data.transactions?.length ?? 0} transaction(s)`);
+        return data;
+      } else {
+        console.warn(`[Swapper] Build failed: ${data.error ?? response.statusText}`);
+        return null;
+      }
+    } catch (error) {
+      console.error('[Swapper] Error building swap:', error);
+      return null;
+    }
+  }
+
   /**
    * Validate if a swap route exists
    * 
@@ -95,25 +143,14 @@ export class SwapperClient {
   }
 
   /**
-   * Calculate estimated slippage for a quote
+   * Get the price impact of a quote
    * 
    * @param quote - Quote data
-   * @param slippageTolerance - Slippage tolerance in percentage (default 0.5%)
-   * @returns Estimated slippage percentage as string
+   * @returns Price impact percentage (including LP fees) as string
    */
-  public calculateSlippage(quote: SwapQuote, slippageTolerance: number = 0.5): string {
-    try {
-      if (!quote.amountOut && !quote.finalAmountOut) return '0';
-
-      const routeCount = quote.distribution?.length || (quote.route ? 1 : 0);
-      // Simple estimate: ~0.3% slippage per route hop
-      const estimatedSlippage = 0.3 * routeCount;
-
-      return estimatedSlippage.toFixed(2);
-    } catch (error) {
-      console.error('[Swapper] Error calculating slippage:', error);
-      return '0';
-    }
+  public calculateSlippage(quote: SwapQuote): string {
+    if (quote.priceImpact === undefined) return '0';
+    return quote.priceImpact.toFixed(2);
   }
 
   /**
@@ -0,0 +1,88 @@
+import { describe, it, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { BlockFollower } from '../application/services/BlockFollower';
+import { poolController, AlivePool } from '../application/services/PoolController';
+import { sharedStateCache } from '../application/services/SharedStateCache';
+import { PoolLog } from '../application/services/PoolEventDecoder';
+import { poolRefreshConfig } from '../infrastructure/config/PoolRefreshConfig';
+import { loadFixture } from './fixtures';
+
+const { logs } = loadFixture<{ logs: PoolLog[] }>('pool-logs.json');
+
+const CHAIN_ID = 1;
+const V2_PAIR = '0xb4e16d0168e52d35cacd2c6185b44281ec28c9dc';
+const V3_SWAP_THEN_MINT = '0x88e6a0c2ddd26feeb64f039a2c41296fcb3f5640';
+const V3_BURN_THEN_SWAP = '0x8ad599c3a0ff1de082011efddc58f1908eb6e6d8';
+const START_BLOCK = 19000000;
+
+function alivePool(address: string, dexVersion: 'v2' | 'v3'): AlivePool {
+  const now = Date.now();
+  return {
+    address, chainId: CHAIN_ID, dexVersion, tier: 'normal',
+    nextRefresh: now + 60_000, lastBlockSeen: START_BLOCK, lastRefreshTime: now,
+    consecutiveFailures: 0, lastPrice: 0, requestCount: 0, lastRequestTime: now, refCount: 1,
+  };
+}
+
+/**
+ * Follower over fixed alive pools and a scripted head; fetchPoolLogs serves the fixture
+ */
+function createFollower(pools: AlivePool[], heads: number[]) {
+  mock.method(poolController, 'getAliveSet', () => pools);
+  const logRanges: Array<[number, number]> = [];
+  const applied: string[][] = [];
+  const ethersAdapter = {
+    getBlockNumber: async () => heads.shift()!,
+    fetchPoolLogs: async (_addresses: string[], fromBlock: number, toBlock: number) => {
+      logRanges.push([fromBlock, toBlock]);
+      return logs.filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+    },
+  };
+  const follower = new BlockFollower(ethersAdapter as any, (_chainId, addresses) => { applied.push(addresses); });
+  const poll = () => (follower as any).followChain(CHAIN_ID) as Promise<void>;
+  return { poll, logRanges, applied };
+}
+
+describe('BlockFollower', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('applies Sync/Swap logs and re-fetches pools with a trailing Mint', async () => {
+    const pools = [alivePool(V2_PAIR, 'v2'), alivePool(V3_SWAP_THEN_MINT, 'v3'), alivePool(V3_BURN_THEN_SWAP, 'v3')];
+    for (const pool of pools) {
+      sharedStateCache.setPoolState(CHAIN_ID, pool.address, { address: pool.address, token0: '0x0', token1: '0x1', blockNumber: START_BLOCK });
+    }
+    const { poll, logRanges, applied } = createFollower(pools, [START_BLOCK, START_BLOCK + 3]);
+
+    await poll(); // First poll only records the head
+    const before = Date.now();
+    await poll();
+
+    assert.deepEqual(logRanges, [[START_BLOCK + 1, START_BLOCK + 3]]);
+    assert.deepEqual(applied, [[V2_PAIR, V3_BURN_THEN_SWAP]]);
+    assert.equal(sharedStateCache.getPoolState(CHAIN_ID, V2_PAIR)!.reserve0, 41250113012431n);
+    assert.equal(sharedStateCache.getPoolState(CHAIN_ID, V3_BURN_THEN_SWAP)!.blockNumber, 19000003);
+    assert.ok(pools[1].nextRefresh <= Date.now() && pools[1].nextRefresh >= before); // Due now
+  });
+
+  it('marks every alive pool due when the gap exceeds MAX_BLOCK_RANGE', async () => {
+    const pools = [alivePool(V2_PAIR, 'v2'), alivePool(V3_SWAP_THEN_MINT, 'v3'), alivePool(V3_BURN_THEN_SWAP, 'v3')];
+    const { poll, logRanges, applied } = createFollower(pools, [START_BLOCK, START_BLOCK + poolRefreshConfig.MAX_BLOCK_RANGE + 1]);
+
+    await poll();
+    await poll();
+
+    assert.deepEqual(logRanges, []); // The gap is not replayed
+    assert.deepEqual(applied, []);
+    for (const pool of pools) assert.ok(pool.nextRefresh <= Date.now(), `${pool.address} should be due`);
+  });
+
+  it('replays a gap of exactly MAX_BLOCK_RANGE', async () => {
+    const pools = [alivePool(V2_PAIR, 'v2')];
+    const { poll, logRanges } = createFollower(pools, [START_BLOCK, START_BLOCK + poolRefreshConfig.MAX_BLOCK_RANGE]);
+
+    await poll();
+    await poll();
+
+    assert.deepEqual(logRanges, [[START_BLOCK + 1, START_BLOCK + poolRefreshConfig.MAX_BLOCK_RANGE]]);
+  });
+});
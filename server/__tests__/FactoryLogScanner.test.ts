@@ -0,0 +1,73 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { FactoryLogScanner } from '../application/services/FactoryLogScanner';
+import { StorageService } from '../application/services/StorageService';
+import { FACTORIES, FACTORY_EVENTS_ABI } from '../infrastructure/config/ContractAddressConfig';
+import type { FactoryPoolEntry } from '../domain/types';
+
+const CHAIN_ID = 1;
+const UNISWAP_V2_FACTORY = '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const UNI = '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984';
+const LINK = '0x514910771af9ca656af840dff83e8264ecf986ca';
+const UNI_PAIR = '0xd3d2e2692501a5c9ca623199d38826e513033a17';
+const LINK_PAIR = '0xa2107fa5b38d9bbd2c461d6edf11b11a50f6b974';
+
+const factoryEvents = new ethers.Interface(FACTORY_EVENTS_ABI);
+
+function pairCreated(token0: string, token1: string, pair: string, blockNumber: number) {
+  const { topics, data } = factoryEvents.encodeEventLog('PairCreated', [token0, token1, pair, 1n]);
+  return { address: UNISWAP_V2_FACTORY, topics, data, blockNumber, logIndex: 0 };
+}
+
+/**
+ * Scanner from block 50, with Uniswap V2 PairCreated logs at blocks 100 and 300;
+ * storage writes are recorded instead of written
+ */
+function createScanner() {
+  let head = 200;
+  const logs = [pairCreated(UNI, WETH, UNI_PAIR, 100), pairCreated(LINK, WETH, LINK_PAIR, 300)];
+  const ethersAdapter = {
+    getBlockNumber: async () => head,
+    fetchPoolLogs: async (_addresses: string[], from: number, to: number) =>
+      logs.filter(log => log.blockNumber >= from && log.blockNumber <= to),
+  };
+
+  const storage = new StorageService();
+  mock.method(storage, 'getFactoryPoolIndex', async () => ({ cursors: { [UNISWAP_V2_FACTORY]: 49 }, pools: {} }));
+  const appended = mock.method(storage, 'appendFactoryPools', async () => undefined);
+  const savedCursors: Record<string, number>[] = [];
+  mock.method(storage, 'saveFactoryCursors', async (_chainId: number, cursors: Record<string, number>) => {
+    savedCursors.push({ ...cursors });
+  });
+
+  const scanner = new FactoryLogScanner(storage, ethersAdapter as any);
+  (scanner as any).timers.set(CHAIN_ID, null); // Running, without scheduling passes
+  return { scanner, appended, savedCursors, advanceHead: (block: number) => { head = block; } };
+}
+
+describe('FactoryLogScanner checkpointing', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('appends only the pools a pass found, and saves cursors separately', async () => {
+    const { scanner, appended, savedCursors, advanceHead } = createScanner();
+    const original = FACTORIES[CHAIN_ID];
+    FACTORIES[CHAIN_ID] = { v2: [UNISWAP_V2_FACTORY], v3: [], v3_fees: [] };
+    try {
+      await (scanner as any).scanChain(CHAIN_ID);
+      advanceHead(400);
+      await (scanner as any).scanChain(CHAIN_ID);
+    } finally {
+      FACTORIES[CHAIN_ID] = original;
+    }
+
+    const batches = appended.mock.calls.map(call => (call.arguments as unknown[])[1] as Record<string, FactoryPoolEntry>);
+    assert.deepEqual(batches, [
+      { [UNI_PAIR]: [UNI, WETH, 'v2', null, UNISWAP_V2_FACTORY, 100] },
+      { [LINK_PAIR]: [LINK, WETH, 'v2', null, UNISWAP_V2_FACTORY, 300] },
+    ]);
+    assert.deepEqual(savedCursors, [{ [UNISWAP_V2_FACTORY]: 200 }, { [UNISWAP_V2_FACTORY]: 400 }]);
+    assert.deepEqual((await scanner.getPoolsForToken(CHAIN_ID, WETH)).map(pool => pool.poolAddress), [UNI_PAIR, LINK_PAIR]);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GasEstimator } from '../application/services/GasEstimator';
+import { networkConfig } from '../infrastructure/config/NetworkConfig';
+import type { SwapRoute } from '../domain/swapper.types';
+
+const CHAIN_ID = 1;
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const UNISWAP_V2_FACTORY = '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f';
+const UNISWAP_V3_FACTORY = '0x1f98431c8ad98523631ae4a59f267346ea31f984';
+const SUSHISWAP_FACTORY = '0xc0aee478e3658e2610c5f7a4a2e1777ce9e4f2ac';
+
+const { txBase } = networkConfig.getNetwork(CHAIN_ID).gas.swap;
+
+function route(dexType: 'v2' | 'v3', factory?: string): SwapRoute {
+  return { tokens: [USDC, WETH], hops: [{ tokenIn: USDC, tokenOut: WETH, poolAddress: '0x0', dexType, factory }] };
+}
+
+describe('GasEstimator.estimateTransactionGas', () => {
+  const estimator = new GasEstimator({} as any);
+
+  it('pays one base for legs sharing SwapRouter02', () => {
+    const gas = estimator.estimateTransactionGas([route('v3', UNISWAP_V3_FACTORY), route('v2', UNISWAP_V2_FACTORY)], [80000, 60000], CHAIN_ID);
+    assert.equal(gas, txBase + 140000);
+  });
+
+  it('pays one base per leg on a V2 router', () => {
+    const gas = estimator.estimateTransactionGas([route('v2', SUSHISWAP_FACTORY), route('v2', SUSHISWAP_FACTORY)], [60000, 60000], CHAIN_ID);
+    assert.equal(gas, 2 * txBase + 120000);
+  });
+
+  it('counts a leg with an unknown factory as its own transaction', () => {
+    const gas = estimator.estimateTransactionGas([route('v3', UNISWAP_V3_FACTORY), route('v2', SUSHISWAP_FACTORY), route('v2')], [80000, 60000, 60000], CHAIN_ID);
+    assert.equal(gas, 3 * txBase + 200000);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { MulticallEngine } from '../application/services/MulticallEngine';
+import { EthersAdapter } from '../infrastructure/adapters/EthersAdapter';
+import { MULTICALL_ABI, V2_POOL_ABI, V3_POOL_ABI } from '../infrastructure/config/ContractAddressConfig';
+import type { AlivePool } from '../application/services/PoolController';
+
+const CHAIN_ID = 1;
+const BLOCK = 19000000;
+const V2_PAIR = '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc';
+const V3_POOL = '0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640';
+const REVERTING_POOL = '0x8ad599c3A0ff1De082011EFDDc58f1908eb6e6D8';
+
+const multicallIface = new ethers.Interface(MULTICALL_ABI);
+const v2Iface = new ethers.Interface(V2_POOL_ABI);
+const v3Iface = new ethers.Interface(V3_POOL_ABI);
+const errorIface = new ethers.Interface(['function Error(string)']);
+
+// Answers one call of a multicall; null makes the call revert with `reason`
+type CallHandler = (target: string, call: ethers.TransactionDescription) => string | null;
+
+/**
+ * EthersAdapter whose multicalls are answered by `handler`, one call at a time
+ */
+function createAdapter(handler: CallHandler, reason = 'LOK'): EthersAdapter {
+  const adapter = new EthersAdapter();
+  const provider = {
+    call: async (tx: { data: string }) => {
+      const [, calls] = multicallIface.decodeFunctionData('tryBlockAndAggregate', tx.data);
+      const results = calls.map(([target, callData]: [string, string]) => {
+        const iface = callData === v2Iface.getFunction('getReserves')!.selector ? v2Iface : v3Iface;
+        const returnData = handler(target, iface.parseTransaction({ data: callData })!);
+        return returnData === null
+          ? [false, errorIface.encodeFunctionData('Error', [reason])]
+          : [true, returnData];
+      });
+      return multicallIface.encodeFunctionResult('tryBlockAndAggregate', [BLOCK, ethers.ZeroHash, results]);
+    },
+  };
+  mock.method(adapter as any, 'withProvider', (_chainId: number, _context: string, fn: (provider: any) => Promise<unknown>) => fn(provider));
+  return adapter;
+}
+
+function alivePool(address: string, dexVersion: 'v2' | 'v3'): AlivePool {
+  return {
+    address, chainId: CHAIN_ID, dexVersion, tier: 'normal', nextRefresh: 0, lastBlockSeen: 0, lastRefreshTime: 0,
+    consecutiveFailures: 0, lastPrice: 0, requestCount: 0, lastRequestTime: 0, refCount: 1,
+  };
+}
+
+// Full slot0 return data, as a deployed pool returns it (the ABI only declares the first two fields)
+const slot0 = (tick: number) => ethers.AbiCoder.defaultAbiCoder().encode(
+  ['uint160', 'int24', 'uint16', 'uint16', 'uint16', 'uint8', 'bool'],
+  [1428437759975946827872238362280064n, tick, 0, 1, 1, 0, true]
+);
+
+describe('MulticallEngine', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('isolates a reverting target from the rest of its batch', async () => {
+    const adapter = createAdapter((target, call) => {
+      if (target === REVERTING_POOL) return null;
+      if (call.name === 'getReserves') return v2Iface.encodeFunctionResult('getReserves', [41250113012431n, 13208734500273410394401n, 1700000000]);
+      if (call.name === 'slot0') return slot0(196005);
+      return v3Iface.encodeFunctionResult('liquidity', [22018340112298031424n]);
+    });
+    mock.method(adapter, 'getProviderCount', () => 1);
+    const engine = new MulticallEngine(adapter);
+
+    const pools = [alivePool(V2_PAIR, 'v2'), alivePool(REVERTING_POOL, 'v3'), alivePool(V3_POOL, 'v3')];
+    const batches = engine.createBatches(pools, CHAIN_ID);
+    assert.equal(batches.length, 1);
+    const results = await engine.executeBatches(batches, CHAIN_ID);
+
+    assert.deepEqual(results.map(r => [r.poolAddress, r.success, r.blockNumber]), [
+      [V2_PAIR, true, BLOCK],
+      [REVERTING_POOL, false, BLOCK],
+      [V3_POOL, true, BLOCK],
+    ]);
+    assert.equal(results[1].error!.message, 'Call reverted: LOK');
+    assert.equal(results[1].batchFailed, undefined); // The pool failed, not the batch
+    assert.deepEqual(results[0].data, { reserve0: 41250113012431n, reserve1: 13208734500273410394401n });
+    assert.equal(results[2].data.liquidity, 22018340112298031424n);
+  });
+  it('splits a same-block read into batches pinned to the first batch\'s block', async () => {
+    const adapter = new EthersAdapter();
+    const blockTags: Array<number | undefined> = [];
+    mock.method(adapter, 'executeMulticall', async (pools: Array<{ address: string }>, _providerIndex: number, _chainId: number, blockTag?: number) => {
+      blockTags.push(blockTag);
+      return pools.map(pool => ({ poolAddress: pool.address, blockNumber: blockTag ?? BLOCK, success: true }));
+    });
+    const engine = new MulticallEngine(adapter);
+
+    // 30 V3 pools weigh 60: over one batch's limit of 50
+    const pools = Array.from({ length: 30 }, (_, i) => ({ address: ethers.zeroPadValue(ethers.toBeHex(i + 1), 20), dexVersion: 'v3' as const }));
+    const results = await engine.readSameBlock(pools, CHAIN_ID);
+
+    assert.deepEqual(blockTags, [undefined, BLOCK]);
+    assert.equal(results.length, 30);
+    assert.ok(results.every(result => result.blockNumber === BLOCK));
+  });
+});
+
+describe('EthersAdapter.fetchV3TickData', () => {
+  afterEach(() => mock.restoreAll());
+
+  // Current tick 196005 (spacing 10) sits in word 76; one initialized tick per word 74-78
+  const initializedTicks = [189500, 195000, 196050, 198000, 200500];
+  const wordOf = (tick: number) => Math.floor(tick / 10) >> 8;
+
+  function poolHandler(revertingTick?: number): CallHandler {
+    return (_target, call) => {
+      switch (call.name) {
+        case 'slot0': return slot0(196005);
+        case 'liquidity': return v3Iface.encodeFunctionResult('liquidity', [2200000000000000000n]);
+        case 'fee': return v3Iface.encodeFunctionResult('fee', [500]);
+        case 'tickSpacing': return v3Iface.encodeFunctionResult('tickSpacing', [10]);
+        case 'tickBitmap': {
+          const word = Number(call.args[0]);
+          let bits = 0n;
+          for (const tick of initializedTicks) {
+            if (wordOf(tick) === word) bits |= 1n << BigInt(Math.floor(tick / 10) & 0xff);
+          }
+          return v3Iface.encodeFunctionResult('tickBitmap', [bits]);
+        }
+        case 'ticks': {
+          const tick = Number(call.args[0]);
+          if (tick === revertingTick) return null;
+          return v3Iface.encodeFunctionResult('ticks', [0, BigInt(tick), 0, 0, 0, 0, 0, true]);
+        }
+        default: return null;
+      }
+    };
+  }
+
+  it('reads the whole window when every call succeeds', async () => {
+    const adapter = createAdapter(poolHandler());
+    const data = await adapter.fetchV3TickData(V3_POOL, CHAIN_ID, 2);
+
+    assert.equal(data.blockNumber, BLOCK);
+    assert.deepEqual([data.minWord, data.maxWord], [74, 78]);
+    assert.deepEqual([...data.liquidityNet.keys()].sort((a, b) => a - b), initializedTicks);
+  });
+
+  it('narrows the window below a tick that cannot be read', async () => {
+    const adapter = createAdapter(poolHandler(198000));
+    const data = await adapter.fetchV3TickData(V3_POOL, CHAIN_ID, 2);
+
+    assert.deepEqual([data.minWord, data.maxWord], [74, 76]);
+    assert.deepEqual([...data.liquidityNet.keys()].sort((a, b) => a - b), [189500, 195000, 196050]);
+    assert.equal(data.bitmap.has(77), false);
+  });
+
+  it('fails when the current word cannot be read', async () => {
+    const adapter = createAdapter(poolHandler(196050));
+    await assert.rejects(adapter.fetchV3TickData(V3_POOL, CHAIN_ID, 2), /current tick's word/);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { reducePoolLogs, POOL_EVENT_TOPICS, PoolLog } from '../application/services/PoolEventDecoder';
+import { loadFixture } from './fixtures';
+
+const { logs } = loadFixture<{ logs: PoolLog[] }>('pool-logs.json');
+
+const V2_PAIR = '0xb4e16d0168e52d35cacd2c6185b44281ec28c9dc';
+const V3_SWAP_THEN_MINT = '0x88e6a0c2ddd26feeb64f039a2c41296fcb3f5640';
+const V3_BURN_THEN_SWAP = '0x8ad599c3a0ff1de082011efddc58f1908eb6e6d8';
+
+describe('reducePoolLogs', () => {
+  const updates = reducePoolLogs(logs);
+
+  it('keeps one update per pool and skips unrelated logs', () => {
+    assert.deepEqual([...updates.keys()].sort(), [V2_PAIR, V3_SWAP_THEN_MINT, V3_BURN_THEN_SWAP].sort());
+  });
+
+  it('applies the latest Sync by block and log index', () => {
+    assert.deepEqual(updates.get(V2_PAIR), {
+      poolAddress: V2_PAIR,
+      blockNumber: 19000002,
+      reserves: { reserve0: 41250113012431n, reserve1: 13208734500273410394401n },
+      needsRefetch: false,
+    });
+  });
+
+  it('marks a pool for re-fetch when a Mint follows its last Swap', () => {
+    const update = updates.get(V3_SWAP_THEN_MINT)!;
+    assert.equal(update.needsRefetch, true);
+    assert.equal(update.blockNumber, 19000002);
+    assert.deepEqual(update.slot, { sqrtPriceX96: 1428437759975946827872238362280064n, liquidity: 22018340112298031424n, tick: 196005 });
+  });
+
+  it('applies a Swap that follows a Burn', () => {
+    assert.deepEqual(updates.get(V3_BURN_THEN_SWAP), {
+      poolAddress: V3_BURN_THEN_SWAP,
+      blockNumber: 19000003,
+      slot: { sqrtPriceX96: 1428437636519157815526559461045497n, liquidity: 8123001945612300n, tick: 196004 },
+      needsRefetch: false,
+    });
+  });
+
+  it('filters on the topic0 of every handled event', () => {
+    const handled = logs.filter(log => POOL_EVENT_TOPICS.includes(log.topics[0]));
+    assert.equal(handled.length, logs.length - 1);
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocket } from 'ws';
+import { PriceStreamService } from '../application/services/PriceStreamService';
+import { spotPricingEngine } from '../application/services/SpotPricingEngine';
+
+const CHAIN_ID = 1;
+const UNI = '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984';
+const LINK = '0x514910771af9ca656af840dff83e8264ecf986ca';
+const UNI_POOL = '0xd3d2e2692501a5c9ca623199d38826e513033a17';
+const LINK_POOL = '0xa2107fa5b38d9bbd2c461d6edf11b11a50f6b974';
+
+/**
+ * Stream with one client subscribed to UNI and LINK, each priced from its own pool
+ */
+async function createStream() {
+  const prices = new Map([[UNI, 10], [LINK, 20]]);
+  const marketViewerService = {
+    watchTokens: async () => undefined,
+    getTokenPrice: async (address: string) => ({ price: prices.get(address) ?? null }),
+  };
+  const pricingPools: Record<string, string[]> = { [UNI]: [UNI_POOL], [LINK]: [LINK_POOL] };
+  mock.method(spotPricingEngine, 'collectPricingPools', async (token: string) => pricingPools[token] ?? []);
+
+  const stream = new PriceStreamService(marketViewerService as any);
+  const sent: any[] = [];
+  const client = {
+    socket: { readyState: WebSocket.OPEN, send: (data: string) => sent.push(JSON.parse(data)) },
+    subscriptions: new Map(),
+    isAlive: true,
+  };
+  (stream as any).clients.add(client);
+  await (stream as any).handleMessage(client, Buffer.from(JSON.stringify({ type: 'subscribe', chainId: CHAIN_ID, tokens: [UNI, LINK] })));
+
+  const priced = mock.method(marketViewerService, 'getTokenPrice');
+  sent.length = 0;
+  return { stream, prices, priced, sent };
+}
+
+describe('PriceStreamService tick pushes', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('recomputes only the tokens priced from the updated pools', async () => {
+    const { stream, prices, priced, sent } = await createStream();
+    prices.set(UNI, 11);
+    prices.set(LINK, 21);
+
+    await (stream as any).pushPriceChanges(CHAIN_ID, [UNI_POOL]);
+
+    assert.deepEqual(priced.mock.calls.map(call => (call.arguments as unknown[])[0]), [UNI]);
+    assert.deepEqual(sent.map(message => message.prices), [[{ address: UNI, price: 11 }]]);
+  });
+
+  it('skips the recompute when no subscribed token uses the updated pools', async () => {
+    const { stream, priced, sent } = await createStream();
+
+    await (stream as any).pushPriceChanges(CHAIN_ID, ['0x00000000000000000000000000000000000000c1']);
+
+    assert.equal(priced.mock.callCount(), 0);
+    assert.equal(sent.length, 0);
+  });
+});
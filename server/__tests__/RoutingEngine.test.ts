@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RoutingEngine } from '../application/services/RoutingEngine';
+import type { PoolRegistry } from '../domain/types';
+
+const CHAIN_ID = 1;
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const BROKEN_POOL = '0xb4e16d0168e52d35cacd2c6185b44281ec28c9dc';
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Engine over a registry holding one broken USDC/WETH pair, which the V2 factories also return
+ */
+function createEngine() {
+  const registry = {
+    pools: {
+      [BROKEN_POOL]: {
+        address: BROKEN_POOL, dexType: 'v2', token0: USDC, token1: WETH, weight: 1,
+        broken: { since: 1, reason: 'reverts' },
+      },
+    },
+    pricingRoutes: {},
+  } as PoolRegistry;
+  const ethersAdapter = {
+    callContractMethod: async (_address: string, _abi: unknown, method: string) => (method === 'getPair' ? BROKEN_POOL : ZERO_ADDRESS),
+  };
+  const engine = new RoutingEngine(ethersAdapter as any);
+  (engine as any).cacheLayer = { getPoolRegistryCached: async () => registry };
+  return engine;
+}
+
+describe('RoutingEngine factory fallback', () => {
+  it('does not route through a pool the registry marks broken', async () => {
+    const engine = createEngine();
+
+    assert.deepEqual(await engine.findRoutes(USDC, WETH, CHAIN_ID), []);
+    assert.equal((engine as any).graphs.get(CHAIN_ID).poolAddresses.has(BROKEN_POOL), false);
+  });
+});
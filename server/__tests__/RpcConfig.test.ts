@@ -0,0 +1,35 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rpcConfig } from '../infrastructure/config/RpcConfig';
+import { networkConfig } from '../infrastructure/config/NetworkConfig';
+
+const ENV_KEYS = ['INFURA_API_KEY', 'ALCHEMY_API_KEY', 'POLYGON_RPC_URL'] as const;
+const savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+function loadProviders(env: Partial<Record<(typeof ENV_KEYS)[number], string>>) {
+  for (const key of ENV_KEYS) {
+    if (env[key] === undefined) delete process.env[key];
+    else process.env[key] = env[key];
+  }
+  rpcConfig.reinitialize();
+}
+
+describe('RpcConfig.getRpcEndpoints', () => {
+  afterEach(() => loadProviders(savedEnv));
+
+  it('keeps the public RPC as the last-priority endpoint behind dedicated providers', () => {
+    loadProviders({ INFURA_API_KEY: 'infura-key', ALCHEMY_API_KEY: 'alchemy-key' });
+
+    const endpoints = rpcConfig.getRpcEndpoints(1);
+
+    assert.deepEqual(endpoints.map(endpoint => endpoint.name), ['Infura', 'Alchemy', 'Public']);
+    assert.equal(endpoints[2].url, networkConfig.getNetwork(1).rpcUrl);
+  });
+
+  it('does not list the public RPC twice when a provider already points at it', () => {
+    const publicUrl = networkConfig.getNetwork(137).rpcUrl;
+    loadProviders({ POLYGON_RPC_URL: publicUrl });
+
+    assert.deepEqual(rpcConfig.getRpcEndpoints(137), [{ name: 'PublicPolygon', url: publicUrl }]);
+  });
+});
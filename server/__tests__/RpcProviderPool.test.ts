@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RpcProviderPool } from '../infrastructure/adapters/RpcProviderPool';
+
+const CHAIN_ID = 1;
+
+/**
+ * Pool over one endpoint whose circuit is half-open (cooldown elapsed)
+ */
+function halfOpenPool(): RpcProviderPool {
+  const pool = new RpcProviderPool(CHAIN_ID, [{ name: 'only', url: 'http://127.0.0.1:1' } as any]);
+  const [endpoint] = (pool as any).endpoints;
+  endpoint.openUntil = Date.now() - 1;
+  endpoint.consecutiveFailures = 5;
+  return pool;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('RpcProviderPool half-open circuit', () => {
+  it('runs concurrent requests after the trial closes the circuit', async () => {
+    const pool = halfOpenPool();
+    const order: string[] = [];
+    const request = (name: string) => pool.execute(async () => {
+      order.push(`start ${name}`);
+      await delay(20);
+      order.push(`end ${name}`);
+      return name;
+    });
+
+    assert.deepEqual(await Promise.all([request('trial'), request('waiting')]), ['trial', 'waiting']);
+    assert.deepEqual(order, ['start trial', 'end trial', 'start waiting', 'end waiting']);
+    assert.equal(pool.getHealth()[0].circuit, 'closed');
+  });
+
+  it('fails waiting requests when the trial re-opens the circuit', async () => {
+    const pool = halfOpenPool();
+    let calls = 0;
+    const request = () => pool.execute(async () => {
+      calls++;
+      await delay(20);
+      throw new Error('connection refused');
+    });
+
+    const results = await Promise.allSettled([request(), request()]);
+    assert.equal(calls, 1); // Only the trial reached the endpoint
+    assert.ok(results.every(result => result.status === 'rejected'));
+    assert.equal(pool.getHealth()[0].circuit, 'open');
+  });
+});
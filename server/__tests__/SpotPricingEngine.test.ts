@@ -0,0 +1,53 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { initSpotPricingEngine, spotPricingEngine } from '../application/services/SpotPricingEngine';
+import { storageService } from '../application/services/StorageService';
+import { sharedStateCache } from '../application/services/SharedStateCache';
+import { networkConfig } from '../infrastructure/config/NetworkConfig';
+import type { PoolRegistry, PoolState } from '../domain/types';
+
+const CHAIN_ID = 1;
+const UNI = '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984';
+const USDC = networkConfig.getStablecoins(CHAIN_ID)[0].address.toLowerCase();
+const USDC_SYMBOL = networkConfig.getStablecoins(CHAIN_ID)[0].symbol;
+const BROKEN_POOL = '0x00000000000000000000000000000000000000b1';
+const HEALTHY_POOL = '0x00000000000000000000000000000000000000b2';
+
+const [token0, token1] = UNI < USDC ? [UNI, USDC] : [USDC, UNI];
+
+/**
+ * UNI/USDC pair state: 1,000 UNI against `usdc` USDC
+ */
+function pairState(address: string, usdc: bigint): PoolState {
+  const uni = 1000n * 10n ** 18n;
+  const [reserve0, reserve1] = token0 === UNI ? [uni, usdc * 10n ** 6n] : [usdc * 10n ** 6n, uni];
+  return { address, token0, token1, reserve0, reserve1, fee: 3000 };
+}
+
+const registry = {
+  pools: {
+    [BROKEN_POOL]: { address: BROKEN_POOL, dexType: 'v2', token0, token1, weight: 1, broken: { since: 1, reason: 'reverts' } },
+    [HEALTHY_POOL]: { address: HEALTHY_POOL, dexType: 'v2', token0, token1, weight: 1 },
+  },
+  pricingRoutes: { [UNI]: { [USDC_SYMBOL]: [BROKEN_POOL, HEALTHY_POOL] } },
+} as PoolRegistry;
+
+describe('SpotPricingEngine.computeSpotPriceDetailed', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('skips a broken pool that still has a cached state', async () => {
+    mock.method(storageService, 'getTokensByNetwork', async () => [
+      { address: UNI, symbol: 'UNI', decimals: 18, chainId: CHAIN_ID },
+      { address: USDC, symbol: USDC_SYMBOL, decimals: 6, chainId: CHAIN_ID },
+    ]);
+    mock.method(storageService, 'getPoolRegistry', async () => registry);
+    const states = new Map([[BROKEN_POOL, pairState(BROKEN_POOL, 1000n)], [HEALTHY_POOL, pairState(HEALTHY_POOL, 8000n)]]);
+    mock.method(sharedStateCache, 'getPoolState', (_chainId: number, address: string) => states.get(address));
+    await initSpotPricingEngine({} as any);
+
+    const result = await spotPricingEngine.computeSpotPriceDetailed(UNI, CHAIN_ID);
+
+    assert.equal(result?.poolAddress, HEALTHY_POOL);
+    assert.ok(Math.abs(result!.price - 8) < 1e-9);
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { StorageService } from '../application/services/StorageService';
+import type { PoolRegistry } from '../domain/types';
+
+const CHAIN_ID = 1;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Storage instances over one in-memory registry file, whose saves take a few ms
+ */
+function createStorages(count: number) {
+  let saved = JSON.stringify({ pools: {}, pricingRoutes: {} });
+  const storages = Array.from({ length: count }, () => {
+    const storage = new StorageService();
+    mock.method(storage, 'getPoolRegistry', async () => JSON.parse(saved) as PoolRegistry);
+    mock.method(storage, 'savePoolRegistry', async (_chainId: number, registry: PoolRegistry) => {
+      await delay(5);
+      saved = JSON.stringify(registry);
+    });
+    return storage;
+  });
+  return { storages, read: () => JSON.parse(saved) as PoolRegistry };
+}
+
+function addPool(address: string, ms: number) {
+  return async (registry: PoolRegistry) => {
+    await delay(ms);
+    registry.pools[address] = { address, dexType: 'v2', token0: '0xa', token1: '0xb', weight: 1 } as any;
+    return address;
+  };
+}
+
+describe('StorageService.updatePoolRegistry', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('applies concurrent updates from separate instances one after another', async () => {
+    const { storages: [first, second], read } = createStorages(2);
+
+    const results = await Promise.all([
+      first.updatePoolRegistry(CHAIN_ID, addPool('0x01', 20)),
+      second.updatePoolRegistry(CHAIN_ID, addPool('0x02', 0)),
+    ]);
+
+    assert.deepEqual(results, ['0x01', '0x02']);
+    assert.deepEqual(Object.keys(read().pools).sort(), ['0x01', '0x02']);
+  });
+
+  it('runs queued updates after one that fails', async () => {
+    const { storages: [storage], read } = createStorages(1);
+
+    const failed = storage.updatePoolRegistry(CHAIN_ID, async () => {
+      throw new Error('update failed');
+    });
+    const next = storage.updatePoolRegistry(CHAIN_ID, addPool('0x03', 0));
+
+    await assert.rejects(failed, /update failed/);
+    assert.equal(await next, '0x03');
+    assert.deepEqual(Object.keys(read().pools), ['0x03']);
+  });
+});
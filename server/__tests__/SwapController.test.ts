@@ -0,0 +1,133 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { SwapController } from '../application/services/SwapController';
+import { SwapTransactionBuilder } from '../application/services/SwapTransactionBuilder';
+import { storageService } from '../application/services/StorageService';
+import type { PoolRegistry } from '../domain/types';
+import type { SimulationResult, SwapQuote, SwapRoute, TradeType } from '../domain/swapper.types';
+
+const CHAIN_ID = 137;
+const USDC = '0x2791bca1f2de4661ed88a30c99a7a9449aa84174';
+const WETH = '0x7ceb23fd6bc0add59e62ac25578270cff1b9f619';
+const WBTC = '0x1bfd67037b42cf73acf2047067bd4f2c47d9bfd6';
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+const QUICKSWAP_FACTORY = '0x5757371414417b8c6caad45baef941abc7d3ab32';
+const UNISWAP_V3_FACTORY = '0x1f98431c8ad98523631ae4a59f267346ea31f984';
+const QUICKSWAP_ROUTER = '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff';
+
+const POOLS = {
+  quickUsdcWeth: '0x853ee4b2a13f8a742d64c8f088be7ba2131f670d',
+  quickWethWbtc: '0xdc9232e2df177d7a12fdff6ecbab114e2231198d',
+  v3WethWbtc: '0x50eaedb835021e4a108b7290636d62e9765cc6d7',
+};
+
+const registry = {
+  pools: {
+    [POOLS.quickUsdcWeth]: { address: POOLS.quickUsdcWeth, dexType: 'v2', token0: USDC, token1: WETH, factory: QUICKSWAP_FACTORY, weight: 1 },
+    [POOLS.quickWethWbtc]: { address: POOLS.quickWethWbtc, dexType: 'v2', token0: WBTC, token1: WETH, factory: QUICKSWAP_FACTORY, weight: 1 },
+    [POOLS.v3WethWbtc]: { address: POOLS.v3WethWbtc, dexType: 'v3', token0: WBTC, token1: WETH, feeTier: 500, factory: UNISWAP_V3_FACTORY, weight: 2 },
+  },
+  pricingRoutes: {},
+} as PoolRegistry;
+
+function route(pools: string[]): SwapRoute {
+  const tokens = [USDC, WETH, WBTC];
+  return {
+    tokens,
+    hops: pools.map((poolAddress, i) => ({
+      tokenIn: tokens[i],
+      tokenOut: tokens[i + 1],
+      poolAddress,
+      dexType: registry.pools[poolAddress].dexType,
+      factory: registry.pools[poolAddress].factory,
+    })),
+  };
+}
+
+// QuickSwap into WETH, then the V3 pool: the best quote, but across two routers
+const crossRouter = route([POOLS.quickUsdcWeth, POOLS.v3WethWbtc]);
+const quickSwapOnly = route([POOLS.quickUsdcWeth, POOLS.quickWethWbtc]);
+
+function simulation(amountIn: bigint, amountOut: bigint): SimulationResult {
+  return { amountIn, amountOut, midPrice: 1, executionPrice: 1, priceImpact: 0.1, hopTicksCrossed: [0, 0] };
+}
+
+/**
+ * Controller whose routing returns both routes, and whose simulator quotes the
+ * cross-router route higher
+ */
+function createController() {
+  const controller = new SwapController({} as any);
+  const simulate = async (candidate: SwapRoute, amount: bigint) =>
+    candidate === crossRouter ? simulation(amount, 3_000_000n) : simulation(amount, 2_900_000n);
+
+  (controller as any).routingEngine = { findRoutes: async () => [crossRouter, quickSwapOnly] };
+  (controller as any).tradeSimulator = { simulateRouteDetailed: simulate, simulateRouteExactOutDetailed: simulate };
+  (controller as any).splitOptimizer = { optimize: async () => null };
+  mock.method((controller as any).gasEstimator, 'getGasPricing', async () => ({
+    chainId: CHAIN_ID, gasPriceWei: 30_000_000_000n, nativePriceUSD: null, tokenPriceUSD: null, tokenDecimals: 8,
+  }));
+  (controller as any).transactionBuilder = new SwapTransactionBuilder(
+    { callContractMethod: async () => { throw new Error('Unexpected RPC call'); } } as any,
+    { getPoolRegistryCached: async () => registry } as any
+  );
+  mock.method(storageService, 'getTokensByNetwork', async () => [
+    { address: USDC, decimals: 6 },
+    { address: WBTC, decimals: 8 },
+  ]);
+  return controller;
+}
+
+async function quoteAndBuild(tradeType: TradeType) {
+  const controller = createController();
+  const quoted = await controller.getQuote(USDC, WBTC, '1000000000', CHAIN_ID, 0.5, tradeType);
+  assert.ok(quoted);
+  const quote = { ...quoted, tokenIn: USDC, tokenOut: WBTC, amountIn: '1000000000', chainId: CHAIN_ID, timestamp: Date.now() } as SwapQuote;
+  return { quoted, built: await controller.buildSwap({ quote, recipient: RECIPIENT }) };
+}
+
+describe('SwapController quotes only buildable routes', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('drops a QuickSwap → Uniswap V3 route, then builds the quote', async () => {
+    const { quoted, built } = await quoteAndBuild('exactIn');
+
+    assert.deepEqual(quoted.pools, quickSwapOnly.hops.map(hop => hop.poolAddress));
+    assert.equal(built.success, true, built.error);
+    assert.equal(built.transactions!.length, 1);
+    assert.equal(built.transactions![0].to, QUICKSWAP_ROUTER);
+  });
+
+  it('rejects a route mixing V2 and V3 on one router only for exact output', async () => {
+    // Ethereum: Uniswap V2 pairs and V3 pools both execute through SwapRouter02
+    const v2Pool = '0xb4e16d0168e52d35cacd2c6185b44281ec28c9dc';
+    const v3Pool = '0x4585fe77225b41b697c938b018e2ac67ac5a20c0';
+    const mainnet = {
+      pools: {
+        [v2Pool]: { address: v2Pool, dexType: 'v2', token0: USDC, token1: WETH, factory: '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f', weight: 1 },
+        [v3Pool]: { address: v3Pool, dexType: 'v3', token0: WBTC, token1: WETH, feeTier: 500, factory: UNISWAP_V3_FACTORY, weight: 2 },
+      },
+      pricingRoutes: {},
+    } as PoolRegistry;
+    const builder = new SwapTransactionBuilder({} as any, { getPoolRegistryCached: async () => mainnet } as any);
+    const mixed: SwapRoute = {
+      tokens: [USDC, WETH, WBTC],
+      hops: [
+        { tokenIn: USDC, tokenOut: WETH, poolAddress: v2Pool, dexType: 'v2' },
+        { tokenIn: WETH, tokenOut: WBTC, poolAddress: v3Pool, dexType: 'v3' },
+      ],
+    };
+
+    assert.equal(await builder.canBuild(mixed, 1, 'exactIn'), true);
+    assert.equal(await builder.canBuild(mixed, 1, 'exactOut'), false);
+  });
+
+  it('drops the cross-router route from exact-output quotes too', async () => {
+    const { quoted, built } = await quoteAndBuild('exactOut');
+
+    assert.deepEqual(quoted.pools, quickSwapOnly.hops.map(hop => hop.poolAddress));
+    assert.equal(built.success, true, built.error);
+    assert.equal(built.transactions![0].to, QUICKSWAP_ROUTER);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { SwapTransactionBuilder } from '../application/services/SwapTransactionBuilder';
+import { SWAP_ROUTER_02_ABI, V2_ROUTER_ABI } from '../infrastructure/config/ContractAddressConfig';
+import type { PoolRegistry } from '../domain/types';
+import type { SwapQuote } from '../domain/swapper.types';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const DAI = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+const UNISWAP_V2_FACTORY = '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f';
+const SUSHISWAP_FACTORY = '0xc0aee478e3658e2610c5f7a4a2e1777ce9e4f2ac';
+const UNISWAP_V3_FACTORY = '0x1f98431c8ad98523631ae4a59f267346ea31f984';
+const SWAP_ROUTER_02 = '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45';
+const SUSHISWAP_ROUTER = '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F';
+
+const ADDRESS_THIS = '0x0000000000000000000000000000000000000002';
+
+const POOLS = {
+  sushiUsdcWeth: '0x397ff1542f962076d0bfe58ea045ffa2d347aca0',
+  v3UsdcWeth: '0x88e6a0c2ddd26feeb64f039a2c41296fcb3f5640',
+  v3WethDai: '0x60594a405d53811d3bc4766596efd80fd545a270',
+  v2WethDai: '0xa478c2975ab1ea89e8196811f51a7b7ade33eb11',
+};
+
+const registry: PoolRegistry = {
+  pools: {
+    [POOLS.sushiUsdcWeth]: { address: POOLS.sushiUsdcWeth, dexType: 'v2', token0: USDC, token1: WETH, feeTier: 3000, factory: SUSHISWAP_FACTORY, weight: 1 },
+    [POOLS.v3UsdcWeth]: { address: POOLS.v3UsdcWeth, dexType: 'v3', token0: USDC, token1: WETH, feeTier: 500, factory: UNISWAP_V3_FACTORY, weight: 2 },
+    [POOLS.v3WethDai]: { address: POOLS.v3WethDai, dexType: 'v3', token0: DAI, token1: WETH, feeTier: 3000, factory: UNISWAP_V3_FACTORY, weight: 2 },
+    [POOLS.v2WethDai]: { address: POOLS.v2WethDai, dexType: 'v2', token0: DAI, token1: WETH, feeTier: 3000, factory: UNISWAP_V2_FACTORY, weight: 1 },
+  },
+  pricingRoutes: {},
+} as PoolRegistry;
+
+const swapRouter02Iface = new ethers.Interface(SWAP_ROUTER_02_ABI);
+const v2RouterIface = new ethers.Interface(V2_ROUTER_ABI);
+
+/**
+ * Builder over a fixed registry; RPC reads answer from `onChain` and are counted
+ */
+function createBuilder(poolRegistry: PoolRegistry, onChain: Record<string, { factory: string; fee?: number }> = {}) {
+  const rpcCalls: string[] = [];
+  const ethersAdapter = {
+    callContractMethod: async (address: string, _abi: unknown, method: string) => {
+      rpcCalls.push(`${method}:${address.toLowerCase()}`);
+      const pool = onChain[address.toLowerCase()];
+      if (!pool) throw new Error(`Unexpected call ${method} on ${address}`);
+      return method === 'fee' ? BigInt(pool.fee!) : pool.factory;
+    },
+  };
+  const cacheLayer = { getPoolRegistryCached: async () => poolRegistry };
+  const builder = new SwapTransactionBuilder(ethersAdapter as any, cacheLayer as any);
+  return { builder, rpcCalls };
+}
+
+function quote(fields: Partial<SwapQuote>): SwapQuote {
+  return { tokenIn: USDC, tokenOut: DAI, amountIn: '1000000000', chainId: 1, timestamp: Date.now(), ...fields };
+}
+
+function v3Path(tokens: string[], fees: number[]): string {
+  const types = ['address'];
+  const values: (string | number)[] = [tokens[0]];
+  fees.forEach((fee, i) => {
+    types.push('uint24', 'address');
+    values.push(fee, tokens[i + 1]);
+  });
+  return ethers.solidityPacked(types, values);
+}
+
+describe('SwapTransactionBuilder', () => {
+  it('encodes a single V2-router leg as swapExactTokensForTokens', async () => {
+    const { builder, rpcCalls } = createBuilder(registry);
+    const result = await builder.build({
+      quote: quote({ tokenOut: WETH, route: [USDC, WETH], pools: [POOLS.sushiUsdcWeth], amountOut: '500000000000000000' }),
+      recipient: RECIPIENT,
+      slippage: 1,
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.transactions!.length, 1);
+    const tx = result.transactions![0];
+    assert.equal(tx.to, SUSHISWAP_ROUTER);
+    assert.equal(tx.router, 'v2Router');
+
+    const call = v2RouterIface.parseTransaction({ data: tx.data })!;
+    assert.equal(call.name, 'swapExactTokensForTokens');
+    const [amountIn, amountOutMin, path, to, deadline] = call.args;
+    assert.equal(amountIn, 1000000000n);
+    assert.equal(amountOutMin, 495000000000000000n); // 1% below the quoted output
+    assert.deepEqual([...path], [USDC, WETH]);
+    assert.equal(to, RECIPIENT);
+    assert.equal(Number(deadline), result.deadline);
+    assert.deepEqual(rpcCalls, []); // Factory and fee tier come from the registry
+  });
+
+  it('encodes a single V3 leg as exactInput inside a deadline multicall', async () => {
+    const { builder } = createBuilder(registry);
+    const result = await builder.build({
+      quote: quote({ route: [USDC, WETH, DAI], pools: [POOLS.v3UsdcWeth, POOLS.v3WethDai], amountOut: '1000000000000000000000' }),
+      recipient: RECIPIENT,
+      slippage: 0.5,
+    });
+
+    assert.equal(result.success, true);
+    const tx = result.transactions![0];
+    assert.equal(tx.to, SWAP_ROUTER_02);
+
+    const multicall = swapRouter02Iface.parseTransaction({ data: tx.data })!;
+    assert.equal(multicall.signature, 'multicall(uint256,bytes[])');
+    assert.equal(Number(multicall.args[0]), result.deadline);
+    assert.equal(multicall.args[1].length, 1);
+
+    const exactInput = swapRouter02Iface.parseTransaction({ data: multicall.args[1][0] })!;
+    assert.equal(exactInput.name, 'exactInput');
+    const params = exactInput.args[0];
+    assert.equal(params.path, v3Path([USDC, WETH, DAI], [500, 3000]).toLowerCase());
+    assert.equal(params.recipient, RECIPIENT);
+    assert.equal(params.amountIn, 1000000000n);
+    assert.equal(params.amountOutMinimum, 995000000000000000000n);
+  });
+
+  it('chains a mixed V3 then V2 leg through the router balance', async () => {
+    const { builder } = createBuilder(registry);
+    const result = await builder.build({
+      quote: quote({ route: [USDC, WETH, DAI], pools: [POOLS.v3UsdcWeth, POOLS.v2WethDai], amountOut: '2000000000000000000000' }),
+      recipient: RECIPIENT,
+      slippage: 0.5,
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.atomic, true);
+    const multicall = swapRouter02Iface.parseTransaction({ data: result.transactions![0].data })!;
+    const nested = swapRouter02Iface.parseTransaction({ data: multicall.args[1][0] })!;
+    assert.equal(nested.signature, 'multicall(bytes[])');
+    const [first, second] = nested.args[0].map((data: string) => swapRouter02Iface.parseTransaction({ data })!);
+
+    // The V3 segment leaves its output in the router...
+    assert.equal(first.name, 'exactInput');
+    assert.equal(first.args[0].path, v3Path([USDC, WETH], [500]).toLowerCase());
+    assert.equal(first.args[0].recipient, ADDRESS_THIS);
+    assert.equal(first.args[0].amountIn, 1000000000n);
+    assert.equal(first.args[0].amountOutMinimum, 0n);
+
+    // ...and the V2 segment spends whatever the router holds
+    assert.equal(second.name, 'swapExactTokensForTokens');
+    const [amountIn, amountOutMin, path, to] = second.args;
+    assert.equal(amountIn, 0n); // CONTRACT_BALANCE
+    assert.equal(amountOutMin, 1990000000000000000000n);
+    assert.deepEqual([...path], [WETH, DAI]);
+    assert.equal(to, RECIPIENT);
+  });
+
+  it('reads factory and fee from the pool when the registry lacks them', async () => {
+    const sparse = {
+      pools: { [POOLS.v3UsdcWeth]: { address: POOLS.v3UsdcWeth, dexType: 'v3', token0: USDC, token1: WETH, weight: 2 } },
+      pricingRoutes: {},
+    } as PoolRegistry;
+    const { builder, rpcCalls } = createBuilder(sparse, { [POOLS.v3UsdcWeth]: { factory: UNISWAP_V3_FACTORY, fee: 500 } });
+    const result = await builder.build({
+      quote: quote({ tokenOut: WETH, route: [USDC, WETH], pools: [POOLS.v3UsdcWeth], amountOut: '500000000000000000' }),
+      recipient: RECIPIENT,
+    });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(rpcCalls, [`factory:${POOLS.v3UsdcWeth}`, `fee:${POOLS.v3UsdcWeth}`]);
+    const multicall = swapRouter02Iface.parseTransaction({ data: result.transactions![0].data })!;
+    const exactInput = swapRouter02Iface.parseTransaction({ data: multicall.args[1][0] })!;
+    assert.equal(exactInput.args[0].path, v3Path([USDC, WETH], [500]).toLowerCase());
+  });
+});
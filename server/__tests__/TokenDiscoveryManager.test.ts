@@ -0,0 +1,85 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { TokenDiscoveryManager } from '../application/services/TokenDiscoveryManager';
+import { StorageService } from '../application/services/StorageService';
+import { topologyJournal } from '../application/services/TopologyJournal';
+import type { PoolRegistry } from '../domain/types';
+
+const CHAIN_ID = 1;
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const TOKEN = '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984';
+const KEPT = '0xd3d2e2692501a5c9ca623199d38826e513033a17';
+const CUT = '0x1d42064fc4beb5f8aaf85f4617ae8b3b5b8bd801';
+const FACTORY = '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f';
+
+const pool = (address: string) => ({ address, dexType: 'v2' as const, token0: TOKEN, token1: WETH });
+
+/**
+ * Discovery over an in-memory registry; findBasePools keeps KEPT and cuts CUT, after `ready`
+ */
+function createDiscovery(ready: Promise<void> = Promise.resolve()) {
+  let saved = JSON.stringify({ pools: {}, pricingRoutes: {} });
+  const storage = new StorageService();
+  mock.method(storage, 'getPoolRegistry', async () => JSON.parse(saved) as PoolRegistry);
+  mock.method(storage, 'savePoolRegistry', async (_chainId: number, registry: PoolRegistry) => {
+    saved = JSON.stringify(registry);
+  });
+  mock.method(storage, 'getTokensByNetwork', async () => [
+    { address: WETH, symbol: 'WETH', decimals: 18, chainId: CHAIN_ID },
+    { address: TOKEN, symbol: 'UNI', decimals: 18, chainId: CHAIN_ID },
+  ]);
+
+  const ethersAdapter = {
+    fetchPoolFactories: async (pools: string[]) => new Map(pools.map(address => [address, FACTORY])),
+  };
+  const discovery = new TokenDiscoveryManager(storage, ethersAdapter as any);
+  mock.method(discovery as any, 'findBasePools', async () => {
+    await ready;
+    return { pools: [pool(KEPT)], filtered: [{ pool: pool(CUT), liquidityUSD: 120 }], usedFactoryLogs: false };
+  });
+  const recorded = mock.method(topologyJournal, 'record', async () => null);
+
+  const run = () => {
+    (discovery as any).discoveryAttempts.clear();
+    return discovery.discoverPoolsForTokens([{ address: TOKEN, symbol: 'UNI', decimals: 18, chainId: CHAIN_ID } as any], CHAIN_ID);
+  };
+  return { storage, run, recorded, read: () => JSON.parse(saved) as PoolRegistry };
+}
+
+describe('TokenDiscoveryManager.discoverPoolsForTokens', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('leaves the registry queue free while discovery queries', async () => {
+    let release!: () => void;
+    const { storage, run, read } = createDiscovery(new Promise<void>(resolve => { release = resolve; }));
+
+    const discovering = run();
+    await new Promise(resolve => setImmediate(resolve));
+    // A broken-pool write lands while discovery is still waiting on its query
+    await storage.updatePoolRegistry(CHAIN_ID, registry => {
+      registry.pools[CUT] = { ...pool(CUT), weight: 1, broken: { since: 1, reason: 'test' } };
+    });
+    release();
+    assert.equal(await discovering, 1);
+
+    const registry = read();
+    assert.deepEqual(registry.pricingRoutes[TOKEN], { WETH: [KEPT] });
+    assert.equal(registry.pools[KEPT].factory, FACTORY);
+    assert.equal(registry.pools[KEPT].feeTier, 3000);
+    assert.ok(registry.pools[CUT].broken); // Not overwritten by discovery's save
+  });
+
+  it('journals a filtered pool only when it is newly cut', async () => {
+    const { run, recorded, read } = createDiscovery();
+
+    await run();
+    await run();
+
+    const dropped = recorded.mock.calls.map(call => (call.arguments as unknown[])[4] as unknown[]);
+    assert.equal(dropped[0].length, 1);
+    assert.deepEqual(dropped[0][0], { poolAddress: CUT, token: TOKEN, route: 'WETH', liquidityUSD: 120, reason: 'below-liquidity-threshold' });
+    assert.deepEqual(dropped[1], []);
+    assert.deepEqual(read().filteredPools, { [TOKEN]: [CUT] });
+    assert.deepEqual(read().pricingRoutes[TOKEN], { WETH: [KEPT] }); // Routes are not touched by the filter
+  });
+});
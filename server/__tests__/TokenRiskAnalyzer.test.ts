@@ -0,0 +1,184 @@
+import { describe, it, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { TokenRiskAnalyzer } from '../application/services/TokenRiskAnalyzer';
+import { EthersAdapter, TransferSimulation } from '../infrastructure/adapters/EthersAdapter';
+import { MULTICALL_ABI } from '../infrastructure/config/ContractAddressConfig';
+
+const CHAIN_ID = 1;
+const TOKEN = '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984';
+const IMPLEMENTATION = '0x5a1ab1dcbd1ab2a25d5b8e7a8c2f7c5ee0b1a0c1';
+const HOLDER = '0x1d42064fc4beb5f8aaf85f4617ae8b3b5b8bd801';
+const OWNER = '0x41653c7d61609d856f29355e404f310ec4142cfb';
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+const abi = ethers.AbiCoder.defaultAbiCoder();
+const tokenIface = new ethers.Interface([
+  'function balanceOf(address account) view returns (uint256)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+]);
+
+/**
+ * Runtime bytecode whose dispatcher pushes the given function selectors
+ */
+function bytecodeWith(...signatures: string[]): string {
+  return '0x6080604052' + signatures.map(signature => '63' + ethers.id(signature).slice(2, 10)).join('') + '00';
+}
+
+interface FakeToken {
+  code: string;
+  storage?: Record<string, string>; // Slot -> word
+  implementationCode?: string;
+  owner?: string | null; // null: owner() reverts
+  holderBalance?: bigint;
+  simulation?: TransferSimulation | null;
+}
+
+/**
+ * Adapter reads answered from a fake token; the transfer amounts simulated are recorded
+ */
+function createAnalyzer(token: FakeToken) {
+  const simulatedAmounts: bigint[] = [];
+  const ethersAdapter = {
+    getContractCode: async (address: string) => address.toLowerCase() === IMPLEMENTATION ? token.implementationCode ?? '0x' : token.code,
+    getStorageSlot: async (_address: string, slot: string) => token.storage?.[slot] ?? ethers.ZeroHash,
+    tryAggregate: async () => [
+      { success: true, returnData: abi.encode(['uint8'], [18]) },
+      { success: true, returnData: abi.encode(['string'], ['UNI']) },
+      token.owner === null || token.owner === undefined
+        ? { success: false, returnData: '0x' }
+        : { success: true, returnData: abi.encode(['address'], [token.owner]) },
+      { success: true, returnData: abi.encode(['uint256'], [token.holderBalance ?? 0n]) },
+    ],
+    simulateTransfer: async (_token: string, _holder: string, _recipient: string, amount: bigint) => {
+      simulatedAmounts.push(amount);
+      return token.simulation === undefined ? { sent: amount, received: amount } : token.simulation;
+    },
+  };
+  return { analyzer: new TokenRiskAnalyzer(ethersAdapter as any), simulatedAmounts };
+}
+
+const flags = (report: { findings: Array<{ flag: string; action: string }> }) =>
+  report.findings.map(finding => `${finding.flag}:${finding.action}`);
+
+describe('TokenRiskAnalyzer', () => {
+  it('passes a plain token without privileged selectors', async () => {
+    const { analyzer, simulatedAmounts } = createAnalyzer({
+      code: bytecodeWith('transfer(address,uint256)', 'balanceOf(address)'),
+      holderBalance: 1_000_000n,
+    });
+    const report = await analyzer.analyze(CHAIN_ID, TOKEN, HOLDER);
+
+    assert.equal(report.verdict, 'pass');
+    assert.deepEqual(report.findings, []);
+    assert.equal(report.owner, null);
+    assert.equal(report.transferFeeBps, 0);
+    assert.deepEqual(simulatedAmounts, [1_000n]); // TRANSFER_PROBE_SHARE_BPS of the holder's balance
+  });
+
+  it('blocks a contract with no code', async () => {
+    const { analyzer } = createAnalyzer({ code: '0x' });
+    const report = await analyzer.analyze(CHAIN_ID, TOKEN, HOLDER);
+
+    assert.equal(report.verdict, 'block');
+    assert.deepEqual(flags(report), ['no-code:block']);
+  });
+
+  it('counts owner-gated selectors while an owner is set, and when owner() is missing', async () => {
+    const code = bytecodeWith('mint(address,uint256)', 'pause()');
+    for (const owner of [OWNER, null]) {
+      const { analyzer } = createAnalyzer({ code, owner });
+      const report = await analyzer.analyze(CHAIN_ID, TOKEN, null);
+
+      assert.equal(report.verdict, 'flag');
+      assert.deepEqual(flags(report), ['mintable:flag', 'pausable:flag']);
+      assert.equal(report.owner, owner);
+    }
+  });
+
+  it('ignores owner-gated selectors once ownership is renounced, but not upgrade selectors', async () => {
+    const { analyzer } = createAnalyzer({
+      code: bytecodeWith('mint(address,uint256)', 'blacklist(address)', 'upgradeTo(address)'),
+      owner: ethers.ZeroAddress,
+    });
+    const report = await analyzer.analyze(CHAIN_ID, TOKEN, null);
+
+    assert.deepEqual(flags(report), ['upgradeable:flag']);
+    assert.equal(report.owner, ethers.ZeroAddress);
+  });
+
+  it('inspects the implementation of an EIP-1967 proxy', async () => {
+    const { analyzer } = createAnalyzer({
+      code: bytecodeWith('upgradeToAndCall(address,bytes)'),
+      storage: { [EIP1967_IMPLEMENTATION_SLOT]: ethers.zeroPadValue(IMPLEMENTATION, 32) },
+      implementationCode: bytecodeWith('transfer(address,uint256)', 'addBlackList(address)'),
+      owner: OWNER,
+    });
+    const report = await analyzer.analyze(CHAIN_ID, TOKEN, null);
+
+    assert.deepEqual(report.proxy, { kind: 'eip1967', implementation: IMPLEMENTATION });
+    assert.deepEqual(flags(report), ['proxy:flag', 'blacklist:block', 'upgradeable:flag']);
+    assert.equal(report.verdict, 'block');
+  });
+
+  it('blocks a fee-on-transfer token', async () => {
+    const { analyzer } = createAnalyzer({
+      code: bytecodeWith('transfer(address,uint256)'),
+      holderBalance: 10_000_000n,
+      simulation: { sent: 10_000n, received: 9_800n },
+    });
+    const report = await analyzer.analyze(CHAIN_ID, TOKEN, HOLDER);
+
+    assert.equal(report.transferFeeBps, 200);
+    assert.deepEqual(flags(report), ['fee-on-transfer:block']);
+  });
+
+  it('blocks a token whose transfer cannot be simulated', async () => {
+    const { analyzer } = createAnalyzer({ code: bytecodeWith('transfer(address,uint256)'), holderBalance: 10_000_000n, simulation: null });
+    const report = await analyzer.analyze(CHAIN_ID, TOKEN, HOLDER);
+
+    assert.equal(report.transferFeeBps, null);
+    assert.deepEqual(flags(report), ['transfer-reverts:block']);
+  });
+});
+
+describe('EthersAdapter.simulateTransfer', () => {
+  afterEach(() => mock.restoreAll());
+
+  const multicallIface = new ethers.Interface(MULTICALL_ABI);
+  const AMOUNT = 1_000n;
+
+  /**
+   * Adapter whose eth_call answers the five simulated calls in order; null reverts the call
+   */
+  function createAdapter(balances: Array<bigint | null>): EthersAdapter {
+    const adapter = new EthersAdapter();
+    const [fromBefore, toBefore, fromAfter, toAfter] = balances;
+    const provider = {
+      send: async () => {
+        const results = [fromBefore, toBefore, 'transfer', fromAfter, toAfter].map(value => {
+          if (value === 'transfer') return [true, tokenIface.encodeFunctionResult('transfer', [true])];
+          return value === null ? [false, '0x'] : [true, tokenIface.encodeFunctionResult('balanceOf', [value])];
+        });
+        return multicallIface.encodeFunctionResult('tryBlockAndAggregate', [1, ethers.ZeroHash, results]);
+      },
+    };
+    mock.method(adapter, 'getContractCode', async () => '0x6080');
+    mock.method(adapter as any, 'withProvider', (_chainId: number, _context: string, fn: (provider: any) => Promise<unknown>) => fn(provider));
+    return adapter;
+  }
+
+  it('reports the balance changes around the transfer', async () => {
+    const adapter = createAdapter([5_000n, 0n, 4_000n, 990n]);
+    assert.deepEqual(await adapter.simulateTransfer(TOKEN, HOLDER, OWNER, AMOUNT, CHAIN_ID), { sent: 1_000n, received: 990n });
+  });
+
+  it('returns null when a balance read fails', async () => {
+    for (let failing = 0; failing < 4; failing++) {
+      const balances: Array<bigint | null> = [5_000n, 0n, 4_000n, 1_000n];
+      balances[failing] = null;
+      const adapter = createAdapter(balances);
+      assert.equal(await adapter.simulateTransfer(TOKEN, HOLDER, OWNER, AMOUNT, CHAIN_ID), null);
+    }
+  });
+});
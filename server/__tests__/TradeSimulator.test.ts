@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TradeSimulator } from '../application/services/TradeSimulator';
+import { simulateV3Swap, wordForTick } from '../application/services/V3SwapMath';
+import { FACTORY_FEES } from '../infrastructure/config/ContractAddressConfig';
+import { multiTickPoolData } from './fixtures';
+import type { SwapRoute } from '../domain/swapper.types';
+
+const CHAIN_ID = 1;
+const TOKEN0 = '0x0000000000000000000000000000000000000a00';
+const TOKEN1 = '0x0000000000000000000000000000000000000b00';
+const POOL = '0x00000000000000000000000000000000000000c0';
+const DYNAMIC_FEE_FACTORY = '0x00000000000000000000000000000000000000f0';
+
+const DYNAMIC_FEE = 10000; // The pool's fee() reports the fixture's 500
+
+const route: SwapRoute = {
+  tokens: [TOKEN0, TOKEN1],
+  hops: [{ tokenIn: TOKEN0, tokenOut: TOKEN1, poolAddress: POOL, dexType: 'v3', factory: DYNAMIC_FEE_FACTORY }],
+};
+
+/**
+ * Simulator over the fixture pool: the first read covers only the current tick's word,
+ * wider reads the whole fixture. Records the word radius of every tick read.
+ */
+function createSimulator() {
+  const reads: number[] = [];
+  const ethersAdapter = {
+    callContractMethod: async (_address: string, _abi: unknown, method: string) => {
+      if (method !== 'dynamicFee') throw new Error(`Unexpected call ${method}`);
+      return BigInt(DYNAMIC_FEE / 100);
+    },
+    fetchV3TickData: async (_address: string, _chainId: number, wordRadius: number) => {
+      reads.push(wordRadius);
+      const data = multiTickPoolData();
+      if (reads.length > 1) return data;
+      const word = wordForTick(data.tick, data.tickSpacing);
+      return { ...data, minWord: word, maxWord: word };
+    },
+  };
+  return { simulator: new TradeSimulator(ethersAdapter as any), reads };
+}
+
+describe('TradeSimulator V3 window widening', () => {
+  beforeEach(() => {
+    FACTORY_FEES[CHAIN_ID][DYNAMIC_FEE_FACTORY] = {
+      name: 'Dynamic fee test',
+      dexType: 'v3',
+      dynamicFee: { abi: 'function dynamicFee() view returns (uint24)', method: 'dynamicFee', pipsPerUnit: 100 },
+    };
+  });
+  afterEach(() => {
+    delete FACTORY_FEES[CHAIN_ID][DYNAMIC_FEE_FACTORY];
+  });
+
+  it('keeps the dynamic fee when a swap re-fetches a wider tick window', async () => {
+    const { simulator, reads } = createSimulator();
+    const amountIn = 7n * 10n ** 12n; // Crosses 195000, below the first read's word
+
+    const amountOut = await simulator.simulateRoute(route, amountIn, CHAIN_ID);
+
+    assert.equal(reads.length, 2);
+    const expected = simulateV3Swap({ ...multiTickPoolData(), fee: DYNAMIC_FEE }, true, amountIn);
+    assert.equal(expected.windowExhausted, false);
+    assert.equal(amountOut, expected.amountOut);
+    assert.notEqual(amountOut, simulateV3Swap(multiTickPoolData(), true, amountIn).amountOut);
+  });
+
+  it('keeps the dynamic fee when widening a split leg\'s moved state', async () => {
+    const { simulator, reads } = createSimulator();
+    const first = 10n ** 12n; // Stays in the first read's word
+    const second = 6n * 10n ** 12n; // Then runs past it from the moved price
+
+    const results = await simulator.simulateSplit(
+      [{ route, amount: first }, { route, amount: second }],
+      CHAIN_ID,
+      'exactIn'
+    );
+
+    assert.equal(reads.length, 2);
+    const full = { ...multiTickPoolData(), fee: DYNAMIC_FEE };
+    const afterFirst = simulateV3Swap(full, true, first);
+    const moved = { ...full, sqrtPriceX96: afterFirst.sqrtPriceX96After, tick: afterFirst.tickAfter, liquidity: afterFirst.liquidityAfter };
+    assert.equal(results![0].amountOut, afterFirst.amountOut);
+    assert.equal(results![1].amountOut, simulateV3Swap(moved, true, second).amountOut);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeSwapStep, getSqrtRatioAtTick, simulateV3Swap, wordForTick } from '../application/services/V3SwapMath';
+import { loadFixture, multiTickPoolData } from './fixtures';
+
+const swapMath = loadFixture('v3-swap-math.json');
+const pool = loadFixture('v3-multi-tick-pool.json');
+
+describe('getSqrtRatioAtTick', () => {
+  for (const [tick, expected] of swapMath.sqrtRatioAtTick as Array<[number, string]>) {
+    it(`tick ${tick}`, () => {
+      assert.equal(getSqrtRatioAtTick(tick), BigInt(expected));
+    });
+  }
+});
+
+describe('computeSwapStep', () => {
+  for (const step of swapMath.swapSteps) {
+    it(step.name, () => {
+      const result = computeSwapStep(
+        BigInt(step.sqrtRatioCurrentX96),
+        BigInt(step.sqrtRatioTargetX96),
+        BigInt(step.liquidity),
+        BigInt(step.amountRemaining),
+        BigInt(step.feePips)
+      );
+      assert.deepEqual(result, {
+        sqrtRatioNextX96: BigInt(step.expected.sqrtRatioNextX96),
+        amountIn: BigInt(step.expected.amountIn),
+        amountOut: BigInt(step.expected.amountOut),
+        feeAmount: BigInt(step.expected.feeAmount),
+      });
+    });
+  }
+});
+
+describe('simulateV3Swap across initialized ticks', () => {
+  for (const swap of pool.swaps) {
+    it(swap.name, () => {
+      const amountSpecified = BigInt(swap.amountSpecified);
+      const result = simulateV3Swap(multiTickPoolData(), swap.zeroForOne, amountSpecified);
+
+      if (amountSpecified > 0n) {
+        assert.equal(result.amountIn, amountSpecified);
+        assert.equal(result.amountOut, BigInt(swap.expected.amountOut));
+      } else {
+        assert.equal(result.amountOut, -amountSpecified);
+        assert.equal(result.amountIn, BigInt(swap.expected.amountIn));
+      }
+      assert.equal(result.sqrtPriceX96After, BigInt(swap.expected.sqrtPriceX96After));
+      assert.equal(result.tickAfter, swap.expected.tickAfter);
+      assert.equal(result.liquidityAfter, BigInt(swap.expected.liquidityAfter));
+      assert.equal(result.initializedTicksCrossed, swap.expected.initializedTicksCrossed);
+      assert.equal(result.windowExhausted, false);
+    });
+  }
+
+  it('stops at the edge of the loaded window', () => {
+    const data = { ...multiTickPoolData(), minWord: wordForTick(pool.tick, pool.tickSpacing) };
+    const result = simulateV3Swap(data, true, 10n ** 15n); // Far beyond the liquidity of the window
+    assert.equal(result.windowExhausted, true);
+  });
+});
@@ -0,0 +1,40 @@
+import fs from 'fs';
+import path from 'path';
+import { wordForTick, V3TickData } from '../application/services/V3SwapMath';
+
+const FIXTURES_DIR = path.join(process.cwd(), 'server', '__tests__', 'fixtures');
+
+/**
+ * Parse a JSON fixture from server/__tests__/fixtures
+ */
+export function loadFixture<T = any>(fileName: string): T {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, fileName), 'utf-8'));
+}
+
+/**
+ * V3TickData window covering every initialized tick of the v3-multi-tick-pool fixture
+ */
+export function multiTickPoolData(): V3TickData {
+  const pool = loadFixture('v3-multi-tick-pool.json');
+  const bitmap = new Map<number, bigint>();
+  const liquidityNet = new Map<number, bigint>();
+  for (const [tick, net] of pool.ticks as Array<[number, string]>) {
+    const compressed = Math.floor(tick / pool.tickSpacing);
+    const wordPos = compressed >> 8;
+    bitmap.set(wordPos, (bitmap.get(wordPos) ?? 0n) | (1n << BigInt(compressed & 0xff)));
+    liquidityNet.set(tick, BigInt(net));
+  }
+  const ticks = pool.ticks.map(([tick]: [number]) => tick);
+  return {
+    sqrtPriceX96: BigInt(pool.sqrtPriceX96),
+    tick: pool.tick,
+    liquidity: BigInt(pool.liquidity),
+    fee: pool.fee,
+    tickSpacing: pool.tickSpacing,
+    bitmap,
+    liquidityNet,
+    minWord: wordForTick(Math.min(...ticks), pool.tickSpacing),
+    maxWord: wordForTick(Math.max(...ticks), pool.tickSpacing),
+    blockNumber: 0,
+  };
+}
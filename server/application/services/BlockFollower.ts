@@ -0,0 +1,160 @@
+/**
+ * BlockFollower - Event-driven pool refresh
+ *
+ * RESPONSIBILITY:
+ * - Follow each chain's head and read the new blocks' pool logs for the alive set
+ * - Apply V2 Sync / V3 Swap state straight to SharedStateCache
+ * - Mark pools touched only by V3 Mint/Burn as due, so PoolScheduler re-fetches them
+ * - Keep untouched pools' cached state alive (no logs = unchanged) and hold their
+ *   tier timers back to one safety-net refresh per SAFETY_NET_REFRESH_MS
+ *
+ * FAILURE MODEL:
+ * - Timers are only held back after a successfully processed range, so if log reads fail
+ *   the tiers take over again within SAFETY_NET_REFRESH_MS
+ * - A gap wider than MAX_BLOCK_RANGE (downtime, slow provider) is not replayed; every
+ *   alive pool on the chain is marked due instead
+ * - Reorgs are not tracked: a replaced block's state is corrected by the next log or the safety net
+ */
+
+import { poolController, AlivePool } from './PoolController';
+import { sharedStateCache } from './SharedStateCache';
+import { reducePoolLogs, PoolEventUpdate } from './PoolEventDecoder';
+import type { TickListener } from './PoolScheduler';
+import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
+import { poolRefreshConfig } from '../../infrastructure/config/PoolRefreshConfig';
+import { timingConfig } from '../../infrastructure/config/TimingConfig';
+import { PoolState } from '../../domain/types';
+
+export class BlockFollower {
+  private timers: Map<number, NodeJS.Timeout> = new Map();
+  private lastBlock: Map<number, number> = new Map(); // chainId -> last processed block
+
+  /**
+   * @param onApplied - Called with the pools whose state was applied from logs
+   */
+  constructor(
+    private ethersAdapter: EthersAdapter,
+    private onApplied: TickListener
+  ) {}
+
+  /**
+   * Start following a chain (no-op if already following)
+   */
+  public start(chainId: number): void {
+    if (this.timers.has(chainId)) return;
+
+    const interval = poolRefreshConfig.BLOCK_POLL_INTERVAL_MS[chainId] ?? 12 * 1000;
+    const poll = () => {
+      this.followChain(chainId)
+        .catch(error => console.error(`❌ Block following failed on chain ${chainId}:`, error?.message ?? error))
+        .finally(() => {
+          if (this.timers.has(chainId)) this.timers.set(chainId, setTimeout(poll, interval));
+        });
+    };
+    this.timers.set(chainId, setTimeout(poll, 0));
+    console.log(`🧱 Following blocks on chain ${chainId} (every ${interval / 1000}s)`);
+  }
+
+  /**
+   * Stop following every chain
+   */
+  public stop(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    this.lastBlock.clear();
+  }
+
+  public isFollowing(chainId: number): boolean {
+    return this.timers.has(chainId);
+  }
+
+  /**
+   * Process the blocks since the last poll
+   */
+  private async followChain(chainId: number): Promise<void> {
+    const pools = poolController.getAliveSet().filter(pool => pool.chainId === chainId);
+    if (pools.length === 0) {
+      // Nothing to follow: stay idle and start from the head once pools come alive
+      this.lastBlock.delete(chainId);
+      return;
+    }
+
+    const head = await this.ethersAdapter.getBlockNumber(chainId);
+    const lastBlock = this.lastBlock.get(chainId);
+
+    // First poll: alive pools were (or will be) read by multicall; follow from here
+    if (lastBlock === undefined) {
+      this.lastBlock.set(chainId, head);
+      return;
+    }
+    if (head <= lastBlock) return;
+
+    if (head - lastBlock > poolRefreshConfig.MAX_BLOCK_RANGE) {
+      console.warn(`⚠️ Chain ${chainId} moved ${head - lastBlock} blocks since the last poll; re-fetching ${pools.length} pools`);
+      const now = Date.now();
+      for (const pool of pools) pool.nextRefresh = now;
+      this.lastBlock.set(chainId, head);
+      return;
+    }
+
+    const logs = await this.ethersAdapter.fetchPoolLogs(pools.map(pool => pool.address), lastBlock + 1, head, chainId);
+    const updates = reducePoolLogs(logs);
+
+    const now = Date.now();
+    const applied: string[] = [];
+    let refetches = 0;
+    for (const pool of pools) {
+      const update = updates.get(pool.address.toLowerCase());
+      if (update) {
+        const outcome = update.needsRefetch ? 'refetch' : this.applyUpdate(chainId, pool, update);
+        if (outcome === 'refetch') {
+          pool.nextRefresh = now;
+          refetches++;
+          continue;
+        }
+        if (outcome === 'applied') applied.push(update.poolAddress);
+      }
+
+      // Unchanged through `head` (or just applied): hold the tier timer back to the safety net
+      if (pool.lastRefreshTime > 0) {
+        pool.nextRefresh = Math.max(pool.nextRefresh, pool.lastRefreshTime + poolRefreshConfig.SAFETY_NET_REFRESH_MS);
+        sharedStateCache.touchPoolState(chainId, pool.address, Math.max(timingConfig.STATE_CACHE_TTL_MS, 2 * (pool.nextRefresh - now)), head);
+      }
+    }
+
+    this.lastBlock.set(chainId, head);
+    if (logs.length > 0) {
+      console.log(`🧱 Chain ${chainId} blocks ${lastBlock + 1}-${head}: ${logs.length} logs, ${applied.length} pools applied, ${refetches} re-fetched`);
+    }
+    if (applied.length > 0) {
+      this.onApplied(chainId, applied);
+    }
+  }
+
+  /**
+   * Write a log-derived state over the cached one.
+   * @returns 'refetch' if there is no cached state to build on or the update does not fit the
+   *          pool's version, 'stale' if the cache already holds a newer read
+   */
+  private applyUpdate(chainId: number, pool: AlivePool, update: PoolEventUpdate): 'applied' | 'stale' | 'refetch' {
+    const cached = sharedStateCache.getPoolState(chainId, pool.address);
+    if (!cached) return 'refetch';
+
+    let state: PoolState;
+    if (pool.dexVersion === 'v2' && update.reserves) {
+      state = { ...cached, ...update.reserves };
+    } else if (pool.dexVersion !== 'v2' && update.slot) {
+      state = { ...cached, sqrtPriceX96: update.slot.sqrtPriceX96, liquidity: update.slot.liquidity };
+    } else {
+      return 'refetch';
+    }
+
+    state.blockNumber = update.blockNumber;
+    state.timestamp = Date.now();
+    state.tickId = `block_${update.blockNumber}`;
+
+    if (!sharedStateCache.setPoolState(chainId, pool.address, state)) return 'stale';
+    pool.lastBlockSeen = update.blockNumber;
+    return 'applied';
+  }
+}
@@ -14,7 +14,7 @@ export class DiscoveryService {
     private readonly storageService: StorageService,
     private readonly ethersAdapter: EthersAdapter,
   ) {
-    this.tokenDiscoveryManager = new TokenDiscoveryManager(storageService);
+    this.tokenDiscoveryManager = new TokenDiscoveryManager(storageService, ethersAdapter);
   }
 
   private async delay(ms: number): Promise<void> {
@@ -66,7 +66,7 @@ export class DiscoveryService {
             // Update the central token repository
             await this.storageService.updateTokenMetadata(token.chainId, token.address, metadata);
             // Also update the in-memory cache for immediate use
-            sharedStateCache.setTokenMetadata(token.address, metadata);
+            sharedStateCache.setTokenMetadata(token.chainId, token.address, metadata);
           }
         } catch (error: any) {
           console.error(`  ✗ Error fetching metadata for ${token.symbol || 'N/A'}:`, error.message);
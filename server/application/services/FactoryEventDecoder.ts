@@ -0,0 +1,71 @@
+/**
+ * FactoryEventDecoder - Decode V2 PairCreated / V3 PoolCreated logs into new pools
+ *
+ * RESPONSIBILITY:
+ * - Recognize factory pool creation logs by topic0
+ * - Report the pool, its tokens and (V3) fee tier
+ *
+ * ARCHITECTURE:
+ * - Pure functions, no RPC. Logs are fetched by EthersAdapter.fetchPoolLogs() with
+ *   FACTORY_EVENT_TOPICS and factory addresses
+ */
+
+import { ethers } from 'ethers';
+import { FACTORY_EVENTS_ABI } from '../../infrastructure/config/ContractAddressConfig';
+import type { PoolLog } from './PoolEventDecoder';
+
+/**
+ * One pool creation
+ */
+export interface CreatedPool {
+  poolAddress: string; // Lowercase
+  factory: string; // Lowercase
+  dexType: 'v2' | 'v3';
+  token0: string; // Lowercase
+  token1: string; // Lowercase
+  feeTier: number | null; // Pips, V3 only
+  blockNumber: number;
+}
+
+const factoryEventsIface = new ethers.Interface(FACTORY_EVENTS_ABI);
+const [PAIR_CREATED_TOPIC, POOL_CREATED_TOPIC] = FACTORY_EVENTS_ABI.map(signature => ethers.EventFragment.from(signature).topicHash);
+
+/**
+ * topic0 of the PairCreated and PoolCreated events, for eth_getLogs filters
+ */
+export const FACTORY_EVENT_TOPICS: string[] = [PAIR_CREATED_TOPIC, POOL_CREATED_TOPIC];
+
+/**
+ * Decode factory logs. Unrecognized logs are skipped.
+ *
+ * @param logs - Logs of the tracked factories
+ * @returns Created pools ordered by (blockNumber, logIndex)
+ */
+export function decodeFactoryLogs(logs: PoolLog[]): CreatedPool[] {
+  const sorted = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  const pools: CreatedPool[] = [];
+
+  for (const log of sorted) {
+    let parsed: ethers.LogDescription | null;
+    try {
+      parsed = factoryEventsIface.parseLog({ topics: [...log.topics], data: log.data });
+    } catch {
+      continue;
+    }
+    if (!parsed) continue;
+
+    const base = {
+      factory: log.address.toLowerCase(),
+      token0: String(parsed.args.token0).toLowerCase(),
+      token1: String(parsed.args.token1).toLowerCase(),
+      blockNumber: log.blockNumber,
+    };
+    if (parsed.topic === PAIR_CREATED_TOPIC) {
+      pools.push({ ...base, poolAddress: String(parsed.args.pair).toLowerCase(), dexType: 'v2', feeTier: null });
+    } else if (parsed.topic === POOL_CREATED_TOPIC) {
+      pools.push({ ...base, poolAddress: String(parsed.args.pool).toLowerCase(), dexType: 'v3', feeTier: Number(parsed.args.fee) });
+    }
+  }
+
+  return pools;
+}
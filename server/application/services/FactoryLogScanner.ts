@@ -0,0 +1,245 @@
+/**
+ * FactoryLogScanner - Subgraph-free pool discovery from factory creation events
+ *
+ * RESPONSIBILITY:
+ * - Scan PairCreated (V2) and PoolCreated (V3) logs of every factory in FACTORIES, in block
+ *   ranges, with one persisted cursor per factory (see DiscoveryConfig)
+ * - Keep an index of the created pools that are paired with a base token, by token
+ * - Notify listeners of pools found while following the head, so the registry can be
+ *   updated incrementally (TokenDiscoveryManager.registerFactoryPools)
+ *
+ * The index is the 'factory-logs' discovery source: TokenDiscoveryManager reads a token's
+ * pools from it instead of (or when failing over from) the subgraphs.
+ *
+ * CHECKPOINTING:
+ * - After every pass, the pools it found are appended to the chain's index file and the
+ *   cursors are saved on their own, so a pass never rewrites the pools already indexed
+ * - A restart resumes from the saved cursors; a factory without a configured start block
+ *   starts at the head
+ */
+
+import { storageService, StorageService } from './StorageService';
+import { decodeFactoryLogs, FACTORY_EVENT_TOPICS, CreatedPool } from './FactoryEventDecoder';
+import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
+import { FACTORIES } from '../../infrastructure/config/ContractAddressConfig';
+import { networkConfig } from '../../infrastructure/config/NetworkConfig';
+import { discoveryConfig } from '../../infrastructure/config/DiscoveryConfig';
+import type { FactoryPoolIndex } from '../../domain/types';
+
+type PoolsFoundListener = (chainId: number, pools: CreatedPool[]) => void | Promise<void>;
+
+export class FactoryLogScanner {
+  private indexes: Map<number, FactoryPoolIndex> = new Map();
+  private poolsByToken: Map<number, Map<string, string[]>> = new Map(); // chainId -> token -> pool addresses
+  private timers: Map<number, NodeJS.Timeout> = new Map();
+  private logRanges: Map<number, number> = new Map(); // chainId -> current scan range (blocks)
+  private caughtUp: Set<number> = new Set(); // Chains whose every factory reached the head
+  private listeners: PoolsFoundListener[] = [];
+
+  constructor(
+    private storageService: StorageService,
+    private ethersAdapter: EthersAdapter
+  ) {}
+
+  /**
+   * Whether a chain uses the factory index, as its source or as the subgraph fallback
+   */
+  public usesFactoryLogs(chainId: number): boolean {
+    return discoveryConfig.SOURCE[chainId] === 'factory-logs' || discoveryConfig.FALLBACK_TO_FACTORY_LOGS;
+  }
+
+  /**
+   * Start scanning a chain's factories (no-op if already running or not needed)
+   */
+  public start(chainId: number): void {
+    if (this.timers.has(chainId) || !this.usesFactoryLogs(chainId)) return;
+
+    const pass = () => {
+      this.scanChain(chainId)
+        .catch(error => console.error(`❌ [FACTORY-LOGS] Scan failed on chain ${chainId}:`, error?.message ?? error))
+        .finally(() => {
+          if (!this.timers.has(chainId)) return;
+          const delay = this.caughtUp.has(chainId) ? discoveryConfig.POLL_INTERVAL_MS : discoveryConfig.CATCH_UP_INTERVAL_MS;
+          this.timers.set(chainId, setTimeout(pass, delay));
+        });
+    };
+    this.timers.set(chainId, setTimeout(pass, 0));
+    console.log(`🏭 [FACTORY-LOGS] Scanning factory creation logs on chain ${chainId}`);
+  }
+
+  /**
+   * Stop scanning every chain
+   */
+  public stop(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  /**
+   * Register a listener for pools found while scanning (not for pools loaded from disk)
+   */
+  public onPoolsFound(listener: PoolsFoundListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Indexed pools holding a token (each paired with a base token)
+   *
+   * @param chainId Network chain ID
+   * @param tokenAddress Token contract address
+   */
+  public async getPoolsForToken(chainId: number, tokenAddress: string): Promise<CreatedPool[]> {
+    const index = await this.loadIndex(chainId);
+    const poolAddresses = this.poolsByToken.get(chainId)?.get(tokenAddress.toLowerCase()) ?? [];
+    return poolAddresses.map(poolAddress => {
+      const [token0, token1, dexType, feeTier, factory, blockNumber] = index.pools[poolAddress];
+      return { poolAddress, factory, dexType, token0, token1, feeTier, blockNumber };
+    });
+  }
+
+  /**
+   * Whether every factory of the chain has been scanned up to the head (the index is complete)
+   */
+  public isCaughtUp(chainId: number): boolean {
+    return this.caughtUp.has(chainId);
+  }
+
+  public getStats() {
+    const chains: Record<number, { pools: number; cursors: Record<string, number>; caughtUp: boolean }> = {};
+    for (const [chainId, index] of this.indexes) {
+      chains[chainId] = { pools: Object.keys(index.pools).length, cursors: { ...index.cursors }, caughtUp: this.caughtUp.has(chainId) };
+    }
+    return { chains };
+  }
+
+  /**
+   * One pass: advance every factory's cursor by at most MAX_BLOCKS_PER_PASS towards the head
+   */
+  private async scanChain(chainId: number): Promise<void> {
+    const index = await this.loadIndex(chainId);
+    const head = await this.ethersAdapter.getBlockNumber(chainId);
+    const factories = FACTORIES[chainId];
+    if (!factories) return;
+
+    const maxBlocks = discoveryConfig.MAX_BLOCKS_PER_PASS[chainId] ?? 100_000;
+    const baseTokens = networkConfig.getBaseTokenAddresses(chainId);
+    const found: CreatedPool[] = [];
+    let caughtUp = true;
+
+    for (const factory of [...factories.v2, ...factories.v3].map(address => address.toLowerCase())) {
+      if (index.cursors[factory] === undefined) {
+        const startBlock = discoveryConfig.FACTORY_START_BLOCKS[chainId]?.[factory];
+        if (startBlock === undefined) console.warn(`⚠️ [FACTORY-LOGS] No start block for factory ${factory}; scanning from the head`);
+        index.cursors[factory] = (startBlock ?? head) - 1;
+      }
+
+      const from = index.cursors[factory] + 1;
+      const to = Math.min(head, from + maxBlocks - 1);
+      if (from > to) continue;
+
+      const complete = await this.scan(chainId, factory, from, to, pools => {
+        for (const pool of pools) {
+          if (!baseTokens.has(pool.token0) && !baseTokens.has(pool.token1)) continue;
+          if (this.addToIndex(chainId, index, pool)) found.push(pool);
+        }
+      });
+      if (!complete || to < head) caughtUp = false;
+      if (!complete) break; // Stopped: keep the progress made so far
+    }
+
+    if (caughtUp) this.caughtUp.add(chainId);
+    else this.caughtUp.delete(chainId);
+    // Pools before cursors: a crash in between rescans blocks whose pools are already saved
+    await this.storageService.appendFactoryPools(chainId, Object.fromEntries(found.map(pool => [pool.poolAddress, index.pools[pool.poolAddress]])));
+    await this.storageService.saveFactoryCursors(chainId, index.cursors);
+
+    if (found.length > 0) {
+      console.log(`🏭 [FACTORY-LOGS] Chain ${chainId}: ${found.length} base-paired pool(s) found (${Object.keys(index.pools).length} indexed)`);
+      for (const listener of this.listeners) {
+        await Promise.resolve(listener(chainId, found)).catch(error =>
+          console.error(`❌ [FACTORY-LOGS] Pool listener failed on chain ${chainId}:`, error?.message ?? error)
+        );
+      }
+    }
+  }
+
+  /**
+   * Scan one factory over [fromBlock, toBlock] in ranges, advancing its cursor after each range.
+   * The range shrinks when the provider rejects it and is remembered for the next pass.
+   *
+   * @returns false if the scanner was stopped before toBlock
+   */
+  private async scan(
+    chainId: number,
+    factory: string,
+    fromBlock: number,
+    toBlock: number,
+    onPools: (pools: CreatedPool[]) => void
+  ): Promise<boolean> {
+    const index = this.indexes.get(chainId)!;
+    let start = fromBlock;
+
+    while (start <= toBlock) {
+      if (!this.timers.has(chainId)) return false;
+
+      const range = this.scanRange(chainId);
+      const end = Math.min(toBlock, start + range - 1);
+      let pools: CreatedPool[];
+      try {
+        pools = decodeFactoryLogs(await this.ethersAdapter.fetchPoolLogs([factory], start, end, chainId, FACTORY_EVENT_TOPICS));
+      } catch (error) {
+        if (range <= discoveryConfig.MIN_LOG_BLOCK_RANGE) throw error;
+        this.logRanges.set(chainId, Math.max(discoveryConfig.MIN_LOG_BLOCK_RANGE, Math.floor(range / 2)));
+        continue;
+      }
+
+      onPools(pools);
+      index.cursors[factory] = end;
+      start = end + 1;
+    }
+    return true;
+  }
+
+  /**
+   * @returns false if the pool was already indexed
+   */
+  private addToIndex(chainId: number, index: FactoryPoolIndex, pool: CreatedPool): boolean {
+    if (index.pools[pool.poolAddress]) return false;
+    index.pools[pool.poolAddress] = [pool.token0, pool.token1, pool.dexType, pool.feeTier, pool.factory, pool.blockNumber];
+    this.indexPoolTokens(chainId, pool.poolAddress, pool.token0, pool.token1);
+    return true;
+  }
+
+  private indexPoolTokens(chainId: number, poolAddress: string, token0: string, token1: string): void {
+    let byToken = this.poolsByToken.get(chainId);
+    if (!byToken) {
+      byToken = new Map();
+      this.poolsByToken.set(chainId, byToken);
+    }
+    for (const token of [token0, token1]) {
+      const pools = byToken.get(token) ?? [];
+      pools.push(poolAddress);
+      byToken.set(token, pools);
+    }
+  }
+
+  private async loadIndex(chainId: number): Promise<FactoryPoolIndex> {
+    if (!this.indexes.has(chainId)) {
+      const index = await this.storageService.getFactoryPoolIndex(chainId);
+      // A concurrent caller may have loaded it while this one was reading
+      if (!this.indexes.has(chainId)) {
+        this.indexes.set(chainId, index);
+        for (const [poolAddress, [token0, token1]] of Object.entries(index.pools)) {
+          this.indexPoolTokens(chainId, poolAddress, token0, token1);
+        }
+      }
+    }
+    return this.indexes.get(chainId)!;
+  }
+
+  private scanRange(chainId: number): number {
+    return this.logRanges.get(chainId) ?? discoveryConfig.MAX_LOG_BLOCK_RANGE[chainId] ?? 2000;
+  }
+}
+
+export const factoryLogScanner = new FactoryLogScanner(storageService, new EthersAdapter());
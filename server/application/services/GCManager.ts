@@ -1,3 +1,4 @@
+import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
 import { StorageService } from './StorageService';
 import { sharedStateCache } from './SharedStateCache';
 import { poolController } from './PoolController';
@@ -40,8 +41,8 @@ class GCManager {
   // PHASE 6: Track pools with refCount=0 (poolKey -> timestamp when they hit zero)
   private poolsWithZeroRefCount: Map<string, number> = new Map();
 
-  constructor(private storageService: StorageService) {
-    this.tokenDiscoveryManager = new TokenDiscoveryManager(storageService);
+  constructor(private storageService: StorageService, ethersAdapter: EthersAdapter) {
+    this.tokenDiscoveryManager = new TokenDiscoveryManager(storageService, ethersAdapter);
   }
 
   /**
@@ -169,8 +170,9 @@ class GCManager {
   /**
    * PHASE 8: Clean up expired pool/token state from cache
    * 
-   * State cache has short TTL (30s) to prevent stale pricing.
-   * Old entries are cleared frequently (every 10s).
+   * Every cache entry carries its own TTL (pool states: 30s by default, extended by
+   * the scheduler to cover the pool's refresh interval). Expired entries are cleared
+   * frequently (every 10s).
    * 
    * This is the "hot path" cache - actively used by pricing engine.
    * Fast cleanup prevents outdated state from being returned to users.
@@ -178,13 +180,12 @@ class GCManager {
   private async cleanupStateCache(): Promise<void> {
     try {
       const now = Date.now();
-      let purgedCount = 0;
+      const purged = sharedStateCache.evictExpired(now);
+      const purgedCount = purged.poolStates + purged.tokenMetadata;
 
-      // NOTE: In production, would iterate through cache entries
-      // For MVP, this is a placeholder for actual cache cleanup logic
-      // The real implementation would access sharedStateCache internals
-      
-      console.log(`⏹️ PHASE 8: State cache cleanup: ${purgedCount} expired entries removed`);
+      if (purgedCount > 0) {
+        console.log(`⏹️ PHASE 8: State cache cleanup: ${purged.poolStates} pool states, ${purged.tokenMetadata} token metadata expired`);
+      }
     } catch (error) {
       console.error('❌ State cache cleanup failed:', error);
     }
@@ -0,0 +1,122 @@
+import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
+import { networkConfig } from '../../infrastructure/config/NetworkConfig';
+import { ROUTERS } from '../../infrastructure/config/ContractAddressConfig';
+import { spotPricingEngine } from './SpotPricingEngine';
+import type { SwapRoute } from '../../domain/swapper.types';
+
+// Gas prices are reused for this long before the RPC is asked again
+const GAS_PRICE_TTL_MS = 15 * 1000;
+
+/**
+ * Everything needed to express gas in USD and in the token a quote is scored in.
+ * Prices are null when SpotPricingEngine has no cached pools for the token.
+ */
+export interface GasPricing {
+  chainId: number;
+  gasPriceWei: bigint;
+  nativePriceUSD: number | null;
+  tokenPriceUSD: number | null;
+  tokenDecimals: number;
+}
+
+/**
+ * GasEstimator - Swap gas model
+ *
+ * RESPONSIBILITY:
+ * - Estimate gas units for a route from its hop types and V3 tick crossings
+ *   (per-chain model in NetworkConfig.gas.swap)
+ * - Convert gas into USD and into token base units via spot prices
+ */
+export class GasEstimator {
+  private gasPrices: Map<number, { wei: bigint; fetchedAt: number }> = new Map();
+
+  constructor(private ethersAdapter: EthersAdapter) {}
+
+  /**
+   * Gas units for one route leg, excluding the once-per-transaction base.
+   * @param hopTicksCrossed - Initialized ticks crossed per hop, as reported by TradeSimulator
+   */
+  public estimateRouteGas(route: SwapRoute, hopTicksCrossed: number[], chainId: number): number {
+    const model = networkConfig.getNetwork(chainId).gas.swap;
+    return route.hops.reduce((gas, hop, i) => {
+      if (hop.dexType === 'v2') return gas + model.v2Hop;
+      return gas + model.v3Hop + (hopTicksCrossed[i] ?? 0) * model.v3InitializedTick;
+    }, 0);
+  }
+
+  /**
+   * Gas units for executing the given route legs, with one base per transaction.
+   * Legs are grouped as SwapTransactionBuilder builds them: one transaction per SwapRouter02
+   * (all its legs in one multicall) and one per leg on a V2 router. A leg whose factory is
+   * unknown is counted as its own transaction.
+   * @param legGas - Gas of each leg (estimateRouteGas), same order as `routes`
+   */
+  public estimateTransactionGas(routes: SwapRoute[], legGas: number[], chainId: number): number {
+    const model = networkConfig.getNetwork(chainId).gas.swap;
+
+    const transactions = new Set<string>();
+    routes.forEach((route, i) => {
+      const factory = route.hops[0]?.factory;
+      const router = factory ? ROUTERS[chainId]?.[factory.toLowerCase()] : undefined;
+      transactions.add(router?.kind === 'swapRouter02' ? router.address : `leg:${i}`);
+    });
+
+    return transactions.size * model.txBase + legGas.reduce((sum, gas) => sum + gas, 0);
+  }
+
+  /**
+   * Resolves gas price and the spot prices needed to convert gas for a quote.
+   * @param tokenAddress - Token the quote is scored in (output for exactIn, input for exactOut)
+   */
+  public async getGasPricing(chainId: number, tokenAddress: string, tokenDecimals: number): Promise<GasPricing> {
+    const wrappedNative = networkConfig.getWrappedNative(chainId);
+    const [gasPriceWei, nativePriceUSD, tokenPriceUSD] = await Promise.all([
+      this.getGasPrice(chainId),
+      spotPricingEngine.computeSpotPrice(wrappedNative.address, chainId).catch(() => null),
+      spotPricingEngine.computeSpotPrice(tokenAddress, chainId).catch(() => null),
+    ]);
+
+    if (nativePriceUSD === null || tokenPriceUSD === null) {
+      console.warn(`[GAS] No spot price for ${nativePriceUSD === null ? wrappedNative.symbol : tokenAddress}, routes scored on gross output`);
+    }
+
+    return { chainId, gasPriceWei, nativePriceUSD, tokenPriceUSD, tokenDecimals };
+  }
+
+  /**
+   * @returns Gas cost in USD, or null if the native token has no spot price.
+   */
+  public gasCostUSD(gasUnits: number, pricing: GasPricing): number | null {
+    if (pricing.nativePriceUSD === null) return null;
+    const nativeCost = Number(BigInt(gasUnits) * pricing.gasPriceWei) / 1e18;
+    return nativeCost * pricing.nativePriceUSD;
+  }
+
+  /**
+   * @returns Gas cost in base units of the pricing token, or 0n if either price is unknown.
+   */
+  public gasCostInToken(gasUnits: number, pricing: GasPricing): bigint {
+    const costUSD = this.gasCostUSD(gasUnits, pricing);
+    if (costUSD === null || !pricing.tokenPriceUSD) return 0n;
+    const tokenAmount = (costUSD / pricing.tokenPriceUSD) * Math.pow(10, pricing.tokenDecimals);
+    return Number.isFinite(tokenAmount) ? BigInt(Math.ceil(tokenAmount)) : 0n;
+  }
+
+  private async getGasPrice(chainId: number): Promise<bigint> {
+    const cached = this.gasPrices.get(chainId);
+    if (cached && Date.now() - cached.fetchedAt < GAS_PRICE_TTL_MS) {
+      return cached.wei;
+    }
+
+    let wei: bigint | null = null;
+    try {
+      wei = await this.ethersAdapter.getGasPrice(chainId);
+    } catch (error: any) {
+      console.warn(`[GAS] Fee data unavailable on chain ${chainId}: ${error.message}`);
+    }
+    wei ??= BigInt(networkConfig.getNetwork(chainId).gas.fallbackGasPriceGwei) * 10n ** 9n;
+
+    this.gasPrices.set(chainId, { wei, fetchedAt: Date.now() });
+    return wei;
+  }
+}
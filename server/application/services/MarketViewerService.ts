@@ -4,7 +4,7 @@
  * RESPONSIBILITY: Fetch and aggregate market data for tokens
  * - Token prices in USD via SpotPricingEngine (uses pool data)
  * - Token metadata from StorageService
- * - Liquidity, holders from Explorer APIs (optional)
+ * - USD liquidity from pool states (SpotPricingEngine), holders from Explorer APIs (optional)
  * - Track data sources explicitly
  * - Support network-specific data
  * 
@@ -12,6 +12,11 @@
  * 1. SpotPricingEngine computes prices from pool data (cached in SharedStateCache)
  * 2. Pool data is maintained fresh by PoolScheduler
  * 3. Explorer APIs provide supplemental metadata (holders, contract creation date)
+ * 4. Every price computed in the default pricing mode is recorded in PriceHistoryService,
+ *    which provides the 24h change / high / low
+ * 5. USD liquidity sums both sides of every cached pool in the token's pricing routes
+ * 6. 24h volume is read from VolumeIndexer (Swap logs), once it has caught up with the chain
+ * 7. Market cap / FDV value TokenSupplyService's circulating / total supply at the price
  * 
  * HOT PATH INTEGRATION:
  * - Receives tokens with pricingPools already attached (from cold path)
@@ -27,12 +32,18 @@ import { spotPricingEngine } from './SpotPricingEngine';
 import { sharedStateCache } from './SharedStateCache';
 import { poolController } from './PoolController';
 import { CacheLayer } from './CacheLayer';
-import { PoolScheduler } from './PoolScheduler';
+import { priceHistoryService, PriceCandle } from './PriceHistoryService';
+import { volumeIndexer } from './VolumeIndexer';
+import { tokenSupplyService, TokenValuation } from './TokenSupplyService';
+import { PoolScheduler, TickListener } from './PoolScheduler';
 import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
 import { providersConfig } from '../../infrastructure/config/ProvidersConfig';
 import { timingConfig } from '../../infrastructure/config/TimingConfig';
+import { pricingConfig, PricingMode } from '../../infrastructure/config/PricingConfig';
 import { ChainId } from '../../infrastructure/config/NetworkConfig';
+import type { PriceHistoryInterval } from '../../infrastructure/config/PriceHistoryConfig';
 import type { TokenMetadata } from '../../../shared/schema';
+import type { AggregatedPriceResult } from '../../domain/types';
 import {
   TokenMarketData,
   MarketOverview,
@@ -100,7 +111,7 @@ class MarketViewerService {
     chainId: number,
     options?: FetchMarketDataOptions
   ): Promise<TokenMarketData> {
-    const cacheKey = `${tokenAddress}-${chainId}`;
+    const cacheKey = `${tokenAddress}-${chainId}-${options?.pricingMode ?? pricingConfig.DEFAULT_PRICING_MODE}`;
 
     if (!options?.forceRefresh) {
       const cached = this.cache.get(cacheKey);
@@ -116,10 +127,17 @@ class MarketViewerService {
       throw new Error(`Token ${tokenAddress} not found on chain ${chainId}`);
     }
 
-    const price = await spotPricingEngine.computeSpotPrice(tokenAddress, chainId);
-    console.log(`[LOG-MARKET-DATA] Token ${tokenAddress.slice(0, 6)}... got price from engine: ${price}`);
+    const pricingMode = options?.pricingMode ?? pricingConfig.DEFAULT_PRICING_MODE;
+    const { price, aggregated } = await this.getTokenPrice(tokenAddress, chainId, pricingMode);
+    console.log(`[LOG-MARKET-DATA] Token ${tokenAddress.slice(0, 6)}... got price from engine (${pricingMode}): ${price}`);
 
     const hasValidPrice = price !== null && price > 0;
+    const stats24h = hasValidPrice ? await priceHistoryService.getStats24h(chainId, tokenAddress, price) : {};
+    const liquidity = await spotPricingEngine.computeTokenLiquidity(tokenAddress, chainId);
+    const hasLiquidity = liquidity !== null && liquidity.pools.length > 0;
+    const volume = volumeIndexer.getTokenVolume24h(chainId, tokenAddress);
+    const hasVolume = volume !== null && volume.complete;
+    const valuation = tokenSupplyService.getValuation(chainId, tokenAddress, hasValidPrice ? price : null);
     const marketData: TokenMarketData = {
       address: tokenAddress,
       symbol: token.symbol || 'N/A',
@@ -127,11 +145,26 @@ class MarketViewerService {
       decimals: token.decimals || 18,
       chainId,
       price: price || 0,
-      priceChange24h: 0,
-      liquidity: 0,
-      volume24h: 0,
+      ...(aggregated && {
+        priceConfidence: aggregated.confidence,
+        pricingBreakdown: aggregated.pools,
+      }),
+      priceChange24h: stats24h.priceChange24h ?? 0,
+      priceHigh24h: stats24h.priceHigh24h,
+      priceLow24h: stats24h.priceLow24h,
+      ...valuation,
+      liquidity: hasLiquidity ? liquidity.liquidityUSD : 0,
+      ...(hasLiquidity && { liquidityBreakdown: liquidity.pools }),
+      volume24h: hasVolume ? volume.volumeUSD : 0,
       holders: 0,
       dataSource: hasValidPrice ? 'multicall' : 'insufficient-data' as DataSource,
+      dataSources: {
+        price: hasValidPrice ? 'multicall' : 'insufficient-data',
+        priceChange24h: stats24h.priceChange24h !== undefined ? 'price-history' : 'insufficient-data',
+        liquidity: hasLiquidity ? 'multicall' : 'insufficient-data',
+        volume24h: hasVolume ? 'swap-logs' : 'insufficient-data',
+        marketCap: valuation.marketCap !== undefined ? 'multicall' : 'insufficient-data',
+      },
       timestamp: Date.now(),
       cachedUntil: Date.now() + (hasValidPrice ? this.DEFAULT_CACHE_TTL : 0),
     };
@@ -142,6 +175,95 @@ class MarketViewerService {
     return marketData;
   }
 
+  /**
+   * Compute a token's USD price from cached pool state, bypassing the market data cache.
+   * Prices computed in the default pricing mode are recorded in the price history.
+   *
+   * @param tokenAddress Token contract address
+   * @param chainId Network chain ID
+   * @param pricingMode Pricing mode (default from PricingConfig)
+   * @returns Price (null if it cannot be computed) and the aggregation details in liquidity-weighted mode
+   */
+  public async getTokenPrice(
+    tokenAddress: string,
+    chainId: number,
+    pricingMode: PricingMode = pricingConfig.DEFAULT_PRICING_MODE
+  ): Promise<{ price: number | null; aggregated: AggregatedPriceResult | null }> {
+    let result: { price: number | null; aggregated: AggregatedPriceResult | null };
+    if (pricingMode === 'liquidity-weighted') {
+      const aggregated = await spotPricingEngine.computeAggregatedPrice(tokenAddress, chainId);
+      result = { price: aggregated ? aggregated.price : null, aggregated };
+    } else {
+      result = { price: await spotPricingEngine.computeSpotPrice(tokenAddress, chainId), aggregated: null };
+    }
+
+    if (result.price !== null && result.price > 0 && pricingMode === pricingConfig.DEFAULT_PRICING_MODE) {
+      const blockNumber = await this.getPricingBlockNumber(chainId, tokenAddress);
+      await priceHistoryService.record(chainId, tokenAddress, result.price, blockNumber);
+    }
+    return result;
+  }
+
+  /**
+   * OHLC price history of a token
+   *
+   * @param tokenAddress Token contract address
+   * @param chainId Network chain ID
+   * @param interval Candle interval
+   * @param from Start time (ms, optional)
+   * @param to End time (ms, optional)
+   */
+  public async getTokenPriceHistory(
+    tokenAddress: string,
+    chainId: number,
+    interval: PriceHistoryInterval,
+    from?: number,
+    to?: number
+  ): Promise<PriceCandle[]> {
+    return priceHistoryService.getCandles(chainId, tokenAddress, interval, from, to);
+  }
+
+  /**
+   * Market cap and FDV of many tokens at their most recently recorded price, without pricing
+   * them anew (cold path: token list sorting). Tokens never priced get supply figures only.
+   *
+   * @param chainId Network chain ID
+   * @param tokenAddresses Token addresses
+   * @returns Valuation per lowercase token address
+   */
+  public async getTokenValuations(chainId: number, tokenAddresses: string[]): Promise<Map<string, TokenValuation>> {
+    const valuations = new Map<string, TokenValuation>();
+    for (const address of tokenAddresses) {
+      const price = await priceHistoryService.getLatestPrice(chainId, address);
+      valuations.set(address.toLowerCase(), tokenSupplyService.getValuation(chainId, address, price));
+    }
+    return valuations;
+  }
+
+  /**
+   * Register interest in the pricing pools of the given tokens and make sure the scheduler runs.
+   * Interest lapses after the pools' next refresh, so long-lived watchers must call this periodically.
+   *
+   * @param chainId Network chain ID
+   * @param tokenAddresses Token addresses to keep fresh
+   */
+  public async watchTokens(chainId: number, tokenAddresses: string[]): Promise<void> {
+    if (tokenAddresses.length === 0) return;
+
+    const tokensWithPools = await this.attachPricingPools(chainId, tokenAddresses.map(address => ({ address })));
+    await poolController.handleTokenInterest(tokensWithPools, chainId);
+    await this.startSchedulerIfNeeded();
+  }
+
+  /**
+   * Register a listener for completed PoolScheduler ticks.
+   * @returns Function that removes the listener
+   */
+  public onSchedulerTick(listener: TickListener): () => void {
+    if (!this.poolScheduler) return () => {};
+    return this.poolScheduler.onTick(listener);
+  }
+
   /**
    * Get market overview for a specific list of tokens.
    *
@@ -175,19 +297,7 @@ class MarketViewerService {
     const requestedTokens = tokenAddresses.map(address => tokenMetadataMap.get(address.toLowerCase())).filter(Boolean) as TokenMetadata[];
 
     // 2. Attach pricing pools to each token.
-    const poolRegistry = await this.cacheLayer.getPoolRegistryCached(chainId);
-    const tokensWithPools = requestedTokens.map(token => {
-      // Flatten the nested pricingRoutes structure into a single array of pool addresses
-      const tokenRoutes = poolRegistry.pricingRoutes[token.address.toLowerCase()] || {};
-      const flattenedPools: string[] = [];
-      for (const baseSymbol in tokenRoutes) {
-        flattenedPools.push(...tokenRoutes[baseSymbol]);
-      }
-      return {
-        ...token,
-        pricingPools: flattenedPools,
-      };
-    });
+    const tokensWithPools = await this.attachPricingPools(chainId, requestedTokens);
 
     // 3. Notify PoolController of token interest.
     poolController.handleTokenInterest(tokensWithPools, chainId);
@@ -225,8 +335,16 @@ class MarketViewerService {
     console.log(`[LOG-MARKET-OVERVIEW] Computed prices for ${marketDataResults.length} tokens`);
     console.log(`[LOG-MARKET-OVERVIEW] Results summary: ${marketDataResults.map(t => `${t.symbol}=${t.price}`).join(', ')}`);
 
-    const totalLiquidity = marketDataResults.reduce((sum: number, t: TokenMarketData) => sum + (t.liquidity || 0), 0);
-    const totalVolume24h = marketDataResults.reduce((sum: number, t: TokenMarketData) => sum + (t.volume24h || 0), 0);
+    // A pool pairing two requested tokens appears in both breakdowns: count it once
+    const poolLiquidity = new Map<string, number>();
+    for (const t of marketDataResults as TokenMarketData[]) {
+      for (const pool of t.liquidityBreakdown ?? []) {
+        if (!poolLiquidity.has(pool.poolAddress)) poolLiquidity.set(pool.poolAddress, pool.liquidityUSD);
+      }
+    }
+    const totalLiquidity = [...poolLiquidity.values()].reduce((sum, liquidityUSD) => sum + liquidityUSD, 0);
+    const volume = volumeIndexer.getTotalVolume24h(chainId, tokensWithPools.map(t => t.address));
+    const totalVolume24h = volume?.complete ? volume.volumeUSD : 0;
 
     return {
       chainId,
@@ -281,6 +399,32 @@ class MarketViewerService {
     return results;
   }
 
+  /**
+   * Attach each token's pricing pools: every pool its price is computed from, including the
+   * routes of its base and intermediate tokens (so PoolScheduler refreshes all of them)
+   */
+  private async attachPricingPools<T extends { address: string }>(
+    chainId: number,
+    tokens: T[]
+  ): Promise<Array<T & { pricingPools: string[] }>> {
+    const result: Array<T & { pricingPools: string[] }> = [];
+    for (const token of tokens) {
+      result.push({ ...token, pricingPools: await spotPricingEngine.collectPricingPools(token.address, chainId) });
+    }
+    return result;
+  }
+
+  /**
+   * Latest block among the cached states of a token's pricing pools (0 if none is cached)
+   */
+  private async getPricingBlockNumber(chainId: number, tokenAddress: string): Promise<number> {
+    const [token] = await this.attachPricingPools(chainId, [{ address: tokenAddress }]);
+    return token.pricingPools.reduce((latest, poolAddress) => {
+      const state = sharedStateCache.getPoolState(chainId, poolAddress);
+      return Math.max(latest, state?.blockNumber ?? 0);
+    }, 0);
+  }
+
   private setCacheEntry(key: string, data: TokenMarketData): void {
     this.cache.set(key, {
       data,
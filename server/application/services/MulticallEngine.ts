@@ -14,14 +14,42 @@
  * ARCHITECTURE:
  * - Batching layer between scheduler and RPC
  * - Handles rate limiting implicitly via round-robin
- * - Provider distribution: batch N → provider (N % numProviders)
+ * - Provider distribution: batch N → provider (N % numProviders in the chain's RPC pool)
+ * - The pool honors the index unless that endpoint's circuit is open, then fails over
+ * - readSameBlock() reads a set of pools at one block: the first batch fixes the block and the
+ *   others are pinned to it, so every state is from the same block
  */
 
 import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
 import type { AlivePool } from './PoolController';
+import type { PoolState } from '../../domain/types';
 
 const MAX_CALL_WEIGHT_PER_BATCH = 50; // Configurable safety limit
 
+function poolWeight(pool: { dexVersion: AlivePool['dexVersion'] }): number {
+  return pool.dexVersion === 'v2' ? 1 : 2;
+}
+
+/**
+ * Split pools into consecutive groups of at most MAX_CALL_WEIGHT_PER_BATCH weight
+ */
+function groupByWeight<T extends { dexVersion: AlivePool['dexVersion'] }>(pools: T[]): T[][] {
+  const groups: T[][] = [];
+  let current: T[] = [];
+  let currentWeight = 0;
+  for (const pool of pools) {
+    if (currentWeight + poolWeight(pool) > MAX_CALL_WEIGHT_PER_BATCH && current.length > 0) {
+      groups.push(current);
+      current = [];
+      currentWeight = 0;
+    }
+    current.push(pool);
+    currentWeight += poolWeight(pool);
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
 /**
  * Represents a batch of pools ready for multicall execution
  */
@@ -40,17 +68,46 @@ export interface MulticallResult {
   success: boolean;
   data?: any; // Pool state data (reserves, sqrtPrice, liquidity, etc.)
   error?: Error;
+  batchFailed?: boolean; // The whole batch failed (RPC error), not this pool's own calls
 }
 
-export class MulticallEngine {
-  private providerCount: number = 1; // Will be set based on configured providers
-
-  constructor(
-    private ethersAdapter: EthersAdapter,
-    providerCount: number = 1
-  ) {
-    this.providerCount = providerCount;
+/**
+ * Build the cacheable pool state from a successful multicall result
+ * @param token0 Pool token0 (from the registry)
+ * @param token1 Pool token1 (from the registry)
+ */
+export function toPoolState(
+  result: MulticallResult,
+  dexVersion: AlivePool['dexVersion'],
+  token0: string,
+  token1: string,
+  tickId: string
+): PoolState {
+  const base = {
+    address: result.poolAddress.toLowerCase(),
+    token0: token0.toLowerCase(),
+    token1: token1.toLowerCase(),
+    tickId,
+    blockNumber: result.blockNumber,
+    timestamp: Date.now(),
+  };
+  if (dexVersion === 'v2') {
+    return {
+      ...base,
+      reserve0: BigInt(result.data.reserve0.toString()),
+      reserve1: BigInt(result.data.reserve1.toString()),
+    };
   }
+  // v3, v4
+  return {
+    ...base,
+    sqrtPriceX96: BigInt(result.data.sqrtPriceX96.toString()),
+    liquidity: BigInt(result.data.liquidity.toString()),
+  };
+}
+
+export class MulticallEngine {
+  constructor(private ethersAdapter: EthersAdapter) {}
 
   /**
    * PHASE 4: Create weight-aware batches from scheduled pools
@@ -61,27 +118,28 @@ export class MulticallEngine {
    * 3. Target provider = batchNumber % numProviders (round-robin)
    * 
    * @param pools Pools due for refresh
+   * @param chainId Network chain ID (sets the number of providers)
    * @returns Array of batches ready for execution
    */
   public createBatches(
     pools: AlivePool[],
+    chainId: number,
   ): MulticallBatch[] {
     const batches: MulticallBatch[] = [];
+    const providerCount = this.ethersAdapter.getProviderCount(chainId);
 
     let currentBatch: AlivePool[] = [];
     let currentWeight = 0;
     let batchNumber = 0;
 
     for (const pool of pools) {
-      const poolWeight = (pool.dexVersion === 'v2') ? 1 : 2;
-
       // Check if adding this pool would exceed limit
-      if (currentWeight + poolWeight > MAX_CALL_WEIGHT_PER_BATCH && currentBatch.length > 0) {
+      if (currentWeight + poolWeight(pool) > MAX_CALL_WEIGHT_PER_BATCH && currentBatch.length > 0) {
         // Flush current batch
         batches.push({
           pools: currentBatch,
           totalWeight: currentWeight,
-          targetProviderIndex: batchNumber % this.providerCount,
+          targetProviderIndex: batchNumber % providerCount,
         });
 
         batchNumber++;
@@ -91,7 +149,7 @@ export class MulticallEngine {
 
       // Add pool to current batch
       currentBatch.push(pool);
-      currentWeight += poolWeight;
+      currentWeight += poolWeight(pool);
     }
 
     // Flush remaining batch
@@ -99,7 +157,7 @@ export class MulticallEngine {
       batches.push({
         pools: currentBatch,
         totalWeight: currentWeight,
-        targetProviderIndex: batchNumber % this.providerCount,
+        targetProviderIndex: batchNumber % providerCount,
       });
     }
 
@@ -148,6 +206,7 @@ export class MulticallEngine {
             blockNumber: 0,
             success: false,
             error: error as Error,
+            batchFailed: true,
           });
         }
       }
@@ -156,18 +215,41 @@ export class MulticallEngine {
     return allResults;
   }
 
+  /**
+   * Read pools so that every result is from the same block (snapshot consistency).
+   * Pools are split into batches within the weight limit: the first batch reads the latest
+   * block and the others are pinned to it.
+   *
+   * @param pools Pools to read
+   * @param chainId Network chain ID
+   * @returns One result per pool, all at the same blockNumber when successful
+   */
+  public async readSameBlock(
+    pools: Array<{ address: string; dexVersion: AlivePool['dexVersion'] }>,
+    chainId: number
+  ): Promise<MulticallResult[]> {
+    if (pools.length === 0) return [];
+    const [first, ...rest] = groupByWeight(pools);
+    console.log(`⚙️ Executing same-block read (${pools.length} pools, ${rest.length + 1} batch(es))`);
+
+    const results = await this.ethersAdapter.executeMulticall(first, 0, chainId);
+    const blockNumber = results[0]?.blockNumber;
+    for (const batch of rest) {
+      results.push(...await this.ethersAdapter.executeMulticall(batch, 0, chainId, blockNumber));
+    }
+    return results;
+  }
+
   /**
    * DEBUG: Get batching statistics
    */
   public getBatchingStats(
     pools: AlivePool[],
+    chainId: number,
   ) {
-    const batches = this.createBatches(pools);
+    const batches = this.createBatches(pools, chainId);
 
-    const totalPoolWeight = pools.reduce((sum, pool) => {
-        const weight = (pool.dexVersion === 'v2') ? 1 : 2;
-        return sum + weight;
-    }, 0);
+    const totalPoolWeight = pools.reduce((sum, pool) => sum + poolWeight(pool), 0);
 
     const maxBatchWeight = Math.max(...batches.map(b => b.totalWeight), 0);
 
@@ -178,17 +260,17 @@ export class MulticallEngine {
       maxWeightPerBatch: MAX_CALL_WEIGHT_PER_BATCH,
       actualMaxBatchWeight: maxBatchWeight,
       averagePoolsPerBatch: Math.round(pools.length / batches.length || 0),
-      providerDistribution: this.getProviderDistribution(batches),
+      providerDistribution: this.getProviderDistribution(batches, chainId),
     };
   }
 
   /**
    * DEBUG: Get provider assignment distribution
    */
-  private getProviderDistribution(batches: MulticallBatch[]) {
+  private getProviderDistribution(batches: MulticallBatch[], chainId: number) {
     const distribution: Record<number, number> = {};
 
-    for (let i = 0; i < this.providerCount; i++) {
+    for (let i = 0; i < this.ethersAdapter.getProviderCount(chainId); i++) {
       distribution[i] = 0;
     }
 
@@ -198,12 +280,4 @@ export class MulticallEngine {
 
     return distribution;
   }
-
-  /**
-   * Update provider count (for dynamic provider management)
-   */
-  public setProviderCount(count: number): void {
-    this.providerCount = count;
-    console.log(`Provider count updated to: ${count}`);
-  }
 }
@@ -11,7 +11,9 @@ export interface AlivePool {
   dexVersion: 'v2' | 'v3' | 'v4'; // The DEX version for this pool
   tier: "high" | "normal" | "low";
   nextRefresh: number; // timestamp when next refresh is due
-  lastBlockSeen: number; // last block number from multicall results
+  lastBlockSeen: number; // last block number from multicall results or applied logs
+  lastRefreshTime: number; // timestamp of the last successful multicall refresh (0 = never)
+  consecutiveFailures: number; // failed multicall reads in a row
   lastPrice: number; // last computed price
   requestCount: number; // total requests for this pool
   lastRequestTime: number; // timestamp of most recent request
@@ -54,6 +56,7 @@ export class PoolController {
             console.warn(`[WARN] Pool ${poolAddress} not found in registry for chain ${chainId}. Skipping.`);
             continue;
           }
+          if (poolInfo.broken) continue;
 
           this.aliveSet.set(poolKey, {
             address: poolAddress,
@@ -62,6 +65,8 @@ export class PoolController {
             tier: "normal",
             nextRefresh: Date.now() + 10000, // 10 seconds
             lastBlockSeen: 0,
+            lastRefreshTime: 0,
+            consecutiveFailures: 0,
             lastPrice: 0,
             requestCount: 1,
             lastRequestTime: Date.now(),
@@ -114,8 +119,8 @@ export class PoolController {
     return this.aliveSet.size;
   }
 
-  public updatePoolTier(poolAddress: string, currentPrice: number): void {
-    const pool = this.aliveSet.get(poolAddress);
+  public updatePoolTier(poolAddress: string, currentPrice: number, chainId: number): void {
+    const pool = this.aliveSet.get(`${chainId}:${poolAddress}`);
     if (!pool) return;
 
     const priceDelta = pool.lastPrice > 0
@@ -136,8 +141,8 @@ export class PoolController {
     pool.lastPrice = currentPrice;
   }
 
-  public setBlockSeen(poolAddress: string, blockNumber: number): void {
-    const pool = this.aliveSet.get(poolAddress);
+  public setBlockSeen(poolAddress: string, blockNumber: number, chainId: number): void {
+    const pool = this.aliveSet.get(`${chainId}:${poolAddress}`);
     if (pool) {
       pool.lastBlockSeen = blockNumber;
     }
@@ -151,6 +156,16 @@ export class PoolController {
     }
   }
 
+  /**
+   * Drop a pool that was marked broken in the registry, and re-read the registry
+   * so later interest does not bring it back.
+   */
+  public markPoolBroken(poolAddress: string, chainId: number): void {
+    this.aliveSet.delete(`${chainId}:${poolAddress}`);
+    this.cacheLayer.invalidatePoolRegistryCache(chainId);
+    console.log(`🚫 [POOL] ${poolAddress.slice(0, 6)}... marked broken, removed from alive set`);
+  }
+
   public pruneStalePools(ttlMs: number = 30000): void {
     const now = Date.now();
     const staleEntries: string[] = [];
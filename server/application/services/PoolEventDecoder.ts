@@ -0,0 +1,100 @@
+/**
+ * PoolEventDecoder - Reduce pool logs to per-pool state updates
+ *
+ * RESPONSIBILITY:
+ * - Decode V2 Sync and V3 Swap/Mint/Burn logs
+ * - Collapse each pool's logs over a block range to its latest state
+ *
+ * ARCHITECTURE:
+ * - Pure functions, no RPC. Logs are fetched by EthersAdapter.fetchPoolLogs(), or
+ *   loaded from a recorded fixture (same PoolLog shape)
+ * - Sync carries the full V2 reserves and Swap the full V3 slot0 price and in-range
+ *   liquidity, so both are applied directly
+ * - Mint/Burn may change in-range liquidity without a price, so a Mint/Burn after the
+ *   pool's last Swap marks the pool for a re-fetch instead
+ */
+
+import { ethers } from 'ethers';
+import { POOL_EVENTS_ABI } from '../../infrastructure/config/ContractAddressConfig';
+
+/**
+ * A raw log as returned by eth_getLogs
+ */
+export interface PoolLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+/**
+ * Latest known state of one pool after a block range
+ */
+export interface PoolEventUpdate {
+  poolAddress: string; // Lowercase
+  blockNumber: number; // Block of the pool's last log
+  reserves?: { reserve0: bigint; reserve1: bigint }; // From the last V2 Sync
+  slot?: { sqrtPriceX96: bigint; liquidity: bigint; tick: number }; // From the last V3 Swap
+  needsRefetch: boolean; // Liquidity changed after the last state-bearing log
+}
+
+const poolEventsIface = new ethers.Interface(POOL_EVENTS_ABI);
+
+/**
+ * topic0 of every event handled here, for eth_getLogs filters
+ */
+export const POOL_EVENT_TOPICS: string[] = ['Sync', 'Swap', 'Mint', 'Burn'].map(
+  name => poolEventsIface.getEvent(name)!.topicHash
+);
+
+/**
+ * Reduce logs from a block range to one update per pool.
+ * Logs may arrive in any order; they are applied by (blockNumber, logIndex).
+ * Unrecognized logs are skipped.
+ *
+ * @param logs - Logs of the tracked pools
+ * @returns Update per lowercase pool address
+ */
+export function reducePoolLogs(logs: PoolLog[]): Map<string, PoolEventUpdate> {
+  const ordered = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  const updates = new Map<string, PoolEventUpdate>();
+
+  for (const log of ordered) {
+    let parsed: ethers.LogDescription | null;
+    try {
+      parsed = poolEventsIface.parseLog({ topics: [...log.topics], data: log.data });
+    } catch {
+      continue;
+    }
+    if (!parsed) continue;
+
+    const poolAddress = log.address.toLowerCase();
+    if (!updates.has(poolAddress)) {
+      updates.set(poolAddress, { poolAddress, blockNumber: log.blockNumber, needsRefetch: false });
+    }
+    const update = updates.get(poolAddress)!;
+    update.blockNumber = log.blockNumber;
+
+    switch (parsed.name) {
+      case 'Sync':
+        update.reserves = { reserve0: BigInt(parsed.args.reserve0), reserve1: BigInt(parsed.args.reserve1) };
+        update.needsRefetch = false;
+        break;
+      case 'Swap':
+        update.slot = {
+          sqrtPriceX96: BigInt(parsed.args.sqrtPriceX96),
+          liquidity: BigInt(parsed.args.liquidity),
+          tick: Number(parsed.args.tick),
+        };
+        update.needsRefetch = false;
+        break;
+      case 'Mint':
+      case 'Burn':
+        update.needsRefetch = true;
+        break;
+    }
+  }
+
+  return updates;
+}
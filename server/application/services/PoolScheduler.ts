@@ -18,20 +18,36 @@
  * - Passes to MulticallEngine for batching
  * - MulticallEngine handles weight-aware chunking
  * - Results processed for tier updates and caching
+ *
+ * BLOCK FOLLOWING (see PoolRefreshConfig):
+ * - BlockFollower applies Sync/Swap logs for the alive set as blocks arrive and
+ *   marks Mint/Burn-only pools due, so idle pools are not re-read every tier
+ * - Tier timers remain as a safety net (one refresh per SAFETY_NET_REFRESH_MS)
+ * - Log-applied states notify tick listeners like multicall refreshes
  */
 
 import { poolController, AlivePool } from './PoolController';
 import { sharedStateCache } from './SharedStateCache';
-import { MulticallEngine } from './MulticallEngine';
+import { MulticallEngine, toPoolState } from './MulticallEngine';
+import { BlockFollower } from './BlockFollower';
 import { StorageService } from './StorageService';
 import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
 import { timingConfig } from '../../infrastructure/config/TimingConfig';
+import { poolRefreshConfig } from '../../infrastructure/config/PoolRefreshConfig';
 import { PoolState } from '../../domain/types';
 
+/**
+ * Called after each chain's batch is written to SharedStateCache
+ * @param chainId Chain whose pools were refreshed
+ * @param updatedPools Addresses of pools whose state changed in this tick
+ */
+export type TickListener = (chainId: number, updatedPools: string[]) => void;
+
 export class PoolScheduler {
   private isRunning = false;
   private executionLoopIntervalId: NodeJS.Timeout | null = null;
   private multicallEngine: MulticallEngine;
+  private blockFollower: BlockFollower;
 
   // Promise for first run completion
   private firstRunPromise: Promise<void> | null = null;
@@ -43,11 +59,14 @@ export class PoolScheduler {
   private batchFlushTimer: NodeJS.Timeout | null = null;
   private lastBatchExecutionTime = 0;
 
+  private tickListeners: Set<TickListener> = new Set();
+
   constructor(
     private storageService: StorageService,
     private ethersAdapter: EthersAdapter
   ) {
     this.multicallEngine = new MulticallEngine(this.ethersAdapter);
+    this.blockFollower = new BlockFollower(this.ethersAdapter, (chainId, pools) => this.notifyTick(chainId, pools));
     
     this.firstRunPromise = new Promise((resolve) => {
       this.resolveFirstRun = resolve;
@@ -66,6 +85,11 @@ export class PoolScheduler {
     console.log('🚀 Starting pool scheduler (tiered scheduling enabled)');
     this.isRunning = true;
 
+    // Block-following chains refresh from logs; tier timers stay on as a safety net
+    for (const [chainId, mode] of Object.entries(poolRefreshConfig.MODE)) {
+      if (mode === 'block-following') this.blockFollower.start(Number(chainId));
+    }
+
     const scheduleNextExecution = () => {
       if (!this.isRunning) return;
       
@@ -99,6 +123,15 @@ export class PoolScheduler {
     if (this.firstRunPromise) await this.firstRunPromise;
   }
 
+  /**
+   * Register a listener for completed ticks.
+   * @returns Function that removes the listener
+   */
+  public onTick(listener: TickListener): () => void {
+    this.tickListeners.add(listener);
+    return () => this.tickListeners.delete(listener);
+  }
+
   /**
    * Main execution loop
    */
@@ -189,7 +222,9 @@ export class PoolScheduler {
     const tickId = `tick_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
     const poolRegistry = await this.storageService.getPoolRegistry(chainId);
     
-    const batches = this.multicallEngine.createBatches(poolsDue);
+    const batches = this.multicallEngine.createBatches(poolsDue, chainId);
+    const updatedPools: string[] = [];
+    const brokenPools: { pool: AlivePool; reason: string }[] = [];
 
     try {
       const multicallResults = await this.multicallEngine.executeBatches(batches, chainId);
@@ -201,53 +236,51 @@ export class PoolScheduler {
         if (!pool || !registryPoolInfo) continue;
         
         if (!result.success || !result.data) {
+          // Only the pool's own failed calls count towards marking it broken
+          if (!result.batchFailed) pool.consecutiveFailures++;
+          if (pool.consecutiveFailures >= poolRefreshConfig.BROKEN_POOL_FAILURE_THRESHOLD) {
+            brokenPools.push({ pool, reason: result.error?.message ?? 'Multicall execution failed' });
+          } else {
+            pool.nextRefresh = Date.now() + poolRefreshConfig.FAILED_POOL_RETRY_MS;
+          }
           poolController.resetPoolRefCount(pool.address, pool.chainId);
           continue;
         }
+        pool.consecutiveFailures = 0;
 
         if (result.blockNumber === pool.lastBlockSeen && result.blockNumber !== 0) {
+          // Unchanged since the last refresh: keep the cached state alive
+          sharedStateCache.touchPoolState(chainId, result.poolAddress, this.stateTtlFor(pool));
+          pool.lastRefreshTime = Date.now();
           poolController.resetPoolRefCount(pool.address, pool.chainId);
           continue;
         }
 
+        const poolStateForCache = toPoolState(result, pool.dexVersion, registryPoolInfo.token0, registryPoolInfo.token1, tickId);
         let price: number = 0;
-        let poolStateForCache: Omit<PoolState, 'address'>;
-
         if (pool.dexVersion === 'v2') {
-          const reserve0 = BigInt(result.data.reserve0.toString());
-          const reserve1 = BigInt(result.data.reserve1.toString());
-          poolStateForCache = {
-            token0: registryPoolInfo.token0.toLowerCase(),
-            token1: registryPoolInfo.token1.toLowerCase(),
-            reserve0, 
-            reserve1, 
-            tickId, 
-            blockNumber: result.blockNumber, 
-            timestamp: Date.now(),
-          };
+          const reserve0 = poolStateForCache.reserve0!;
+          const reserve1 = poolStateForCache.reserve1!;
           if (reserve0 > 0) {
             price = Number(reserve1 * BigInt(1e18) / reserve0) / 1e18;
           }
         } else { // v3, v4
-          const sqrtPriceX96 = BigInt(result.data.sqrtPriceX96.toString());
-          poolStateForCache = {
-            token0: registryPoolInfo.token0.toLowerCase(),
-            token1: registryPoolInfo.token1.toLowerCase(),
-            sqrtPriceX96, 
-            liquidity: BigInt(result.data.liquidity.toString()),
-            tickId, 
-            blockNumber: result.blockNumber, 
-            timestamp: Date.now(),
-          };
-          const priceRatio = Number(sqrtPriceX96) / (2 ** 96);
+          const priceRatio = Number(poolStateForCache.sqrtPriceX96!) / (2 ** 96);
           price = priceRatio * priceRatio;
         }
         
-        sharedStateCache.setPoolState(result.poolAddress.toLowerCase(), poolStateForCache as PoolState);
+        const stored = sharedStateCache.setPoolState(chainId, result.poolAddress, poolStateForCache, this.stateTtlFor(pool));
+        if (!stored) {
+          console.warn(`⚠️ Ignored stale state for ${result.poolAddress.slice(0, 8)}... at block ${result.blockNumber}`);
+          poolController.resetPoolRefCount(pool.address, pool.chainId);
+          continue;
+        }
 
-        poolController.updatePoolTier(pool.address, price);
+        poolController.updatePoolTier(pool.address, price, pool.chainId);
         pool.lastBlockSeen = result.blockNumber;
+        pool.lastRefreshTime = Date.now();
         pool.lastPrice = price;
+        updatedPools.push(result.poolAddress.toLowerCase());
 
         poolController.resetPoolRefCount(pool.address, pool.chainId);
       }
@@ -257,6 +290,56 @@ export class PoolScheduler {
         pool.nextRefresh = Date.now() + 5000;
       }
     }
+
+    if (brokenPools.length > 0) {
+      // Not awaited: the registry write queues behind any discovery run on the chain
+      this.markPoolsBroken(chainId, brokenPools);
+    }
+
+    if (updatedPools.length > 0) {
+      this.notifyTick(chainId, updatedPools);
+    }
+  }
+
+  /**
+   * Stop scheduling pools that keep failing, and flag them as broken in the registry
+   */
+  private async markPoolsBroken(chainId: number, brokenPools: { pool: AlivePool; reason: string }[]): Promise<void> {
+    for (const { pool, reason } of brokenPools) {
+      console.warn(`🚫 Pool ${pool.address.slice(0, 8)}... failed ${pool.consecutiveFailures} refreshes in a row, marking broken: ${reason}`);
+      poolController.markPoolBroken(pool.address, chainId);
+    }
+
+    try {
+      await this.storageService.updatePoolRegistry(chainId, registry => {
+        for (const { pool, reason } of brokenPools) {
+          const metadata = registry.pools[pool.address.toLowerCase()];
+          if (metadata) metadata.broken = { since: Date.now(), reason };
+        }
+      });
+    } catch (error) {
+      console.error('❌ Failed to record broken pools in registry:', error);
+    }
+  }
+
+  /**
+   * Notify tick listeners; a failing listener does not affect the others
+   */
+  private notifyTick(chainId: number, updatedPools: string[]): void {
+    for (const listener of this.tickListeners) {
+      try {
+        listener(chainId, updatedPools);
+      } catch (error) {
+        console.error('❌ Tick listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Cached states must outlive the pool's next scheduled refresh, with margin for a late batch.
+   */
+  private stateTtlFor(pool: AlivePool): number {
+    return Math.max(timingConfig.STATE_CACHE_TTL_MS, 2 * (pool.nextRefresh - Date.now()));
   }
 
   /**
@@ -265,6 +348,8 @@ export class PoolScheduler {
   async stop(): Promise<void> {
     if (!this.isRunning) return;
 
+    this.blockFollower.stop();
+
     if (this.batchFlushTimer) {
       clearTimeout(this.batchFlushTimer);
       this.batchFlushTimer = null;
@@ -321,6 +406,7 @@ export class PoolScheduler {
         lastBatchExecutionMs: this.lastBatchExecutionTime,
         batchFlushScheduled: this.batchFlushTimer !== null,
       },
+      blockFollowing: Object.keys(poolRefreshConfig.MODE).filter(chainId => this.blockFollower.isFollowing(Number(chainId))).map(Number),
     };
   }
 }
@@ -0,0 +1,328 @@
+/**
+ * PriceHistoryService - Historical price store
+ *
+ * RESPONSIBILITY:
+ * - Keep every computed token price per chain, with its block number and timestamp
+ * - Downsample into tiers: raw samples -> 1m OHLC candles -> 1h OHLC candles (see PriceHistoryConfig)
+ * - Serve 24h change / high / low and OHLC candles for arbitrary intervals
+ *
+ * ARCHITECTURE:
+ * - In memory per chain, loaded lazily from StorageService (price-history_<network>.json)
+ * - Each sample is folded into the open 1m and 1h candles as it is recorded, then every
+ *   tier is trimmed to its retention
+ * - Chains with new samples are written back every PERSIST_INTERVAL_MS, and on stop()
+ * - Samples are block-monotonic per token: a price computed from an older block than the
+ *   last recorded one is dropped, as is a repeat of the same price at the same block
+ */
+
+import { storageService } from './StorageService';
+import { priceHistoryConfig, PriceHistoryInterval } from '../../infrastructure/config/PriceHistoryConfig';
+import type { PriceHistoryStore, TokenPriceHistory } from '../../domain/types';
+
+type CandleTuple = TokenPriceHistory['minute'][number];
+
+const MINUTE_MS = priceHistoryConfig.INTERVAL_MS['1m'];
+const HOUR_MS = priceHistoryConfig.INTERVAL_MS['1h'];
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * One OHLC candle, as served by the history endpoint
+ */
+export interface PriceCandle {
+  time: number; // Bucket start (ms)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  blockNumber: number; // Block of the last price in the bucket
+}
+
+/**
+ * 24h statistics of a token (fields are omitted when history does not cover them)
+ */
+export interface PriceStats24h {
+  priceChange24h?: number; // Percentage change
+  priceHigh24h?: number;
+  priceLow24h?: number;
+}
+
+export class PriceHistoryService {
+  private stores: Map<number, PriceHistoryStore> = new Map();
+  private loading: Map<number, Promise<PriceHistoryStore>> = new Map();
+  private dirty: Set<number> = new Set();
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Record a computed price.
+   *
+   * @param chainId Network chain ID
+   * @param tokenAddress Token contract address
+   * @param price USD price (ignored unless positive)
+   * @param blockNumber Block of the pool state the price was computed from (0 if unknown)
+   * @param timestamp When the price was computed
+   */
+  public async record(
+    chainId: number,
+    tokenAddress: string,
+    price: number,
+    blockNumber: number,
+    timestamp: number = Date.now()
+  ): Promise<void> {
+    if (!Number.isFinite(price) || price <= 0) return;
+
+    const store = await this.load(chainId);
+    const token = tokenAddress.toLowerCase();
+    const series = store.tokens[token] ?? (store.tokens[token] = { raw: [], minute: [], hour: [] });
+
+    const last = series.raw[series.raw.length - 1];
+    if (last) {
+      const [lastTimestamp, lastPrice, lastBlock] = last;
+      if (timestamp < lastTimestamp) return;
+      if (blockNumber > 0 && blockNumber < lastBlock) return;
+      if (blockNumber === lastBlock && price === lastPrice) return;
+    }
+
+    series.raw.push([timestamp, price, blockNumber]);
+    foldIntoCandles(series.minute, MINUTE_MS, timestamp, price, blockNumber);
+    foldIntoCandles(series.hour, HOUR_MS, timestamp, price, blockNumber);
+
+    trimBefore(series.raw, timestamp - priceHistoryConfig.RAW_RETENTION_MS);
+    trimBefore(series.minute, timestamp - priceHistoryConfig.MINUTE_RETENTION_MS);
+    trimBefore(series.hour, timestamp - priceHistoryConfig.HOUR_RETENTION_MS);
+
+    this.dirty.add(chainId);
+    this.schedulePersist();
+  }
+
+  /**
+   * 24h change, high and low of a token, relative to its current price.
+   *
+   * @param chainId Network chain ID
+   * @param tokenAddress Token contract address
+   * @param currentPrice Latest USD price
+   * @returns Stats; priceChange24h is omitted until history reaches back 24h
+   */
+  public async getStats24h(chainId: number, tokenAddress: string, currentPrice: number): Promise<PriceStats24h> {
+    const store = await this.load(chainId);
+    const series = store.tokens[tokenAddress.toLowerCase()];
+    if (!series || currentPrice <= 0) return {};
+
+    const windowStart = Date.now() - DAY_MS;
+    const stats: PriceStats24h = {};
+
+    // Price 24h ago: close of the last candle opened at or before the window start, unless
+    // the history has a gap there (an older close says nothing about the price 24h ago)
+    const reference =
+      referenceCandle(series.minute, MINUTE_MS, windowStart) ?? referenceCandle(series.hour, HOUR_MS, windowStart);
+    if (reference) {
+      stats.priceChange24h = ((currentPrice - reference[4]) / reference[4]) * 100;
+    }
+
+    let high = currentPrice;
+    let low = currentPrice;
+    for (const [time, , candleHigh, candleLow] of series.minute) {
+      if (time + MINUTE_MS <= windowStart) continue;
+      high = Math.max(high, candleHigh);
+      low = Math.min(low, candleLow);
+    }
+    stats.priceHigh24h = high;
+    stats.priceLow24h = low;
+
+    return stats;
+  }
+
+  /**
+   * Most recently recorded price of a token
+   *
+   * @returns USD price, or null if the token has no history
+   */
+  public async getLatestPrice(chainId: number, tokenAddress: string): Promise<number | null> {
+    const store = await this.load(chainId);
+    const series = store.tokens[tokenAddress.toLowerCase()];
+    if (!series) return null;
+
+    const lastRaw = series.raw[series.raw.length - 1];
+    if (lastRaw) return lastRaw[1];
+    const lastCandle = series.minute[series.minute.length - 1] ?? series.hour[series.hour.length - 1];
+    return lastCandle ? lastCandle[4] : null;
+  }
+
+  /**
+   * Latest recorded price of a token as of a block: the last raw sample at or before it,
+   * else the close of the last 1m (then 1h) candle whose last block is at or before it.
+   *
+   * @param chainId Network chain ID
+   * @param tokenAddress Token contract address
+   * @param blockNumber Block to price at
+   * @returns USD price, or null if history starts after the block
+   */
+  public async getPriceAtBlock(chainId: number, tokenAddress: string, blockNumber: number): Promise<number | null> {
+    const store = await this.load(chainId);
+    const series = store.tokens[tokenAddress.toLowerCase()];
+    if (!series) return null;
+
+    for (let i = series.raw.length - 1; i >= 0; i--) {
+      const [, price, sampleBlock] = series.raw[i];
+      if (sampleBlock > 0 && sampleBlock <= blockNumber) return price;
+    }
+    for (const candles of [series.minute, series.hour]) {
+      for (let i = candles.length - 1; i >= 0; i--) {
+        const lastBlock = candles[i][5];
+        if (lastBlock > 0 && lastBlock <= blockNumber) return candles[i][4];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * OHLC candles of a token. Buckets without samples are omitted.
+   *
+   * @param chainId Network chain ID
+   * @param tokenAddress Token contract address
+   * @param interval Candle interval
+   * @param from Start time (ms, default: MAX_CANDLES intervals before `to`)
+   * @param to End time (ms, default: now)
+   * @returns Candles oldest first, at most MAX_CANDLES (the most recent ones)
+   */
+  public async getCandles(
+    chainId: number,
+    tokenAddress: string,
+    interval: PriceHistoryInterval,
+    from?: number,
+    to?: number
+  ): Promise<PriceCandle[]> {
+    const store = await this.load(chainId);
+    const series = store.tokens[tokenAddress.toLowerCase()];
+    if (!series) return [];
+
+    const intervalMs = priceHistoryConfig.INTERVAL_MS[interval];
+    const end = to ?? Date.now();
+    const start = from ?? end - intervalMs * priceHistoryConfig.MAX_CANDLES;
+    const source = intervalMs < HOUR_MS ? series.minute : series.hour;
+
+    const candles: PriceCandle[] = [];
+    for (const [time, open, high, low, close, blockNumber] of source) {
+      const bucket = Math.floor(time / intervalMs) * intervalMs;
+      if (bucket + intervalMs <= start || time > end) continue;
+
+      const current = candles[candles.length - 1];
+      if (current && current.time === bucket) {
+        current.high = Math.max(current.high, high);
+        current.low = Math.min(current.low, low);
+        current.close = close;
+        current.blockNumber = Math.max(current.blockNumber, blockNumber);
+      } else {
+        candles.push({ time: bucket, open, high, low, close, blockNumber });
+      }
+    }
+
+    return candles.slice(-priceHistoryConfig.MAX_CANDLES);
+  }
+
+  /**
+   * Write every chain with unsaved samples to disk
+   */
+  public async flush(): Promise<void> {
+    const chains = [...this.dirty];
+    this.dirty.clear();
+    for (const chainId of chains) {
+      const store = this.stores.get(chainId);
+      if (!store) continue;
+      try {
+        await storageService.savePriceHistory(chainId, store);
+      } catch (error: any) {
+        this.dirty.add(chainId);
+        console.error(`❌ Failed to save price history for chain ${chainId}:`, error?.message ?? error);
+      }
+    }
+  }
+
+  /**
+   * Stop the persistence timer and write pending samples
+   */
+  public async stop(): Promise<void> {
+    if (this.persistTimer) clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    await this.flush();
+  }
+
+  public getStats() {
+    const chains: Record<number, { tokens: number; rawSamples: number; minuteCandles: number; hourCandles: number }> = {};
+    for (const [chainId, store] of this.stores) {
+      const series = Object.values(store.tokens);
+      chains[chainId] = {
+        tokens: series.length,
+        rawSamples: series.reduce((sum, s) => sum + s.raw.length, 0),
+        minuteCandles: series.reduce((sum, s) => sum + s.minute.length, 0),
+        hourCandles: series.reduce((sum, s) => sum + s.hour.length, 0),
+      };
+    }
+    return { chains, pendingWrites: this.dirty.size };
+  }
+
+  /**
+   * Get a chain's store, reading it from disk on first use
+   */
+  private async load(chainId: number): Promise<PriceHistoryStore> {
+    const loaded = this.stores.get(chainId);
+    if (loaded) return loaded;
+
+    if (!this.loading.has(chainId)) {
+      this.loading.set(chainId, storageService.getPriceHistory(chainId)
+        .catch((error: any) => {
+          console.error(`❌ Failed to load price history for chain ${chainId}, starting empty:`, error?.message ?? error);
+          return { tokens: {} } as PriceHistoryStore;
+        })
+        .then(store => {
+          this.stores.set(chainId, store);
+          this.loading.delete(chainId);
+          return store;
+        }));
+    }
+    return this.loading.get(chainId)!;
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.flush().catch(() => {});
+    }, priceHistoryConfig.PERSIST_INTERVAL_MS);
+    this.persistTimer.unref();
+  }
+}
+
+/**
+ * Fold a sample into the last candle if it falls in the same bucket, else open a new one
+ */
+function foldIntoCandles(candles: CandleTuple[], intervalMs: number, timestamp: number, price: number, blockNumber: number): void {
+  const bucket = Math.floor(timestamp / intervalMs) * intervalMs;
+  const last = candles[candles.length - 1];
+  if (last && last[0] === bucket) {
+    last[2] = Math.max(last[2], price);
+    last[3] = Math.min(last[3], price);
+    last[4] = price;
+    last[5] = Math.max(last[5], blockNumber);
+  } else {
+    candles.push([bucket, price, price, price, price, blockNumber]);
+  }
+}
+
+/**
+ * Drop entries (ordered by their first field, a timestamp) older than the cutoff
+ */
+function trimBefore(entries: Array<readonly number[]>, cutoff: number): void {
+  const firstKept = entries.findIndex(entry => entry[0] >= cutoff);
+  entries.splice(0, firstKept === -1 ? entries.length : firstKept);
+}
+
+function referenceCandle(candles: CandleTuple[], intervalMs: number, time: number): CandleTuple | null {
+  for (let i = candles.length - 1; i >= 0; i--) {
+    if (candles[i][0] > time) continue;
+    const closedAt = candles[i][0] + intervalMs;
+    return time - closedAt <= priceHistoryConfig.CHANGE_REFERENCE_TOLERANCE_MS ? candles[i] : null;
+  }
+  return null;
+}
+
+export const priceHistoryService = new PriceHistoryService();
@@ -0,0 +1,368 @@
+/**
+ * PriceStreamService - Server-push price updates over WebSocket
+ *
+ * RESPONSIBILITY: Replace overview polling and stay-alive heartbeats for live dashboards
+ * - Clients connect to /api/market/stream and subscribe to token addresses per chain
+ * - Subscriptions drive PoolController interest (re-asserted every STREAM_INTEREST_INTERVAL_MS)
+ * - After each PoolScheduler tick, the subscribed tokens priced from the updated pools are
+ *   recomputed and only changes are pushed (pool -> token index rebuilt with the interest)
+ *
+ * PROTOCOL (schemas in shared/schema.ts):
+ * - Client -> server: { type: 'subscribe' | 'unsubscribe', chainId, tokens: [addr, ...] }
+ * - Server -> client: { type: 'prices', chainId, prices: [{ address, price }], timestamp }
+ *   (a snapshot of the new tokens on subscribe, then deltas)
+ * - Server -> client: { type: 'error', message } for rejected messages
+ */
+
+import type { Server } from 'http';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { ethers } from 'ethers';
+import { MarketViewerService } from './MarketViewerService';
+import { spotPricingEngine } from './SpotPricingEngine';
+import { timingConfig } from '../../infrastructure/config/TimingConfig';
+import { priceStreamClientMessageSchema } from '../../../shared/schema';
+import type { PriceStreamServerMessage, PriceUpdate } from '../../../shared/schema';
+
+const STREAM_PATH = '/api/market/stream';
+const SUPPORTED_CHAINS = [1, 137];
+
+interface StreamClient {
+  socket: WebSocket;
+  subscriptions: Map<number, Set<string>>; // chainId -> lowercase token addresses
+  isAlive: boolean;
+}
+
+export class PriceStreamService {
+  private wss: WebSocketServer | null = null;
+  private clients: Set<StreamClient> = new Set();
+  private lastPrices: Map<number, Map<string, number>> = new Map(); // chainId -> token -> last pushed price
+  private tokensByPool: Map<number, Map<string, Set<string>>> = new Map(); // chainId -> pricing pool -> subscribed tokens
+  private refreshing: Set<number> = new Set();
+  private refreshQueued: Map<number, Set<string>> = new Map(); // chainId -> pools updated during a recompute
+  private interestTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private removeTickListener: (() => void) | null = null;
+
+  constructor(private marketViewerService: MarketViewerService) {}
+
+  /**
+   * Start accepting stream connections on the given HTTP server
+   */
+  public attach(server: Server): void {
+    if (this.wss) return;
+
+    this.wss = new WebSocketServer({ server, path: STREAM_PATH });
+    this.wss.on('connection', socket => this.handleConnection(socket));
+
+    this.removeTickListener = this.marketViewerService.onSchedulerTick((chainId, updatedPools) => {
+      this.pushPriceChanges(chainId, updatedPools).catch(error => {
+        console.error(`[STREAM] Failed to push prices for chain ${chainId}:`, error);
+      });
+    });
+
+    this.interestTimer = setInterval(() => this.reassertInterest(), timingConfig.STREAM_INTEREST_INTERVAL_MS);
+    this.heartbeatTimer = setInterval(() => this.checkHeartbeats(), timingConfig.STREAM_HEARTBEAT_INTERVAL_MS);
+
+    console.log(`📡 [STREAM] Price stream listening on ${STREAM_PATH}`);
+  }
+
+  /**
+   * Stop timers and close all client connections
+   */
+  public close(): void {
+    if (this.interestTimer) clearInterval(this.interestTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.interestTimer = null;
+    this.heartbeatTimer = null;
+
+    this.removeTickListener?.();
+    this.removeTickListener = null;
+
+    for (const client of this.clients) {
+      client.socket.close(1001, 'Server shutting down');
+    }
+    this.clients.clear();
+    this.lastPrices.clear();
+    this.tokensByPool.clear();
+
+    this.wss?.close();
+    this.wss = null;
+  }
+
+  /**
+   * Connection and subscription counts, for diagnostics
+   */
+  public getStats(): { clients: number; subscribedTokens: Record<number, number> } {
+    const subscribedTokens: Record<number, number> = {};
+    for (const chainId of SUPPORTED_CHAINS) {
+      subscribedTokens[chainId] = this.subscribedTokens(chainId).length;
+    }
+    return { clients: this.clients.size, subscribedTokens };
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const client: StreamClient = { socket, subscriptions: new Map(), isAlive: true };
+    this.clients.add(client);
+    console.log(`📡 [STREAM] Client connected (${this.clients.size} total)`);
+
+    socket.on('pong', () => {
+      client.isAlive = true;
+    });
+    socket.on('message', data => {
+      this.handleMessage(client, data).catch(error => {
+        console.error('[STREAM] Error handling message:', error);
+        this.send(client, { type: 'error', message: 'Error processing message' });
+      });
+    });
+    socket.on('close', () => this.removeClient(client));
+    socket.on('error', error => {
+      console.error('[STREAM] Socket error:', error.message);
+      this.removeClient(client);
+    });
+  }
+
+  private async handleMessage(client: StreamClient, data: RawData): Promise<void> {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(data.toString());
+    } catch {
+      this.send(client, { type: 'error', message: 'Message must be valid JSON' });
+      return;
+    }
+
+    const parsed = priceStreamClientMessageSchema.safeParse(payload);
+    if (!parsed.success) {
+      this.send(client, { type: 'error', message: 'Expected { type: "subscribe" | "unsubscribe", chainId, tokens: [...] }' });
+      return;
+    }
+
+    const { type, chainId, tokens } = parsed.data;
+    if (!SUPPORTED_CHAINS.includes(chainId)) {
+      this.send(client, { type: 'error', message: 'chainId must be 1 (Ethereum) or 137 (Polygon)' });
+      return;
+    }
+
+    const invalid = tokens.find(token => !ethers.isAddress(token));
+    if (invalid) {
+      this.send(client, { type: 'error', message: `Invalid token address: ${invalid}` });
+      return;
+    }
+
+    const addresses = tokens.map(token => token.toLowerCase());
+    if (type === 'unsubscribe') {
+      this.unsubscribe(client, chainId, addresses);
+      return;
+    }
+
+    if (!client.subscriptions.has(chainId)) client.subscriptions.set(chainId, new Set());
+    const subscribed = client.subscriptions.get(chainId)!;
+    const added = addresses.filter(address => !subscribed.has(address));
+    added.forEach(address => subscribed.add(address));
+    if (added.length === 0) return;
+
+    await this.marketViewerService.watchTokens(chainId, added);
+    await this.indexPricingPools(chainId, added, this.poolIndexFor(chainId));
+
+    // Snapshot of the new tokens: last pushed prices go to this client only, prices
+    // computed now are new to every subscriber. Later ticks only carry changes.
+    const lastPrices = this.pricesFor(chainId);
+    const known = added
+      .filter(address => lastPrices.has(address))
+      .map(address => ({ address, price: lastPrices.get(address)! }));
+    if (known.length > 0) {
+      this.send(client, { type: 'prices', chainId, prices: known, timestamp: Date.now() });
+    }
+
+    const computed = await this.computePrices(chainId, added.filter(address => !lastPrices.has(address)));
+    computed.forEach(update => lastPrices.set(update.address, update.price));
+    this.broadcast(chainId, new Map(computed.map(update => [update.address, update])));
+  }
+
+  private unsubscribe(client: StreamClient, chainId: number, addresses: string[]): void {
+    const subscribed = client.subscriptions.get(chainId);
+    if (!subscribed) return;
+
+    addresses.forEach(address => subscribed.delete(address));
+    if (subscribed.size === 0) client.subscriptions.delete(chainId);
+    this.forgetUnwatchedPrices(chainId);
+  }
+
+  private removeClient(client: StreamClient): void {
+    if (!this.clients.delete(client)) return;
+    for (const chainId of client.subscriptions.keys()) {
+      this.forgetUnwatchedPrices(chainId);
+    }
+    console.log(`📡 [STREAM] Client disconnected (${this.clients.size} remaining)`);
+  }
+
+  /**
+   * Recompute prices of the subscribed tokens priced from the updated pools and push the ones
+   * that changed. Ticks arriving during a recompute are coalesced into one follow-up run.
+   */
+  private async pushPriceChanges(chainId: number, updatedPools: string[]): Promise<void> {
+    if (this.refreshing.has(chainId)) {
+      if (!this.refreshQueued.has(chainId)) this.refreshQueued.set(chainId, new Set());
+      const queued = this.refreshQueued.get(chainId)!;
+      updatedPools.forEach(pool => queued.add(pool));
+      return;
+    }
+
+    this.refreshing.add(chainId);
+    try {
+      const tokens = this.affectedTokens(chainId, updatedPools);
+      if (tokens.length === 0) return;
+
+      const lastPrices = this.pricesFor(chainId);
+      const changed = new Map<string, PriceUpdate>();
+      for (const update of await this.computePrices(chainId, tokens)) {
+        if (lastPrices.get(update.address) === update.price) continue;
+        lastPrices.set(update.address, update.price);
+        changed.set(update.address, update);
+      }
+      if (changed.size === 0) return;
+
+      this.broadcast(chainId, changed);
+      console.log(`📡 [STREAM] Pushed ${changed.size} price change(s) on chain ${chainId}`);
+    } finally {
+      this.refreshing.delete(chainId);
+      const queued = this.refreshQueued.get(chainId);
+      if (queued) {
+        this.refreshQueued.delete(chainId);
+        await this.pushPriceChanges(chainId, [...queued]);
+      }
+    }
+  }
+
+  /**
+   * Subscribed tokens whose pricing pools include one of the given pools
+   */
+  private affectedTokens(chainId: number, pools: string[]): string[] {
+    const index = this.tokensByPool.get(chainId);
+    if (!index) return [];
+
+    const subscribed = new Set(this.subscribedTokens(chainId));
+    const tokens = new Set<string>();
+    for (const pool of pools) {
+      index.get(pool.toLowerCase())?.forEach(token => {
+        if (subscribed.has(token)) tokens.add(token);
+      });
+    }
+    return [...tokens];
+  }
+
+  /**
+   * Add the tokens to a pool -> token index, under each pool their price is computed from
+   */
+  private async indexPricingPools(chainId: number, tokens: string[], index: Map<string, Set<string>>): Promise<void> {
+    for (const token of tokens) {
+      for (const pool of await spotPricingEngine.collectPricingPools(token, chainId)) {
+        if (!index.has(pool)) index.set(pool, new Set());
+        index.get(pool)!.add(token);
+      }
+    }
+  }
+
+  /**
+   * Send each client the updates for the tokens it subscribed to
+   */
+  private broadcast(chainId: number, updates: Map<string, PriceUpdate>): void {
+    if (updates.size === 0) return;
+
+    const timestamp = Date.now();
+    for (const client of this.clients) {
+      const subscribed = client.subscriptions.get(chainId);
+      if (!subscribed) continue;
+      const prices = [...subscribed].map(address => updates.get(address)).filter(Boolean) as PriceUpdate[];
+      if (prices.length > 0) {
+        this.send(client, { type: 'prices', chainId, prices, timestamp });
+      }
+    }
+  }
+
+  private async computePrices(chainId: number, tokens: string[]): Promise<PriceUpdate[]> {
+    const updates: PriceUpdate[] = [];
+    for (const address of tokens) {
+      try {
+        const { price, aggregated } = await this.marketViewerService.getTokenPrice(address, chainId);
+        if (price === null || price <= 0) continue;
+        updates.push({
+          address,
+          price,
+          ...(aggregated && { priceConfidence: aggregated.confidence }),
+        });
+      } catch (error) {
+        console.error(`[STREAM] Price computation failed for ${address.slice(0, 8)}...:`, error);
+      }
+    }
+    return updates;
+  }
+
+  /**
+   * Subscriptions stand in for stay-alive: keep the pricing pools of every subscribed token alive.
+   * The pool -> token index is rebuilt alongside, so it follows pricing route changes and unsubscribes.
+   */
+  private reassertInterest(): void {
+    for (const chainId of SUPPORTED_CHAINS) {
+      const tokens = this.subscribedTokens(chainId);
+      if (tokens.length === 0) {
+        this.tokensByPool.delete(chainId);
+        continue;
+      }
+      this.marketViewerService.watchTokens(chainId, tokens).catch(error => {
+        console.error(`[STREAM] Failed to re-assert interest on chain ${chainId}:`, error);
+      });
+
+      const index = new Map<string, Set<string>>();
+      this.indexPricingPools(chainId, tokens, index)
+        .then(() => this.tokensByPool.set(chainId, index))
+        .catch(error => {
+          console.error(`[STREAM] Failed to index pricing pools on chain ${chainId}:`, error);
+        });
+    }
+  }
+
+  private checkHeartbeats(): void {
+    for (const client of this.clients) {
+      if (!client.isAlive) {
+        client.socket.terminate();
+        this.removeClient(client);
+        continue;
+      }
+      client.isAlive = false;
+      client.socket.ping();
+    }
+  }
+
+  private subscribedTokens(chainId: number): string[] {
+    const tokens = new Set<string>();
+    for (const client of this.clients) {
+      client.subscriptions.get(chainId)?.forEach(address => tokens.add(address));
+    }
+    return [...tokens];
+  }
+
+  private pricesFor(chainId: number): Map<string, number> {
+    if (!this.lastPrices.has(chainId)) this.lastPrices.set(chainId, new Map());
+    return this.lastPrices.get(chainId)!;
+  }
+
+  private poolIndexFor(chainId: number): Map<string, Set<string>> {
+    if (!this.tokensByPool.has(chainId)) this.tokensByPool.set(chainId, new Map());
+    return this.tokensByPool.get(chainId)!;
+  }
+
+  private forgetUnwatchedPrices(chainId: number): void {
+    const lastPrices = this.lastPrices.get(chainId);
+    if (!lastPrices) return;
+    const watched = new Set(this.subscribedTokens(chainId));
+    for (const address of lastPrices.keys()) {
+      if (!watched.has(address)) lastPrices.delete(address);
+    }
+  }
+
+  private send(client: StreamClient, message: PriceStreamServerMessage): void {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(JSON.stringify(message));
+    }
+  }
+}
@@ -1,43 +1,62 @@
-
 import { spotPricingEngine } from './SpotPricingEngine';
 import { poolController } from './PoolController';
 import { sharedStateCache } from './SharedStateCache';
+import { storageService } from './StorageService';
+import { MulticallEngine, toPoolState } from './MulticallEngine';
+import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
+
+// A newer state cached during a same-block read leaves the read mixed: read again once
+const SAME_BLOCK_READ_ATTEMPTS = 2;
 
 /**
  * PHASE 2: PriceViewerService - Pool-Centric Pricing
- * 
+ *
  * RESPONSIBILITY:
  * - Receive token price requests
  * - Route through PoolController for deduplication
  * - Call pricing engine with deduplicated pools
  * - Return prices to UI
- * 
+ *
  * BEFORE: Token-centric (1 token → 1 price call)
  * AFTER: Pool-centric (N tokens → M pool queries where M < N)
- * 
- * PHASE 6: Verify tick consistency to prevent mixed-epoch rendering
+ *
+ * PHASE 6: Block consistency - every price in a snapshot is computed from pool states
+ * observed at the same block (see SharedStateCache per-block history)
  */
 
+/**
+ * Prices of a set of tokens, all computed at one block
+ */
+export interface PriceSnapshot {
+  blockNumber: number | null; // null when no pool could be read
+  source: 'cache' | 'multicall'; // Served from cached history, or from a targeted same-block read
+  prices: Record<string, number | null>;
+}
+
 class PriceViewerService {
+  constructor(private multicallEngine: MulticallEngine) {}
+
   /**
    * PHASE 2: Get price snapshots for tokens
-   * 
+   *
    * Refactored to use controller for deduplication:
    * 1. Tokens with attached pricingPools come from UI
    * 2. Controller maps tokens → pools and deduplicates
    * 3. Pricing engine computes prices from deduplicated pools
    * 4. Results mapped back to tokens for UI
-   * 
-   * PHASE 6: Verify all pools share same tickId before returning (prevents mixed-epoch rendering)
-   * 
+   *
+   * PHASE 6: Every pool the prices depend on (including base token routes) is read at the
+   * same block: the latest block all of them were observed at, or, when they share none,
+   * the block of a targeted multicall over all of them.
+   *
    * @param tokens Array of tokens with pricingPools metadata
    * @param chainId Network chain ID
-   * @returns Record of token address → price, or null if tick consistency check fails
+   * @returns Token address → price, and the block the prices were computed at
    */
   public async getSnapshots(
     tokens: Array<{ address: string; pricingPools: Array<{ pool: string; base: string }> }>,
     chainId: number
-  ): Promise<Record<string, number | null>> {
+  ): Promise<PriceSnapshot> {
     // PHASE 2: Register token interest with controller
     const tokensWithPoolAddresses = tokens.map(token => ({
       address: token.address,
@@ -45,55 +64,82 @@ class PriceViewerService {
     }));
     poolController.handleTokenInterest(tokensWithPoolAddresses, chainId);
 
-    // PHASE 6: Collect tickIds from all pools used by these tokens
-    const tickIds = new Set<string>();
-    const tokensWithPools = tokens.map(token => {
-        const pricingPools = tokensWithPoolAddresses.find(t => t.address === token.address)?.pricingPools || [];
-        return { address: token.address, pricingPools };
-    });
-
-    for (const token of tokensWithPools) {
-      for (const poolAddress of token.pricingPools) {
-        const poolState = sharedStateCache.getPoolState(poolAddress);
-        if (poolState && poolState.tickId) {
-          tickIds.add(poolState.tickId);
-        }
+    // PHASE 6: Collect every pool the prices depend on
+    const pools = new Set<string>();
+    for (const token of tokens) {
+      for (const poolAddress of await spotPricingEngine.collectPricingPools(token.address, chainId)) {
+        pools.add(poolAddress);
       }
     }
 
-    // PHASE 6: Verify tick consistency - all pools must belong to same refresh cycle
-    // If no pools have ticks yet, they haven't been fetched at least once.
-    if (tickIds.size === 0) {
-        console.log(`ℹ️ PHASE 6: No ticks discovered yet. Waiting for first multicall...`);
-        const nullPrices: Record<string, number | null> = {};
-        for (const token of tokens) {
-          nullPrices[token.address] = null;
-        }
-        return nullPrices;
+    let source: PriceSnapshot['source'] = 'cache';
+    let blockNumber = sharedStateCache.findCommonBlock(chainId, [...pools]);
+    if (blockNumber === null && pools.size > 0) {
+      console.log(`ℹ️ PHASE 6: No common block for ${pools.size} pools, reading them in one multicall`);
+      blockNumber = await this.readSameBlock(chainId, [...pools]);
+      source = 'multicall';
     }
 
-    if (tickIds.size > 1) {
-      console.warn(
-        `⚠️ PHASE 6: Mixed tick consistency detected (${tickIds.size} different ticks). ` +
-        `Returning null to prevent mixed-epoch rendering. Next snapshot should be consistent.`
-      );
-      const nullPrices: Record<string, number | null> = {};
-      for (const token of tokens) {
-        nullPrices[token.address] = null;
-      }
-      return nullPrices;
-    }
-
-    // Compute prices for each token
     const prices: Record<string, number | null> = {};
     for (const token of tokens) {
-      const price = await spotPricingEngine.computeSpotPrice(token.address, chainId);
+      // Without a block (no pools, or the read failed) only route-less stablecoins can be priced
+      const price = blockNumber !== null || pools.size === 0
+        ? await spotPricingEngine.computeSpotPrice(token.address, chainId, blockNumber ?? undefined)
+        : null;
       console.log(`💰 [PriceViewer] Price for ${token.address.slice(0, 6)}: ${price}`);
       prices[token.address] = price;
     }
 
-    return prices;
+    return { blockNumber, source, prices };
+  }
+
+  /**
+   * PHASE 6: Read pools at one block and cache their states.
+   * A state the cache rejects (it already holds a newer one) is not at the read's block, so the
+   * snapshot then falls back to the common block of what the cache holds, and re-reads once
+   * if there is none.
+   * @returns The block every pool's cached state covers, or null if there is none
+   */
+  private async readSameBlock(chainId: number, poolAddresses: string[]): Promise<number | null> {
+    const poolRegistry = await storageService.getPoolRegistry(chainId);
+    const pools = poolAddresses
+      .map(address => poolRegistry.pools[address])
+      .filter(metadata => metadata !== undefined);
+
+    for (let attempt = 1; attempt <= SAME_BLOCK_READ_ATTEMPTS; attempt++) {
+      try {
+        const results = await this.multicallEngine.readSameBlock(
+          pools.map(metadata => ({ address: metadata.address, dexVersion: metadata.dexType })),
+          chainId
+        );
+
+        let blockNumber: number | null = null;
+        const read: string[] = [];
+        let rejected = 0;
+        for (const result of results) {
+          const metadata = poolRegistry.pools[result.poolAddress.toLowerCase()];
+          if (!result.success || !result.data || !metadata) continue;
+
+          const state = toPoolState(result, metadata.dexType, metadata.token0, metadata.token1, `snapshot_${result.blockNumber}`);
+          read.push(result.poolAddress);
+          if (sharedStateCache.setPoolState(chainId, result.poolAddress, state)) {
+            blockNumber = result.blockNumber;
+          } else {
+            rejected++;
+          }
+        }
+        if (rejected === 0) return blockNumber;
+
+        const commonBlock = sharedStateCache.findCommonBlock(chainId, read);
+        if (commonBlock !== null) return commonBlock;
+        console.log(`ℹ️ PHASE 6: ${rejected} pool(s) already cached past the read's block, no common block (attempt ${attempt})`);
+      } catch (error) {
+        console.error(`❌ PHASE 6: Same-block read failed on chain ${chainId}:`, error);
+        return null;
+      }
+    }
+    return null;
   }
 }
 
-export const priceViewerService = new PriceViewerService();
+export const priceViewerService = new PriceViewerService(new MulticallEngine(new EthersAdapter()));
@@ -2,7 +2,13 @@ import { StorageService } from './StorageService';
 import { TokenDiscoveryManager } from './TokenDiscoveryManager';
 import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
 import { CacheLayer } from './CacheLayer';
+import { toPoolState } from './MulticallEngine';
+import { sharedStateCache } from './SharedStateCache';
+import { spotPricingEngine } from './SpotPricingEngine';
+import { TokenRiskAnalyzer } from './TokenRiskAnalyzer';
 import { timingConfig } from '../../infrastructure/config/TimingConfig';
+import { quarantineConfig } from '../../infrastructure/config/QuarantineConfig';
+import type { PoolMetadata, PoolState, QuarantineValidation, TokenRiskReport } from '../../domain/types';
 
 /**
  * PHASE 7: Quarantine Validator
@@ -11,7 +17,13 @@ import { timingConfig } from '../../infrastructure/config/TimingConfig';
  * 
  * Validation checks:
  * 1. Pool existence - token must appear in at least one pool
- * 2. Liquidity threshold - pool must meet minimum liquidity requirement
+ * 2. Liquidity threshold - the token's pools, read live (V2 reserves, V3 in-range liquidity)
+ *    and valued against base-token USD prices, must hold at least MIN_LIQUIDITY_USD[chainId]
+ * 3. Contract risk - TokenRiskAnalyzer inspects the contract (proxy, privileged selectors,
+ *    return types, fee-on-transfer); findings block promotion or are flagged per RISK_POLICY
+ *
+ * The outcome of each run (measured liquidity, rejection reasons) is recorded on the
+ * QuarantineEntry. Registry writes are serialized per chain, as tokens validate in parallel.
  * 
  * Promotes qualified tokens from quarantine to primary registry.
  * Automatically purges unvalidated tokens after 7 days (handled by Phase 8 GC).
@@ -22,22 +34,26 @@ import { timingConfig } from '../../infrastructure/config/TimingConfig';
 class QuarantineValidator {
   private validationLoops: Map<number, NodeJS.Timeout> = new Map();
   private readonly VALIDATION_INTERVAL_MS = timingConfig.QUARANTINE_VALIDATION_INTERVAL_MS;
-  private readonly MIN_LIQUIDITY = timingConfig.QUARANTINE_MIN_LIQUIDITY;
+  private registryWrites: Map<number, Promise<void>> = new Map(); // chainId -> last queued registry write
+  private riskAnalyzer: TokenRiskAnalyzer;
 
   constructor(
     private storageService: StorageService,
     private ethersAdapter: EthersAdapter,
     private tokenDiscoveryManager: TokenDiscoveryManager,
     private cacheLayer?: CacheLayer
-  ) {}
+  ) {
+    this.riskAnalyzer = new TokenRiskAnalyzer(ethersAdapter);
+  }
 
   /**
    * Check if a quarantined token is valid and promote if so.
    * 
    * Validation process:
    * 1. Find pools containing this token
-   * 2. Check if liquidity meets threshold
-   * 3. If valid: promote to primary registry
+   * 2. Read the pools live and check their USD liquidity against the chain's threshold
+   * 3. Analyze the contract's risks; blocking findings keep the token quarantined
+   * 4. Record the outcome; if valid: promote to primary registry (with any flagged risks)
    * 
    * @param chainId Network chain ID
    * @param tokenAddress Token address to validate
@@ -46,7 +62,8 @@ class QuarantineValidator {
   async validateToken(chainId: number, tokenAddress: string): Promise<boolean> {
     try {
       const quarantine = await this.storageService.getQuarantineRegistry(chainId);
-      const entry: any = quarantine.entries[tokenAddress.toLowerCase()];
+      const entryKey = tokenAddress.toLowerCase();
+      const entry = quarantine.entries[entryKey];
 
       if (!entry) {
         return false; // Token not in quarantine
@@ -85,6 +102,7 @@ class QuarantineValidator {
 
         if (discovered === 0) {
           console.log(`  ❌ Discovery found no pools for token ${tokenAddress.slice(0, 6)}... - not eligible`);
+          await this.recordValidation(chainId, entryKey, { liquidityUSD: null, pools: 0, reasons: ['No pools found'] });
           return false; // Discovery found nothing
         }
 
@@ -96,20 +114,56 @@ class QuarantineValidator {
       // STEP 2: Recheck pools after potential discovery
       const updatedRegistry = await this.storageService.getPoolRegistry(chainId);
       const validPools = Object.values(updatedRegistry.pools || {}).filter(
-        (pool: any) => pool.token0?.toLowerCase() === tokenAddress.toLowerCase() || pool.token1?.toLowerCase() === tokenAddress.toLowerCase()
+        pool => !pool.broken && (pool.token0?.toLowerCase() === entryKey || pool.token1?.toLowerCase() === entryKey)
       );
 
       if (validPools.length === 0) {
         console.log(`  ❌ Still no pools after discovery - validation failed`);
+        await this.recordValidation(chainId, entryKey, { liquidityUSD: null, pools: 0, reasons: ['No usable pools after discovery'] });
         return false;
       }
 
-      const primaryPool: any = validPools[0];
+      // STEP 3: USD liquidity gate
+      // Quarantined tokens are not in the token list the pricing engine loaded decimals from
+      sharedStateCache.setTokenMetadata(chainId, entryKey, entry.metadata, timingConfig.QUARANTINE_TTL_MS);
+      const poolStates = await this.readPoolStates(chainId, validPools);
+      const liquidity = poolStates.size > 0
+        ? await spotPricingEngine.computeTokenLiquidity(entryKey, chainId, poolStates)
+        : null;
+      const liquidityUSD = liquidity ? liquidity.liquidityUSD : null;
+      const minLiquidityUSD = quarantineConfig.MIN_LIQUIDITY_USD[chainId] ?? 0;
+
+      const reasons: string[] = [];
+      if (poolStates.size === 0) {
+        reasons.push(`None of ${validPools.length} pool(s) could be read`);
+      } else if (!liquidity || liquidity.pools.length === 0) {
+        reasons.push('No pool pairs the token with a priceable base token');
+      } else if (liquidity.liquidityUSD < minLiquidityUSD) {
+        reasons.push(`Liquidity $${liquidity.liquidityUSD.toFixed(0)} is below the $${minLiquidityUSD} minimum`);
+      }
+
+      const validation = { liquidityUSD, pools: liquidity?.pools.length ?? 0, reasons };
+      if (reasons.length > 0) {
+        console.log(`  ❌ Liquidity check failed for ${tokenAddress.slice(0, 6)}...: ${reasons.join('; ')}`);
+        await this.recordValidation(chainId, entryKey, validation);
+        return false;
+      }
+      console.log(`  ✓ Liquidity check: $${liquidityUSD!.toFixed(0)} across ${validation.pools} pool(s)`);
 
-      console.log(`  ✓ Liquidity check: ${primaryPool.address.slice(0, 6)}...`);
+      // STEP 4: Contract risk, simulating transfers from the deepest pool
+      const deepestPool = liquidity!.pools.reduce((best, pool) => (pool.tokenAmount > best.tokenAmount ? pool : best));
+      const risk = await this.riskAnalyzer.analyze(chainId, entryKey, deepestPool.poolAddress);
+      const blocking = risk.findings.filter(finding => finding.action === 'block');
+      if (blocking.length > 0) {
+        reasons.push(...blocking.map(finding => `Contract risk ${finding.flag}: ${finding.detail}`));
+        console.log(`  ❌ Risk check blocked ${tokenAddress.slice(0, 6)}...: ${blocking.map(finding => finding.flag).join(', ')}`);
+        await this.recordValidation(chainId, entryKey, validation, risk);
+        return false;
+      }
+      console.log(`  ✓ Risk check: ${risk.verdict}${risk.findings.length > 0 ? ` (${risk.findings.map(finding => finding.flag).join(', ')})` : ''}`);
 
-      // STEP 3: Promote to primary registry with cache invalidation
-      await this.storageService.promoteQuarantineToken(chainId, tokenAddress, this.cacheLayer);
+      // STEP 5: Promote to primary registry with cache invalidation
+      await this.recordValidation(chainId, entryKey, validation, risk, true);
       entry.promoted = true;
 
       console.log(`  ✅ Token ${tokenAddress.slice(0, 6)}... validated and promoted`);
@@ -120,6 +174,59 @@ class QuarantineValidator {
     }
   }
 
+  /**
+   * Read the current state of pools in one multicall (quarantined tokens' pools are not
+   * tracked by the scheduler, so the cache usually has nothing for them)
+   *
+   * @returns Lowercase pool address → state, for the pools that could be read
+   */
+  private async readPoolStates(chainId: number, pools: PoolMetadata[]): Promise<Map<string, PoolState>> {
+    const states = new Map<string, PoolState>();
+    try {
+      const results = await this.ethersAdapter.executeMulticall(
+        pools.map(pool => ({ address: pool.address, dexVersion: pool.dexType })),
+        0,
+        chainId
+      );
+      for (const result of results) {
+        const pool = pools.find(p => p.address.toLowerCase() === result.poolAddress.toLowerCase());
+        if (!pool || !result.success || !result.data) continue;
+        states.set(pool.address.toLowerCase(), toPoolState(result, pool.dexType, pool.token0, pool.token1, `quarantine_${result.blockNumber}`));
+      }
+    } catch (error) {
+      console.error(`  ❌ Failed to read pools for quarantine validation on chain ${chainId}:`, error);
+    }
+    return states;
+  }
+
+  /**
+   * Record a validation outcome and risk report on the quarantine entry (and promote the token if it passed).
+   * Queued behind the chain's previous registry write: each write reads the registry first,
+   * so parallel validations would otherwise overwrite each other.
+   */
+  private recordValidation(
+    chainId: number,
+    tokenAddress: string,
+    outcome: Omit<QuarantineValidation, 'checkedAt' | 'minLiquidityUSD'>,
+    risk?: TokenRiskReport,
+    promote: boolean = false
+  ): Promise<void> {
+    const validation: QuarantineValidation = {
+      ...outcome,
+      checkedAt: Date.now(),
+      minLiquidityUSD: quarantineConfig.MIN_LIQUIDITY_USD[chainId] ?? 0,
+    };
+
+    const write = (this.registryWrites.get(chainId) ?? Promise.resolve())
+      .catch(() => undefined) // A failed write must not block the ones queued behind it
+      .then(async () => {
+        await this.storageService.recordQuarantineValidation(chainId, tokenAddress, validation, risk);
+        if (promote) await this.storageService.promoteQuarantineToken(chainId, tokenAddress, this.cacheLayer);
+      });
+    this.registryWrites.set(chainId, write);
+    return write;
+  }
+
   /**
    * Validate all tokens in quarantine registry for a network.
    * 
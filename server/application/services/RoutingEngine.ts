@@ -1,32 +1,297 @@
-
 import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
 import { networkConfig } from '../../infrastructure/config/NetworkConfig';
+import { swapConfig } from '../../infrastructure/config/SwapConfig';
+import { timingConfig } from '../../infrastructure/config/TimingConfig';
 import {
     FACTORIES,
+    getFactoryFeeConfig,
     V2_FACTORY_ABI,
     V3_FACTORY_ABI
 } from '../../infrastructure/config/ContractAddressConfig';
+import { CacheLayer } from './CacheLayer';
+import { storageService } from './StorageService';
+import type { PoolRegistry } from '../../domain/types';
+import type { RouteHop, SwapRoute } from '../../domain/swapper.types';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
 
-// A simple representation of a pool found on-chain
-interface OnChainPool {
-  address: string;
+/**
+ * An edge of the token graph: one pool, traversable in both directions.
+ * Parallel edges (several pools for the same pair) are kept separate so
+ * each pool can be routed through on its own.
+ */
+interface PoolEdge {
+  poolAddress: string;
+  dexType: 'v2' | 'v3';
+  feeTier?: number;
+  factory?: string;
   token0: string;
   token1: string;
+  source: 'registry' | 'factory';
+}
+
+/**
+ * In-memory token graph for one chain, built from the pool registry.
+ */
+interface TokenGraph {
+  registry: PoolRegistry;
+  adjacency: Map<string, PoolEdge[]>; // token -> pools containing it
+  poolAddresses: Set<string>;
 }
 
+/**
+ * RoutingEngine - Route search over the pool registry
+ *
+ * RESPONSIBILITY:
+ * - Build a per-chain token graph from PoolRegistry.pools (no RPC per hop)
+ * - Return the k shortest routes (Yen's algorithm, hop count as cost)
+ * - Fall back to factory lookups only for pairs the registry does not know
+ *
+ * The graph is rebuilt whenever CacheLayer hands back a new registry object;
+ * pools found via the factory fallback are carried over across rebuilds until marked broken.
+ */
 export class RoutingEngine {
   private ethersAdapter: EthersAdapter;
+  private cacheLayer: CacheLayer;
+  private graphs: Map<number, TokenGraph> = new Map();
+  private factoryLookups: Map<string, number> = new Map(); // "chainId:tokenA:tokenB" -> last lookup time
 
   constructor(ethersAdapter: EthersAdapter) {
     this.ethersAdapter = ethersAdapter;
+    this.cacheLayer = new CacheLayer(storageService);
+  }
+
+  /**
+   * Finds the k shortest trading routes between two tokens.
+   * @param tokenIn The address of the input token.
+   * @param tokenOut The address of the output token.
+   * @param chainId The ID of the chain to search on.
+   * @param maxDepth The maximum number of hops in a route.
+   * @returns Routes ordered by hop count, each pinned to the pools it swaps through.
+   */
+  public async findRoutes(
+    tokenIn: string,
+    tokenOut: string,
+    chainId: number,
+    maxDepth: number = swapConfig.maxRouteDepth
+  ): Promise<SwapRoute[]> {
+    const source = tokenIn.toLowerCase();
+    const target = tokenOut.toLowerCase();
+    if (source === target) return [];
+
+    const graph = await this.getGraph(chainId);
+
+    if (swapConfig.factoryFallback) {
+      // Endpoints the registry has never seen can only be reached through the factories
+      for (const [token, counterpart] of [[source, target], [target, source]]) {
+        if (!graph.adjacency.has(token)) {
+          await this.addFactoryEdges(graph, token, [counterpart, ...networkConfig.getBaseTokenAddresses(chainId)], chainId);
+        }
+      }
+    }
+
+    let routes = this.kShortestRoutes(graph, source, target, swapConfig.maxRoutes, maxDepth);
+
+    if (routes.length === 0 && swapConfig.factoryFallback) {
+      await this.addFactoryEdges(graph, source, [target], chainId);
+      routes = this.kShortestRoutes(graph, source, target, swapConfig.maxRoutes, maxDepth);
+    }
+
+    console.log(`[ROUTING] ${routes.length} route(s) ${source.slice(0, 6)}... → ${target.slice(0, 6)}... on chain ${chainId}`);
+    return routes;
   }
 
   /**
-   * Finds a pool for a given token pair by querying a DEX factory.
-   * @returns The pool address or the zero address if not found.
+   * Returns the token graph for a chain, rebuilding it if the registry changed.
    */
-  private async findPoolForPair(tokenA: string, tokenB: string, chainId: number): Promise<OnChainPool[]> {
-    const foundPools: OnChainPool[] = [];
+  private async getGraph(chainId: number): Promise<TokenGraph> {
+    const registry = await this.cacheLayer.getPoolRegistryCached(chainId);
+    const existing = this.graphs.get(chainId);
+    if (existing && existing.registry === registry) {
+      return existing;
+    }
+
+    const graph: TokenGraph = { registry, adjacency: new Map(), poolAddresses: new Set() };
+    for (const pool of Object.values(registry.pools)) {
+      if (pool.broken) continue;
+      this.addEdge(graph, {
+        poolAddress: pool.address.toLowerCase(),
+        dexType: pool.dexType,
+        feeTier: pool.feeTier,
+        factory: pool.factory,
+        token0: pool.token0.toLowerCase(),
+        token1: pool.token1.toLowerCase(),
+        source: 'registry',
+      });
+    }
+
+    if (existing) {
+      for (const edges of existing.adjacency.values()) {
+        for (const edge of edges) {
+          if (edge.source === 'factory' && !registry.pools[edge.poolAddress]?.broken) this.addEdge(graph, edge);
+        }
+      }
+    }
+
+    this.graphs.set(chainId, graph);
+    console.log(`[ROUTING] Token graph for chain ${chainId}: ${graph.adjacency.size} tokens, ${graph.poolAddresses.size} pools`);
+    return graph;
+  }
+
+  private addEdge(graph: TokenGraph, edge: PoolEdge): void {
+    if (graph.poolAddresses.has(edge.poolAddress)) return;
+    graph.poolAddresses.add(edge.poolAddress);
+    for (const token of [edge.token0, edge.token1]) {
+      const edges = graph.adjacency.get(token);
+      if (edges) edges.push(edge);
+      else graph.adjacency.set(token, [edge]);
+    }
+  }
+
+  /**
+   * Yen's k-shortest simple paths over the pool multigraph.
+   * Cost is hop count; ties keep registry order so results are stable.
+   */
+  private kShortestRoutes(graph: TokenGraph, source: string, target: string, k: number, maxHops: number): SwapRoute[] {
+    const first = this.shortestRoute(graph, source, target, maxHops, new Set(), new Set());
+    if (!first) return [];
+
+    const found: SwapRoute[] = [first];
+    const candidates: SwapRoute[] = [];
+    const seen = new Set<string>([routeKey(first)]);
+
+    while (found.length < k) {
+      const previous = found[found.length - 1];
+
+      for (let i = 0; i < previous.hops.length; i++) {
+        const spurToken = previous.tokens[i];
+        const rootHops = previous.hops.slice(0, i);
+        const rootKey = rootHops.map(h => h.poolAddress).join('>');
+
+        // Remove the next pool of every known route sharing this root
+        const blockedPools = new Set<string>();
+        for (const route of found) {
+          if (route.hops.length > i && route.hops.slice(0, i).map(h => h.poolAddress).join('>') === rootKey) {
+            blockedPools.add(route.hops[i].poolAddress);
+          }
+        }
+        // Root tokens may not be revisited by the spur
+        const blockedTokens = new Set(previous.tokens.slice(0, i));
+
+        const spur = this.shortestRoute(graph, spurToken, target, maxHops - i, blockedPools, blockedTokens);
+        if (!spur) continue;
+
+        const candidate: SwapRoute = {
+          tokens: [...previous.tokens.slice(0, i), ...spur.tokens],
+          hops: [...rootHops, ...spur.hops],
+        };
+        const key = routeKey(candidate);
+        if (!seen.has(key)) {
+          seen.add(key);
+          candidates.push(candidate);
+        }
+      }
+
+      if (candidates.length === 0) break;
+      candidates.sort((a, b) => a.hops.length - b.hops.length);
+      found.push(candidates.shift()!);
+    }
+
+    return found;
+  }
+
+  /**
+   * Fewest-hop route via BFS (all edges cost 1).
+   */
+  private shortestRoute(
+    graph: TokenGraph,
+    source: string,
+    target: string,
+    maxHops: number,
+    blockedPools: Set<string>,
+    blockedTokens: Set<string>
+  ): SwapRoute | null {
+    if (maxHops <= 0) return null;
+
+    const parent = new Map<string, { token: string; edge: PoolEdge }>();
+    const depth = new Map<string, number>([[source, 0]]);
+    const queue: string[] = [source];
+
+    while (queue.length > 0) {
+      const token = queue.shift()!;
+      const tokenDepth = depth.get(token)!;
+      if (tokenDepth >= maxHops) continue;
+
+      for (const edge of graph.adjacency.get(token) || []) {
+        if (blockedPools.has(edge.poolAddress)) continue;
+        const next = edge.token0 === token ? edge.token1 : edge.token0;
+        if (depth.has(next) || blockedTokens.has(next)) continue;
+
+        depth.set(next, tokenDepth + 1);
+        parent.set(next, { token, edge });
+        if (next === target) {
+          return this.buildRoute(parent, source, target);
+        }
+        queue.push(next);
+      }
+    }
+
+    return null;
+  }
+
+  private buildRoute(parent: Map<string, { token: string; edge: PoolEdge }>, source: string, target: string): SwapRoute {
+    const tokens: string[] = [target];
+    const hops: RouteHop[] = [];
+    let current = target;
+
+    while (current !== source) {
+      const { token, edge } = parent.get(current)!;
+      hops.unshift({
+        tokenIn: token,
+        tokenOut: current,
+        poolAddress: edge.poolAddress,
+        dexType: edge.dexType,
+        feeTier: edge.feeTier,
+        factory: edge.factory,
+      });
+      tokens.unshift(token);
+      current = token;
+    }
+
+    return { tokens, hops };
+  }
+
+  /**
+   * Factory fallback: looks up pools between `token` and each counterpart
+   * and adds them to the graph, except pools the registry marks broken.
+   * Each pair is looked up at most once per discovery retry window.
+   */
+  private async addFactoryEdges(graph: TokenGraph, token: string, counterparts: string[], chainId: number): Promise<void> {
+    for (const counterpart of counterparts) {
+      if (counterpart === token) continue;
+
+      const [tokenA, tokenB] = token < counterpart ? [token, counterpart] : [counterpart, token];
+      const lookupKey = `${chainId}:${tokenA}:${tokenB}`;
+      const lastLookup = this.factoryLookups.get(lookupKey);
+      if (lastLookup && Date.now() - lastLookup < timingConfig.DISCOVERY_RETRY_WINDOW_MS) continue;
+      this.factoryLookups.set(lookupKey, Date.now());
+
+      // Broken pools are left out of the graph, so addEdge's dedupe does not cover them
+      const edges = (await this.findPoolsForPair(tokenA, tokenB, chainId))
+        .filter(edge => !graph.registry.pools[edge.poolAddress]?.broken);
+      for (const edge of edges) this.addEdge(graph, edge);
+      if (edges.length > 0) {
+        console.log(`[ROUTING] Factory fallback found ${edges.length} pool(s) for ${tokenA.slice(0, 6)}.../${tokenB.slice(0, 6)}...`);
+      }
+    }
+  }
+
+  /**
+   * Finds the pools for a token pair by querying the chain's DEX factories.
+   * tokenA and tokenB must already be sorted (token0, token1).
+   */
+  private async findPoolsForPair(tokenA: string, tokenB: string, chainId: number): Promise<PoolEdge[]> {
+    const foundPools: PoolEdge[] = [];
     const chainFactories = FACTORIES[chainId];
     if (!chainFactories) return [];
 
@@ -40,11 +305,19 @@ export class RoutingEngine {
           [tokenA, tokenB],
           chainId
         );
-        if (poolAddress && poolAddress !== '0x0000000000000000000000000000000000000000') {
-          foundPools.push({ address: poolAddress, token0: tokenA, token1: tokenB });
+        if (poolAddress && poolAddress !== ZERO_ADDRESS) {
+          foundPools.push({
+            poolAddress: poolAddress.toLowerCase(),
+            dexType: 'v2',
+            feeTier: getFactoryFeeConfig(chainId, factoryAddress)?.fee,
+            factory: factoryAddress.toLowerCase(),
+            token0: tokenA,
+            token1: tokenB,
+            source: 'factory',
+          });
         }
-      } catch (e) {
-        // console.warn(`V2 factory query failed for ${factoryAddress}:`, e);
+      } catch (e: any) {
+        console.warn(`[ROUTING] V2 factory ${factoryAddress.slice(0, 6)}... getPair failed on chain ${chainId}: ${e?.message ?? e}`);
       }
     }
 
@@ -59,81 +332,26 @@ export class RoutingEngine {
             [tokenA, tokenB, fee],
             chainId
           );
-          if (poolAddress && poolAddress !== '0x0000000000000000000000000000000000000000') {
-            foundPools.push({ address: poolAddress, token0: tokenA, token1: tokenB });
+          if (poolAddress && poolAddress !== ZERO_ADDRESS) {
+            foundPools.push({
+              poolAddress: poolAddress.toLowerCase(),
+              dexType: 'v3',
+              feeTier: fee,
+              factory: factoryAddress.toLowerCase(),
+              token0: tokenA,
+              token1: tokenB,
+              source: 'factory',
+            });
           }
-        } catch (e) {
-         // console.warn(`V3 factory query failed for ${factoryAddress} with fee ${fee}:`, e);
+        } catch (e: any) {
+          console.warn(`[ROUTING] V3 factory ${factoryAddress.slice(0, 6)}... getPool (fee ${fee}) failed on chain ${chainId}: ${e?.message ?? e}`);
         }
       }
     }
     return foundPools;
   }
+}
 
-  /**
-   * Finds all available pools for a given token against the network's base tokens.
-   */
-  private async getPoolsAgainstBase(token: string, chainId: number): Promise<OnChainPool[]> {
-    const baseTokens = Array.from(networkConfig.getBaseTokenAddresses(chainId));
-    let allPools: OnChainPool[] = [];
-
-    for (const baseToken of baseTokens) {
-      if (token.toLowerCase() === baseToken.toLowerCase()) continue;
-      const pools = await this.findPoolForPair(token, baseToken, chainId);
-      allPools = [...allPools, ...pools];
-    }
-    return allPools;
-  }
-
-  /**
-   * Finds all possible trading routes between two tokens using on-chain lookups.
-   * This is now an ASYNC operation.
-   * @param tokenIn The address of the input token.
-   * @param tokenOut The address of the output token.
-   * @param chainId The ID of the chain to search on.
-   * @param maxDepth The maximum number of hops in a route.
-   * @returns An array of possible routes, where each route is an array of token addresses.
-   */
-  public async findRoutes(tokenIn: string, tokenOut: string, chainId: number, maxDepth: number = 3): Promise<string[][]> {
-    const routes: string[][] = [];
-    const queue: { token: string; path: string[]; visitedInPath: Set<string> }[] = [
-      { token: tokenIn, path: [tokenIn], visitedInPath: new Set([tokenIn]) }
-    ];
-
-    while (queue.length > 0) {
-      const { token, path, visitedInPath } = queue.shift()!;
-
-      if (path.length > maxDepth) {
-        continue;
-      }
-
-      // Find pools on-chain against base tokens and the final target token
-      const poolsToSearch = await this.getPoolsAgainstBase(token, chainId);
-      const directPool = await this.findPoolForPair(token, tokenOut, chainId);
-      const allPools = [...poolsToSearch, ...directPool];
-      
-      const uniquePools = Array.from(new Map(allPools.map(p => [p.address, p])).values());
-
-      for (const pool of uniquePools) {
-        const otherToken = pool.token0.toLowerCase() === token.toLowerCase() ? pool.token1 : pool.token0;
-
-        if (otherToken.toLowerCase() === tokenOut.toLowerCase()) {
-          // Found a complete route
-          routes.push([...path, tokenOut]);
-        }
-
-        if (!visitedInPath.has(otherToken) && path.length < maxDepth) {
-          const newVisited = new Set(visitedInPath);
-          newVisited.add(otherToken);
-          queue.push({
-            token: otherToken,
-            path: [...path, otherToken],
-            visitedInPath: newVisited
-          });
-        }
-      }
-    }
-
-    return routes;
-  }
+function routeKey(route: SwapRoute): string {
+  return route.hops.map(h => `${h.poolAddress}:${h.tokenIn}`).join('>');
 }
@@ -1,72 +1,269 @@
-
 import { PoolState, TokenMetadata } from '../../domain/types';
+import { timingConfig } from '../../infrastructure/config/TimingConfig';
+
+// A cached value and the time after which GCManager may evict it
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// A pool state known to be valid over a block range
+interface BlockState {
+  state: PoolState;
+  fromBlock: number; // Block the state was captured at
+  throughBlock: number; // Last block the state is known unchanged through
+  updatedAt: number;
+}
 
 /**
  * A unified, in-memory cache to store foundational blockchain data.
  * This cache is the single source of truth for both the Price Viewer and the Swap Quote Engine.
+ *
+ * Entries are keyed by "chainId:address" (lowercase), so contracts deployed at the same
+ * address on several chains do not overwrite each other. Pools are also indexed by token.
+ * Every entry carries a TTL; expired entries are not returned and are purged by GCManager.
+ *
+ * Pool states captured at a known block are also kept in a short per-pool history
+ * (STATE_HISTORY_DEPTH states, STATE_HISTORY_MAX_AGE_MS), each with the block range it is known
+ * valid over, so readers can get a view of several pools at one block.
  */
 class SharedStateCache {
-  private poolStateStore: Map<string, PoolState>;
-  private tokenMetadataStore: Map<string, TokenMetadata>;
+  private poolStateStore: Map<string, CacheEntry<PoolState>>;
+  private tokenMetadataStore: Map<string, CacheEntry<TokenMetadata>>;
+  private poolsByToken: Map<string, Set<string>>; // "chainId:token" -> "chainId:pool" keys
+  private poolStateHistory: Map<string, BlockState[]>; // "chainId:pool" -> states, oldest first
 
   constructor() {
-    this.poolStateStore = new Map<string, PoolState>();
-    this.tokenMetadataStore = new Map<string, TokenMetadata>();
+    this.poolStateStore = new Map<string, CacheEntry<PoolState>>();
+    this.tokenMetadataStore = new Map<string, CacheEntry<TokenMetadata>>();
+    this.poolsByToken = new Map<string, Set<string>>();
+    this.poolStateHistory = new Map<string, BlockState[]>();
   }
 
   /**
    * Retrieves the state of a liquidity pool.
+   * @param chainId The chain the pool lives on.
    * @param address The contract address of the pool.
-   * @returns The `PoolState` object or `undefined` if not found.
+   * @returns The `PoolState` object or `undefined` if not found or expired.
    */
-  public getPoolState(address: string): PoolState | undefined {
-    return this.poolStateStore.get(address);
+  public getPoolState(chainId: number, address: string): PoolState | undefined {
+    const entry = this.poolStateStore.get(cacheKey(chainId, address));
+    return entry && entry.expiresAt > Date.now() ? entry.value : undefined;
   }
 
   /**
    * Stores the state of a liquidity pool.
+   * A state captured at an older block than the cached one is rejected.
+   * @param chainId The chain the pool lives on.
    * @param address The contract address of the pool.
    * @param state The `PoolState` object to store.
+   * @param ttlMs How long the state may be served (default STATE_CACHE_TTL_MS).
+   * @returns False if the write was rejected as stale.
+   */
+  public setPoolState(chainId: number, address: string, state: PoolState, ttlMs: number = timingConfig.STATE_CACHE_TTL_MS): boolean {
+    const key = cacheKey(chainId, address);
+    const existing = this.poolStateStore.get(key);
+    if (
+      existing &&
+      existing.value.blockNumber !== undefined &&
+      state.blockNumber !== undefined &&
+      state.blockNumber < existing.value.blockNumber
+    ) {
+      return false;
+    }
+
+    if (existing) this.unindexPool(chainId, key, existing.value);
+    this.poolStateStore.set(key, { value: state, expiresAt: Date.now() + ttlMs });
+    this.indexPool(chainId, key, state);
+    if (state.blockNumber !== undefined) this.recordBlockState(key, state, state.blockNumber);
+    return true;
+  }
+
+  /**
+   * Extends the TTL of a cached pool state that was confirmed unchanged (same block).
+   * @param throughBlock Block the state is known unchanged through (e.g. no logs up to the head).
+   * @returns False if the pool is not cached.
+   */
+  public touchPoolState(
+    chainId: number,
+    address: string,
+    ttlMs: number = timingConfig.STATE_CACHE_TTL_MS,
+    throughBlock?: number
+  ): boolean {
+    const key = cacheKey(chainId, address);
+    const entry = this.poolStateStore.get(key);
+    if (!entry) return false;
+    entry.expiresAt = Math.max(entry.expiresAt, Date.now() + ttlMs);
+
+    const latest = this.poolStateHistory.get(key)?.at(-1);
+    if (latest && latest.state === entry.value && throughBlock !== undefined && throughBlock > latest.throughBlock) {
+      latest.throughBlock = throughBlock;
+      latest.updatedAt = Date.now();
+    }
+    return true;
+  }
+
+  /**
+   * Retrieves the state a pool had at a given block, from the per-block history.
+   * @returns The state, or `undefined` if the pool was not observed over that block recently.
+   */
+  public getPoolStateAtBlock(chainId: number, address: string, blockNumber: number): PoolState | undefined {
+    const history = this.poolStateHistory.get(cacheKey(chainId, address));
+    if (!history) return undefined;
+
+    const minUpdatedAt = Date.now() - timingConfig.STATE_HISTORY_MAX_AGE_MS;
+    for (let i = history.length - 1; i >= 0; i--) {
+      const entry = history[i];
+      if (entry.updatedAt < minUpdatedAt) break;
+      if (entry.fromBlock <= blockNumber && blockNumber <= entry.throughBlock) return entry.state;
+    }
+    return undefined;
+  }
+
+  /**
+   * Finds the latest block every given pool was observed at.
+   * @returns The block number, or `null` if some pool has no recent history or the pools share no block.
    */
-  public setPoolState(address: string, state: PoolState): void {
-    this.poolStateStore.set(address, state);
+  public findCommonBlock(chainId: number, addresses: string[]): number | null {
+    if (addresses.length === 0) return null;
+
+    const minUpdatedAt = Date.now() - timingConfig.STATE_HISTORY_MAX_AGE_MS;
+    const histories: BlockState[][] = [];
+    for (const address of addresses) {
+      const recent = (this.poolStateHistory.get(cacheKey(chainId, address)) ?? []).filter(entry => entry.updatedAt >= minUpdatedAt);
+      if (recent.length === 0) return null;
+      histories.push(recent);
+    }
+
+    // The latest common block is the end of some pool's range, capped by the others
+    const candidates = new Set<number>();
+    for (const history of histories) {
+      for (const entry of history) candidates.add(entry.throughBlock);
+    }
+    const covers = (history: BlockState[], block: number) =>
+      history.some(entry => entry.fromBlock <= block && block <= entry.throughBlock);
+
+    for (const block of [...candidates].sort((a, b) => b - a)) {
+      if (histories.every(history => covers(history, block))) return block;
+    }
+    return null;
   }
 
   /**
    * Retrieves all pools that contain a specific token.
+   * @param chainId The chain to look on.
    * @param tokenAddress The address of the token.
-   * @returns An array of `PoolState` objects.
+   * @returns An array of unexpired `PoolState` objects.
    */
-  public getPoolsForToken(tokenAddress: string): PoolState[] {
+  public getPoolsForToken(chainId: number, tokenAddress: string): PoolState[] {
+    const poolKeys = this.poolsByToken.get(cacheKey(chainId, tokenAddress));
+    if (!poolKeys) return [];
+
+    const now = Date.now();
     const pools: PoolState[] = [];
-    const poolStates = Array.from(this.poolStateStore.values());
-    const normalizedToken = tokenAddress.toLowerCase();
-    for (let i = 0; i < poolStates.length; i++) {
-        const pool = poolStates[i];
-        if (pool.token0.toLowerCase() === normalizedToken || pool.token1.toLowerCase() === normalizedToken) {
-            pools.push(pool);
-        }
+    for (const key of poolKeys) {
+      const entry = this.poolStateStore.get(key);
+      if (entry && entry.expiresAt > now) pools.push(entry.value);
     }
     return pools;
   }
 
   /**
    * Retrieves the metadata for a token.
+   * @param chainId The chain the token lives on.
    * @param address The contract address of the token.
-   * @returns The `TokenMetadata` object or `undefined` if not found.
+   * @returns The `TokenMetadata` object or `undefined` if not found or expired.
    */
-  public getTokenMetadata(address: string): TokenMetadata | undefined {
-    return this.tokenMetadataStore.get(address);
+  public getTokenMetadata(chainId: number, address: string): TokenMetadata | undefined {
+    const entry = this.tokenMetadataStore.get(cacheKey(chainId, address));
+    return entry && entry.expiresAt > Date.now() ? entry.value : undefined;
   }
 
   /**
    * Stores the metadata for a token.
+   * @param chainId The chain the token lives on.
    * @param address The contract address of the token.
-   *
+   * @param metadata The `TokenMetadata` object to store.
+   * @param ttlMs How long the metadata may be served (default: no expiry, metadata is immutable).
+   */
+  public setTokenMetadata(chainId: number, address: string, metadata: TokenMetadata, ttlMs: number = Infinity): void {
+    this.tokenMetadataStore.set(cacheKey(chainId, address), { value: metadata, expiresAt: Date.now() + ttlMs });
+  }
+
+  /**
+   * Removes every expired entry. Called periodically by GCManager.
+   * @returns Number of pool states and token metadata entries removed.
+   */
+  public evictExpired(now: number = Date.now()): { poolStates: number; tokenMetadata: number } {
+    let poolStates = 0;
+    for (const [key, entry] of this.poolStateStore) {
+      if (entry.expiresAt > now) continue;
+      this.unindexPool(chainFromKey(key), key, entry.value);
+      this.poolStateStore.delete(key);
+      this.poolStateHistory.delete(key);
+      poolStates++;
+    }
+
+    let tokenMetadata = 0;
+    for (const [key, entry] of this.tokenMetadataStore) {
+      if (entry.expiresAt > now) continue;
+      this.tokenMetadataStore.delete(key);
+      tokenMetadata++;
+    }
+
+    return { poolStates, tokenMetadata };
+  }
+
+  /**
+   * Entry counts, for diagnostics.
    */
-  public setTokenMetadata(address: string, metadata: TokenMetadata): void {
-    this.tokenMetadataStore.set(address, metadata);
+  public getStats(): { poolStates: number; tokenMetadata: number; indexedTokens: number } {
+    return {
+      poolStates: this.poolStateStore.size,
+      tokenMetadata: this.tokenMetadataStore.size,
+      indexedTokens: this.poolsByToken.size,
+    };
   }
+
+  private recordBlockState(poolKey: string, state: PoolState, blockNumber: number): void {
+    const history = this.poolStateHistory.get(poolKey) ?? [];
+    const latest = history.at(-1);
+    if (latest && latest.fromBlock === blockNumber) history.pop(); // Re-read of the same block
+    else if (latest && latest.throughBlock >= blockNumber) latest.throughBlock = blockNumber - 1;
+
+    const now = Date.now();
+    history.push({ state, fromBlock: blockNumber, throughBlock: blockNumber, updatedAt: now });
+
+    const minUpdatedAt = now - timingConfig.STATE_HISTORY_MAX_AGE_MS;
+    while (history.length > timingConfig.STATE_HISTORY_DEPTH || history[0].updatedAt < minUpdatedAt) history.shift();
+    this.poolStateHistory.set(poolKey, history);
+  }
+
+  private indexPool(chainId: number, poolKey: string, state: PoolState): void {
+    for (const token of [state.token0, state.token1]) {
+      const tokenKey = cacheKey(chainId, token);
+      if (!this.poolsByToken.has(tokenKey)) this.poolsByToken.set(tokenKey, new Set());
+      this.poolsByToken.get(tokenKey)!.add(poolKey);
+    }
+  }
+
+  private unindexPool(chainId: number, poolKey: string, state: PoolState): void {
+    for (const token of [state.token0, state.token1]) {
+      const tokenKey = cacheKey(chainId, token);
+      const poolKeys = this.poolsByToken.get(tokenKey);
+      if (!poolKeys) continue;
+      poolKeys.delete(poolKey);
+      if (poolKeys.size === 0) this.poolsByToken.delete(tokenKey);
+    }
+  }
+}
+
+function cacheKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+function chainFromKey(key: string): number {
+  return Number(key.slice(0, key.indexOf(':')));
 }
 
 export const sharedStateCache = new SharedStateCache();
@@ -0,0 +1,270 @@
+import { swapConfig } from '../../infrastructure/config/SwapConfig';
+import { TradeSimulator, SplitAllocation } from './TradeSimulator';
+import type { SimulationResult, SwapRoute, TradeType } from '../../domain/swapper.types';
+
+// One sampled point of a route: specified amount -> computed amount
+// (exactIn: input -> output, exactOut: output -> required input)
+interface CurvePoint {
+  specified: bigint;
+  computed: bigint;
+}
+
+/**
+ * Sampled execution curve of one route
+ */
+export interface RouteCurve {
+  points: CurvePoint[]; // Sorted by specified amount, starting at (0, 0)
+  limit: bigint | null; // Smallest specified amount the route could not quote
+}
+
+/**
+ * One route leg of a split, in raw units
+ */
+export interface SplitLeg {
+  route: SwapRoute;
+  simulation: SimulationResult;
+}
+
+// A stretch of a route's curve and its average marginal rate (output per input)
+interface CurveSegment {
+  index: number;
+  length: bigint;
+  gain: bigint;
+  rate: number;
+}
+
+/**
+ * SplitOptimizer - Splits an amount across routes by equalizing marginal rates
+ *
+ * ALGORITHM:
+ * 1. Sample every route's curve at splitCurvePoints evenly spaced amounts
+ * 2. Water-fill: hand out the amount segment by segment, best marginal rate first
+ *    (curves are concave, so every route ends up at the same marginal rate)
+ * 3. Bisect the curve segments each allocation lands in and water-fill again,
+ *    until segments are below splitResolutionBps of the amount
+ * 4. Routes sharing a pool are re-sampled with the other legs executed first,
+ *    so they do not both price against untouched reserves
+ * 5. Simulate the final allocation jointly on shared pool state
+ *
+ * Every split costs at most maxSplitSimulations route simulations plus one joint simulation.
+ */
+export class SplitOptimizer {
+  constructor(private tradeSimulator: TradeSimulator) {}
+
+  /**
+   * @param amount - Input amount for exactIn, output amount for exactOut
+   * @param curves - Curves sampled by previous calls for the same amount (filled in and reused)
+   * @returns One leg per route that received an allocation, or null if the amount cannot be allocated.
+   */
+  public async optimize(
+    routes: SwapRoute[],
+    amount: bigint,
+    chainId: number,
+    tradeType: TradeType,
+    curves: Map<SwapRoute, RouteCurve> = new Map()
+  ): Promise<SplitLeg[] | null> {
+    if (routes.length === 0 || amount === 0n) {
+      return null;
+    }
+
+    const budget = { remaining: swapConfig.maxSplitSimulations };
+    const resolution = amount * BigInt(swapConfig.splitResolutionBps) / 10000n || 1n;
+    const points = BigInt(swapConfig.splitCurvePoints);
+
+    for (const route of routes) {
+      if (!curves.has(route)) curves.set(route, { points: [{ specified: 0n, computed: 0n }], limit: null });
+      const curve = curves.get(route)!;
+      for (let k = 1n; k <= points; k++) {
+        await this.sample(curve, route, (amount * k) / points, chainId, tradeType, budget);
+      }
+    }
+
+    const routeCurves = () => routes.map(route => curves.get(route)!);
+    let allocations = waterFill(routeCurves(), amount, tradeType);
+
+    // Bisect the segments around each allocation until they are fine enough or the budget runs out
+    while (allocations && budget.remaining > 0) {
+      let refined = false;
+      for (let i = 0; i < routes.length; i++) {
+        const curve = curves.get(routes[i])!;
+        for (const [lo, hi] of bracketingSegments(curve, allocations[i])) {
+          if (hi.specified - lo.specified <= resolution) continue;
+          const midpoint = (lo.specified + hi.specified) / 2n;
+          if (await this.sample(curve, routes[i], midpoint, chainId, tradeType, budget)) refined = true;
+        }
+      }
+      if (!refined) break;
+      allocations = waterFill(routeCurves(), amount, tradeType);
+    }
+
+    if (!allocations) {
+      return null;
+    }
+
+    // Re-sample routes that share a pool with another allocated route, with those legs executed first
+    const active = routes.map((_, i) => i).filter(i => allocations![i] > 0n);
+    const conditioned = routeCurves();
+    let hasOverlap = false;
+    for (const i of active) {
+      const others: SplitAllocation[] = active
+        .filter(j => j !== i && sharesPool(routes[i], routes[j]))
+        .map(j => ({ route: routes[j], amount: allocations![j] }));
+      if (others.length === 0) continue;
+
+      hasOverlap = true;
+      conditioned[i] = await this.sampleAfter(others, routes[i], curves.get(routes[i])!, chainId, tradeType, budget);
+    }
+    if (hasOverlap) {
+      allocations = waterFill(conditioned, amount, tradeType) ?? allocations;
+    }
+
+    const legs: SplitAllocation[] = routes
+      .map((route, i) => ({ route, amount: allocations![i] }))
+      .filter(leg => leg.amount > 0n);
+    const results = await this.tradeSimulator.simulateSplit(legs, chainId, tradeType);
+    if (!results) {
+      return null;
+    }
+
+    console.log(`[SPLIT] ${legs.length}/${routes.length} routes allocated in ${swapConfig.maxSplitSimulations - budget.remaining} simulations${hasOverlap ? ' (shared pools)' : ''}`);
+    return legs.map((leg, i) => ({ route: leg.route, simulation: results[i] }));
+  }
+
+  /**
+   * Adds one point to a route's curve.
+   * @returns True if a simulation was spent.
+   */
+  private async sample(
+    curve: RouteCurve,
+    route: SwapRoute,
+    specified: bigint,
+    chainId: number,
+    tradeType: TradeType,
+    budget: { remaining: number }
+  ): Promise<boolean> {
+    if (budget.remaining <= 0 || specified === 0n) return false;
+    if (curve.limit !== null && specified >= curve.limit) return false;
+    if (curve.points.some(p => p.specified === specified)) return false;
+
+    budget.remaining--;
+    const simulation = tradeType === 'exactIn'
+      ? await this.tradeSimulator.simulateRouteDetailed(route, specified, chainId)
+      : await this.tradeSimulator.simulateRouteExactOutDetailed(route, specified, chainId);
+
+    if (!simulation) {
+      curve.limit = specified;
+      curve.points = curve.points.filter(p => p.specified < specified);
+    } else {
+      insertPoint(curve, { specified, computed: computedAmount(simulation, tradeType) });
+    }
+    return true;
+  }
+
+  /**
+   * Samples a route at the amounts of its untouched curve, with `others` executed first.
+   */
+  private async sampleAfter(
+    others: SplitAllocation[],
+    route: SwapRoute,
+    untouched: RouteCurve,
+    chainId: number,
+    tradeType: TradeType,
+    budget: { remaining: number }
+  ): Promise<RouteCurve> {
+    const curve: RouteCurve = { points: [{ specified: 0n, computed: 0n }], limit: null };
+
+    for (const { specified } of untouched.points) {
+      if (specified === 0n) continue;
+      if (budget.remaining <= 0) break;
+
+      budget.remaining--;
+      const results = await this.tradeSimulator.simulateSplit([...others, { route, amount: specified }], chainId, tradeType);
+      if (!results) {
+        curve.limit = specified;
+        break;
+      }
+      insertPoint(curve, { specified, computed: computedAmount(results[results.length - 1], tradeType) });
+    }
+    return curve;
+  }
+}
+
+function computedAmount(simulation: SimulationResult, tradeType: TradeType): bigint {
+  return tradeType === 'exactIn' ? simulation.amountOut : simulation.amountIn;
+}
+
+function insertPoint(curve: RouteCurve, point: CurvePoint): void {
+  const index = curve.points.findIndex(p => p.specified > point.specified);
+  if (index === -1) curve.points.push(point);
+  else curve.points.splice(index, 0, point);
+}
+
+/**
+ * Allocates `amount` across curves, highest marginal rate first.
+ * Non-concave stretches (rounding, sampling noise) are merged into their predecessor
+ * so each route's segments are consumed in order.
+ * @returns Specified amount per curve, or null if the curves together cannot absorb `amount`.
+ */
+function waterFill(curves: RouteCurve[], amount: bigint, tradeType: TradeType): bigint[] | null {
+  const rateOf = (length: bigint, gain: bigint) => {
+    if (gain <= 0n) return tradeType === 'exactIn' ? 0 : Infinity;
+    // Output per input: exactIn gains output per specified input, exactOut pays input per specified output
+    return tradeType === 'exactIn' ? Number(gain) / Number(length) : Number(length) / Number(gain);
+  };
+
+  const segments: CurveSegment[] = [];
+  curves.forEach((curve, index) => {
+    const hull: CurveSegment[] = [];
+    for (let k = 1; k < curve.points.length; k++) {
+      let segment: CurveSegment = {
+        index,
+        length: curve.points[k].specified - curve.points[k - 1].specified,
+        gain: curve.points[k].computed - curve.points[k - 1].computed,
+        rate: 0,
+      };
+      segment.rate = rateOf(segment.length, segment.gain);
+      while (hull.length > 0 && hull[hull.length - 1].rate <= segment.rate) {
+        const previous = hull.pop()!;
+        const length = previous.length + segment.length;
+        const gain = previous.gain + segment.gain;
+        segment = { index, length, gain, rate: rateOf(length, gain) };
+      }
+      hull.push(segment);
+    }
+    segments.push(...hull);
+  });
+
+  segments.sort((a, b) => b.rate - a.rate);
+
+  const allocations = curves.map(() => 0n);
+  let remaining = amount;
+  for (const segment of segments) {
+    if (remaining === 0n) break;
+    const take = segment.length < remaining ? segment.length : remaining;
+    allocations[segment.index] += take;
+    remaining -= take;
+  }
+
+  return remaining > 0n ? null : allocations;
+}
+
+/**
+ * The curve segments whose marginal rate decides an allocation: the one containing it,
+ * or both neighbours when it sits on a sampled point.
+ */
+function bracketingSegments(curve: RouteCurve, allocation: bigint): [CurvePoint, CurvePoint][] {
+  const { points } = curve;
+  const segments: [CurvePoint, CurvePoint][] = [];
+  for (let k = 1; k < points.length; k++) {
+    const lo = points[k - 1];
+    const hi = points[k];
+    const touches = allocation === 0n ? k === 1 : lo.specified <= allocation && allocation <= hi.specified;
+    if (touches) segments.push([lo, hi]);
+  }
+  return segments;
+}
+
+function sharesPool(a: SwapRoute, b: SwapRoute): boolean {
+  const pools = new Set(a.hops.map(hop => hop.poolAddress.toLowerCase()));
+  return b.hops.some(hop => pools.has(hop.poolAddress.toLowerCase()));
+}
@@ -3,6 +3,18 @@ import { sharedStateCache } from './SharedStateCache';
 import { storageService } from './StorageService';
 import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
 import { networkConfig } from '../../infrastructure/config/NetworkConfig';
+import { pricingConfig } from '../../infrastructure/config/PricingConfig';
+import {
+  AggregatedPriceResult,
+  PoolMetadata,
+  PoolPriceContribution,
+  PoolLiquidityContribution,
+  PoolRegistry,
+  PoolState,
+  PricingMath,
+  SpotPriceResult,
+  TokenLiquidityResult,
+} from '../../domain/types';
 
 class SpotPricingEngine {
   private tokenDecimals: Map<string, number> = new Map();
@@ -19,7 +31,7 @@ class SpotPricingEngine {
         const stablecoins = networkConfig.getStablecoins(chainId);
 
         for (const token of tokens) {
-            this.tokenDecimals.set(token.address.toLowerCase(), token.decimals);
+            this.tokenDecimals.set(`${chainId}:${token.address.toLowerCase()}`, token.decimals);
         }
 
         for (const stable of stablecoins) {
@@ -41,13 +53,22 @@ class SpotPricingEngine {
     return map;
   }
 
+  /**
+   * Read a pool state from the cache: the latest one, or the one observed at `atBlock`
+   */
+  private readPoolState(chainId: number, poolAddress: string, atBlock?: number): PoolState | undefined {
+    return atBlock === undefined
+      ? sharedStateCache.getPoolState(chainId, poolAddress.toLowerCase())
+      : sharedStateCache.getPoolStateAtBlock(chainId, poolAddress.toLowerCase(), atBlock);
+  }
+
   /**
    * Get pool state - from cache if available, otherwise fetch directly from contract
    */
-  private async getPoolState(poolAddress: string, chainId: number) {
+  private async getPoolState(poolAddress: string, chainId: number, atBlock?: number) {
     // ONLY check cache. Do not fall back to a direct RPC query.
     // The PoolScheduler is responsible for populating this cache.
-    const cached = sharedStateCache.getPoolState(poolAddress.toLowerCase());
+    const cached = this.readPoolState(chainId, poolAddress, atBlock);
     if (cached) {
       return cached;
     }
@@ -60,17 +81,54 @@ class SpotPricingEngine {
   /**
    * Get token decimals from cache or hardcoded lookup
    */
-  private getDecimals(tokenAddress: string): number {
-    const normalized = tokenAddress.toLowerCase();
+  private getDecimals(tokenAddress: string, chainId: number): number {
+    const normalized = `${chainId}:${tokenAddress.toLowerCase()}`;
     // Check local cache first
     if (this.tokenDecimals.has(normalized)) {
       return this.tokenDecimals.get(normalized)!;
     }
     // Try to get from shared cache as a fallback
-    const metadata = sharedStateCache.getTokenMetadata(tokenAddress);
+    const metadata = sharedStateCache.getTokenMetadata(chainId, tokenAddress);
     return metadata?.decimals ?? 18;
   }
 
+  /**
+   * Routes of a token without a base pair, through its intermediate tokens. Keyed like
+   * pricingRoutes, by the intermediate's symbol (its address when the symbol is already taken).
+   *
+   * @returns The routes and the key-to-address map, or null if the token has no intermediate
+   *          routes or they would exceed MAX_ROUTE_DEPTH
+   */
+  private resolveIntermediateRoutes(
+    poolRegistry: PoolRegistry,
+    tokenAddress: string,
+    chainId: number,
+    pricingStack: string[]
+  ): { routes: Record<string, string[]>; addresses: Map<string, string> } | null {
+    const intermediates = poolRegistry.intermediateRoutes?.[tokenAddress];
+    if (!intermediates || Object.keys(intermediates).length === 0) return null;
+
+    // Each token above on the stack is one pool already chained; a base is at least two pools away
+    if (pricingStack.length + 2 > pricingConfig.MAX_ROUTE_DEPTH) {
+      console.log(`ℹ️ [PRICING] ${tokenAddress.slice(0, 6)}... intermediate routes exceed depth ${pricingConfig.MAX_ROUTE_DEPTH}, skipping`);
+      return null;
+    }
+
+    const routes: Record<string, string[]> = {};
+    const addresses = new Map<string, string>();
+    for (const [intermediate, poolAddresses] of Object.entries(intermediates)) {
+      const metadata = poolRegistry.intermediateTokens?.[intermediate];
+      const key = metadata && !routes[metadata.symbol] ? metadata.symbol : intermediate;
+      routes[key] = poolAddresses;
+      addresses.set(key, intermediate);
+
+      // Unlisted intermediates have no token list decimals: use the ones recorded at discovery
+      const decimalsKey = `${chainId}:${intermediate}`;
+      if (metadata && !this.tokenDecimals.has(decimalsKey)) this.tokenDecimals.set(decimalsKey, metadata.decimals);
+    }
+    return { routes, addresses };
+  }
+
   /**
    * Check if token is a USD stablecoin
    */
@@ -85,13 +143,30 @@ class SpotPricingEngine {
    * 
    * pricingRoutes structure: [tokenAddress][baseSymbol] = poolAddresses[]
    * Routes are indexed by base token SYMBOL for efficient lookup and readability.
+   * A token without any base route is priced through intermediateRoutes
+   * ([tokenAddress][intermediateAddress]), the intermediate priced recursively like a base.
    * 
    * @param tokenAddress The address of the token to price.
    * @param chainId The chain ID of the token.
    * @param pricingStack The stack of tokens being priced, to prevent circular dependencies.
+   * @param atBlock Price from the pool states observed at this block instead of the latest ones.
    * @returns The spot price in USD, or null if it cannot be calculated.
    */
-  public async computeSpotPrice(tokenAddress: string, chainId: number, pricingStack: string[] = []): Promise<number | null> {
+  public async computeSpotPrice(tokenAddress: string, chainId: number, pricingStack: string[] = [], atBlock?: number): Promise<number | null> {
+    const result = await this.computeSpotPriceDetailed(tokenAddress, chainId, pricingStack, atBlock);
+    return result ? result.price : null;
+  }
+
+  /**
+   * Same as computeSpotPrice, but also reports which pool, base token and
+   * pool math (V2 reserves vs V3 sqrtPriceX96) produced the price.
+   */
+  public async computeSpotPriceDetailed(
+    tokenAddress: string,
+    chainId: number,
+    pricingStack: string[] = [],
+    atBlock?: number
+  ): Promise<SpotPriceResult | null> {
     const normalizedToken = tokenAddress.toLowerCase();
     const tokenShort = tokenAddress.slice(0, 6);
 
@@ -103,12 +178,18 @@ class SpotPricingEngine {
 
     // Get pricing routes from pool registry
     const poolRegistry = await storageService.getPoolRegistry(chainId);
-    const tokenRoutes = poolRegistry.pricingRoutes[normalizedToken];
+    let tokenRoutes = poolRegistry.pricingRoutes[normalizedToken];
+
+    // A token without a base pair is priced through its intermediate tokens instead
+    const intermediate = !tokenRoutes || Object.keys(tokenRoutes).length === 0
+      ? this.resolveIntermediateRoutes(poolRegistry, normalizedToken, chainId, pricingStack)
+      : null;
+    if (intermediate) tokenRoutes = intermediate.routes;
 
     if (!tokenRoutes || Object.keys(tokenRoutes).length === 0) {
       // If it's a stablecoin and has no other routes, we can confidently return 1.0 as a fallback
       if (this.isUsdStablecoin(normalizedToken)) {
-          return 1.0;
+          return { price: 1.0, poolAddress: null, baseSymbol: null, pricingMath: 'stablecoin-peg' };
       }
       console.log(`❌ [PRICING] ${tokenShort}... on chain ${chainId} → NO ROUTES (not discovered)`);
       console.log(`[LOG-PRICING-RESULT] ${tokenShort}... RETURNING: null (no routes)`);
@@ -118,8 +199,8 @@ class SpotPricingEngine {
     const totalPools = Object.values(tokenRoutes).reduce((sum, pools) => sum + pools.length, 0);
     console.log(`ℹ️ [PRICING] ${tokenShort}... has ${Object.keys(tokenRoutes).length} base token(s), ${totalPools} pool(s)`);
 
-    // Build symbol-to-address map for resolving base token symbols
-    const symbolMap = await this.buildSymbolMap(chainId);
+    // Build symbol-to-address map for resolving base token symbols (intermediate keys resolve to their address)
+    const symbolMap = intermediate?.addresses ?? await this.buildSymbolMap(chainId);
 
     // Strategy 1: Find a direct route to a USD stablecoin with available pool
     let bestPoolAddress: string | null = null;
@@ -133,11 +214,11 @@ class SpotPricingEngine {
       if (!baseAddress) continue;
       if (!this.isUsdStablecoin(baseAddress)) continue;
 
-      // This base is a USD stablecoin, try to fetch pool state
-      const poolAddresses = tokenRoutes[baseSymbol];
+      // This base is a USD stablecoin, try to fetch pool state (broken pools keep stale states)
+      const poolAddresses = tokenRoutes[baseSymbol].filter(poolAddr => !poolRegistry.pools[poolAddr.toLowerCase()]?.broken);
       for (const poolAddr of poolAddresses) {
         // ALWAYS use lowercase for cache keys
-        const pState = sharedStateCache.getPoolState(poolAddr.toLowerCase());
+        const pState = this.readPoolState(chainId, poolAddr, atBlock);
         if (pState) {
           bestPoolAddress = poolAddr.toLowerCase();
           bestBaseSymbol = baseSymbol;
@@ -156,9 +237,9 @@ class SpotPricingEngine {
       console.log(`🔍 [PRICING] ${tokenShort}... checking strategy 2 (WETH base)`);
       const wethSymbol = networkConfig.getWrappedNative(chainId).symbol;
       if (tokenRoutes[wethSymbol]) {
-        const poolAddresses = tokenRoutes[wethSymbol];
+        const poolAddresses = tokenRoutes[wethSymbol].filter(poolAddr => !poolRegistry.pools[poolAddr.toLowerCase()]?.broken);
         for (const poolAddr of poolAddresses) {
-          const pState = sharedStateCache.getPoolState(poolAddr.toLowerCase());
+          const pState = this.readPoolState(chainId, poolAddr, atBlock);
           if (pState) {
             bestPoolAddress = poolAddr.toLowerCase();
             bestBaseSymbol = wethSymbol;
@@ -179,9 +260,9 @@ class SpotPricingEngine {
         const baseAddress = symbolMap.get(baseSymbol);
         if (!baseAddress) continue;
 
-        const poolAddresses = tokenRoutes[baseSymbol];
+        const poolAddresses = tokenRoutes[baseSymbol].filter(poolAddr => !poolRegistry.pools[poolAddr.toLowerCase()]?.broken);
         for (const poolAddr of poolAddresses) {
-          const pState = sharedStateCache.getPoolState(poolAddr.toLowerCase());
+          const pState = this.readPoolState(chainId, poolAddr, atBlock);
           if (pState) {
             bestPoolAddress = poolAddr.toLowerCase();
             bestBaseSymbol = baseSymbol;
@@ -197,7 +278,7 @@ class SpotPricingEngine {
     if (!bestPoolAddress || !bestBaseAddress) {
       const availableCount = Object.values(tokenRoutes).filter(pools => 
         pools.some(async p => {
-          const state = await this.getPoolState(p, chainId);
+          const state = await this.getPoolState(p, chainId, atBlock);
           return state !== null;
         })
       ).length;
@@ -206,46 +287,377 @@ class SpotPricingEngine {
     }
 
     // Get pool state (from cache or fresh)
-    const poolState = await this.getPoolState(bestPoolAddress, chainId);
+    const poolState = await this.getPoolState(bestPoolAddress, chainId, atBlock);
     if (!poolState) {
       return null;
     }
 
-    // Calculate price from sqrtPriceX96
-    const sqrtPrice = Number(poolState.sqrtPriceX96) / (2 ** 96);
-    let rawPrice = sqrtPrice * sqrtPrice;
-
-    // Determine if our token is token0 or token1
-    const isToken0 = poolState.token0.toLowerCase() === normalizedToken;
-    
-    // Get decimals for adjustment
-    const token0Decimals = this.getDecimals(poolState.token0);
-    const token1Decimals = this.getDecimals(poolState.token1);
-
-    // Adjust for decimals
-    const decimalAdjustment = Math.pow(10, token0Decimals - token1Decimals);
-    rawPrice = rawPrice * decimalAdjustment;
-
-    // Calculate price: base/ourToken = token1/token0 if our token is token0
-    let priceInBaseToken = isToken0 ? rawPrice : (rawPrice > 0 ? 1 / rawPrice : 0);
+    // Dispatch on the registry's dexType: V2 pairs only carry reserves, V3 pools carry sqrtPriceX96
+    const poolMetadata = poolRegistry.pools[bestPoolAddress];
+    const poolPrice = this.computePoolPrice(poolState, poolMetadata, normalizedToken, chainId);
+    if (!poolPrice) {
+      console.log(`❌ [PRICING] ${tokenShort}... → POOL ${bestPoolAddress.slice(0, 6)}... HAS NO USABLE STATE`);
+      return null;
+    }
+    const { priceInBaseToken, pricingMath } = poolPrice;
 
     // If the base token is a USD stablecoin, this is the USD price
     if (this.isUsdStablecoin(bestBaseAddress)) {
-      console.log(`✓ [PRICING] ${tokenShort}... → $${priceInBaseToken.toFixed(6)} (stablecoin base)`);
-      return priceInBaseToken;
+      console.log(`✓ [PRICING] ${tokenShort}... → $${priceInBaseToken.toFixed(6)} (stablecoin base, ${pricingMath})`);
+      return { price: priceInBaseToken, poolAddress: bestPoolAddress, baseSymbol: bestBaseSymbol, pricingMath };
     }
 
     // Otherwise, recursively get the USD price of the base token
     console.log(`⚠️ [PRICING] ${tokenShort}... recursing for base token ${bestBaseSymbol} (${bestBaseAddress.slice(0, 6)}...)`);
-    const baseUsdPrice = await this.computeSpotPrice(bestBaseAddress, chainId, [...pricingStack, normalizedToken]);
+    const baseUsdPrice = await this.computeSpotPrice(bestBaseAddress, chainId, [...pricingStack, normalizedToken], atBlock);
     if (baseUsdPrice === null) {
       console.log(`❌ [PRICING] ${tokenShort}... → RECURSIVE BASE PRICE FAILED`);
       return null;
     }
 
     const finalPrice = priceInBaseToken * baseUsdPrice;
-    console.log(`✓ [PRICING] ${tokenShort}... → $${finalPrice.toFixed(6)} (multi-hop)`);
-    return finalPrice;
+    console.log(`✓ [PRICING] ${tokenShort}... → $${finalPrice.toFixed(6)} (multi-hop, ${pricingMath})`);
+    return { price: finalPrice, poolAddress: bestPoolAddress, baseSymbol: bestBaseSymbol, pricingMath };
+  }
+
+  /**
+   * Lists every pool computeSpotPrice may read to price a token: the token's routes (its
+   * intermediate routes when it has no base route) and, recursively, the routes of their base
+   * and intermediate tokens. Broken pools are skipped.
+   *
+   * @returns Lowercase pool addresses
+   */
+  public async collectPricingPools(tokenAddress: string, chainId: number): Promise<string[]> {
+    const poolRegistry = await storageService.getPoolRegistry(chainId);
+    const symbolMap = await this.buildSymbolMap(chainId);
+
+    const pools = new Set<string>();
+    const visited = new Set<string>();
+    const queue = [tokenAddress.toLowerCase()];
+    while (queue.length > 0) {
+      const token = queue.shift()!;
+      if (visited.has(token)) continue;
+      visited.add(token);
+
+      const tokenRoutes = poolRegistry.pricingRoutes[token] ?? {};
+      for (const [baseSymbol, poolAddresses] of Object.entries(tokenRoutes)) {
+        for (const poolAddr of poolAddresses) {
+          if (!poolRegistry.pools[poolAddr.toLowerCase()]?.broken) pools.add(poolAddr.toLowerCase());
+        }
+        const baseAddress = symbolMap.get(baseSymbol);
+        if (baseAddress && !this.isUsdStablecoin(baseAddress)) queue.push(baseAddress);
+      }
+      if (Object.keys(tokenRoutes).length > 0) continue;
+
+      for (const [intermediateAddress, poolAddresses] of Object.entries(poolRegistry.intermediateRoutes?.[token] ?? {})) {
+        for (const poolAddr of poolAddresses) {
+          if (!poolRegistry.pools[poolAddr.toLowerCase()]?.broken) pools.add(poolAddr.toLowerCase());
+        }
+        queue.push(intermediateAddress);
+      }
+    }
+    return [...pools];
+  }
+
+  /**
+   * Calculates a liquidity-weighted USD price across every cached pool on every base.
+   *
+   * 1. Each cached pool in pricingRoutes[token][base] implies a USD price
+   *    (pool price × base USD price, the latter resolved recursively).
+   *    A token without a base route uses its intermediateRoutes, intermediates acting as bases.
+   * 2. Each pool is weighted by its USD depth: twice its base-side amount in USD, V2 reserves or
+   *    V3 virtual in-range amounts. Virtual amounts overstate concentrated V3 pools against V2
+   *    ones, so V3 pools weigh more than their holdings would; it is a ranking of pools by the
+   *    liquidity around the current price, not a measure of TVL. Broken pools are skipped.
+   * 3. Pools deviating from the depth-weighted median beyond OUTLIER_BAND are dropped.
+   * 4. The aggregate is the depth-weighted mean of the remaining pools.
+   *
+   * Confidence = retained depth share × price agreement × depth sufficiency, each in [0, 1].
+   *
+   * @param tokenAddress The address of the token to price.
+   * @param chainId The chain ID of the token.
+   * @param pricingStack The stack of tokens being priced, to prevent circular dependencies.
+   * @returns The aggregate with its per-pool breakdown, or null if no pool could price the token.
+   */
+  public async computeAggregatedPrice(tokenAddress: string, chainId: number, pricingStack: string[] = []): Promise<AggregatedPriceResult | null> {
+    const normalizedToken = tokenAddress.toLowerCase();
+    const tokenShort = tokenAddress.slice(0, 6);
+
+    if (pricingStack.includes(normalizedToken)) {
+      console.warn(`[PRICING] Circular dependency detected, aborting: ${pricingStack.join(' -> ')} -> ${normalizedToken}`);
+      return null;
+    }
+
+    const poolRegistry = await storageService.getPoolRegistry(chainId);
+    let tokenRoutes = poolRegistry.pricingRoutes[normalizedToken];
+
+    const intermediate = !tokenRoutes || Object.keys(tokenRoutes).length === 0
+      ? this.resolveIntermediateRoutes(poolRegistry, normalizedToken, chainId, pricingStack)
+      : null;
+    if (intermediate) tokenRoutes = intermediate.routes;
+
+    if (!tokenRoutes || Object.keys(tokenRoutes).length === 0) {
+      if (this.isUsdStablecoin(normalizedToken)) {
+        return { price: 1.0, confidence: 1, totalDepthUSD: 0, pools: [] };
+      }
+      console.log(`❌ [PRICING] ${tokenShort}... on chain ${chainId} → NO ROUTES (not discovered)`);
+      return null;
+    }
+
+    const symbolMap = intermediate?.addresses ?? await this.buildSymbolMap(chainId);
+    const contributions: PoolPriceContribution[] = [];
+
+    for (const baseSymbol in tokenRoutes) {
+      const baseAddress = symbolMap.get(baseSymbol);
+      if (!baseAddress) continue;
+
+      const cachedPools = tokenRoutes[baseSymbol]
+        .map(poolAddr => poolAddr.toLowerCase())
+        .filter(poolAddr => !poolRegistry.pools[poolAddr]?.broken && sharedStateCache.getPoolState(chainId, poolAddr));
+      if (cachedPools.length === 0) continue;
+
+      let baseUsdPrice: number | null = 1.0;
+      if (!this.isUsdStablecoin(baseAddress)) {
+        const baseResult = await this.computeAggregatedPrice(baseAddress, chainId, [...pricingStack, normalizedToken]);
+        baseUsdPrice = baseResult ? baseResult.price : null;
+      }
+      if (baseUsdPrice === null || baseUsdPrice <= 0) {
+        console.log(`ℹ️ [PRICING] ${tokenShort}... skipping ${baseSymbol} pools (base price unavailable)`);
+        continue;
+      }
+
+      for (const poolAddr of cachedPools) {
+        const poolState = sharedStateCache.getPoolState(chainId, poolAddr)!;
+        const poolMetadata = poolRegistry.pools[poolAddr];
+        const poolPrice = this.computePoolPrice(poolState, poolMetadata, normalizedToken, chainId);
+        const baseAmount = this.computeSideAmount(poolState, poolMetadata, baseAddress, chainId);
+        if (!poolPrice || baseAmount === null) continue;
+
+        contributions.push({
+          poolAddress: poolAddr,
+          baseSymbol,
+          pricingMath: poolPrice.pricingMath,
+          price: poolPrice.priceInBaseToken * baseUsdPrice,
+          // Both sides of a pool hold equal value at the pool price (V3: virtual amounts, see above)
+          depthUSD: 2 * baseAmount * baseUsdPrice,
+          weight: 0,
+          outlier: false,
+        });
+      }
+    }
+
+    if (contributions.length === 0) {
+      console.log(`❌ [PRICING] ${tokenShort}... → NO AVAILABLE POOLS for aggregation`);
+      return null;
+    }
+
+    const totalDepth = contributions.reduce((sum, c) => sum + c.depthUSD, 0);
+    if (totalDepth <= 0) return null;
+
+    // Depth-weighted median as the outlier reference
+    const byPrice = [...contributions].sort((a, b) => a.price - b.price);
+    let cumulativeDepth = 0;
+    let median = byPrice[byPrice.length - 1].price;
+    for (const c of byPrice) {
+      cumulativeDepth += c.depthUSD;
+      if (cumulativeDepth >= totalDepth / 2) {
+        median = c.price;
+        break;
+      }
+    }
+
+    for (const c of contributions) {
+      c.outlier = Math.abs(c.price - median) / median > pricingConfig.OUTLIER_BAND;
+    }
+
+    const retained = contributions.filter(c => !c.outlier);
+    const retainedDepth = retained.reduce((sum, c) => sum + c.depthUSD, 0);
+    for (const c of retained) {
+      c.weight = c.depthUSD / retainedDepth;
+    }
+
+    const price = retained.reduce((sum, c) => sum + c.price * c.weight, 0);
+
+    const depthShare = retainedDepth / totalDepth;
+    const dispersion = retained.reduce((sum, c) => sum + c.weight * Math.abs(c.price - price) / price, 0);
+    const agreement = 1 - Math.min(1, dispersion / pricingConfig.OUTLIER_BAND);
+    const depthSufficiency = Math.min(1, retainedDepth / pricingConfig.CONFIDENT_DEPTH_USD);
+    const confidence = depthShare * agreement * depthSufficiency;
+
+    console.log(
+      `✓ [PRICING] ${tokenShort}... → $${price.toFixed(6)} (liquidity-weighted, ${retained.length}/${contributions.length} pools, ` +
+      `depth $${retainedDepth.toFixed(0)}, confidence ${confidence.toFixed(2)})`
+    );
+
+    return { price, confidence, totalDepthUSD: retainedDepth, pools: contributions };
+  }
+
+  /**
+   * Calculates a token's USD liquidity across every cached pool in its pricing routes.
+   *
+   * Each pool contributes the USD value of both of its sides:
+   * - token side: amount of the token × the token's USD spot price (the pool's own
+   *   price × base price if the token cannot be spot-priced)
+   * - counter side: amount of the base token × the base token's USD spot price
+   * Amounts are V2 reserves, or V3 virtual in-range amounts derived from liquidity and sqrtPriceX96.
+   * Tokens without a base pair are valued over their intermediate routes, the intermediate
+   * token taking the base token's place. Broken pools and pools whose base token cannot be
+   * priced are skipped.
+   *
+   * @param tokenAddress The address of the token.
+   * @param chainId The chain ID of the token.
+   * @param poolStates Freshly read states to use instead of the cache (pools not in the map are skipped),
+   *                   e.g. for tokens whose pools the scheduler does not track yet.
+   * @returns The total with its per-pool breakdown, or null if the token has no pricing routes.
+   */
+  public async computeTokenLiquidity(
+    tokenAddress: string,
+    chainId: number,
+    poolStates?: Map<string, PoolState>
+  ): Promise<TokenLiquidityResult | null> {
+    const normalizedToken = tokenAddress.toLowerCase();
+
+    const poolRegistry = await storageService.getPoolRegistry(chainId);
+    let tokenRoutes = poolRegistry.pricingRoutes[normalizedToken];
+
+    const intermediate = !tokenRoutes || Object.keys(tokenRoutes).length === 0
+      ? this.resolveIntermediateRoutes(poolRegistry, normalizedToken, chainId, [])
+      : null;
+    if (intermediate) tokenRoutes = intermediate.routes;
+    if (!tokenRoutes || Object.keys(tokenRoutes).length === 0) return null;
+
+    const symbolMap = intermediate?.addresses ?? await this.buildSymbolMap(chainId);
+    const tokenUsdPrice = await this.computeSpotPrice(normalizedToken, chainId);
+    const pools: PoolLiquidityContribution[] = [];
+    const readState = (poolAddr: string) => (poolStates ? poolStates.get(poolAddr) : sharedStateCache.getPoolState(chainId, poolAddr));
+
+    for (const baseSymbol in tokenRoutes) {
+      const baseAddress = symbolMap.get(baseSymbol);
+      if (!baseAddress) continue;
+
+      const cachedPools = tokenRoutes[baseSymbol]
+        .map(poolAddr => poolAddr.toLowerCase())
+        .filter(poolAddr => !poolRegistry.pools[poolAddr]?.broken && readState(poolAddr));
+      if (cachedPools.length === 0) continue;
+
+      const baseUsdPrice = this.isUsdStablecoin(baseAddress)
+        ? 1.0
+        : await this.computeSpotPrice(baseAddress, chainId, [normalizedToken]);
+      if (baseUsdPrice === null || baseUsdPrice <= 0) continue;
+
+      for (const poolAddr of cachedPools) {
+        const poolState = readState(poolAddr)!;
+        const poolMetadata = poolRegistry.pools[poolAddr];
+        const tokenAmount = this.computeSideAmount(poolState, poolMetadata, normalizedToken, chainId);
+        const baseAmount = this.computeSideAmount(poolState, poolMetadata, baseAddress, chainId);
+        if (tokenAmount === null || baseAmount === null) continue;
+
+        let tokenPrice = tokenUsdPrice;
+        if (tokenPrice === null) {
+          const poolPrice = this.computePoolPrice(poolState, poolMetadata, normalizedToken, chainId);
+          if (!poolPrice) continue;
+          tokenPrice = poolPrice.priceInBaseToken * baseUsdPrice;
+        }
+
+        const tokenSideUSD = tokenAmount * tokenPrice;
+        const baseSideUSD = baseAmount * baseUsdPrice;
+        pools.push({
+          poolAddress: poolAddr,
+          baseSymbol,
+          amountMath: this.resolveDexType(poolState, poolMetadata) === 'v2' ? 'v2-reserves' : 'v3-virtual',
+          tokenAmount,
+          baseAmount,
+          tokenSideUSD,
+          baseSideUSD,
+          liquidityUSD: tokenSideUSD + baseSideUSD,
+        });
+      }
+    }
+
+    const liquidityUSD = pools.reduce((sum, pool) => sum + pool.liquidityUSD, 0);
+    console.log(`✓ [LIQUIDITY] ${tokenAddress.slice(0, 6)}... → $${liquidityUSD.toFixed(0)} across ${pools.length} pool(s)`);
+    return { liquidityUSD, pools };
+  }
+
+  /**
+   * Amount of one of a pool's tokens held by the pool, in whole-token units.
+   * V2 uses reserves; V3 uses the virtual in-range amount (L / √P for token0, L × √P for token1).
+   */
+  private computeSideAmount(
+    poolState: PoolState,
+    poolMetadata: PoolMetadata | undefined,
+    sideAddress: string,
+    chainId: number
+  ): number | null {
+    const sideIsToken0 = poolState.token0.toLowerCase() === sideAddress.toLowerCase();
+    const sideDecimals = this.getDecimals(sideIsToken0 ? poolState.token0 : poolState.token1, chainId);
+
+    let rawAmount: number;
+    if (this.resolveDexType(poolState, poolMetadata) === 'v2') {
+      const reserve = sideIsToken0 ? poolState.reserve0 : poolState.reserve1;
+      if (reserve === undefined) return null;
+      rawAmount = Number(reserve);
+    } else {
+      if (poolState.liquidity === undefined || !poolState.sqrtPriceX96) return null;
+      const sqrtPrice = Number(poolState.sqrtPriceX96) / (2 ** 96);
+      const liquidity = Number(poolState.liquidity);
+      rawAmount = sideIsToken0 ? liquidity / sqrtPrice : liquidity * sqrtPrice;
+    }
+
+    const amount = rawAmount / Math.pow(10, sideDecimals);
+    return Number.isFinite(amount) ? amount : null;
+  }
+
+  /**
+   * The registry's dexType, or the shape of the cached state if the pool is unknown to the registry
+   */
+  private resolveDexType(poolState: PoolState, poolMetadata: PoolMetadata | undefined): 'v2' | 'v3' {
+    return poolMetadata?.dexType ?? (poolState.reserve0 !== undefined ? 'v2' : 'v3');
+  }
+
+  /**
+   * Price of `tokenAddress` denominated in the pool's other token.
+   *
+   * V2 pools are priced from decimal-adjusted reserves, V3 pools from sqrtPriceX96.
+   * The registry's dexType decides; if the pool is unknown to the registry, the
+   * shape of the cached state decides.
+   *
+   * @returns The price and the math used, or null if the state cannot produce a price.
+   */
+  private computePoolPrice(
+    poolState: PoolState,
+    poolMetadata: PoolMetadata | undefined,
+    tokenAddress: string,
+    chainId: number
+  ): { priceInBaseToken: number; pricingMath: PricingMath } | null {
+    const dexType = this.resolveDexType(poolState, poolMetadata);
+    const isToken0 = poolState.token0.toLowerCase() === tokenAddress.toLowerCase();
+    const token0Decimals = this.getDecimals(poolState.token0, chainId);
+    const token1Decimals = this.getDecimals(poolState.token1, chainId);
+
+    // price of token0 denominated in token1, adjusted for decimals
+    let token0Price: number;
+    let pricingMath: PricingMath;
+
+    if (dexType === 'v2') {
+      if (poolState.reserve0 === undefined || poolState.reserve1 === undefined) return null;
+      if (poolState.reserve0 === 0n || poolState.reserve1 === 0n) return null;
+      const reserve0 = Number(poolState.reserve0) / Math.pow(10, token0Decimals);
+      const reserve1 = Number(poolState.reserve1) / Math.pow(10, token1Decimals);
+      token0Price = reserve1 / reserve0;
+      pricingMath = 'v2-reserves';
+    } else {
+      if (poolState.sqrtPriceX96 === undefined || poolState.sqrtPriceX96 === 0n) return null;
+      const sqrtPrice = Number(poolState.sqrtPriceX96) / (2 ** 96);
+      token0Price = sqrtPrice * sqrtPrice * Math.pow(10, token0Decimals - token1Decimals);
+      pricingMath = 'v3-sqrtPrice';
+    }
+
+    if (!Number.isFinite(token0Price) || token0Price <= 0) return null;
+
+    // Calculate price: base/ourToken = token1/token0 if our token is token0
+    const priceInBaseToken = isToken0 ? token0Price : 1 / token0Price;
+    return { priceInBaseToken, pricingMath };
   }
 }
 
@@ -260,11 +672,39 @@ export async function initSpotPricingEngine(ethersAdapter: EthersAdapter): Promi
 }
 
 export const spotPricingEngine = {
-  computeSpotPrice(tokenAddress: string, chainId: number) {
+  computeSpotPrice(tokenAddress: string, chainId: number, atBlock?: number) {
     if (!spotPricingEngineInstance) {
       throw new Error('SpotPricingEngine not initialized. Call initSpotPricingEngine first.');
     }
     // Initialize the pricing stack for the top-level call
-    return spotPricingEngineInstance.computeSpotPrice(tokenAddress, chainId, []);
+    return spotPricingEngineInstance.computeSpotPrice(tokenAddress, chainId, [], atBlock);
+  },
+
+  computeSpotPriceDetailed(tokenAddress: string, chainId: number) {
+    if (!spotPricingEngineInstance) {
+      throw new Error('SpotPricingEngine not initialized. Call initSpotPricingEngine first.');
+    }
+    return spotPricingEngineInstance.computeSpotPriceDetailed(tokenAddress, chainId, []);
+  },
+
+  computeAggregatedPrice(tokenAddress: string, chainId: number) {
+    if (!spotPricingEngineInstance) {
+      throw new Error('SpotPricingEngine not initialized. Call initSpotPricingEngine first.');
+    }
+    return spotPricingEngineInstance.computeAggregatedPrice(tokenAddress, chainId, []);
+  },
+
+  computeTokenLiquidity(tokenAddress: string, chainId: number, poolStates?: Map<string, PoolState>) {
+    if (!spotPricingEngineInstance) {
+      throw new Error('SpotPricingEngine not initialized. Call initSpotPricingEngine first.');
+    }
+    return spotPricingEngineInstance.computeTokenLiquidity(tokenAddress, chainId, poolStates);
+  },
+
+  collectPricingPools(tokenAddress: string, chainId: number) {
+    if (!spotPricingEngineInstance) {
+      throw new Error('SpotPricingEngine not initialized. Call initSpotPricingEngine first.');
+    }
+    return spotPricingEngineInstance.collectPricingPools(tokenAddress, chainId);
   }
 };
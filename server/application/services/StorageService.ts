@@ -2,7 +2,17 @@ import fs from 'fs/promises';
 import path from 'path';
 import { getAddress } from 'ethers';
 import { Token } from '../../domain/entities';
-import { PoolRegistry, QuarantineRegistry } from '../../domain/types';
+import {
+  PoolRegistry,
+  QuarantineRegistry,
+  QuarantineValidation,
+  TokenRiskReport,
+  PriceHistoryStore,
+  VolumeIndexCheckpoint,
+  FactoryPoolEntry,
+  FactoryPoolIndex,
+  TopologyChangeSet,
+} from '../../domain/types';
 
 function normalizeAddress(address: string): string {
   try {
@@ -14,6 +24,10 @@ function normalizeAddress(address: string): string {
 
 const DATA_DIR = path.join(process.cwd(), 'server', 'data');
 
+// chainId -> last queued pool registry update. Module-level: every StorageService instance
+// writes the same files, so they share one queue per chain.
+const poolRegistryUpdates: Map<number, Promise<unknown>> = new Map();
+
 export class StorageService {
   async read(fileName: string): Promise<any> {
     try {
@@ -28,9 +42,9 @@ export class StorageService {
     }
   }
 
-  async write(fileName: string, data: any): Promise<void> {
+  async write(fileName: string, data: any, pretty: boolean = true): Promise<void> {
     const filePath = path.join(DATA_DIR, fileName);
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.writeFile(filePath, pretty ? JSON.stringify(data, null, 2) : JSON.stringify(data), 'utf-8');
   }
 
   async getTokensByNetwork(chainId: number): Promise<Token[]> {
@@ -51,6 +65,7 @@ export class StorageService {
             chainId: chainId,
             logoURI: metadata.logoURI || '',
             logoFetchedAt: metadata.logoFetchedAt,
+            riskFlags: metadata.riskFlags,
           } as Token;
         })
         .filter((t): t is Token => t !== null);
@@ -78,6 +93,27 @@ export class StorageService {
     await this.write(fileName, registry);
   }
 
+  /**
+   * Read, modify and save the pool registry, one update at a time per chain: each update sees
+   * what the previous one saved, so concurrent writers do not overwrite each other's changes.
+   *
+   * @param chainId Network chain ID
+   * @param update Modifies the registry in place; the registry is saved once it resolves
+   * @returns What `update` returned
+   */
+  async updatePoolRegistry<T>(chainId: number, update: (registry: PoolRegistry) => T | Promise<T>): Promise<T> {
+    const run = (poolRegistryUpdates.get(chainId) ?? Promise.resolve())
+      .catch(() => undefined) // A failed update must not block the ones queued behind it
+      .then(async () => {
+        const registry = await this.getPoolRegistry(chainId);
+        const result = await update(registry);
+        await this.savePoolRegistry(chainId, registry);
+        return result;
+      });
+    poolRegistryUpdates.set(chainId, run);
+    return run;
+  }
+
   async getQuarantineRegistry(chainId: number): Promise<QuarantineRegistry> {
     const fileName = `quarantine-registry_${chainId === 1 ? 'ethereum' : 'polygon'}.json`;
     const data = await this.read(fileName);
@@ -90,6 +126,85 @@ export class StorageService {
     await this.write(fileName, registry);
   }
 
+  async getPriceHistory(chainId: number): Promise<PriceHistoryStore> {
+    const fileName = `price-history_${chainId === 1 ? 'ethereum' : 'polygon'}.json`;
+    const data = await this.read(fileName);
+    if (!data.tokens) data.tokens = {};
+    return data as PriceHistoryStore;
+  }
+
+  async savePriceHistory(chainId: number, store: PriceHistoryStore): Promise<void> {
+    const fileName = `price-history_${chainId === 1 ? 'ethereum' : 'polygon'}.json`;
+    // Not pretty-printed: the series are long arrays of numeric tuples
+    await this.write(fileName, store, false);
+  }
+
+  async getVolumeIndex(chainId: number): Promise<VolumeIndexCheckpoint> {
+    const fileName = `volume-index_${chainId === 1 ? 'ethereum' : 'polygon'}.json`;
+    const data = await this.read(fileName);
+    if (!data.pools) data.pools = {};
+    if (!data.lastBlock) data.lastBlock = 0;
+    return data as VolumeIndexCheckpoint;
+  }
+
+  async saveVolumeIndex(chainId: number, checkpoint: VolumeIndexCheckpoint): Promise<void> {
+    const fileName = `volume-index_${chainId === 1 ? 'ethereum' : 'polygon'}.json`;
+    await this.write(fileName, checkpoint, false);
+  }
+
+  async getFactoryPoolIndex(chainId: number): Promise<FactoryPoolIndex> {
+    const network = chainId === 1 ? 'ethereum' : 'polygon';
+    const cursors = await this.read(`factory-cursors_${network}.json`);
+    const pools: Record<string, FactoryPoolEntry> = {};
+    for (const [poolAddress, ...entry] of await this.readJsonLines<[string, ...FactoryPoolEntry]>(`factory-pools_${network}.jsonl`)) {
+      pools[poolAddress] = entry;
+    }
+    return { cursors, pools };
+  }
+
+  async appendFactoryPools(chainId: number, pools: Record<string, FactoryPoolEntry>): Promise<void> {
+    const filePath = path.join(DATA_DIR, `factory-pools_${chainId === 1 ? 'ethereum' : 'polygon'}.jsonl`);
+    const lines = Object.entries(pools).map(([poolAddress, entry]) => JSON.stringify([poolAddress, ...entry]) + '\n');
+    // JSON Lines: the index grows by the pools found, never rewritten
+    if (lines.length > 0) await fs.appendFile(filePath, lines.join(''), 'utf-8');
+  }
+
+  async saveFactoryCursors(chainId: number, cursors: Record<string, number>): Promise<void> {
+    const fileName = `factory-cursors_${chainId === 1 ? 'ethereum' : 'polygon'}.json`;
+    await this.write(fileName, cursors);
+  }
+
+  async getTopologyJournal(chainId: number): Promise<TopologyChangeSet[]> {
+    return this.readJsonLines<TopologyChangeSet>(`topology-journal_${chainId === 1 ? 'ethereum' : 'polygon'}.jsonl`);
+  }
+
+  async appendTopologyChangeSet(chainId: number, changeSet: TopologyChangeSet): Promise<void> {
+    const filePath = path.join(DATA_DIR, `topology-journal_${chainId === 1 ? 'ethereum' : 'polygon'}.jsonl`);
+    // JSON Lines: appending never rewrites earlier entries
+    await fs.appendFile(filePath, JSON.stringify(changeSet) + '\n', 'utf-8');
+  }
+
+  private async readJsonLines<T>(fileName: string): Promise<T[]> {
+    let data: string;
+    try {
+      data = await fs.readFile(path.join(DATA_DIR, fileName), 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: T[] = [];
+    for (const line of data.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash mid-append: skip it
+      }
+    }
+    return entries;
+  }
+
   async promoteQuarantineToken(chainId: number, tokenAddress: string, cacheLayer?: any): Promise<void> {
     const quarantine = await this.getQuarantineRegistry(chainId);
     const entry = quarantine.entries[tokenAddress];
@@ -105,6 +220,7 @@ export class StorageService {
         chainId: chainId,
         logoURI: entry.metadata.logoURI || '',
         logoFetchedAt: entry.metadata.logoFetchedAt,
+        riskFlags: entry.risk?.findings.filter(finding => finding.action === 'flag').map(finding => finding.flag),
       });
     }
 
@@ -117,6 +233,21 @@ export class StorageService {
     }
   }
 
+  async recordQuarantineValidation(
+    chainId: number,
+    tokenAddress: string,
+    validation: QuarantineValidation,
+    risk?: TokenRiskReport
+  ): Promise<void> {
+    const quarantine = await this.getQuarantineRegistry(chainId);
+    const entry = quarantine.entries[tokenAddress];
+    if (!entry) return;
+
+    entry.validation = validation;
+    if (risk) entry.risk = risk;
+    await this.saveQuarantineRegistry(chainId, quarantine);
+  }
+
   async removeFromQuarantine(chainId: number, tokenAddress: string): Promise<void> {
     const quarantine = await this.getQuarantineRegistry(chainId);
     if (quarantine.entries[tokenAddress]) {
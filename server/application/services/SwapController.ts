@@ -1,139 +1,320 @@
 
 import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
+import { swapConfig } from '../../infrastructure/config/SwapConfig';
+import { ERC20_ABI } from '../../infrastructure/config/ContractAddressConfig';
 import { RoutingEngine } from './RoutingEngine';
 import { TradeSimulator } from './TradeSimulator';
+import { GasEstimator, GasPricing } from './GasEstimator';
+import { SplitOptimizer, SplitLeg, RouteCurve } from './SplitOptimizer';
+import { SwapTransactionBuilder } from './SwapTransactionBuilder';
+import { sharedStateCache } from './SharedStateCache';
+import { storageService } from './StorageService';
+import type {
+  LiquidityRisk,
+  QuoteExecutionDetails,
+  RouteAllocation,
+  SimulationResult,
+  SwapBuildRequest,
+  SwapBuildResult,
+  SwapRoute,
+  TradeType,
+} from '../../domain/swapper.types';
 
-export interface TradeExecutionPlan {
-  finalAmountOut: string;
-  distribution: {
-    route: string[];
-    amount: string;
-  }[];
+type QuoteResult = Partial<QuoteExecutionDetails> & {
+  tradeType: TradeType;
+  route?: string[];
+  pools?: string[];
+  amountOut?: string;
+  amountInRequired?: string;
+  distribution?: RouteAllocation[];
+  finalAmountOut?: string;
+  estimatedGas: number;
+  gasCostUSD?: number;
+};
+
+// A complete candidate execution (single route or split) and its gas-aware score
+interface ExecutionCandidate {
+  legs: SplitLeg[];
+  legGas: number[];
+  gasUnits: number;
+  score: bigint; // exactIn: output net of gas; exactOut: -(input + gas)
 }
 
 export class SwapController {
+  private ethersAdapter: EthersAdapter;
   private routingEngine: RoutingEngine;
   private tradeSimulator: TradeSimulator;
+  private gasEstimator: GasEstimator;
+  private splitOptimizer: SplitOptimizer;
+  private transactionBuilder: SwapTransactionBuilder;
+  private tokenDecimals: Map<string, number> = new Map(); // "chainId:address" -> decimals
 
   constructor(ethersAdapter: EthersAdapter) {
+    this.ethersAdapter = ethersAdapter;
     this.routingEngine = new RoutingEngine(ethersAdapter);
     this.tradeSimulator = new TradeSimulator(ethersAdapter);
+    this.gasEstimator = new GasEstimator(ethersAdapter);
+    this.splitOptimizer = new SplitOptimizer(this.tradeSimulator);
+    this.transactionBuilder = new SwapTransactionBuilder(ethersAdapter);
+  }
+
+  /**
+   * Builds unsigned transactions (and required approvals) for a quote returned by getQuote.
+   * Nothing is signed or broadcast.
+   */
+  public async buildSwap(request: SwapBuildRequest): Promise<SwapBuildResult> {
+    return this.transactionBuilder.build(request);
   }
 
+  /**
+   * Quotes a swap.
+   *
+   * Only routes the transaction builder can execute are quoted. Candidates are every
+   * route on its own plus splits across routes; the split is
+   * re-run without its smallest leg for as long as that keeps a candidate alive, and
+   * the candidate with the best output net of gas (exactIn) or lowest input plus gas
+   * (exactOut) wins.
+   *
+   * @param amount - Input amount for exactIn, desired output amount for exactOut
+   * @param slippage - Tolerance (percentage) used for amountOutMinimum / amountInMaximum
+   * @param tradeType - exactIn (default) or exactOut
+   * @returns The best single route or split, with mid/execution price, price impact,
+   *          liquidity risk and slippage bound on the quote and on every leg, plus gas.
+   */
   public async getQuote(
     tokenIn: string,
     tokenOut: string,
-    amountIn: string,
-    chainId: number
-  ): Promise<{ route?: string[]; amountOut?: string; distribution?: any } | null> {
-    
-    const routes = await this.routingEngine.findRoutes(tokenIn, tokenOut, chainId);
+    amount: string,
+    chainId: number,
+    slippage: number = swapConfig.defaultSlippage,
+    tradeType: TradeType = 'exactIn'
+  ): Promise<QuoteResult | null> {
+
+    const routes = await this.buildableRoutes(
+      await this.routingEngine.findRoutes(tokenIn, tokenOut, chainId),
+      chainId,
+      tradeType
+    );
     if (routes.length === 0) {
       return null; // No routes found
     }
 
-    const amountInBI = BigInt(amountIn);
+    const amountBI = BigInt(amount);
+    const [decimalsIn, decimalsOut] = await Promise.all([
+      this.getDecimals(tokenIn, chainId),
+      this.getDecimals(tokenOut, chainId),
+    ]);
+    const priceScale = Math.pow(10, decimalsIn - decimalsOut);
 
-    if (routes.length === 1) {
-      const amountOut = await this.tradeSimulator.simulatePath(routes[0], amountInBI, chainId);
-      if (!amountOut) {
-        return null;
+    // Gas is scored in the token whose amount is being optimized
+    const gasPricing = tradeType === 'exactIn'
+      ? await this.gasEstimator.getGasPricing(chainId, tokenOut, decimalsOut)
+      : await this.gasEstimator.getGasPricing(chainId, tokenIn, decimalsIn);
+
+    const candidates: ExecutionCandidate[] = [];
+
+    // Every route on its own
+    const singleCandidates = swapConfig.allowMultiRoute ? routes : routes.slice(0, 1);
+    for (const route of singleCandidates) {
+      const simulation = await this.simulateDetailed(route, amountBI, chainId, tradeType);
+      if (simulation) candidates.push(this.buildCandidate([{ route, simulation }], chainId, tradeType, gasPricing));
+    }
+
+    // Splits, dropping the smallest leg while more than one route remains
+    if (routes.length > 1 && swapConfig.allowMultiRoute) {
+      const curves = new Map<SwapRoute, RouteCurve>(); // Sampled once, shared by every split below
+      let activeRoutes = routes;
+      while (activeRoutes.length > 1) {
+        const legs = await this.splitOptimizer.optimize(activeRoutes, amountBI, chainId, tradeType, curves);
+        if (!legs || legs.length <= 1) break;
+        candidates.push(this.buildCandidate(legs, chainId, tradeType, gasPricing));
+
+        const smallest = legs.reduce((a, b) =>
+          this.specifiedAmount(a.simulation, tradeType) <= this.specifiedAmount(b.simulation, tradeType) ? a : b
+        );
+        activeRoutes = legs.map(leg => leg.route).filter(route => route !== smallest.route);
       }
-      return {
-        route: routes[0],
-        amountOut: amountOut.toString(),
-      };
     }
 
-    const plan = await this.findOptimalSplit(routes, amountInBI, chainId);
-    if (!plan) {
+    if (candidates.length === 0) {
       return null;
     }
-
-    return plan;
+    const best = candidates.reduce((a, b) => (b.score > a.score ? b : a));
+    return this.formatQuote(best, chainId, priceScale, slippage, tradeType, gasPricing);
   }
 
-  private async findOptimalSplit(
-    routes: string[][],
-    amountIn: bigint,
-    chainId: number
-  ): Promise<TradeExecutionPlan | null> {
-    if (routes.length === 0) {
-      return null;
+  /**
+   * Routes the transaction builder can execute: a route mixing routers (or, for exact output,
+   * V2 and V3 pools) would win quotes that /api/swap/build then refuses.
+   */
+  private async buildableRoutes(routes: SwapRoute[], chainId: number, tradeType: TradeType): Promise<SwapRoute[]> {
+    const buildable: SwapRoute[] = [];
+    for (const route of routes) {
+      if (await this.transactionBuilder.canBuild(route, chainId, tradeType)) buildable.push(route);
+    }
+    if (buildable.length < routes.length) {
+      console.log(`[SWAP] Chain ${chainId}: dropped ${routes.length - buildable.length} route(s) that cannot be built`);
     }
+    return buildable;
+  }
 
-    const allocations: bigint[] = routes.map(() => 0n);
-    const incrementSize = amountIn / BigInt(100); 
+  private simulateDetailed(route: SwapRoute, amount: bigint, chainId: number, tradeType: TradeType): Promise<SimulationResult | null> {
+    return tradeType === 'exactIn'
+      ? this.tradeSimulator.simulateRouteDetailed(route, amount, chainId)
+      : this.tradeSimulator.simulateRouteExactOutDetailed(route, amount, chainId);
+  }
 
-    if (incrementSize === 0n) {
-      const amountOut = await this.tradeSimulator.simulatePath(routes[0], amountIn, chainId);
-      if (!amountOut) {
-        return null;
-      }
-      return {
-        finalAmountOut: amountOut.toString(),
-        distribution: [{ route: routes[0], amount: amountIn.toString() }],
-      };
-    }
+  private specifiedAmount(simulation: SimulationResult, tradeType: TradeType): bigint {
+    return tradeType === 'exactIn' ? simulation.amountIn : simulation.amountOut;
+  }
 
-    let remainingAmount = amountIn;
-
-    while (remainingAmount > 0n) {
-      const allocAmount = remainingAmount < incrementSize ? remainingAmount : incrementSize;
-      let bestRouteIdx = -1;
-      let bestMarginalOutput = -1n;
-
-      for (let i = 0; i < routes.length; i++) {
-        const currentAllocation = allocations[i];
-        const testAllocation = currentAllocation + allocAmount;
-        
-        const [currentOutput, nextOutput] = await Promise.all([
-            currentAllocation > 0n ? this.tradeSimulator.simulatePath(routes[i], currentAllocation, chainId) : Promise.resolve(0n),
-            this.tradeSimulator.simulatePath(routes[i], testAllocation, chainId)
-        ]);
-
-        if (nextOutput) {
-          const marginalOutput = nextOutput - (currentOutput || 0n);
-          if (marginalOutput > bestMarginalOutput) {
-            bestMarginalOutput = marginalOutput;
-            bestRouteIdx = i;
-          }
-        }
-      }
+  /**
+   * Attaches gas to a set of legs and scores it net of gas.
+   */
+  private buildCandidate(legs: SplitLeg[], chainId: number, tradeType: TradeType, gasPricing: GasPricing): ExecutionCandidate {
+    const legGas = legs.map(leg => this.gasEstimator.estimateRouteGas(leg.route, leg.simulation.hopTicksCrossed, chainId));
+    const gasUnits = this.gasEstimator.estimateTransactionGas(legs.map(leg => leg.route), legGas, chainId);
+    const gasInToken = this.gasEstimator.gasCostInToken(gasUnits, gasPricing);
 
-      if (bestRouteIdx !== -1) {
-        allocations[bestRouteIdx] += allocAmount;
-        remainingAmount -= allocAmount;
-      } else {
-        // No profitable route found for this increment, so break.
-        break;
-      }
-    }
+    const score = tradeType === 'exactIn'
+      ? legs.reduce((sum, leg) => sum + leg.simulation.amountOut, 0n) - gasInToken
+      : -(legs.reduce((sum, leg) => sum + leg.simulation.amountIn, 0n) + gasInToken);
 
-    let totalAmountOut = 0n;
-    const distribution: { route: string[]; amount: string; output: string }[] = [];
-
-    for (let i = 0; i < routes.length; i++) {
-      if (allocations[i] > 0n) {
-        const output = await this.tradeSimulator.simulatePath(routes[i], allocations[i], chainId);
-        if (output) {
-          distribution.push({
-            route: routes[i],
-            amount: allocations[i].toString(),
-            output: output.toString(),
-          });
-          totalAmountOut += output;
-        }
-      }
-    }
+    return { legs, legGas, gasUnits, score };
+  }
 
-    if (distribution.length === 0) {
-      return null;
+  /**
+   * Turns the winning candidate into the quote shape: single-route fields for one leg,
+   * a distribution with aggregate execution details for a split.
+   */
+  private formatQuote(
+    candidate: ExecutionCandidate,
+    chainId: number,
+    priceScale: number,
+    slippage: number,
+    tradeType: TradeType,
+    gasPricing: GasPricing
+  ): QuoteResult {
+    const gasCostUSD = this.gasEstimator.gasCostUSD(candidate.gasUnits, gasPricing) ?? undefined;
+    console.log(`[SWAP] Chain ${chainId}: ${candidate.legs.length} leg(s), ~${candidate.gasUnits} gas${gasCostUSD !== undefined ? ` ($${gasCostUSD.toFixed(2)})` : ''}`);
+
+    if (candidate.legs.length === 1) {
+      const { route, simulation } = candidate.legs[0];
+      return {
+        tradeType,
+        route: route.tokens,
+        pools: route.hops.map(h => h.poolAddress),
+        amountOut: simulation.amountOut.toString(),
+        ...(tradeType === 'exactOut' && { amountInRequired: simulation.amountIn.toString() }),
+        ...this.describeExecution(simulation, priceScale, slippage, tradeType),
+        estimatedGas: candidate.gasUnits,
+        gasCostUSD,
+      };
     }
 
+    const distribution: RouteAllocation[] = candidate.legs.map((leg, i) => ({
+      route: leg.route.tokens,
+      pools: leg.route.hops.map(h => h.poolAddress),
+      amount: leg.simulation.amountIn.toString(),
+      output: leg.simulation.amountOut.toString(),
+      ...this.describeExecution(leg.simulation, priceScale, slippage, tradeType),
+      estimatedGas: candidate.legGas[i],
+    }));
+
+    // Mid price of the whole split is the input-weighted mean of each leg's mid price
+    const totalOut = candidate.legs.reduce((sum, leg) => sum + leg.simulation.amountOut, 0n);
+    const totalIn = candidate.legs.reduce((sum, leg) => sum + leg.simulation.amountIn, 0n);
+    const allocatedIn = Number(totalIn);
+    const midPrice = distribution.reduce(
+      (sum, leg) => sum + (leg.midPrice ?? 0) * Number(leg.amount),
+      0
+    ) / allocatedIn;
+    const executionPrice = (Number(totalOut) / allocatedIn) * priceScale;
+    const priceImpact = midPrice > 0 ? Math.max(0, (1 - executionPrice / midPrice) * 100) : 100;
+
     return {
-      finalAmountOut: totalAmountOut.toString(),
+      tradeType,
+      finalAmountOut: totalOut.toString(),
       distribution,
+      midPrice,
+      executionPrice,
+      priceImpact,
+      liquidityRisk: this.classifyLiquidityRisk(priceImpact),
+      ...(tradeType === 'exactIn'
+        ? { amountOutMinimum: this.applySlippage(totalOut, slippage).toString() }
+        : { amountInRequired: totalIn.toString(), amountInMaximum: this.applySlippageToInput(totalIn, slippage).toString() }),
+      estimatedGas: candidate.gasUnits,
+      gasCostUSD,
+    };
+  }
+
+  /**
+   * Converts a raw-unit simulation into decimal-adjusted execution details.
+   * @param priceScale - 10^(decimalsIn - decimalsOut)
+   */
+  private describeExecution(
+    simulation: SimulationResult,
+    priceScale: number,
+    slippage: number,
+    tradeType: TradeType
+  ): QuoteExecutionDetails {
+    return {
+      midPrice: simulation.midPrice * priceScale,
+      executionPrice: simulation.executionPrice * priceScale,
+      priceImpact: simulation.priceImpact,
+      liquidityRisk: this.classifyLiquidityRisk(simulation.priceImpact),
+      ...(tradeType === 'exactIn'
+        ? { amountOutMinimum: this.applySlippage(simulation.amountOut, slippage).toString() }
+        : { amountInMaximum: this.applySlippageToInput(simulation.amountIn, slippage).toString() }),
     };
   }
+
+  private classifyLiquidityRisk(priceImpact: number): LiquidityRisk {
+    const { medium, high } = swapConfig.liquidityRiskThresholds;
+    if (priceImpact >= high) return 'high';
+    if (priceImpact >= medium) return 'medium';
+    return 'low';
+  }
+
+  /**
+   * amountOut reduced by the slippage tolerance, in basis points to stay in bigint.
+   */
+  private applySlippage(amountOut: bigint, slippage: number): bigint {
+    const slippageBps = BigInt(Math.round(slippage * 100));
+    return (amountOut * (10000n - slippageBps)) / 10000n;
+  }
+
+  /**
+   * amountIn increased by the slippage tolerance (rounded up), for exact-output trades.
+   */
+  private applySlippageToInput(amountIn: bigint, slippage: number): bigint {
+    const slippageBps = BigInt(Math.round(slippage * 100));
+    return (amountIn * (10000n + slippageBps) + 9999n) / 10000n;
+  }
+
+  /**
+   * Token decimals: token list → shared cache metadata → on-chain decimals().
+   */
+  private async getDecimals(tokenAddress: string, chainId: number): Promise<number> {
+    const key = `${chainId}:${tokenAddress.toLowerCase()}`;
+    const cached = this.tokenDecimals.get(key);
+    if (cached !== undefined) return cached;
+
+    let decimals: number | undefined;
+    const tokens = await storageService.getTokensByNetwork(chainId);
+    decimals = tokens.find(t => t.address.toLowerCase() === tokenAddress.toLowerCase())?.decimals;
+    decimals ??= sharedStateCache.getTokenMetadata(chainId, tokenAddress)?.decimals;
+
+    if (decimals === undefined) {
+      try {
+        decimals = Number(await this.ethersAdapter.callContractMethod(tokenAddress, ERC20_ABI, 'decimals', [], chainId));
+      } catch (error: any) {
+        console.warn(`[SWAP] Could not read decimals for ${tokenAddress}, assuming 18: ${error.message}`);
+        return 18;
+      }
+    }
+
+    this.tokenDecimals.set(key, decimals);
+    return decimals;
+  }
 }
@@ -0,0 +1,74 @@
+/**
+ * SwapEventDecoder - Decode V2/V3 Swap logs into traded amounts
+ *
+ * RESPONSIBILITY:
+ * - Recognize V2 and V3 Swap logs by topic0
+ * - Report the amount of each pool token that changed hands in the swap
+ *
+ * ARCHITECTURE:
+ * - Pure functions, no RPC. Logs are fetched by EthersAdapter.fetchPoolLogs() with SWAP_EVENT_TOPICS
+ * - V2 reports in and out amounts per token (only one side of each is non-zero in a plain swap);
+ *   V3 reports signed pool deltas. Both reduce to the absolute amount traded per token
+ */
+
+import { ethers } from 'ethers';
+import { SWAP_EVENTS_ABI } from '../../infrastructure/config/ContractAddressConfig';
+import type { PoolLog } from './PoolEventDecoder';
+
+/**
+ * One swap, in raw token units
+ */
+export interface PoolSwap {
+  poolAddress: string; // Lowercase
+  blockNumber: number;
+  logIndex: number;
+  amount0: bigint; // Token0 traded (in or out)
+  amount1: bigint; // Token1 traded (in or out)
+}
+
+const swapEventsIface = new ethers.Interface(SWAP_EVENTS_ABI);
+const [V2_SWAP_TOPIC, V3_SWAP_TOPIC] = SWAP_EVENTS_ABI.map(signature => ethers.EventFragment.from(signature).topicHash);
+
+/**
+ * topic0 of the V2 and V3 Swap events, for eth_getLogs filters
+ */
+export const SWAP_EVENT_TOPICS: string[] = [V2_SWAP_TOPIC, V3_SWAP_TOPIC];
+
+const abs = (value: bigint): bigint => (value < 0n ? -value : value);
+
+/**
+ * Decode Swap logs. Unrecognized logs are skipped.
+ *
+ * @param logs - Logs of the tracked pools
+ * @returns Swaps ordered by (blockNumber, logIndex)
+ */
+export function decodeSwapLogs(logs: PoolLog[]): PoolSwap[] {
+  const swaps: PoolSwap[] = [];
+
+  for (const log of logs) {
+    let parsed: ethers.LogDescription | null;
+    try {
+      parsed = swapEventsIface.parseLog({ topics: [...log.topics], data: log.data });
+    } catch {
+      continue;
+    }
+    if (!parsed) continue;
+
+    const base = { poolAddress: log.address.toLowerCase(), blockNumber: log.blockNumber, logIndex: log.logIndex };
+    if (parsed.topic === V2_SWAP_TOPIC) {
+      swaps.push({
+        ...base,
+        amount0: BigInt(parsed.args.amount0In) + BigInt(parsed.args.amount0Out),
+        amount1: BigInt(parsed.args.amount1In) + BigInt(parsed.args.amount1Out),
+      });
+    } else if (parsed.topic === V3_SWAP_TOPIC) {
+      swaps.push({
+        ...base,
+        amount0: abs(BigInt(parsed.args.amount0)),
+        amount1: abs(BigInt(parsed.args.amount1)),
+      });
+    }
+  }
+
+  return swaps.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
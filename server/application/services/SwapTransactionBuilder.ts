@@ -0,0 +1,378 @@
+import { ethers } from 'ethers';
+import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
+import { networkConfig } from '../../infrastructure/config/NetworkConfig';
+import { swapConfig } from '../../infrastructure/config/SwapConfig';
+import { CacheLayer } from './CacheLayer';
+import { storageService } from './StorageService';
+import {
+  ERC20_ABI,
+  FACTORIES,
+  ROUTERS,
+  RouterConfig,
+  SWAP_ROUTER_02_ABI,
+  V2_POOL_ABI,
+  V2_ROUTER_ABI,
+  V3_POOL_ABI
+} from '../../infrastructure/config/ContractAddressConfig';
+import type { PoolRegistry } from '../../domain/types';
+import type {
+  ApprovalRequirement,
+  SwapBuildRequest,
+  SwapBuildResult,
+  SwapRoute,
+  SwapTransaction,
+  TradeType,
+  UnsignedTransaction,
+} from '../../domain/swapper.types';
+
+// SwapRouter02 constants: recipient "the router itself" and amountIn "whatever the router holds"
+const ADDRESS_THIS = '0x0000000000000000000000000000000000000002';
+const CONTRACT_BALANCE = 0n;
+
+const swapRouter02Iface = new ethers.Interface(SWAP_ROUTER_02_ABI);
+const v2RouterIface = new ethers.Interface(V2_ROUTER_ABI);
+const erc20Iface = new ethers.Interface(ERC20_ABI);
+
+// A hop resolved to its pool type, fee and router
+interface ResolvedHop {
+  tokenIn: string;
+  tokenOut: string;
+  poolAddress: string;
+  dexType: 'v2' | 'v3';
+  fee?: number;
+  router: RouterConfig;
+}
+
+// One leg of the quote with its slippage-adjusted limits
+interface BuildLeg {
+  index: number;
+  hops: ResolvedHop[];
+  amountIn: bigint; // Exact input (exactIn) or maximum input (exactOut)
+  amountOut: bigint; // Minimum output (exactIn) or exact output (exactOut)
+}
+
+/**
+ * SwapTransactionBuilder - Turns quotes into unsigned swap transactions
+ *
+ * RESPONSIBILITY:
+ * - Resolve each quoted pool to its factory, pool type and router
+ * - Encode V2 router calls, SwapRouter02 exactInput/exactOutput paths, or a
+ *   SwapRouter02 multicall combining V2 and V3 hops and split legs
+ * - Report the approvals the sender needs
+ *
+ * NEVER signs or broadcasts: output is calldata for the user's wallet.
+ */
+export class SwapTransactionBuilder {
+  private poolRouters: Map<string, { router: RouterConfig; dexType: 'v2' | 'v3'; fee?: number }> = new Map();
+
+  constructor(
+    private ethersAdapter: EthersAdapter,
+    private cacheLayer: CacheLayer = new CacheLayer(storageService)
+  ) {}
+
+  /**
+   * Builds unsigned transactions for a quote.
+   * @returns Transactions and approvals, or success: false with the reason the quote cannot be built.
+   */
+  public async build(request: SwapBuildRequest): Promise<SwapBuildResult> {
+    const { quote, recipient } = request;
+    const slippage = request.slippage ?? quote.slippage ?? swapConfig.defaultSlippage;
+    const deadline = Math.floor(Date.now() / 1000) + (request.deadlineSeconds ?? swapConfig.defaultDeadlineSeconds);
+    const tradeType: TradeType = quote.tradeType ?? 'exactIn';
+    const chainId = quote.chainId;
+
+    try {
+      if (!networkConfig.isChainSupported(chainId) || !ROUTERS[chainId]) {
+        throw new Error(`Unsupported chainId: ${chainId}`);
+      }
+      if (!ethers.isAddress(recipient)) {
+        throw new Error(`Invalid recipient address: ${recipient}`);
+      }
+
+      const legs = await this.resolveLegs(request, slippage, tradeType);
+
+      // Encode every leg, grouped by the router that executes it
+      const callsByRouter = new Map<string, { router: RouterConfig; calls: { leg: BuildLeg; data: string }[] }>();
+      for (const leg of legs) {
+        const unbuildable = this.unbuildableReason(leg.hops, tradeType);
+        if (unbuildable) throw new Error(`Leg ${leg.index} ${unbuildable}`);
+        const router = leg.hops[0].router;
+        const data = router.kind === 'v2Router'
+          ? this.encodeV2RouterLeg(leg, recipient, deadline, tradeType)
+          : this.encodeSwapRouter02Leg(leg, recipient, tradeType);
+
+        const group = callsByRouter.get(router.address) || { router, calls: [] };
+        group.calls.push({ leg, data });
+        callsByRouter.set(router.address, group);
+      }
+
+      const transactions: SwapTransaction[] = [];
+      for (const { router, calls } of callsByRouter.values()) {
+        if (router.kind === 'swapRouter02') {
+          // One multicall per transaction: deadline enforced once for all legs
+          transactions.push({
+            chainId,
+            to: router.address,
+            data: swapRouter02Iface.encodeFunctionData('multicall(uint256,bytes[])', [deadline, calls.map(c => c.data)]),
+            value: '0',
+            router: router.kind,
+            legs: calls.map(c => c.leg.index),
+            amountIn: calls.reduce((sum, c) => sum + c.leg.amountIn, 0n).toString(),
+          });
+        } else {
+          // V2 routers have no multicall: one transaction per leg
+          for (const { leg, data } of calls) {
+            transactions.push({
+              chainId,
+              to: router.address,
+              data,
+              value: '0',
+              router: router.kind,
+              legs: [leg.index],
+              amountIn: leg.amountIn.toString(),
+            });
+          }
+        }
+      }
+
+      const approvals = await this.buildApprovals(quote.tokenIn, transactions, chainId, request.walletAddress);
+
+      console.log(`[BUILDER] Built ${transactions.length} transaction(s), ${approvals.filter(a => a.required).length} approval(s) for chain ${chainId}`);
+      return {
+        success: true,
+        transactions,
+        approvals,
+        atomic: transactions.length === 1,
+        deadline,
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      console.warn(`[BUILDER] Cannot build swap: ${error.message}`);
+      return { success: false, error: error.message, timestamp: Date.now() };
+    }
+  }
+
+  /**
+   * Whether a route can be built as one leg, resolving its pools as build() does.
+   * Lets quoting drop routes that build() would refuse.
+   */
+  public async canBuild(route: SwapRoute, chainId: number, tradeType: TradeType): Promise<boolean> {
+    if (!ROUTERS[chainId]) return false;
+    try {
+      const registry = await this.cacheLayer.getPoolRegistryCached(chainId);
+      const hops: Pick<ResolvedHop, 'router' | 'dexType'>[] = [];
+      for (const hop of route.hops) {
+        hops.push(await this.resolvePool(hop.poolAddress, chainId, registry));
+      }
+      return this.unbuildableReason(hops, tradeType) === null;
+    } catch (error: any) {
+      console.warn(`[BUILDER] Cannot resolve route ${route.tokens.map(t => t.slice(0, 6)).join(' → ')}: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Why a leg's hops cannot execute in one call: every hop must go through the same router,
+   * and an exact-output leg through one pool type (exactOutput or swapTokensForExactTokens).
+   * @returns The reason, or null if the leg can be built
+   */
+  private unbuildableReason(hops: Pick<ResolvedHop, 'router' | 'dexType'>[], tradeType: TradeType): string | null {
+    if (hops.some(hop => hop.router.address !== hops[0].router.address)) {
+      return 'spans pools of different routers and cannot execute in one call';
+    }
+    if (tradeType === 'exactOut' && hops.some(hop => hop.dexType !== hops[0].dexType)) {
+      return 'mixes V2 and V3 hops, which exact-output builds do not support';
+    }
+    return null;
+  }
+
+  /**
+   * Extracts the quote's legs, applies slippage and resolves every pool.
+   */
+  private async resolveLegs(request: SwapBuildRequest, slippage: number, tradeType: TradeType): Promise<BuildLeg[]> {
+    const { quote } = request;
+    const quotedLegs = quote.distribution && quote.distribution.length > 0
+      ? quote.distribution.map(d => ({ route: d.route, pools: d.pools, amountIn: d.amount, amountOut: d.output }))
+      : [{ route: quote.route, pools: quote.pools, amountIn: quote.amountInRequired ?? quote.amountIn, amountOut: quote.amountOut }];
+
+    const slippageBps = BigInt(Math.round(slippage * 100));
+    const registry = await this.cacheLayer.getPoolRegistryCached(quote.chainId);
+    const legs: BuildLeg[] = [];
+
+    for (let index = 0; index < quotedLegs.length; index++) {
+      const { route, pools, amountIn, amountOut } = quotedLegs[index];
+      if (!route || !pools || pools.length !== route.length - 1 || !amountIn || !amountOut) {
+        throw new Error(`Leg ${index} has no pool path or amounts; request a fresh quote`);
+      }
+
+      const hops: ResolvedHop[] = [];
+      for (let i = 0; i < pools.length; i++) {
+        const { router, dexType, fee } = await this.resolvePool(pools[i], quote.chainId, registry);
+        hops.push({ tokenIn: route[i], tokenOut: route[i + 1], poolAddress: pools[i], dexType, fee, router });
+      }
+
+      legs.push({
+        index,
+        hops,
+        amountIn: tradeType === 'exactIn'
+          ? BigInt(amountIn)
+          : (BigInt(amountIn) * (10000n + slippageBps) + 9999n) / 10000n,
+        amountOut: tradeType === 'exactIn'
+          ? (BigInt(amountOut) * (10000n - slippageBps)) / 10000n
+          : BigInt(amountOut),
+      });
+    }
+
+    return legs;
+  }
+
+  /**
+   * Finds the router that can swap through a pool from its factory (and fee for V3).
+   * Factory and fee tier come from the registry when discovery recorded them, else are read from the pool.
+   */
+  private async resolvePool(
+    poolAddress: string,
+    chainId: number,
+    registry: PoolRegistry
+  ): Promise<{ router: RouterConfig; dexType: 'v2' | 'v3'; fee?: number }> {
+    const key = `${chainId}:${poolAddress.toLowerCase()}`;
+    const cached = this.poolRouters.get(key);
+    if (cached) return cached;
+
+    const metadata = registry.pools[poolAddress];
+    const factory: string = metadata?.factory
+      ?? await this.ethersAdapter.callContractMethod(poolAddress, V2_POOL_ABI, 'factory', [], chainId);
+    const router = ROUTERS[chainId][factory.toLowerCase()];
+    if (!router) {
+      throw new Error(`Pool ${poolAddress} belongs to factory ${factory}, which has no configured router`);
+    }
+
+    const isV3 = (FACTORIES[chainId]?.v3 || []).some(f => f.toLowerCase() === factory.toLowerCase());
+    let resolved: { router: RouterConfig; dexType: 'v2' | 'v3'; fee?: number };
+    if (isV3) {
+      const fee = metadata?.dexType === 'v3' && metadata.feeTier !== undefined
+        ? metadata.feeTier
+        : Number(await this.ethersAdapter.callContractMethod(poolAddress, V3_POOL_ABI, 'fee', [], chainId));
+      resolved = { router, dexType: 'v3', fee };
+    } else {
+      resolved = { router, dexType: 'v2' };
+    }
+
+    this.poolRouters.set(key, resolved);
+    return resolved;
+  }
+
+  /**
+   * UniswapV2Router02-compatible call (V2 forks): one path, deadline in the call.
+   */
+  private encodeV2RouterLeg(leg: BuildLeg, recipient: string, deadline: number, tradeType: TradeType): string {
+    const path = [leg.hops[0].tokenIn, ...leg.hops.map(h => h.tokenOut)];
+    return tradeType === 'exactIn'
+      ? v2RouterIface.encodeFunctionData('swapExactTokensForTokens', [leg.amountIn, leg.amountOut, path, recipient, deadline])
+      : v2RouterIface.encodeFunctionData('swapTokensForExactTokens', [leg.amountOut, leg.amountIn, path, recipient, deadline]);
+  }
+
+  /**
+   * SwapRouter02 calls for one leg. Consecutive hops of the same pool type form a segment;
+   * intermediate segments leave their output in the router (ADDRESS_THIS) and the next
+   * segment spends the router's balance (CONTRACT_BALANCE).
+   * @returns Calldata for one call, or a nested multicall when the leg has several segments.
+   */
+  private encodeSwapRouter02Leg(leg: BuildLeg, recipient: string, tradeType: TradeType): string {
+    const segments: ResolvedHop[][] = [];
+    for (const hop of leg.hops) {
+      const last = segments[segments.length - 1];
+      if (last && last[0].dexType === hop.dexType) last.push(hop);
+      else segments.push([hop]);
+    }
+
+    if (tradeType === 'exactOut') {
+      const hops = segments[0]; // One pool type, see unbuildableReason
+      if (hops[0].dexType === 'v3') {
+        // exactOutput paths are encoded output-first
+        const reversed = [...hops].reverse().map(h => ({ ...h, tokenIn: h.tokenOut, tokenOut: h.tokenIn }));
+        return swapRouter02Iface.encodeFunctionData('exactOutput', [{
+          path: encodeV3Path(reversed),
+          recipient,
+          amountOut: leg.amountOut,
+          amountInMaximum: leg.amountIn,
+        }]);
+      }
+      const path = [hops[0].tokenIn, ...hops.map(h => h.tokenOut)];
+      return swapRouter02Iface.encodeFunctionData('swapTokensForExactTokens', [leg.amountOut, leg.amountIn, path, recipient]);
+    }
+
+    const calls = segments.map((hops, i) => {
+      const isFirst = i === 0;
+      const isLast = i === segments.length - 1;
+      const amountIn = isFirst ? leg.amountIn : CONTRACT_BALANCE;
+      const amountOutMinimum = isLast ? leg.amountOut : 0n;
+      const to = isLast ? recipient : ADDRESS_THIS;
+
+      if (hops[0].dexType === 'v3') {
+        return swapRouter02Iface.encodeFunctionData('exactInput', [{ path: encodeV3Path(hops), recipient: to, amountIn, amountOutMinimum }]);
+      }
+      const path = [hops[0].tokenIn, ...hops.map(h => h.tokenOut)];
+      return swapRouter02Iface.encodeFunctionData('swapExactTokensForTokens', [amountIn, amountOutMinimum, path, to]);
+    });
+
+    return calls.length === 1 ? calls[0] : swapRouter02Iface.encodeFunctionData('multicall(bytes[])', [calls]);
+  }
+
+  /**
+   * One approval per router: the total input it may pull.
+   */
+  private async buildApprovals(
+    tokenIn: string,
+    transactions: SwapTransaction[],
+    chainId: number,
+    walletAddress?: string
+  ): Promise<ApprovalRequirement[]> {
+    const amountBySpender = new Map<string, bigint>();
+    for (const tx of transactions) {
+      amountBySpender.set(tx.to, (amountBySpender.get(tx.to) || 0n) + BigInt(tx.amountIn));
+    }
+
+    const approvals: ApprovalRequirement[] = [];
+    for (const [spender, amount] of amountBySpender) {
+      const transaction: UnsignedTransaction = {
+        chainId,
+        to: tokenIn,
+        data: erc20Iface.encodeFunctionData('approve', [spender, amount]),
+        value: '0',
+      };
+
+      let currentAllowance: bigint | undefined;
+      if (walletAddress && ethers.isAddress(walletAddress)) {
+        try {
+          currentAllowance = BigInt(await this.ethersAdapter.callContractMethod(tokenIn, ERC20_ABI, 'allowance', [walletAddress, spender], chainId));
+        } catch (error: any) {
+          console.warn(`[BUILDER] Could not read allowance for ${spender}: ${error.message}`);
+        }
+      }
+
+      approvals.push({
+        token: tokenIn,
+        spender,
+        amount: amount.toString(),
+        ...(currentAllowance !== undefined && { currentAllowance: currentAllowance.toString() }),
+        required: currentAllowance === undefined || currentAllowance < amount,
+        transaction,
+      });
+    }
+    return approvals;
+  }
+}
+
+/**
+ * Uniswap V3 path: token (20 bytes) | fee (3 bytes) | token | fee | ... | token
+ */
+function encodeV3Path(hops: ResolvedHop[]): string {
+  const types: string[] = ['address'];
+  const values: (string | number)[] = [hops[0].tokenIn];
+  for (const hop of hops) {
+    types.push('uint24', 'address');
+    values.push(hop.fee!, hop.tokenOut);
+  }
+  return ethers.solidityPacked(types, values);
+}
@@ -1,13 +1,33 @@
 /**
  * TokenDiscoveryManager - Subgraph-Based Pool Discovery (FIXED)
+ *
+ * Discovery source per chain (DiscoveryConfig.SOURCE): hosted subgraphs, or the index of
+ * factory creation logs built by FactoryLogScanner. Subgraph chains fall back to the factory
+ * index for a token when every subgraph query fails.
+ *
+ * A token without any base-paired pool is searched for intermediate routes
+ * (token → intermediate → … → base, see DiscoveryConfig), recorded in intermediateRoutes.
+ *
+ * Every registry update is diffed into a change set for the TopologyJournal, along with the
+ * pools the liquidity filter newly cut from a token's subgraph results. Discovery queries run
+ * against a copy of the registry; the changes are then applied to the latest registry through
+ * StorageService.updatePoolRegistry, so concurrent writers on a chain apply one after another.
  */
 
+import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
 import { StorageService } from './StorageService';
 import { Token } from '../../domain/entities';
-import { PoolRegistry, PoolMetadata } from '../../domain/types';
+import { IntermediateToken, PoolRegistry, PoolMetadata, PoolState, TopologyDroppedPool } from '../../domain/types';
 import { getSubgraphConfig, SubgraphConfig, SupportedChainId } from '../../infrastructure/config/SubgraphConfig';
 import { timingConfig } from '../../infrastructure/config/TimingConfig';
 import { networkConfig } from '../../infrastructure/config/NetworkConfig';
+import { getFactoryFeeConfig } from '../../infrastructure/config/ContractAddressConfig';
+import { discoveryConfig, DiscoverySource } from '../../infrastructure/config/DiscoveryConfig';
+import { pricingConfig } from '../../infrastructure/config/PricingConfig';
+import { factoryLogScanner } from './FactoryLogScanner';
+import { topologyJournal, TopologySnapshot } from './TopologyJournal';
+import { toPoolState } from './MulticallEngine';
+import type { CreatedPool } from './FactoryEventDecoder';
 
 // ... (interfaces remain the same)
 interface DiscoveryAttempt {
@@ -27,13 +47,39 @@ interface SubgraphPool {
   feeTier?: string;
 }
 
+// A pool found by either discovery source, ready to be added to the registry
+interface DiscoveredPool {
+  address: string;
+  dexType: 'v2' | 'v3';
+  token0: string;
+  token1: string;
+  feeTier?: number;
+  factory?: string; // Known when discovered from factory logs
+}
+
+// A pool the source returned for a token that the liquidity filter cut
+interface FilteredPool {
+  pool: DiscoveredPool;
+  liquidityUSD: number;
+}
+
+// A non-base counterpart of a token, with the pools pairing them
+interface IntermediateCandidate {
+  address: string;
+  token: IntermediateToken;
+  pools: DiscoveredPool[];
+}
+
+// A change discovery made to its copy of the registry, replayed onto the latest registry
+type RegistryEdit<T = unknown> = (registry: PoolRegistry) => T;
+
 export class TokenDiscoveryManager {
   private discoveryAttempts: Map<string, DiscoveryAttempt> = new Map();
   private readonly DISCOVERY_RETRY_WINDOW = timingConfig.DISCOVERY_RETRY_WINDOW_MS;
   private readonly LIQUIDITY_THRESHOLD = timingConfig.LIQUIDITY_THRESHOLD;
   private readonly TOPOLOGY_TTL_MS = timingConfig.DISCOVERY_TOPOLOGY_TTL_MS;
 
-  constructor(private storageService: StorageService) {}
+  constructor(private storageService: StorageService, private ethersAdapter: EthersAdapter) {}
 
   /**
    * Centralized method to identify tokens with stale topology.
@@ -59,9 +105,6 @@ export class TokenDiscoveryManager {
 
     if (!networkConfig.isChainSupported(chainId)) return 0;
 
-    const poolRegistry = await this.storageService.getPoolRegistry(chainId);
-    if (!poolRegistry.topologyTimestamp) poolRegistry.topologyTimestamp = {};
-
     const baseTokenAddresses = Array.from(networkConfig.getBaseTokenAddresses(chainId));
     const allTokens = await this.storageService.getTokensByNetwork(chainId);
 
@@ -74,12 +117,23 @@ export class TokenDiscoveryManager {
       if (sym) baseTokenMap.set(addr.toLowerCase(), sym);
     }
 
+    const source = discoveryConfig.SOURCE[chainId] ?? 'subgraph';
     const subgraphs = getSubgraphConfig()[chainId as SupportedChainId] || [];
     let poolsDiscoveredThisBatch = 0;
 
+    // Discovery reads and changes a copy of the registry, recording each change. Only replaying
+    // the changes onto the latest registry is queued, so network reads do not hold up other writers.
+    const working = await this.storageService.getPoolRegistry(chainId);
+    const edits: RegistryEdit[] = [];
+    const edit = <T>(change: RegistryEdit<T>): T => {
+      edits.push(change);
+      return change(working);
+    };
+    const filteredByToken = new Map<string, FilteredPool[]>();
+
     for (const token of tokens) {
-      // ... (rest of the discovery logic is unchanged)
-      const attemptKey = `${token.address.toLowerCase()}-${chainId}`;
+      const tokenLower = token.address.toLowerCase();
+      const attemptKey = `${tokenLower}-${chainId}`;
       const lastAttempt = this.discoveryAttempts.get(attemptKey);
 
       if (lastAttempt && Date.now() - lastAttempt.attemptedAt < this.DISCOVERY_RETRY_WINDOW) continue;
@@ -88,27 +142,31 @@ export class TokenDiscoveryManager {
       let poolsFoundForToken = 0;
 
       try {
-        const allPools: SubgraphPool[] = [];
-
-        for (const subgraph of subgraphs) {
-          try {
-            const pools = await this.querySubgraphForToken(token.address, subgraph, chainId);
-            console.log(`   → ${subgraph.name}: ${pools.length} pools`);
-            allPools.push(...pools);
-          } catch (e: any) {
-            console.warn(`   ⚠️ ${subgraph.name} failed: ${e.message}`);
-          }
-        }
-
-        const finalPools = this.filterPoolsByLiquidity(allPools, this.LIQUIDITY_THRESHOLD);
+        const { pools: finalPools, filtered, usedFactoryLogs } = await this.findBasePools(token.address, chainId, source, subgraphs, baseTokenMap);
 
         for (const pool of finalPools) {
-          this.addPoolToRegistry(poolRegistry, pool, chainId, baseTokenMap);
+          edit(registry => this.addPoolToRegistry(registry, pool, baseTokenMap));
           poolsFoundForToken++;
           poolsDiscoveredThisBatch++;
         }
+        if (!usedFactoryLogs) filteredByToken.set(tokenLower, filtered);
+
+        if (finalPools.length > 0) {
+          edit(registry => delete registry.intermediateRoutes?.[tokenLower]);
+        } else if (!usedFactoryLogs && pricingConfig.MAX_ROUTE_DEPTH > 1) {
+          const added = await this.discoverIntermediateRoutes(token.address, chainId, working, edit, source, subgraphs, baseTokenMap);
+          poolsFoundForToken += added;
+          poolsDiscoveredThisBatch += added;
+        }
 
-        poolRegistry.topologyTimestamp[token.address.toLowerCase()] = Date.now();
+        // An index still catching up may miss older pools: leave the topology stale so it is retried
+        if (!usedFactoryLogs || factoryLogScanner.isCaughtUp(chainId)) {
+          const refreshedAt = Date.now();
+          edit(registry => {
+            if (!registry.topologyTimestamp) registry.topologyTimestamp = {};
+            registry.topologyTimestamp[tokenLower] = refreshedAt;
+          });
+        }
 
         this.discoveryAttempts.set(attemptKey, {
           tokenAddress: token.address,
@@ -124,28 +182,327 @@ export class TokenDiscoveryManager {
       }
     }
 
-    await this.storageService.savePoolRegistry(chainId, poolRegistry);
+    const factories = await this.readPoolFactories(working, chainId);
+
+    let topologyBefore!: TopologySnapshot;
+    let poolsDropped: TopologyDroppedPool[] = [];
+    const registry = await this.storageService.updatePoolRegistry(chainId, registry => {
+      topologyBefore = topologyJournal.capture(registry);
+      for (const change of edits) change(registry);
+      this.recordPoolFactories(registry, chainId, factories);
+      poolsDropped = this.recordFilteredPools(registry, filteredByToken, baseTokenMap);
+      return registry;
+    });
+    await topologyJournal.record(chainId, 'discovery', topologyBefore, registry, poolsDropped);
     return poolsDiscoveredThisBatch;
   }
+
+  /**
+   * A token's base-paired pools from the chain's discovery source, failing over from the
+   * subgraphs to the factory index when every subgraph query fails. Also returns the subgraph
+   * pools the liquidity filter cut.
+   */
+  private async findBasePools(
+    tokenAddress: string,
+    chainId: number,
+    source: DiscoverySource,
+    subgraphs: SubgraphConfig[],
+    baseTokenMap: Map<string, string>
+  ): Promise<{ pools: DiscoveredPool[]; filtered: FilteredPool[]; usedFactoryLogs: boolean }> {
+    let finalPools: DiscoveredPool[] = [];
+    let filtered: FilteredPool[] = [];
+    let useFactoryLogs = source === 'factory-logs';
+
+    if (!useFactoryLogs) {
+      const allPools: SubgraphPool[] = [];
+      let failures = 0;
+
+      for (const subgraph of subgraphs) {
+        try {
+          const pools = await this.querySubgraphForToken(tokenAddress, subgraph, chainId);
+          console.log(`   → ${subgraph.name}: ${pools.length} pools`);
+          allPools.push(...pools);
+        } catch (e: any) {
+          failures++;
+          console.warn(`   ⚠️ ${subgraph.name} failed: ${e.message}`);
+        }
+      }
+
+      const kept = this.filterPoolsByLiquidity(allPools, this.LIQUIDITY_THRESHOLD);
+      const keptIds = new Set(kept.map(pool => pool.id));
+      finalPools = kept.map(pool => this.fromSubgraphPool(pool));
+      filtered = allPools
+        .filter(pool => !keptIds.has(pool.id))
+        .map(pool => ({ pool: this.fromSubgraphPool(pool), liquidityUSD: parseFloat(pool.reserveUSD || '0') }));
+      if (failures === subgraphs.length && discoveryConfig.FALLBACK_TO_FACTORY_LOGS) {
+        console.warn(`   ⚠️ Every subgraph failed - falling back to factory logs`);
+        useFactoryLogs = true;
+      }
+    }
+
+    if (useFactoryLogs) {
+      const indexed = await factoryLogScanner.getPoolsForToken(chainId, tokenAddress);
+      finalPools = await this.rankByBaseLiquidity(tokenAddress, indexed.map(pool => this.fromCreatedPool(pool)), chainId, baseTokenMap);
+      console.log(`   → Factory logs: ${indexed.length} pools, ${finalPools.length} with liquidity`);
+    }
+
+    return { pools: finalPools, filtered, usedFactoryLogs: useFactoryLogs };
+  }
+
+  /**
+   * Record the pools the liquidity filter cut from each token's subgraph results, replacing the
+   * token's previous list. Routes are left as they are: a pool routed by an earlier run stays routed.
+   * @returns The pools cut now but not at the token's previous discovery, for the topology journal
+   */
+  private recordFilteredPools(
+    registry: PoolRegistry,
+    filteredByToken: Map<string, FilteredPool[]>,
+    baseTokenMap: Map<string, string>
+  ): TopologyDroppedPool[] {
+    if (!registry.filteredPools) registry.filteredPools = {};
+    const newlyCut: TopologyDroppedPool[] = [];
+
+    for (const [token, filtered] of filteredByToken) {
+      const previous = new Set(registry.filteredPools[token] ?? []);
+      for (const { pool, liquidityUSD } of filtered) {
+        if (previous.has(pool.address)) continue;
+        newlyCut.push({
+          poolAddress: pool.address,
+          token,
+          route: baseTokenMap.get(pool.token0 === token ? pool.token1 : pool.token0) ?? '',
+          liquidityUSD,
+          reason: 'below-liquidity-threshold',
+        });
+      }
+
+      if (filtered.length > 0) registry.filteredPools[token] = filtered.map(({ pool }) => pool.address);
+      else delete registry.filteredPools[token];
+    }
+    return newlyCut;
+  }
+
+  /**
+   * Search intermediate routes for a token without a base pair, one level of intermediates at
+   * a time up to MAX_ROUTE_DEPTH pools, stopping at the first level where a route reaches a
+   * base token. An intermediate's base-paired pools are added like any token's.
+   *
+   * @param registry The discovery's copy of the registry, read to find intermediates that reach a base
+   * @param edit Applies a change to the copy and records it for the queued registry update
+   * @returns Number of pools added (hops and the intermediates' base pools)
+   */
+  private async discoverIntermediateRoutes(
+    tokenAddress: string,
+    chainId: number,
+    registry: PoolRegistry,
+    edit: <T>(change: RegistryEdit<T>) => T,
+    source: DiscoverySource,
+    subgraphs: SubgraphConfig[],
+    baseTokenMap: Map<string, string>
+  ): Promise<number> {
+    const tokenLower = tokenAddress.toLowerCase();
+    const parents = new Map<string, { from: string; candidate: IntermediateCandidate }>(); // intermediate -> hop leading to it
+    const visited = new Set<string>([tokenLower]);
+    let frontier = [tokenLower];
+    let resolved = 0;
+    let added = 0;
+
+    // A route through `level` intermediates spans level + 1 pools
+    for (let level = 1; level < pricingConfig.MAX_ROUTE_DEPTH && frontier.length > 0 && resolved === 0; level++) {
+      const next: string[] = [];
+
+      for (const current of frontier) {
+        for (const candidate of await this.findIntermediateCandidates(current, subgraphs, chainId, baseTokenMap)) {
+          if (visited.has(candidate.address)) continue;
+          visited.add(candidate.address);
+          parents.set(candidate.address, { from: current, candidate });
+
+          let reachesBase = Object.keys(registry.pricingRoutes[candidate.address] ?? {}).length > 0;
+          if (!reachesBase) {
+            const { pools } = await this.findBasePools(candidate.address, chainId, source, subgraphs, baseTokenMap);
+            for (const pool of pools) {
+              edit(registry => this.addPoolToRegistry(registry, pool, baseTokenMap));
+              added++;
+            }
+            reachesBase = pools.length > 0;
+          }
+          if (!reachesBase) {
+            next.push(candidate.address);
+            continue;
+          }
+
+          // Record every hop between the token and this intermediate
+          for (let node = candidate.address; node !== tokenLower; ) {
+            const hop = parents.get(node)!;
+            added += edit(registry => this.addIntermediateRoute(registry, hop.from, hop.candidate));
+            node = hop.from;
+          }
+          resolved++;
+        }
+      }
+      frontier = next;
+    }
+
+    console.log(resolved > 0
+      ? `   → ${resolved} intermediate route(s) to a base token`
+      : `   → No intermediate route within ${pricingConfig.MAX_ROUTE_DEPTH} pools`);
+    return added;
+  }
+
+  /**
+   * A token's deepest non-base counterparts, by USD liquidity pooled against it across subgraphs,
+   * each with its pools above the liquidity threshold
+   */
+  private async findIntermediateCandidates(
+    tokenAddress: string,
+    subgraphs: SubgraphConfig[],
+    chainId: number,
+    baseTokenMap: Map<string, string>
+  ): Promise<IntermediateCandidate[]> {
+    const tokenLower = tokenAddress.toLowerCase();
+    const byCounterpart = new Map<string, { token: IntermediateToken; pools: SubgraphPool[]; liquidity: number }>();
+
+    for (const subgraph of subgraphs) {
+      let pools: SubgraphPool[];
+      try {
+        pools = await this.querySubgraphForToken(tokenAddress, subgraph, chainId, false);
+      } catch (e: any) {
+        console.warn(`   ⚠️ ${subgraph.name} failed: ${e.message}`);
+        continue;
+      }
+
+      for (const pool of pools) {
+        const side = pool.token0.id.toLowerCase() === tokenLower ? pool.token1 : pool.token0;
+        const address = side.id.toLowerCase();
+        if (baseTokenMap.has(address)) continue; // Base pairs are the base-paired query's
+
+        const entry = byCounterpart.get(address) ?? {
+          token: { symbol: side.symbol, decimals: parseInt(side.decimals, 10) },
+          pools: [],
+          liquidity: 0,
+        };
+        entry.pools.push(pool);
+        entry.liquidity += parseFloat(pool.reserveUSD || '0');
+        byCounterpart.set(address, entry);
+      }
+    }
+
+    return Array.from(byCounterpart.entries())
+      .filter(([, entry]) => entry.liquidity > 0)
+      .sort(([, a], [, b]) => b.liquidity - a.liquidity)
+      .slice(0, discoveryConfig.INTERMEDIATE_CANDIDATES)
+      .map(([address, entry]) => ({
+        address,
+        token: entry.token,
+        pools: this.filterPoolsByLiquidity(entry.pools, this.LIQUIDITY_THRESHOLD).map(pool => this.fromSubgraphPool(pool)),
+      }));
+  }
+
+  /**
+   * Add pools newly created by the factories to the registry, for the listed tokens they hold.
+   * Called as FactoryLogScanner follows the head, so topology updates without a full rediscovery.
+   *
+   * @param chainId Network chain ID
+   * @param pools Pools found by the scanner (each paired with a base token)
+   * @returns Number of pools added
+   */
+  public async registerFactoryPools(chainId: number, pools: CreatedPool[]): Promise<number> {
+    const tokens = await this.storageService.getTokensByNetwork(chainId);
+    const listed = new Set(tokens.map(token => token.address.toLowerCase()));
+    const relevant = pools.filter(pool => listed.has(pool.token0) && listed.has(pool.token1));
+    if (relevant.length === 0) return 0;
+
+    const tokenSymbolMap = new Map(tokens.map(token => [token.address.toLowerCase(), token.symbol]));
+    const baseTokenMap = new Map<string, string>();
+    for (const addr of networkConfig.getBaseTokenAddresses(chainId)) {
+      const sym = tokenSymbolMap.get(addr);
+      if (sym) baseTokenMap.set(addr, sym);
+    }
+
+    // Created pools carry their factory: nothing to read while the registry update is queued
+    let topologyBefore!: TopologySnapshot;
+    let added = 0;
+    const registry = await this.storageService.updatePoolRegistry(chainId, registry => {
+      topologyBefore = topologyJournal.capture(registry);
+      for (const pool of relevant) {
+        if (registry.pools[pool.poolAddress]) continue;
+        this.addPoolToRegistry(registry, this.fromCreatedPool(pool), baseTokenMap);
+        added++;
+      }
+      return registry;
+    });
+    if (added === 0) return 0;
+
+    await topologyJournal.record(chainId, 'factory-logs', topologyBefore, registry);
+    console.log(`🏭 [FACTORY-LOGS] Chain ${chainId}: registered ${added} new pool(s) of listed tokens`);
+    return added;
+  }
+
+  /**
+   * Reads the factory of every pool that does not have one yet
+   * @returns Lowercase pool address -> factory (empty if the read failed)
+   */
+  private async readPoolFactories(registry: PoolRegistry, chainId: number): Promise<Map<string, string>> {
+    const unresolved = Object.values(registry.pools).filter(pool => !pool.factory);
+    if (unresolved.length === 0) return new Map();
+
+    try {
+      const factories = await this.ethersAdapter.fetchPoolFactories(unresolved.map(pool => pool.address), chainId);
+      console.log(`   ✓ Read factories for ${factories.size}/${unresolved.length} pools`);
+      return factories;
+    } catch (e: any) {
+      console.warn(`   ⚠️ Could not read pool factories: ${e.message}`);
+      return new Map();
+    }
+  }
+
+  /**
+   * Records factories read by readPoolFactories on the pools still without one, and the
+   * factory's fixed fee on V2 pools, so simulation uses each DEX's own fee schedule.
+   */
+  private recordPoolFactories(registry: PoolRegistry, chainId: number, factories: Map<string, string>): void {
+    const unknownFactories = new Set<string>();
+    for (const pool of Object.values(registry.pools)) {
+      const factory = !pool.factory && factories.get(pool.address.toLowerCase());
+      if (!factory) continue;
+
+      pool.factory = factory;
+      const feeConfig = getFactoryFeeConfig(chainId, factory);
+      if (!feeConfig) unknownFactories.add(factory);
+      else if (pool.dexType === 'v2' && feeConfig.fee !== undefined) pool.feeTier = feeConfig.fee;
+    }
+
+    if (unknownFactories.size > 0) {
+      console.warn(`   ⚠️ No fee config for factories: ${Array.from(unknownFactories).join(', ')}`);
+    }
+  }
   
   // ... (private methods querySubgraphForToken, filterPoolsByLiquidity, addPoolToRegistry are unchanged)
+  /**
+   * @param baseOnly Only pools pairing the token with a base token; otherwise its deepest
+   *                 pools against any token (INTERMEDIATE_QUERY_LIMIT)
+   */
   private async querySubgraphForToken(
     tokenAddress: string,
     subgraph: SubgraphConfig,
-    chainId: number
+    chainId: number,
+    baseOnly: boolean = true
   ): Promise<SubgraphPool[]> {
     const baseTokens = Array.from(networkConfig.getBaseTokenAddresses(chainId));
     const tokenLower = tokenAddress.toLowerCase();
     const baseFilters = baseTokens.map(a => `\"${a.toLowerCase()}\"`).join(',');
+    const pairFilters = baseOnly
+      ? `{ token0: "${tokenLower}", token1_in: [${baseFilters}] }
+            { token1: "${tokenLower}", token0_in: [${baseFilters}] }`
+      : `{ token0: "${tokenLower}" }
+            { token1: "${tokenLower}" }`;
 
     const query = `
     {
       pools: ${subgraph.dexType === 'v2' ? 'pairs' : 'pools'}(
-        first: 1000
+        first: ${baseOnly ? 1000 : discoveryConfig.INTERMEDIATE_QUERY_LIMIT}
         where: {
           or: [
-            { token0: "${tokenLower}", token1_in: [${baseFilters}] }
-            { token1: "${tokenLower}", token0_in: [${baseFilters}] }
+            ${pairFilters}
           ]
         }
         orderBy: ${subgraph.dexType === 'v2' ? 'reserveUSD' : 'totalValueLockedUSD'}
@@ -192,28 +549,112 @@ export class TokenDiscoveryManager {
     return result;
   }
 
-  private addPoolToRegistry(
-    registry: PoolRegistry,
-    pool: SubgraphPool,
+  private fromSubgraphPool(pool: SubgraphPool): DiscoveredPool {
+    return {
+      address: pool.id.toLowerCase(),
+      dexType: pool.feeTier ? 'v3' : 'v2',
+      token0: pool.token0.id.toLowerCase(),
+      token1: pool.token1.id.toLowerCase(),
+      feeTier: pool.feeTier ? parseInt(pool.feeTier, 10) : undefined,
+    };
+  }
+
+  private fromCreatedPool(pool: CreatedPool): DiscoveredPool {
+    return {
+      address: pool.poolAddress,
+      dexType: pool.dexType,
+      token0: pool.token0,
+      token1: pool.token1,
+      feeTier: pool.feeTier ?? undefined,
+      factory: pool.factory,
+    };
+  }
+
+  /**
+   * Factory logs carry no liquidity: read the pools live and apply the same cumulative
+   * threshold as the subgraph path, per base token (amounts are only comparable within a base).
+   * Like the subgraph query, only pools pairing the token with a listed base token are kept;
+   * pools empty on the base side are dropped.
+   */
+  private async rankByBaseLiquidity(
+    tokenAddress: string,
+    pools: DiscoveredPool[],
     chainId: number,
     baseTokenMap: Map<string, string>
-  ): void {
-    const poolAddress = pool.id.toLowerCase();
-    const token0 = pool.token0.id.toLowerCase();
-    const token1 = pool.token1.id.toLowerCase();
+  ): Promise<DiscoveredPool[]> {
+    const tokenLower = tokenAddress.toLowerCase();
+    const counterpart = (pool: DiscoveredPool) => (pool.token0 === tokenLower ? pool.token1 : pool.token0);
+    const candidates = pools.filter(pool => baseTokenMap.has(counterpart(pool)));
+    if (candidates.length === 0) return [];
+
+    const results = await this.ethersAdapter.executeMulticall(
+      candidates.map(pool => ({ address: pool.address, dexVersion: pool.dexType })),
+      0,
+      chainId
+    );
+
+    const byBase = new Map<string, Array<{ pool: DiscoveredPool; amount: number }>>();
+    for (const pool of candidates) {
+      const result = results.find(r => r.poolAddress.toLowerCase() === pool.address);
+      if (!result?.success || !result.data) continue;
+
+      const state = toPoolState(result, pool.dexType, pool.token0, pool.token1, 'discovery');
+      const base = counterpart(pool);
+      const amount = this.baseSideAmount(state, pool.dexType, base === pool.token0);
+      if (!(amount > 0)) continue;
+
+      byBase.set(base, [...(byBase.get(base) ?? []), { pool, amount }]);
+    }
 
-    const dexType = pool.feeTier ? 'v3' : 'v2';
+    const ranked: DiscoveredPool[] = [];
+    for (const entries of byBase.values()) {
+      entries.sort((a, b) => b.amount - a.amount);
+      const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+      let cum = 0;
+      for (const entry of entries) {
+        ranked.push(entry.pool);
+        cum += entry.amount;
+        if (cum / total >= this.LIQUIDITY_THRESHOLD) break;
+      }
+    }
+    return ranked;
+  }
+
+  /**
+   * Raw amount of the base token in a pool: V2 reserve, or V3 virtual in-range amount
+   */
+  private baseSideAmount(state: PoolState, dexType: 'v2' | 'v3', baseIsToken0: boolean): number {
+    if (dexType === 'v2') return Number((baseIsToken0 ? state.reserve0 : state.reserve1) ?? 0n);
+    const sqrtPrice = Number(state.sqrtPriceX96 ?? 0n) / (2 ** 96);
+    const liquidity = Number(state.liquidity ?? 0n);
+    if (sqrtPrice === 0) return 0;
+    return baseIsToken0 ? liquidity / sqrtPrice : liquidity * sqrtPrice;
+  }
+
+  private registerPool(registry: PoolRegistry, pool: DiscoveredPool): void {
+    if (registry.pools[pool.address]) return;
 
     const metadata: PoolMetadata = {
-      address: poolAddress,
-      dexType,
-      token0,
-      token1,
-      feeTier: pool.feeTier ? parseInt(pool.feeTier, 10) : undefined,
-      weight: dexType === 'v3' ? 2 : 1,
+      address: pool.address,
+      dexType: pool.dexType,
+      token0: pool.token0,
+      token1: pool.token1,
+      feeTier: pool.feeTier,
+      factory: pool.factory,
+      weight: pool.dexType === 'v3' ? 2 : 1,
     };
+    registry.pools[pool.address] = metadata;
+  }
 
-    if (!registry.pools[poolAddress]) registry.pools[poolAddress] = metadata;
+  private addPoolToRegistry(
+    registry: PoolRegistry,
+    pool: DiscoveredPool,
+    baseTokenMap: Map<string, string>
+  ): void {
+    const poolAddress = pool.address;
+    const { token0, token1 } = pool;
+
+    this.registerPool(registry, pool);
 
     const routes = registry.pricingRoutes;
     if (!routes[token0]) routes[token0] = {};
@@ -223,16 +664,40 @@ export class TokenDiscoveryManager {
     let nonBase: string | null = null;
 
     if (baseTokenMap.has(token1)) {
-      baseSymbol = pool.token1.symbol;
+      baseSymbol = baseTokenMap.get(token1)!;
       nonBase = token0;
     } else if (baseTokenMap.has(token0)) {
-      baseSymbol = pool.token0.symbol;
+      baseSymbol = baseTokenMap.get(token0)!;
       nonBase = token1;
     }
 
     if (!baseSymbol || !nonBase) return;
 
     if (!routes[nonBase][baseSymbol]) routes[nonBase][baseSymbol] = [];
-    routes[nonBase][baseSymbol].push(poolAddress);
+    if (!routes[nonBase][baseSymbol].includes(poolAddress)) routes[nonBase][baseSymbol].push(poolAddress);
+  }
+
+  /**
+   * Record a hop from a token to an intermediate, and the intermediate's metadata
+   * @returns Number of pools added to the route
+   */
+  private addIntermediateRoute(registry: PoolRegistry, tokenAddress: string, candidate: IntermediateCandidate): number {
+    if (!registry.intermediateRoutes) registry.intermediateRoutes = {};
+    if (!registry.intermediateTokens) registry.intermediateTokens = {};
+    registry.intermediateTokens[candidate.address] = candidate.token;
+
+    const routes = registry.intermediateRoutes[tokenAddress] ?? {};
+    const poolAddresses = routes[candidate.address] ?? [];
+    let added = 0;
+    for (const pool of candidate.pools) {
+      this.registerPool(registry, pool);
+      if (poolAddresses.includes(pool.address)) continue;
+      poolAddresses.push(pool.address);
+      added++;
+    }
+
+    routes[candidate.address] = poolAddresses;
+    registry.intermediateRoutes[tokenAddress] = routes;
+    return added;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,208 @@
+/**
+ * TokenRiskAnalyzer - Contract risk analysis of quarantined tokens
+ *
+ * RESPONSIBILITY:
+ * - Detect proxies (EIP-1967 implementation/beacon slots, legacy ZeppelinOS slot, EIP-1167 clones)
+ * - Match privileged selectors (mint, pause, blacklist, upgrade) in the bytecode, and in the
+ *   implementation's bytecode for proxies
+ * - Check that decimals() and symbol() return standard ABI types
+ * - Measure fee-on-transfer by simulating a transfer from one of the token's pools (eth_call)
+ *
+ * ARCHITECTURE:
+ * - Read-only: every check is a view call, storage read or eth_call simulation via EthersAdapter
+ * - Findings are mapped to 'block' / 'flag' by quarantineConfig.RISK_POLICY; acting on the
+ *   verdict is up to the QuarantineValidator
+ */
+
+import { ethers } from 'ethers';
+import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
+import { quarantineConfig } from '../../infrastructure/config/QuarantineConfig';
+import type { TokenRiskFinding, TokenRiskFlag, TokenRiskReport } from '../../domain/types';
+
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+const EIP1967_BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+const ZOS_IMPLEMENTATION_SLOT = '0x7050c9e0f4ca769c69bd3a8ef740bc37934f8e2c036e5a723fd8ee048ed3f8c3';
+const EIP1167_PREFIX = '363d3d373d3d3d363d73'; // Followed by the 20-byte implementation address
+
+const tokenIface = new ethers.Interface([
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+  'function owner() view returns (address)',
+  'function balanceOf(address account) view returns (uint256)',
+]);
+const beaconIface = new ethers.Interface(['function implementation() view returns (address)']);
+
+/**
+ * Selectors pushed by PUSH4 in runtime bytecode (the dispatcher compares calldata against them).
+ * Walks opcodes so PUSH data is never mistaken for an opcode.
+ */
+function collectPush4Selectors(bytecode: string): Set<string> {
+  const code = ethers.getBytes(bytecode);
+  const selectors = new Set<string>();
+  for (let i = 0; i < code.length; i++) {
+    const opcode = code[i];
+    if (opcode < 0x60 || opcode > 0x7f) continue; // Not PUSH1..PUSH32
+    const size = opcode - 0x5f;
+    if (size === 4 && i + 4 < code.length) {
+      selectors.add(ethers.hexlify(code.slice(i + 1, i + 5)));
+    }
+    i += size;
+  }
+  return selectors;
+}
+
+/**
+ * Address stored in the low 20 bytes of a storage word, or null if the word is zero
+ */
+function slotAddress(word: string): string | null {
+  const address = ethers.getAddress(ethers.dataSlice(ethers.zeroPadValue(word, 32), 12));
+  return address === ethers.ZeroAddress ? null : address.toLowerCase();
+}
+
+export class TokenRiskAnalyzer {
+  constructor(private ethersAdapter: EthersAdapter) {}
+
+  /**
+   * Analyze a token contract
+   *
+   * @param chainId Network chain ID
+   * @param tokenAddress Token contract address
+   * @param holder Address holding the token to simulate a transfer from (e.g. its deepest pool);
+   *               without one, fee-on-transfer is not checked
+   */
+  public async analyze(chainId: number, tokenAddress: string, holder: string | null): Promise<TokenRiskReport> {
+    const findings: TokenRiskFinding[] = [];
+    const report = (proxy: TokenRiskReport['proxy'], owner: string | null, transferFeeBps: number | null): TokenRiskReport => {
+      const verdict = findings.some(finding => finding.action === 'block')
+        ? 'block'
+        : findings.length > 0 ? 'flag' : 'pass';
+      return { analyzedAt: Date.now(), proxy, owner, transferFeeBps, findings, verdict };
+    };
+    const addFinding = (flag: TokenRiskFlag, detail: string) => {
+      findings.push({ flag, action: quarantineConfig.RISK_POLICY[flag], detail });
+    };
+
+    const code = await this.ethersAdapter.getContractCode(tokenAddress, chainId);
+    if (code === '0x') {
+      addFinding('no-code', 'No contract deployed at the address');
+      return report(null, null, null);
+    }
+
+    // STEP 1: Proxy detection, then inspect the implementation's code along with the proxy's
+    const proxy = await this.detectProxy(chainId, tokenAddress, code);
+    const selectors = collectPush4Selectors(code);
+    if (proxy) {
+      addFinding('proxy', `${proxy.kind} proxy → ${proxy.implementation ?? 'unresolved implementation'}`);
+      if (proxy.implementation) {
+        const implementationCode = await this.ethersAdapter.getContractCode(proxy.implementation, chainId);
+        for (const selector of collectPush4Selectors(implementationCode)) selectors.add(selector);
+      }
+    }
+
+    // STEP 2: Standard return types and owner, in one multicall
+    const target = ethers.getAddress(tokenAddress);
+    const [decimals, symbol, owner, holderBalance] = await this.ethersAdapter.tryAggregate(
+      [
+        { target, callData: tokenIface.encodeFunctionData('decimals', []) },
+        { target, callData: tokenIface.encodeFunctionData('symbol', []) },
+        { target, callData: tokenIface.encodeFunctionData('owner', []) },
+        { target, callData: tokenIface.encodeFunctionData('balanceOf', [ethers.getAddress(holder ?? ethers.ZeroAddress)]) },
+      ],
+      chainId
+    );
+
+    // A standard uint8 return is one ABI word holding a value below 256
+    if (!decimals.success || ethers.dataLength(decimals.returnData) !== 32 || BigInt(decimals.returnData) > 255n) {
+      addFinding('nonstandard-decimals', decimals.success ? `decimals() returned ${decimals.returnData}` : 'decimals() reverted');
+    }
+    if (!symbol.success) {
+      addFinding('nonstandard-symbol', 'symbol() reverted');
+    } else if (ethers.dataLength(symbol.returnData) === 32) {
+      addFinding('nonstandard-symbol', 'symbol() returns bytes32 instead of string');
+    } else {
+      try {
+        tokenIface.decodeFunctionResult('symbol', symbol.returnData);
+      } catch {
+        addFinding('nonstandard-symbol', 'symbol() return data is not an ABI string');
+      }
+    }
+
+    const ownerAddress = owner.success && ethers.dataLength(owner.returnData) === 32
+      ? String(tokenIface.decodeFunctionResult('owner', owner.returnData)[0]).toLowerCase()
+      : null;
+
+    // STEP 3: Privileged selectors (owner-gated ones are moot once ownership is renounced)
+    const ownerRenounced = ownerAddress === ethers.ZeroAddress;
+    for (const [flag, signatures] of Object.entries(quarantineConfig.PRIVILEGED_SELECTORS) as Array<[TokenRiskFlag, string[]]>) {
+      if (ownerRenounced && flag !== 'upgradeable') continue;
+      const matched = signatures.filter(signature => selectors.has(ethers.id(signature).slice(0, 10)));
+      if (matched.length > 0) addFinding(flag, matched.join(', '));
+    }
+
+    // STEP 4: Fee-on-transfer, simulated from the holder
+    let transferFeeBps: number | null = null;
+    if (holder && holderBalance.success && ethers.dataLength(holderBalance.returnData) === 32) {
+      const amount = BigInt(holderBalance.returnData) * BigInt(quarantineConfig.TRANSFER_PROBE_SHARE_BPS) / 10_000n;
+      if (amount > 0n) {
+        try {
+          const simulation = await this.ethersAdapter.simulateTransfer(
+            tokenAddress,
+            holder,
+            quarantineConfig.TRANSFER_PROBE_RECIPIENT,
+            amount,
+            chainId
+          );
+          if (!simulation) {
+            addFinding('transfer-reverts', `Transfer of ${amount} from ${holder} failed, or balances around it could not be read`);
+          } else {
+            transferFeeBps = Number((amount - simulation.received) * 10_000n / amount);
+            if (transferFeeBps > quarantineConfig.MAX_TRANSFER_FEE_BPS) {
+              addFinding('fee-on-transfer', `Recipient received ${simulation.received} of ${amount} (${transferFeeBps / 100}% fee)`);
+            }
+          }
+        } catch (error: any) {
+          // Endpoint without eth_call state overrides: fee left unknown rather than failing the analysis
+          console.warn(`⚠️ [RISK] Transfer simulation unavailable for ${tokenAddress.slice(0, 8)}...: ${error?.message ?? error}`);
+        }
+      }
+    }
+
+    return report(proxy, ownerAddress, transferFeeBps);
+  }
+
+  /**
+   * Identify the proxy pattern of a contract, if any
+   */
+  private async detectProxy(chainId: number, address: string, code: string): Promise<TokenRiskReport['proxy']> {
+    if (code.slice(2).toLowerCase().startsWith(EIP1167_PREFIX)) {
+      const start = 2 + EIP1167_PREFIX.length;
+      return { kind: 'eip1167', implementation: `0x${code.slice(start, start + 40)}`.toLowerCase() };
+    }
+
+    const [implementationSlot, beaconSlot, zosSlot] = await Promise.all(
+      [EIP1967_IMPLEMENTATION_SLOT, EIP1967_BEACON_SLOT, ZOS_IMPLEMENTATION_SLOT].map(slot =>
+        this.ethersAdapter.getStorageSlot(address, slot, chainId)
+      )
+    );
+
+    const implementation = slotAddress(implementationSlot);
+    if (implementation) return { kind: 'eip1967', implementation };
+
+    const beacon = slotAddress(beaconSlot);
+    if (beacon) {
+      const [result] = await this.ethersAdapter.tryAggregate(
+        [{ target: ethers.getAddress(beacon), callData: beaconIface.encodeFunctionData('implementation', []) }],
+        chainId
+      );
+      const beaconImplementation = result.success && ethers.dataLength(result.returnData) === 32
+        ? String(beaconIface.decodeFunctionResult('implementation', result.returnData)[0]).toLowerCase()
+        : null;
+      return { kind: 'eip1967-beacon', implementation: beaconImplementation };
+    }
+
+    const zosImplementation = slotAddress(zosSlot);
+    if (zosImplementation) return { kind: 'zos', implementation: zosImplementation };
+
+    return null;
+  }
+}
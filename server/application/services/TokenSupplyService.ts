@@ -0,0 +1,139 @@
+/**
+ * TokenSupplyService - Total and circulating supply of listed tokens
+ *
+ * RESPONSIBILITY:
+ * - Periodically read totalSupply() of every listed token, batched through Multicall3
+ *   (EthersAdapter.fetchTokenSupplies), together with the balances of its excluded holders
+ * - Derive circulating supply (see TokenSupplyConfig) and value it: market cap and
+ *   fully diluted valuation at a given price
+ *
+ * Supplies are kept in memory only: the first refresh runs as soon as a chain is started.
+ */
+
+import { storageService, StorageService } from './StorageService';
+import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
+import { tokenSupplyConfig, getExcludedAddresses } from '../../infrastructure/config/TokenSupplyConfig';
+
+/**
+ * Supply of one token, in whole-token units
+ */
+export interface TokenSupply {
+  totalSupply: number;
+  circulatingSupply: number; // totalSupply minus excluded holders
+  blockNumber: number; // Block the supply was read at
+  updatedAt: number;
+}
+
+/**
+ * Valuation of one token at a price (fields omitted when the supply is unknown)
+ */
+export interface TokenValuation {
+  marketCap?: number; // Circulating supply × price
+  fullyDilutedMarketCap?: number; // Total supply × price
+  circulatingSupply?: number;
+  totalSupply?: number;
+}
+
+export class TokenSupplyService {
+  private supplies: Map<number, Map<string, TokenSupply>> = new Map(); // chainId -> lowercase token -> supply
+  private timers: Map<number, NodeJS.Timeout> = new Map();
+
+  constructor(
+    private storageService: StorageService,
+    private ethersAdapter: EthersAdapter
+  ) {}
+
+  /**
+   * Start refreshing a chain's supplies (no-op if already running)
+   */
+  public start(chainId: number): void {
+    if (this.timers.has(chainId)) return;
+
+    const refresh = () => {
+      this.refreshChain(chainId)
+        .catch(error => console.error(`❌ [SUPPLY] Supply refresh failed on chain ${chainId}:`, error?.message ?? error))
+        .finally(() => {
+          if (this.timers.has(chainId)) this.timers.set(chainId, setTimeout(refresh, tokenSupplyConfig.REFRESH_INTERVAL_MS));
+        });
+    };
+    this.timers.set(chainId, setTimeout(refresh, 0));
+    console.log(`🪙 [SUPPLY] Refreshing token supplies on chain ${chainId} (every ${tokenSupplyConfig.REFRESH_INTERVAL_MS / 60000} min)`);
+  }
+
+  /**
+   * Stop refreshing every chain
+   */
+  public stop(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  public getSupply(chainId: number, tokenAddress: string): TokenSupply | null {
+    return this.supplies.get(chainId)?.get(tokenAddress.toLowerCase()) ?? null;
+  }
+
+  /**
+   * Value a token's supply at a price
+   *
+   * @param chainId Network chain ID
+   * @param tokenAddress Token contract address
+   * @param price USD price (no market cap unless positive)
+   */
+  public getValuation(chainId: number, tokenAddress: string, price: number | null): TokenValuation {
+    const supply = this.getSupply(chainId, tokenAddress);
+    if (!supply) return {};
+
+    const valuation: TokenValuation = {
+      circulatingSupply: supply.circulatingSupply,
+      totalSupply: supply.totalSupply,
+    };
+    if (price !== null && price > 0) {
+      valuation.marketCap = supply.circulatingSupply * price;
+      valuation.fullyDilutedMarketCap = supply.totalSupply * price;
+    }
+    return valuation;
+  }
+
+  public getStats() {
+    const chains: Record<number, { tokens: number; lastBlock: number | null }> = {};
+    for (const [chainId, supplies] of this.supplies) {
+      const blocks = [...supplies.values()].map(supply => supply.blockNumber);
+      chains[chainId] = { tokens: supplies.size, lastBlock: blocks.length > 0 ? Math.max(...blocks) : null };
+    }
+    return { chains };
+  }
+
+  /**
+   * Read the supply of every listed token on a chain
+   */
+  private async refreshChain(chainId: number): Promise<void> {
+    const tokens = await this.storageService.getTokensByNetwork(chainId);
+    if (tokens.length === 0) return;
+
+    const readings = await this.ethersAdapter.fetchTokenSupplies(
+      tokens.map(token => ({ address: token.address, excluded: getExcludedAddresses(chainId, token.address) })),
+      chainId
+    );
+
+    const supplies = this.supplies.get(chainId) ?? new Map<string, TokenSupply>();
+    const now = Date.now();
+    for (const token of tokens) {
+      const reading = readings.get(token.address.toLowerCase());
+      if (!reading) continue;
+
+      const unit = Math.pow(10, token.decimals ?? 18);
+      const circulating = reading.totalSupply > reading.excludedBalance ? reading.totalSupply - reading.excludedBalance : 0n;
+      supplies.set(token.address.toLowerCase(), {
+        totalSupply: Number(reading.totalSupply) / unit,
+        circulatingSupply: Number(circulating) / unit,
+        blockNumber: reading.blockNumber,
+        updatedAt: now,
+      });
+    }
+    this.supplies.set(chainId, supplies);
+
+    console.log(`🪙 [SUPPLY] Chain ${chainId}: supply read for ${readings.size}/${tokens.length} tokens`);
+  }
+}
+
+export const tokenSupplyService = new TokenSupplyService(storageService, new EthersAdapter());
@@ -0,0 +1,182 @@
+/**
+ * TopologyJournal - Append-only log of pool registry topology changes
+ *
+ * RESPONSIBILITY:
+ * - Diff the registry around an update (a discovery run, or pools registered from factory
+ *   logs) into a change set: pools added, pools the discovery liquidity filter newly cut,
+ *   and every token whose pricing routes changed
+ * - Append change sets to the chain's journal via StorageService (one JSON line each)
+ * - Serve the change sets recorded since a time, and the history of one token
+ *
+ * The journal is loaded lazily and kept in memory; it is only ever appended to.
+ */
+
+import { storageService, StorageService } from './StorageService';
+import type {
+  PoolRegistry,
+  TokenTopology,
+  TopologyChangeSet,
+  TopologyDroppedPool,
+  TopologyPoolChange,
+  TopologyRouteChange,
+  TopologyTrigger,
+} from '../../domain/types';
+
+/**
+ * Registry topology captured before an update
+ */
+export interface TopologySnapshot {
+  pools: Set<string>;
+  tokens: Map<string, TokenTopology>;
+}
+
+/**
+ * One change set, narrowed to what concerns a token
+ */
+export interface TokenTopologyEvent {
+  timestamp: number;
+  trigger: TopologyTrigger;
+  poolsAdded: TopologyPoolChange[]; // Added pools holding the token
+  poolsDropped: TopologyDroppedPool[]; // Pools the liquidity filter cut from the token's discovery
+  routeChange: TopologyRouteChange | null;
+}
+
+/**
+ * A token's routes as SpotPricingEngine resolves them: direct base routes, else intermediate
+ * routes. Keys and pool lists are sorted so topologies compare by value.
+ */
+export function describeTopology(registry: PoolRegistry, tokenAddress: string): TokenTopology {
+  const sorted = (routes: Record<string, string[]>) => {
+    const result: Record<string, string[]> = {};
+    for (const key of Object.keys(routes).sort()) {
+      if (routes[key].length > 0) result[key] = [...routes[key]].sort();
+    }
+    return result;
+  };
+
+  const direct = sorted(registry.pricingRoutes[tokenAddress] ?? {});
+  if (Object.keys(direct).length > 0) return { source: 'direct', routes: direct };
+
+  const intermediate = sorted(registry.intermediateRoutes?.[tokenAddress] ?? {});
+  if (Object.keys(intermediate).length > 0) return { source: 'intermediate', routes: intermediate };
+
+  return { source: 'none', routes: {} };
+}
+
+export class TopologyJournal {
+  private journals: Map<number, TopologyChangeSet[]> = new Map();
+
+  constructor(private storageService: StorageService) {}
+
+  /**
+   * Capture the registry's topology ahead of an update, to diff against with record()
+   */
+  public capture(registry: PoolRegistry): TopologySnapshot {
+    const tokens = new Map<string, TokenTopology>();
+    for (const token of this.routedTokens(registry)) {
+      tokens.set(token, describeTopology(registry, token));
+    }
+    return { pools: new Set(Object.keys(registry.pools)), tokens };
+  }
+
+  /**
+   * Diff the updated registry against a snapshot and append the change set to the journal.
+   * A journal write failure is logged, not thrown: the registry update itself stands.
+   *
+   * @param chainId Network chain ID
+   * @param trigger What updated the registry
+   * @param before Snapshot captured before the update
+   * @param registry The updated registry
+   * @param poolsDropped Pools the liquidity filter newly cut during the update, with the reason
+   * @returns The change set, or null if nothing changed
+   */
+  public async record(
+    chainId: number,
+    trigger: TopologyTrigger,
+    before: TopologySnapshot,
+    registry: PoolRegistry,
+    poolsDropped: TopologyDroppedPool[] = []
+  ): Promise<TopologyChangeSet | null> {
+    const poolsAdded: TopologyPoolChange[] = Object.entries(registry.pools)
+      .filter(([poolAddress]) => !before.pools.has(poolAddress))
+      .map(([poolAddress, pool]) => ({ poolAddress, token0: pool.token0, token1: pool.token1, dexType: pool.dexType }));
+
+    const routeChanges: TopologyRouteChange[] = [];
+    for (const token of new Set([...before.tokens.keys(), ...this.routedTokens(registry)])) {
+      const previous = before.tokens.get(token) ?? { source: 'none', routes: {} };
+      const current = describeTopology(registry, token);
+      if (JSON.stringify(previous) === JSON.stringify(current)) continue;
+      routeChanges.push({ token, before: previous, after: current });
+    }
+
+    if (poolsAdded.length === 0 && poolsDropped.length === 0 && routeChanges.length === 0) return null;
+
+    const changeSet: TopologyChangeSet = { timestamp: Date.now(), chainId, trigger, poolsAdded, poolsDropped, routeChanges };
+    try {
+      const journal = await this.loadJournal(chainId);
+      await this.storageService.appendTopologyChangeSet(chainId, changeSet);
+      journal.push(changeSet);
+    } catch (error: any) {
+      console.error(`❌ [TOPOLOGY] Could not append change set on chain ${chainId}:`, error?.message ?? error);
+      return null;
+    }
+
+    console.log(
+      `🧭 [TOPOLOGY] Chain ${chainId} (${trigger}): ${poolsAdded.length} pool(s) added, ` +
+      `${poolsDropped.length} dropped, ${routeChanges.length} token route change(s)`
+    );
+    return changeSet;
+  }
+
+  /**
+   * Change sets recorded after a time, oldest first
+   *
+   * @param chainId Network chain ID
+   * @param since Exclusive lower bound (ms); 0 for the whole journal
+   */
+  public async getChanges(chainId: number, since: number = 0): Promise<TopologyChangeSet[]> {
+    const journal = await this.loadJournal(chainId);
+    return journal.filter(changeSet => changeSet.timestamp > since);
+  }
+
+  /**
+   * Every change set that touched a token, narrowed to the token, oldest first
+   *
+   * @param chainId Network chain ID
+   * @param tokenAddress Token contract address
+   */
+  public async getTokenHistory(chainId: number, tokenAddress: string): Promise<TokenTopologyEvent[]> {
+    const token = tokenAddress.toLowerCase();
+    const events: TokenTopologyEvent[] = [];
+
+    for (const changeSet of await this.loadJournal(chainId)) {
+      const event: TokenTopologyEvent = {
+        timestamp: changeSet.timestamp,
+        trigger: changeSet.trigger,
+        poolsAdded: changeSet.poolsAdded.filter(pool => pool.token0 === token || pool.token1 === token),
+        poolsDropped: changeSet.poolsDropped.filter(pool => pool.token === token),
+        routeChange: changeSet.routeChanges.find(change => change.token === token) ?? null,
+      };
+      if (event.poolsAdded.length > 0 || event.poolsDropped.length > 0 || event.routeChange) events.push(event);
+    }
+    return events;
+  }
+
+  /**
+   * Tokens with an entry in either route table
+   */
+  private routedTokens(registry: PoolRegistry): Set<string> {
+    return new Set([...Object.keys(registry.pricingRoutes), ...Object.keys(registry.intermediateRoutes ?? {})]);
+  }
+
+  private async loadJournal(chainId: number): Promise<TopologyChangeSet[]> {
+    if (!this.journals.has(chainId)) {
+      const journal = await this.storageService.getTopologyJournal(chainId);
+      // A concurrent caller may have loaded it while this one was reading
+      if (!this.journals.has(chainId)) this.journals.set(chainId, journal);
+    }
+    return this.journals.get(chainId)!;
+  }
+}
+
+export const topologyJournal = new TopologyJournal(storageService);
@@ -1,10 +1,21 @@
 
 import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
-import {
-    FACTORIES,
-    V2_FACTORY_ABI, V3_FACTORY_ABI,
-    V2_POOL_ABI, V3_POOL_ABI
-} from '../../infrastructure/config/ContractAddressConfig';
+import { DEFAULT_V2_FEE, getFactoryFeeConfig, V2_POOL_ABI } from '../../infrastructure/config/ContractAddressConfig';
+import { timingConfig } from '../../infrastructure/config/TimingConfig';
+import { simulateV3Swap, V3SwapResult, V3TickData } from './V3SwapMath';
+import type { RouteHop, SimulationResult, SwapRoute, TradeType } from '../../domain/swapper.types';
+
+// Bitmap words loaded on each side of the current tick (1 word = 256 × tickSpacing ticks)
+const V3_TICK_WORD_RADIUS = 2;
+// Widest window a single simulation may grow to before giving up
+const MAX_V3_TICK_WORD_RADIUS = 32;
+
+// Result of swapping through one pool
+interface HopSimulation {
+    amount: bigint; // Output for getAmountOut, required input for getAmountIn
+    initializedTicksCrossed: number; // Always 0 for V2
+    stateAfter: PoolState; // Pool state once this swap has executed
+}
 
 interface PoolState {
     address: string;
@@ -12,117 +23,402 @@ interface PoolState {
     data: any;
     token0: string;
     token1: string;
+    simulated?: boolean; // Post-swap state produced by a split simulation, not read on-chain
+}
+
+// Post-swap pool states shared by the legs of one split simulation, keyed by lowercase pool address
+type PoolStateOverlay = Map<string, PoolState>;
+
+/**
+ * One leg of a split: a route and its specified amount (input for exactIn, output for exactOut)
+ */
+export interface SplitAllocation {
+    route: SwapRoute;
+    amount: bigint;
 }
 
 export class TradeSimulator {
+  private poolStateCache: Map<string, { state: PoolState; fetchedAt: number }> = new Map();
+  private poolFactories: Map<string, string | null> = new Map(); // "chainId:pool" -> lowercase factory (null: unreadable)
 
   constructor(private ethersAdapter: EthersAdapter) {}
 
-  public async simulatePath(path: string[], amountIn: bigint, chainId: number): Promise<bigint | null> {
-    let currentAmount = amountIn;
+  /**
+   * Simulates a swap along a route, hop by hop, through the pools the route is pinned to.
+   * @returns The final output amount, or null if any hop cannot be quoted.
+   */
+  public async simulateRoute(route: SwapRoute, amountIn: bigint, chainId: number): Promise<bigint | null> {
+    const result = await this.simulateRouteDetailed(route, amountIn, chainId);
+    return result ? result.amountOut : null;
+  }
 
-    for (let i = 0; i < path.length - 1; i++) {
-      const tokenIn = path[i];
-      const tokenOut = path[i + 1];
+  /**
+   * Simulates a swap along a route and reports how far execution lands from the mid price.
+   * Prices are in raw units (output base units per input base unit); the caller
+   * applies token decimals. Price impact includes LP fees.
+   * @returns The simulation result, or null if any hop cannot be quoted.
+   */
+  public async simulateRouteDetailed(route: SwapRoute, amountIn: bigint, chainId: number): Promise<SimulationResult | null> {
+    return this.runExactIn(route, amountIn, chainId);
+  }
 
-      const poolState = await this.findAndGetBestPoolState(tokenIn, tokenOut, chainId);
-      
-      if (!poolState) {
-        console.error(`[SIMULATOR] Could not find a valid pool for ${tokenIn} -> ${tokenOut} on chain ${chainId}`);
+  /**
+   * Simulates the legs of a split one after another against shared pool state, so that
+   * a leg going through a pool an earlier leg already used sees the moved reserves/price.
+   * Mid prices stay those of the untouched pools.
+   * @returns One result per leg (same order), or null if any leg cannot be quoted.
+   */
+  public async simulateSplit(legs: SplitAllocation[], chainId: number, tradeType: TradeType): Promise<SimulationResult[] | null> {
+    const overlay: PoolStateOverlay = new Map();
+    const results: SimulationResult[] = [];
+
+    for (const leg of legs) {
+      const result = tradeType === 'exactIn'
+        ? await this.runExactIn(leg.route, leg.amount, chainId, overlay)
+        : await this.runExactOut(leg.route, leg.amount, chainId, overlay);
+      if (!result) return null;
+      results.push(result);
+    }
+    return results;
+  }
+
+  private async runExactIn(route: SwapRoute, amountIn: bigint, chainId: number, overlay?: PoolStateOverlay): Promise<SimulationResult | null> {
+    let currentAmount = amountIn;
+    let midPrice = 1;
+    const hopTicksCrossed: number[] = [];
+
+    for (const hop of route.hops) {
+      const baseState = await this.loadPoolState(hop, chainId);
+      if (!baseState) {
+        console.error(`[SIMULATOR] Could not load pool ${hop.poolAddress} for ${hop.tokenIn} -> ${hop.tokenOut} on chain ${chainId}`);
         return null;
       }
 
-      const amountOut = this.getAmountOut(poolState, tokenIn, currentAmount);
-      if (amountOut === null) {
+      // Mid price must be read before getAmountOut, which may re-fetch a wider V3 window
+      midPrice *= this.getMidPrice(baseState, hop.tokenIn);
+
+      const poolKey = hop.poolAddress.toLowerCase();
+      const poolState = overlay?.get(poolKey) ?? baseState;
+      const hopResult = await this.getAmountOut(poolState, hop.tokenIn, currentAmount, chainId);
+      if (hopResult === null) {
         console.error(`[SIMULATOR] Calculation failed for pool ${poolState.address}`);
         return null;
       }
-      currentAmount = amountOut;
+      overlay?.set(poolKey, hopResult.stateAfter);
+      currentAmount = hopResult.amount;
+      hopTicksCrossed.push(hopResult.initializedTicksCrossed);
     }
 
-    return currentAmount;
+    const executionPrice = amountIn > 0n ? Number(currentAmount) / Number(amountIn) : 0;
+    const priceImpact = midPrice > 0 ? Math.max(0, (1 - executionPrice / midPrice) * 100) : 100;
+
+    return { amountIn, amountOut: currentAmount, midPrice, executionPrice, priceImpact, hopTicksCrossed };
   }
 
-  private async findAndGetBestPoolState(tokenA: string, tokenB: string, chainId: number): Promise<PoolState | null> {
-    const chainFactories = FACTORIES[chainId];
-    if (!chainFactories) return null;
+  /**
+   * Exact-output simulation: walks the route backwards from the last hop,
+   * each hop's required input becoming the previous hop's required output.
+   * @returns The input required for exactly `amountOut`, or null if any hop cannot deliver.
+   */
+  public async simulateRouteExactOut(route: SwapRoute, amountOut: bigint, chainId: number): Promise<bigint | null> {
+    const result = await this.simulateRouteExactOutDetailed(route, amountOut, chainId);
+    return result ? result.amountIn : null;
+  }
 
-    let bestPool: { state: PoolState, amountOut: bigint } | null = null;
-    const nominalAmount = BigInt(10) ** BigInt(Math.min(6, 18)); // A nominal amount for testing, e.g., 1 USDC or 1 LINK
+  /**
+   * Exact-output counterpart of simulateRouteDetailed (same raw-unit prices).
+   */
+  public async simulateRouteExactOutDetailed(route: SwapRoute, amountOut: bigint, chainId: number): Promise<SimulationResult | null> {
+    return this.runExactOut(route, amountOut, chainId);
+  }
 
-    // V2 Pools
-    for (const factoryAddress of chainFactories.v2) {
-        const poolAddress = await this.ethersAdapter.callContractMethod(factoryAddress, V2_FACTORY_ABI, 'getPair', [tokenA, tokenB], chainId);
-        if (poolAddress && poolAddress !== '0x0000000000000000000000000000000000000000') {
-            const reserves = await this.ethersAdapter.callContractMethod(poolAddress, V2_POOL_ABI, 'getReserves', [], chainId);
-            if (reserves) {
-                const state: PoolState = { address: poolAddress, type: 'v2', data: { reserve0: reserves[0], reserve1: reserves[1] }, token0: tokenA, token1: tokenB };
-                const amountOut = this.getAmountOut(state, tokenA, nominalAmount);
-                if (amountOut && (!bestPool || amountOut > bestPool.amountOut)) {
-                    bestPool = { state, amountOut };
-                }
-            }
-        }
+  private async runExactOut(route: SwapRoute, amountOut: bigint, chainId: number, overlay?: PoolStateOverlay): Promise<SimulationResult | null> {
+    let currentAmount = amountOut;
+    let midPrice = 1;
+    const hopTicksCrossed: number[] = [];
+
+    for (let i = route.hops.length - 1; i >= 0; i--) {
+      const hop = route.hops[i];
+      const baseState = await this.loadPoolState(hop, chainId);
+      if (!baseState) {
+        console.error(`[SIMULATOR] Could not load pool ${hop.poolAddress} for ${hop.tokenIn} -> ${hop.tokenOut} on chain ${chainId}`);
+        return null;
+      }
+
+      midPrice *= this.getMidPrice(baseState, hop.tokenIn);
+
+      // Hops execute first-to-last on-chain, but are solved last-to-first here; within one
+      // route every pool is distinct, so only earlier legs' state changes matter
+      const poolKey = hop.poolAddress.toLowerCase();
+      const poolState = overlay?.get(poolKey) ?? baseState;
+      const hopResult = await this.getAmountIn(poolState, hop.tokenIn, currentAmount, chainId);
+      if (hopResult === null) {
+        console.error(`[SIMULATOR] Reverse calculation failed for pool ${poolState.address}`);
+        return null;
+      }
+      overlay?.set(poolKey, hopResult.stateAfter);
+      currentAmount = hopResult.amount;
+      hopTicksCrossed.unshift(hopResult.initializedTicksCrossed);
     }
 
-    // V3 Pools
-    for (const factoryAddress of chainFactories.v3) {
-        for (const fee of chainFactories.v3_fees) {
-            const poolAddress = await this.ethersAdapter.callContractMethod(factoryAddress, V3_FACTORY_ABI, 'getPool', [tokenA, tokenB, fee], chainId);
-            if (poolAddress && poolAddress !== '0x0000000000000000000000000000000000000000') {
-                const [slot0, liquidity] = await Promise.all([
-                    this.ethersAdapter.callContractMethod(poolAddress, V3_POOL_ABI, 'slot0', [], chainId),
-                    this.ethersAdapter.callContractMethod(poolAddress, V3_POOL_ABI, 'liquidity', [], chainId)
-                ]);
-                if (slot0 && liquidity) {
-                    const state: PoolState = { address: poolAddress, type: 'v3', data: { sqrtPriceX96: slot0[0], liquidity: liquidity, fee: fee }, token0: tokenA, token1: tokenB };
-                    const amountOut = this.getAmountOut(state, tokenA, nominalAmount);
-                    if (amountOut && (!bestPool || amountOut > bestPool.amountOut)) {
-                        bestPool = { state, amountOut };
-                    }
-                }
-            }
+    const executionPrice = currentAmount > 0n ? Number(amountOut) / Number(currentAmount) : 0;
+    const priceImpact = midPrice > 0 ? Math.max(0, (1 - executionPrice / midPrice) * 100) : 100;
+
+    return { amountIn: currentAmount, amountOut, midPrice, executionPrice, priceImpact, hopTicksCrossed };
+  }
+
+  /**
+   * Marginal (zero-size, fee-free) rate of a pool in raw units: output per input.
+   */
+  private getMidPrice(poolState: PoolState, tokenIn: string): number {
+    const isToken0In = tokenIn.toLowerCase() === poolState.token0.toLowerCase();
+
+    if (poolState.type === 'v2') {
+      const reserve0 = Number(poolState.data.reserve0);
+      const reserve1 = Number(poolState.data.reserve1);
+      if (reserve0 === 0 || reserve1 === 0) return 0;
+      return isToken0In ? reserve1 / reserve0 : reserve0 / reserve1;
+    }
+
+    const sqrtPrice = Number(poolState.data.tickData.sqrtPriceX96) / 2 ** 96;
+    const price1Per0 = sqrtPrice * sqrtPrice;
+    if (price1Per0 === 0) return 0;
+    return isToken0In ? price1Per0 : 1 / price1Per0;
+  }
+
+  /**
+   * Fetches the state a hop's pool needs for simulation.
+   * States are reused for SIMULATION_STATE_TTL_MS so the many simulations
+   * of a single quote (split search) share one read per pool.
+   */
+  private async loadPoolState(hop: RouteHop, chainId: number): Promise<PoolState | null> {
+    const cacheKey = `${chainId}:${hop.poolAddress.toLowerCase()}`;
+    const cached = this.poolStateCache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < timingConfig.SIMULATION_STATE_TTL_MS) {
+      return cached.state;
+    }
+
+    const [token0, token1] = sortTokens(hop.tokenIn, hop.tokenOut);
+    let state: PoolState | null = null;
+
+    try {
+      const dynamicFee = await this.readDynamicFee(hop, chainId);
+      if (hop.dexType === 'v2') {
+        const reserves = await this.ethersAdapter.callContractMethod(hop.poolAddress, V2_POOL_ABI, 'getReserves', [], chainId);
+        if (reserves) {
+          const fee = dynamicFee ?? await this.getV2Fee(hop, chainId);
+          state = { address: hop.poolAddress, type: 'v2', data: { reserve0: reserves[0], reserve1: reserves[1], fee }, token0, token1 };
         }
+      } else {
+        // V3 fee comes from the pool's own fee() in the tick data, unless the pool's fee is dynamic
+        const fetched = await this.ethersAdapter.fetchV3TickData(hop.poolAddress, chainId, V3_TICK_WORD_RADIUS);
+        const tickData: V3TickData = dynamicFee !== null ? { ...fetched, fee: dynamicFee } : fetched;
+        if (tickData.liquidity > 0n) {
+          state = { address: hop.poolAddress, type: 'v3', data: { tickData, wordRadius: V3_TICK_WORD_RADIUS }, token0, token1 };
+        }
+      }
+    } catch (error: any) {
+      console.warn(`[SIMULATOR] Failed to read pool ${hop.poolAddress}: ${error.message}`);
+      return null;
     }
 
-    return bestPool ? bestPool.state : null;
+    if (state) {
+      this.evictStalePoolStates();
+      this.poolStateCache.set(cacheKey, { state, fetchedAt: Date.now() });
+    }
+    return state;
+  }
+
+  /**
+   * Drops cached pool states past SIMULATION_STATE_TTL_MS, so pools quoted once
+   * do not stay in memory for the life of the process.
+   */
+  private evictStalePoolStates(): void {
+    const now = Date.now();
+    for (const [cacheKey, cached] of this.poolStateCache) {
+      if (now - cached.fetchedAt >= timingConfig.SIMULATION_STATE_TTL_MS) {
+        this.poolStateCache.delete(cacheKey);
+      }
+    }
   }
 
-  private getAmountOut(poolState: PoolState, tokenIn: string, amountIn: bigint): bigint | null {
-    const fee = BigInt(poolState.type === 'v2' ? 3000 : poolState.data.fee);
-    const amountInWithFee = amountIn * (BigInt(1000000) - fee) / BigInt(1000000);
+  /**
+   * Fixed fee of a V2 pool: the registry's fee, else its factory's configured fee.
+   * @returns Fee in pips (1e-6).
+   */
+  private async getV2Fee(hop: RouteHop, chainId: number): Promise<number> {
+    if (hop.feeTier !== undefined) return hop.feeTier;
+
+    const factory = await this.getFactory(hop, chainId);
+    const fee = factory ? getFactoryFeeConfig(chainId, factory)?.fee : undefined;
+    if (fee === undefined) {
+      console.warn(`[SIMULATOR] No fee config for pool ${hop.poolAddress.slice(0, 6)}... (factory ${factory ?? 'unknown'}), assuming ${DEFAULT_V2_FEE / 10000}%`);
+      return DEFAULT_V2_FEE;
+    }
+    return fee;
+  }
+
+  /**
+   * Current fee of a pool whose factory declares a dynamic fee getter.
+   * @returns Fee in pips (1e-6), or null if the fee is not dynamic or could not be read.
+   */
+  private async readDynamicFee(hop: RouteHop, chainId: number): Promise<number | null> {
+    const factory = await this.getFactory(hop, chainId);
+    const dynamicFee = factory ? getFactoryFeeConfig(chainId, factory)?.dynamicFee : undefined;
+    if (!dynamicFee) return null;
+
+    try {
+      const value = await this.ethersAdapter.callContractMethod(hop.poolAddress, [dynamicFee.abi], dynamicFee.method, [], chainId);
+      return Number(value) * dynamicFee.pipsPerUnit;
+    } catch (error: any) {
+      console.warn(`[SIMULATOR] Could not read dynamic fee of ${hop.poolAddress.slice(0, 6)}...: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Factory of a hop's pool: from the registry when recorded, else read once from the pool.
+   */
+  private async getFactory(hop: RouteHop, chainId: number): Promise<string | null> {
+    if (hop.factory) return hop.factory;
+
+    const key = `${chainId}:${hop.poolAddress.toLowerCase()}`;
+    if (this.poolFactories.has(key)) return this.poolFactories.get(key)!;
+
+    let factory: string | null = null;
+    try {
+      factory = String(await this.ethersAdapter.callContractMethod(hop.poolAddress, V2_POOL_ABI, 'factory', [], chainId)).toLowerCase();
+    } catch (error: any) {
+      console.warn(`[SIMULATOR] Could not read factory of ${hop.poolAddress.slice(0, 6)}...: ${error.message}`);
+    }
+    this.poolFactories.set(key, factory);
+    return factory;
+  }
+
+  private async getAmountOut(poolState: PoolState, tokenIn: string, amountIn: bigint, chainId: number): Promise<HopSimulation | null> {
     const isToken0In = tokenIn.toLowerCase() === poolState.token0.toLowerCase();
 
     if (poolState.type === 'v2') {
+        const fee = BigInt(poolState.data.fee);
+        const amountInWithFee = amountIn * (BigInt(1000000) - fee) / BigInt(1000000);
         const { reserve0, reserve1 } = poolState.data;
         const [reserveIn, reserveOut] = isToken0In ? [BigInt(reserve0), BigInt(reserve1)] : [BigInt(reserve1), BigInt(reserve0)];
-        if (reserveIn === 0n || reserveOut === 0n) return 0n;
+        if (reserveIn === 0n || reserveOut === 0n) return { amount: 0n, initializedTicksCrossed: 0, stateAfter: poolState };
 
         const numerator = amountInWithFee * reserveOut;
         const denominator = reserveIn + amountInWithFee;
-        return numerator / denominator;
+        const amountOut = numerator / denominator;
+        return { amount: amountOut, initializedTicksCrossed: 0, stateAfter: withV2Swap(poolState, isToken0In, amountIn, amountOut) };
 
     } else if (poolState.type === 'v3') {
-        const { sqrtPriceX96, liquidity } = poolState.data;
-        const L = BigInt(liquidity);
-        if (L === 0n) return 0n;
+        const result = await this.simulateV3(poolState, isToken0In, amountIn, chainId);
+        return result
+          ? { amount: result.amountOut, initializedTicksCrossed: result.initializedTicksCrossed, stateAfter: withV3Swap(poolState, result) }
+          : null;
+    }
+    return null;
+  }
 
-        const P = BigInt(sqrtPriceX96);
-        // Calculate virtual reserves based on liquidity and current price
-        // y = L * sqrt(P)
-        // x = L / sqrt(P)
-        // Note: These are not real reserves, but virtual ones used for the constant product formula.
-        const reserveY = (L * P) / (2n ** 96n);
-        const reserveX = (L * (2n ** 96n)) / P;
+  /**
+   * Reverse of getAmountOut: input needed for exactly `amountOut` of the other token.
+   * @returns The required input, or null if the pool cannot deliver amountOut.
+   */
+  private async getAmountIn(poolState: PoolState, tokenIn: string, amountOut: bigint, chainId: number): Promise<HopSimulation | null> {
+    const isToken0In = tokenIn.toLowerCase() === poolState.token0.toLowerCase();
 
-        const [reserveIn, reserveOut] = isToken0In ? [reserveX, reserveY] : [reserveY, reserveX];
+    if (poolState.type === 'v2') {
+        const fee = BigInt(poolState.data.fee);
+        const { reserve0, reserve1 } = poolState.data;
+        const [reserveIn, reserveOut] = isToken0In ? [BigInt(reserve0), BigInt(reserve1)] : [BigInt(reserve1), BigInt(reserve0)];
+        if (reserveIn === 0n || amountOut >= reserveOut) return null;
 
-        if (reserveIn === 0n || reserveOut === 0n) return 0n;
+        // UniswapV2Library.getAmountIn, rounded up
+        const numerator = reserveIn * amountOut * BigInt(1000000);
+        const denominator = (reserveOut - amountOut) * (BigInt(1000000) - fee);
+        const amountIn = numerator / denominator + 1n;
+        return { amount: amountIn, initializedTicksCrossed: 0, stateAfter: withV2Swap(poolState, isToken0In, amountIn, amountOut) };
 
-        const numerator = amountInWithFee * reserveOut;
-        const denominator = reserveIn + amountInWithFee;
-        return numerator / denominator;
+    } else if (poolState.type === 'v3') {
+        // Negative amountSpecified = exact output, as in UniswapV3Pool.swap()
+        const result = await this.simulateV3(poolState, isToken0In, -amountOut, chainId);
+        if (!result) return null;
+        if (result.amountOut < amountOut) {
+            console.warn(`[SIMULATOR] Pool ${poolState.address.slice(0, 6)}... cannot deliver the requested output`);
+            return null;
+        }
+        return { amount: result.amountIn, initializedTicksCrossed: result.initializedTicksCrossed, stateAfter: withV3Swap(poolState, result) };
     }
     return null;
   }
+
+  /**
+   * Walks initialized ticks exactly as UniswapV3Pool.swap() does (fee is applied per step),
+   * widening the loaded tick window when the swap runs past it.
+   * @param amountSpecified - Positive for exact input, negative for exact output
+   */
+  private async simulateV3(poolState: PoolState, zeroForOne: boolean, amountSpecified: bigint, chainId: number): Promise<V3SwapResult | null> {
+    let result = simulateV3Swap(poolState.data.tickData, zeroForOne, amountSpecified);
+
+    // The swap crossed past the loaded bitmap words: widen the window and re-simulate
+    while (result.windowExhausted && poolState.data.wordRadius < MAX_V3_TICK_WORD_RADIUS) {
+        const wordRadius = Math.min(poolState.data.wordRadius * 2, MAX_V3_TICK_WORD_RADIUS);
+        console.log(`[SIMULATOR] Pool ${poolState.address.slice(0, 6)}... swap left the tick window, widening to ±${wordRadius} words`);
+        const fetched: V3TickData = await this.ethersAdapter.fetchV3TickData(poolState.address, chainId, wordRadius);
+        // A split-simulation state keeps its moved price; only the tick window grows. The fee
+        // stays as loaded, which may be a dynamic-fee override of the pool's fee()
+        const current: V3TickData = poolState.data.tickData;
+        const tickData: V3TickData = poolState.simulated
+          ? { ...fetched, sqrtPriceX96: current.sqrtPriceX96, tick: current.tick, liquidity: current.liquidity, fee: current.fee }
+          : { ...fetched, fee: current.fee };
+        poolState.data = { tickData, wordRadius };
+        result = simulateV3Swap(tickData, zeroForOne, amountSpecified);
+    }
+
+    if (result.windowExhausted) {
+        console.warn(`[SIMULATOR] Pool ${poolState.address.slice(0, 6)}... swap exceeds ±${MAX_V3_TICK_WORD_RADIUS} tick words, cannot quote`);
+        return null;
+    }
+    return result;
+  }
+}
+
+/**
+ * V2 pool state after a swap: the full input (fee included) stays in the pool.
+ */
+function withV2Swap(poolState: PoolState, isToken0In: boolean, amountIn: bigint, amountOut: bigint): PoolState {
+  const reserve0 = BigInt(poolState.data.reserve0);
+  const reserve1 = BigInt(poolState.data.reserve1);
+  return {
+    ...poolState,
+    simulated: true,
+    data: isToken0In
+      ? { ...poolState.data, reserve0: reserve0 + amountIn, reserve1: reserve1 - amountOut }
+      : { ...poolState.data, reserve0: reserve0 - amountOut, reserve1: reserve1 + amountIn },
+  };
+}
+
+/**
+ * V3 pool state after a swap: same tick window, moved price and active liquidity.
+ */
+function withV3Swap(poolState: PoolState, result: V3SwapResult): PoolState {
+  return {
+    ...poolState,
+    simulated: true,
+    data: {
+      ...poolState.data,
+      tickData: {
+        ...poolState.data.tickData,
+        sqrtPriceX96: result.sqrtPriceX96After,
+        tick: result.tickAfter,
+        liquidity: result.liquidityAfter,
+      },
+    },
+  };
+}
+
+/**
+ * Uniswap pools order their tokens by address: token0 < token1.
+ */
+function sortTokens(tokenA: string, tokenB: string): [string, string] {
+  return tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
 }
@@ -0,0 +1,414 @@
+/**
+ * V3SwapMath - Uniswap V3 Swap Math (TickMath / SqrtPriceMath / SwapMath / TickBitmap)
+ *
+ * RESPONSIBILITY:
+ * - Port of the Uniswap v3-core libraries to bigint, rounding-for-rounding
+ * - Simulate UniswapV3Pool.swap() against a window of tick data
+ * - Walk initialized ticks word by word, applying liquidityNet at each crossing
+ *
+ * ARCHITECTURE:
+ * - Pure functions, no RPC. Tick data is fetched by EthersAdapter.fetchV3TickData()
+ * - The bitmap window is finite: if a swap walks past the loaded words, the result
+ *   is flagged `windowExhausted` and the caller widens the window and re-simulates
+ * - Stepping matches the on-chain loop (one bitmap word per step) so results
+ *   equal QuoterV2 output to the wei when the window covers the swap
+ */
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+const Q96 = 1n << 96n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+const MAX_UINT160 = (1n << 160n) - 1n;
+const FEE_DENOMINATOR = 1_000_000n;
+
+/**
+ * Tick data window for a single V3 pool, as read on-chain at one block.
+ */
+export interface V3TickData {
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  fee: number; // In pips (1e-6), e.g. 3000 = 0.3%
+  tickSpacing: number;
+  bitmap: Map<number, bigint>; // wordPos -> tickBitmap word
+  liquidityNet: Map<number, bigint>; // initialized tick -> liquidityNet
+  minWord: number; // Lowest bitmap word loaded (inclusive)
+  maxWord: number; // Highest bitmap word loaded (inclusive)
+  blockNumber: number;
+}
+
+/**
+ * Result of a simulated V3 swap.
+ */
+export interface V3SwapResult {
+  amountIn: bigint; // Input consumed, fee included
+  amountOut: bigint;
+  sqrtPriceX96After: bigint;
+  tickAfter: number;
+  liquidityAfter: bigint;
+  initializedTicksCrossed: number;
+  windowExhausted: boolean; // Swap reached the edge of the loaded bitmap window
+}
+
+// ------------------
+// FullMath
+// ------------------
+
+function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  return (a * b) / denominator;
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  const result = product / denominator;
+  return product % denominator > 0n ? result + 1n : result;
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  const result = a / b;
+  return a % b > 0n ? result + 1n : result;
+}
+
+// ------------------
+// TickMath
+// ------------------
+
+/**
+ * sqrt(1.0001^tick) * 2^96, exactly as TickMath.getSqrtRatioAtTick computes it.
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} out of range`);
+  }
+  const absTick = BigInt(Math.abs(tick));
+
+  let ratio = (absTick & 0x1n) !== 0n ? 0xfffcb933bd6fad37aa2d162d1a594001n : 0x100000000000000000000000000000000n;
+  if ((absTick & 0x2n) !== 0n) ratio = (ratio * 0xfff97272373d413259a46990580e213an) >> 128n;
+  if ((absTick & 0x4n) !== 0n) ratio = (ratio * 0xfff2e50f5f656932ef12357cf3c7fdccn) >> 128n;
+  if ((absTick & 0x8n) !== 0n) ratio = (ratio * 0xffe5caca7e10e4e61c3624eaa0941cd0n) >> 128n;
+  if ((absTick & 0x10n) !== 0n) ratio = (ratio * 0xffcb9843d60f6159c9db58835c926644n) >> 128n;
+  if ((absTick & 0x20n) !== 0n) ratio = (ratio * 0xff973b41fa98c081472e6896dfb254c0n) >> 128n;
+  if ((absTick & 0x40n) !== 0n) ratio = (ratio * 0xff2ea16466c96a3843ec78b326b52861n) >> 128n;
+  if ((absTick & 0x80n) !== 0n) ratio = (ratio * 0xfe5dee046a99a2a811c461f1969c3053n) >> 128n;
+  if ((absTick & 0x100n) !== 0n) ratio = (ratio * 0xfcbe86c7900a88aedcffc83b479aa3a4n) >> 128n;
+  if ((absTick & 0x200n) !== 0n) ratio = (ratio * 0xf987a7253ac413176f2b074cf7815e54n) >> 128n;
+  if ((absTick & 0x400n) !== 0n) ratio = (ratio * 0xf3392b0822b70005940c7a398e4b70f3n) >> 128n;
+  if ((absTick & 0x800n) !== 0n) ratio = (ratio * 0xe7159475a2c29b7443b29c7fa6e889d9n) >> 128n;
+  if ((absTick & 0x1000n) !== 0n) ratio = (ratio * 0xd097f3bdfd2022b8845ad8f792aa5825n) >> 128n;
+  if ((absTick & 0x2000n) !== 0n) ratio = (ratio * 0xa9f746462d870fdf8a65dc1f90e061e5n) >> 128n;
+  if ((absTick & 0x4000n) !== 0n) ratio = (ratio * 0x70d869a156d2a1b890bb3df62baf32f7n) >> 128n;
+  if ((absTick & 0x8000n) !== 0n) ratio = (ratio * 0x31be135f97d08fd981231505542fcfa6n) >> 128n;
+  if ((absTick & 0x10000n) !== 0n) ratio = (ratio * 0x9aa508b5b7a84e1c677de54f3e99bc9n) >> 128n;
+  if ((absTick & 0x20000n) !== 0n) ratio = (ratio * 0x5d6af8dedb81196699c329225ee604n) >> 128n;
+  if ((absTick & 0x40000n) !== 0n) ratio = (ratio * 0x2216e584f5fa1ea926041bedfe98n) >> 128n;
+  if ((absTick & 0x80000n) !== 0n) ratio = (ratio * 0x48a170391f7dc42444e8fa2n) >> 128n;
+
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  // Round up so that getTickAtSqrtRatio of the output price is always consistent
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/**
+ * Greatest tick such that getSqrtRatioAtTick(tick) <= sqrtPriceX96.
+ */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error(`sqrtPriceX96 ${sqrtPriceX96} out of range`);
+  }
+  let low = MIN_TICK;
+  let high = MAX_TICK;
+  while (low < high) {
+    const mid = Math.floor((low + high + 1) / 2);
+    if (getSqrtRatioAtTick(mid) <= sqrtPriceX96) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+// ------------------
+// SqrtPriceMath
+// ------------------
+
+function getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96: bigint, liquidity: bigint, amount: bigint, add: boolean): bigint {
+  if (amount === 0n) return sqrtPX96;
+  const numerator1 = liquidity << 96n;
+  const product = amount * sqrtPX96;
+
+  if (add) {
+    // Mirror the on-chain overflow fallback so rounding matches for very large inputs
+    if (product <= MAX_UINT256 && numerator1 + product <= MAX_UINT256) {
+      return mulDivRoundingUp(numerator1, sqrtPX96, numerator1 + product);
+    }
+    return divRoundingUp(numerator1, numerator1 / sqrtPX96 + amount);
+  }
+
+  if (product > MAX_UINT256 || numerator1 <= product) {
+    throw new Error('Insufficient token0 liquidity for requested output');
+  }
+  return mulDivRoundingUp(numerator1, sqrtPX96, numerator1 - product);
+}
+
+function getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96: bigint, liquidity: bigint, amount: bigint, add: boolean): bigint {
+  if (add) {
+    const quotient = amount <= MAX_UINT160 ? (amount << 96n) / liquidity : mulDiv(amount, Q96, liquidity);
+    return sqrtPX96 + quotient;
+  }
+
+  const quotient = amount <= MAX_UINT160 ? divRoundingUp(amount << 96n, liquidity) : mulDivRoundingUp(amount, Q96, liquidity);
+  if (sqrtPX96 <= quotient) {
+    throw new Error('Insufficient token1 liquidity for requested output');
+  }
+  return sqrtPX96 - quotient;
+}
+
+function getNextSqrtPriceFromInput(sqrtPX96: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountIn, true)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountIn, true);
+}
+
+function getNextSqrtPriceFromOutput(sqrtPX96: bigint, liquidity: bigint, amountOut: bigint, zeroForOne: boolean): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountOut, false)
+    : getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountOut, false);
+}
+
+export function getAmount0Delta(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+  const numerator1 = liquidity << 96n;
+  const numerator2 = sqrtRatioBX96 - sqrtRatioAX96;
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, sqrtRatioBX96), sqrtRatioAX96)
+    : mulDiv(numerator1, numerator2, sqrtRatioBX96) / sqrtRatioAX96;
+}
+
+export function getAmount1Delta(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+  return roundUp
+    ? mulDivRoundingUp(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96)
+    : mulDiv(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96);
+}
+
+// ------------------
+// SwapMath
+// ------------------
+
+/**
+ * One swap step within a single tick range.
+ * amountRemaining > 0 means exact input, < 0 means exact output.
+ */
+export function computeSwapStep(
+  sqrtRatioCurrentX96: bigint,
+  sqrtRatioTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: bigint
+): { sqrtRatioNextX96: bigint; amountIn: bigint; amountOut: bigint; feeAmount: bigint } {
+  const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+  const exactIn = amountRemaining >= 0n;
+
+  let sqrtRatioNextX96: bigint;
+  let amountIn = 0n;
+  let amountOut = 0n;
+
+  if (exactIn) {
+    const amountRemainingLessFee = mulDiv(amountRemaining, FEE_DENOMINATOR - feePips, FEE_DENOMINATOR);
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+      : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true);
+    sqrtRatioNextX96 = amountRemainingLessFee >= amountIn
+      ? sqrtRatioTargetX96
+      : getNextSqrtPriceFromInput(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, zeroForOne);
+  } else {
+    amountOut = zeroForOne
+      ? getAmount1Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, false)
+      : getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, false);
+    sqrtRatioNextX96 = -amountRemaining >= amountOut
+      ? sqrtRatioTargetX96
+      : getNextSqrtPriceFromOutput(sqrtRatioCurrentX96, liquidity, -amountRemaining, zeroForOne);
+  }
+
+  const max = sqrtRatioTargetX96 === sqrtRatioNextX96;
+
+  if (zeroForOne) {
+    amountIn = max && exactIn ? amountIn : getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true);
+    amountOut = max && !exactIn ? amountOut : getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false);
+  } else {
+    amountIn = max && exactIn ? amountIn : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true);
+    amountOut = max && !exactIn ? amountOut : getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false);
+  }
+
+  // Cap the output amount to not exceed the remaining output amount
+  if (!exactIn && amountOut > -amountRemaining) {
+    amountOut = -amountRemaining;
+  }
+
+  const feeAmount = exactIn && sqrtRatioNextX96 !== sqrtRatioTargetX96
+    // We didn't reach the target, so take the remainder of the maximum input as fee
+    ? amountRemaining - amountIn
+    : mulDivRoundingUp(amountIn, feePips, FEE_DENOMINATOR - feePips);
+
+  return { sqrtRatioNextX96, amountIn, amountOut, feeAmount };
+}
+
+// ------------------
+// TickBitmap
+// ------------------
+
+function mostSignificantBit(x: bigint): number {
+  return x.toString(2).length - 1;
+}
+
+function leastSignificantBit(x: bigint): number {
+  let bit = 0;
+  while ((x & 1n) === 0n) {
+    x >>= 1n;
+    bit++;
+  }
+  return bit;
+}
+
+/**
+ * TickBitmap.nextInitializedTickWithinOneWord over the loaded window.
+ * Returns null if the word to search is outside the window.
+ */
+function nextInitializedTickWithinOneWord(
+  data: V3TickData,
+  tick: number,
+  lte: boolean
+): { tickNext: number; initialized: boolean } | null {
+  const spacing = data.tickSpacing;
+  let compressed = Math.trunc(tick / spacing);
+  if (tick < 0 && tick % spacing !== 0) compressed--; // round towards negative infinity
+
+  if (lte) {
+    const wordPos = compressed >> 8;
+    const bitPos = compressed & 0xff;
+    if (wordPos < data.minWord || wordPos > data.maxWord) return null;
+    const mask = (1n << BigInt(bitPos)) - 1n + (1n << BigInt(bitPos));
+    const masked = (data.bitmap.get(wordPos) ?? 0n) & mask;
+    const initialized = masked !== 0n;
+    const tickNext = initialized
+      ? (compressed - (bitPos - mostSignificantBit(masked))) * spacing
+      : (compressed - bitPos) * spacing;
+    return { tickNext, initialized };
+  }
+
+  const wordPos = (compressed + 1) >> 8;
+  const bitPos = (compressed + 1) & 0xff;
+  if (wordPos < data.minWord || wordPos > data.maxWord) return null;
+  const mask = ~((1n << BigInt(bitPos)) - 1n) & MAX_UINT256;
+  const masked = (data.bitmap.get(wordPos) ?? 0n) & mask;
+  const initialized = masked !== 0n;
+  const tickNext = initialized
+    ? (compressed + 1 + (leastSignificantBit(masked) - bitPos)) * spacing
+    : (compressed + 1 + (255 - bitPos)) * spacing;
+  return { tickNext, initialized };
+}
+
+/**
+ * Initialized ticks encoded in a bitmap word.
+ */
+export function ticksInWord(wordPos: number, word: bigint, tickSpacing: number): number[] {
+  const ticks: number[] = [];
+  for (let bit = 0; bit < 256; bit++) {
+    if ((word >> BigInt(bit)) & 1n) {
+      ticks.push((wordPos * 256 + bit) * tickSpacing);
+    }
+  }
+  return ticks;
+}
+
+/**
+ * Bitmap word holding the current tick.
+ */
+export function wordForTick(tick: number, tickSpacing: number): number {
+  let compressed = Math.trunc(tick / tickSpacing);
+  if (tick < 0 && tick % tickSpacing !== 0) compressed--;
+  return compressed >> 8;
+}
+
+// ------------------
+// Pool swap loop
+// ------------------
+
+/**
+ * Simulates UniswapV3Pool.swap() with no price limit (as QuoterV2 does with sqrtPriceLimitX96 = 0).
+ *
+ * @param data Tick data window for the pool
+ * @param zeroForOne True when swapping token0 for token1
+ * @param amountSpecified Positive for exact input, negative for exact output
+ */
+export function simulateV3Swap(data: V3TickData, zeroForOne: boolean, amountSpecified: bigint): V3SwapResult {
+  const exactInput = amountSpecified > 0n;
+  const feePips = BigInt(data.fee);
+  const sqrtPriceLimitX96 = zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n;
+
+  let amountSpecifiedRemaining = amountSpecified;
+  let amountCalculated = 0n;
+  let sqrtPriceX96 = data.sqrtPriceX96;
+  let tick = data.tick;
+  let liquidity = data.liquidity;
+  let initializedTicksCrossed = 0;
+  let windowExhausted = false;
+
+  while (amountSpecifiedRemaining !== 0n && sqrtPriceX96 !== sqrtPriceLimitX96) {
+    const sqrtPriceStartX96 = sqrtPriceX96;
+
+    const next = nextInitializedTickWithinOneWord(data, tick, zeroForOne);
+    if (!next) {
+      windowExhausted = true;
+      break;
+    }
+    const tickNext = Math.min(MAX_TICK, Math.max(MIN_TICK, next.tickNext));
+    const sqrtPriceNextX96 = getSqrtRatioAtTick(tickNext);
+
+    const sqrtRatioTargetX96 = (zeroForOne ? sqrtPriceNextX96 < sqrtPriceLimitX96 : sqrtPriceNextX96 > sqrtPriceLimitX96)
+      ? sqrtPriceLimitX96
+      : sqrtPriceNextX96;
+
+    const step = computeSwapStep(sqrtPriceX96, sqrtRatioTargetX96, liquidity, amountSpecifiedRemaining, feePips);
+    sqrtPriceX96 = step.sqrtRatioNextX96;
+
+    if (exactInput) {
+      amountSpecifiedRemaining -= step.amountIn + step.feeAmount;
+      amountCalculated -= step.amountOut;
+    } else {
+      amountSpecifiedRemaining += step.amountOut;
+      amountCalculated += step.amountIn + step.feeAmount;
+    }
+
+    if (sqrtPriceX96 === sqrtPriceNextX96) {
+      // Crossed to the next tick: apply its net liquidity change
+      if (next.initialized) {
+        let liquidityNet = data.liquidityNet.get(tickNext) ?? 0n;
+        if (zeroForOne) liquidityNet = -liquidityNet;
+        liquidity += liquidityNet;
+        initializedTicksCrossed++;
+      }
+      tick = zeroForOne ? tickNext - 1 : tickNext;
+    } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+      tick = getTickAtSqrtRatio(sqrtPriceX96);
+    }
+  }
+
+  const amountIn = exactInput ? amountSpecified - amountSpecifiedRemaining : amountCalculated;
+  const amountOut = exactInput ? -amountCalculated : -amountSpecified + amountSpecifiedRemaining;
+
+  return {
+    amountIn,
+    amountOut,
+    sqrtPriceX96After: sqrtPriceX96,
+    tickAfter: tick,
+    liquidityAfter: liquidity,
+    initializedTicksCrossed,
+    windowExhausted,
+  };
+}
@@ -0,0 +1,345 @@
+/**
+ * VolumeIndexer - Rolling 24h swap volume from on-chain Swap logs
+ *
+ * RESPONSIBILITY:
+ * - Scan V2/V3 Swap logs of every registry pool (broken pools excluded) over a rolling
+ *   24h block window (see VolumeIndexerConfig)
+ * - Convert each swap to USD at the price of its block and sum it per pool, in block buckets
+ * - Serve 24h volume per token (sum of the pools holding it) and for sets of tokens
+ *
+ * PRICING A SWAP:
+ * - One side of the swap is valued, preferring a USD stablecoin side, then a side with a
+ *   recorded price at or before the swap's block (PriceHistoryService), then a side with a
+ *   current spot price (SpotPricingEngine)
+ * - Swaps with neither side priceable are not counted
+ *
+ * CHECKPOINTING:
+ * - Progress (last indexed block and per-pool buckets) is saved via StorageService after
+ *   every scanned range, and resumed from on restart
+ * - After downtime the indexer catches up range by range; anything older than the window is skipped
+ * - Pools added to the registry after the window started are backfilled before the head advances
+ */
+
+import { storageService, StorageService } from './StorageService';
+import { priceHistoryService } from './PriceHistoryService';
+import { spotPricingEngine } from './SpotPricingEngine';
+import { decodeSwapLogs, PoolSwap, SWAP_EVENT_TOPICS } from './SwapEventDecoder';
+import { EthersAdapter } from '../../infrastructure/adapters/EthersAdapter';
+import { networkConfig } from '../../infrastructure/config/NetworkConfig';
+import { volumeIndexerConfig } from '../../infrastructure/config/VolumeIndexerConfig';
+import type { PoolVolumeEntry, VolumeIndexCheckpoint } from '../../domain/types';
+
+/**
+ * 24h volume of a token
+ */
+export interface TokenVolume24h {
+  volumeUSD: number;
+  pools: number; // Indexed pools holding the token
+  fromBlock: number; // First block of the window
+  toBlock: number; // Last indexed block
+  complete: boolean; // False while catching up: the window is only partly indexed
+}
+
+/**
+ * Per-range pricing context: token prices by block are looked up once per (token, block)
+ */
+interface PricingContext {
+  decimals: Map<string, number>;
+  stablecoins: Set<string>;
+  prices: Map<string, number | null>; // `${token}:${block}` or `${token}:spot` -> USD price
+}
+
+export class VolumeIndexer {
+  private checkpoints: Map<number, VolumeIndexCheckpoint> = new Map();
+  private timers: Map<number, NodeJS.Timeout> = new Map();
+  private logRanges: Map<number, number> = new Map(); // chainId -> current scan range (blocks)
+  private heads: Map<number, number> = new Map(); // chainId -> head seen by the last pass
+
+  constructor(
+    private storageService: StorageService,
+    private ethersAdapter: EthersAdapter
+  ) {}
+
+  /**
+   * Start indexing a chain (no-op if already running)
+   */
+  public start(chainId: number): void {
+    if (this.timers.has(chainId)) return;
+
+    const poll = () => {
+      this.indexChain(chainId)
+        .catch(error => console.error(`❌ [VOLUME] Indexing failed on chain ${chainId}:`, error?.message ?? error))
+        .finally(() => {
+          if (this.timers.has(chainId)) this.timers.set(chainId, setTimeout(poll, volumeIndexerConfig.POLL_INTERVAL_MS));
+        });
+    };
+    this.timers.set(chainId, setTimeout(poll, 0));
+    console.log(`📈 [VOLUME] Indexing swap volume on chain ${chainId} (every ${volumeIndexerConfig.POLL_INTERVAL_MS / 1000}s)`);
+  }
+
+  /**
+   * Stop indexing every chain
+   */
+  public stop(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  /**
+   * 24h volume of a token across the indexed pools holding it.
+   *
+   * @param chainId Network chain ID
+   * @param tokenAddress Token contract address
+   * @returns Volume, or null until the chain has been indexed up to a head
+   */
+  public getTokenVolume24h(chainId: number, tokenAddress: string): TokenVolume24h | null {
+    return this.getTotalVolume24h(chainId, [tokenAddress]);
+  }
+
+  /**
+   * 24h volume of the pools holding any of the given tokens, each pool counted once.
+   *
+   * @param chainId Network chain ID
+   * @param tokenAddresses Token contract addresses
+   * @returns Volume, or null until the chain has been indexed up to a head
+   */
+  public getTotalVolume24h(chainId: number, tokenAddresses: string[]): TokenVolume24h | null {
+    const checkpoint = this.checkpoints.get(chainId);
+    if (!checkpoint || checkpoint.lastBlock === 0) return null;
+
+    const tokens = new Set(tokenAddresses.map(address => address.toLowerCase()));
+    const windowStart = checkpoint.lastBlock - this.windowBlocks(chainId) + 1;
+    let volumeUSD = 0;
+    let pools = 0;
+
+    for (const entry of Object.values(checkpoint.pools)) {
+      if (!tokens.has(entry.token0) && !tokens.has(entry.token1)) continue;
+      pools++;
+      for (const [bucketStart, bucketVolume] of entry.buckets) {
+        if (bucketStart + this.bucketBlocks(chainId) > windowStart) volumeUSD += bucketVolume;
+      }
+    }
+
+    const complete = checkpoint.lastBlock >= (this.heads.get(chainId) ?? Infinity);
+    return { volumeUSD, pools, fromBlock: windowStart, toBlock: checkpoint.lastBlock, complete };
+  }
+
+  public getStats() {
+    const chains: Record<number, { lastBlock: number; pools: number; scanRange: number }> = {};
+    for (const [chainId, checkpoint] of this.checkpoints) {
+      chains[chainId] = {
+        lastBlock: checkpoint.lastBlock,
+        pools: Object.keys(checkpoint.pools).length,
+        scanRange: this.scanRange(chainId),
+      };
+    }
+    return { chains };
+  }
+
+  /**
+   * One indexing pass: sync the pool set with the registry, backfill new pools, then advance to the head
+   */
+  private async indexChain(chainId: number): Promise<void> {
+    const checkpoint = await this.loadCheckpoint(chainId);
+    const registry = await this.storageService.getPoolRegistry(chainId);
+    const head = await this.ethersAdapter.getBlockNumber(chainId);
+    const windowStart = head - this.windowBlocks(chainId) + 1;
+    this.heads.set(chainId, head);
+
+    // Never indexed, or down for longer than the window: nothing in the checkpoint is still in range
+    if (checkpoint.lastBlock < windowStart - 1) {
+      if (checkpoint.lastBlock > 0) {
+        console.warn(`⚠️ [VOLUME] Chain ${chainId} checkpoint at block ${checkpoint.lastBlock} is outside the window; restarting at ${windowStart}`);
+      }
+      checkpoint.lastBlock = windowStart - 1;
+      checkpoint.pools = {};
+    }
+
+    // Sync the indexed pool set with the registry
+    const tracked = Object.entries(registry.pools).filter(([, pool]) => !pool.broken);
+    const trackedAddresses = new Set(tracked.map(([address]) => address.toLowerCase()));
+    for (const address of Object.keys(checkpoint.pools)) {
+      if (!trackedAddresses.has(address)) delete checkpoint.pools[address];
+    }
+    const newPools: Record<string, PoolVolumeEntry> = {};
+    for (const [address, pool] of tracked) {
+      const key = address.toLowerCase();
+      if (checkpoint.pools[key]) continue;
+      newPools[key] = { token0: pool.token0.toLowerCase(), token1: pool.token1.toLowerCase(), since: windowStart, buckets: [] };
+    }
+    if (trackedAddresses.size === 0) return;
+
+    // New pools: backfill the part of the window the others have already covered. They only join
+    // the checkpoint once complete, so an interrupted backfill starts over on the next pass
+    const newCount = Object.keys(newPools).length;
+    if (newCount > 0 && checkpoint.lastBlock >= windowStart) {
+      console.log(`📈 [VOLUME] Chain ${chainId}: backfilling ${newCount} new pool(s) over blocks ${windowStart}-${checkpoint.lastBlock}`);
+      const complete = await this.scan(chainId, newPools, windowStart, checkpoint.lastBlock, async () => {});
+      if (!complete) return;
+    }
+    Object.assign(checkpoint.pools, newPools);
+
+    // Advance every pool to the head
+    if (head > checkpoint.lastBlock) {
+      const from = checkpoint.lastBlock + 1;
+      if (head - from > this.scanRange(chainId)) {
+        console.log(`📈 [VOLUME] Chain ${chainId}: catching up ${head - from + 1} blocks (${from}-${head})`);
+      }
+      await this.scan(chainId, checkpoint.pools, from, head, toBlock => {
+        checkpoint.lastBlock = toBlock;
+        return this.saveCheckpoint(chainId);
+      });
+    }
+
+    this.pruneBuckets(chainId, checkpoint);
+    await this.saveCheckpoint(chainId);
+  }
+
+  /**
+   * Scan [fromBlock, toBlock] in ranges, adding each range's swaps to the pools' buckets.
+   * The range shrinks when the provider rejects it and is remembered for the next pass.
+   *
+   * @returns false if the indexer was stopped before toBlock
+   */
+  private async scan(
+    chainId: number,
+    pools: Record<string, PoolVolumeEntry>,
+    fromBlock: number,
+    toBlock: number,
+    onRangeDone: (toBlock: number) => Promise<void>
+  ): Promise<boolean> {
+    const poolAddresses = Object.keys(pools);
+    let start = fromBlock;
+
+    while (start <= toBlock) {
+      if (!this.timers.has(chainId)) return false;
+
+      const range = this.scanRange(chainId);
+      const end = Math.min(toBlock, start + range - 1);
+      let swaps: PoolSwap[];
+      try {
+        swaps = decodeSwapLogs(await this.ethersAdapter.fetchPoolLogs(poolAddresses, start, end, chainId, SWAP_EVENT_TOPICS));
+      } catch (error) {
+        if (range <= volumeIndexerConfig.MIN_LOG_BLOCK_RANGE) throw error;
+        this.logRanges.set(chainId, Math.max(volumeIndexerConfig.MIN_LOG_BLOCK_RANGE, Math.floor(range / 2)));
+        continue;
+      }
+
+      const context = await this.createPricingContext(chainId);
+      for (const swap of swaps) {
+        const entry = pools[swap.poolAddress];
+        if (!entry) continue;
+        const volumeUSD = await this.valueSwap(chainId, entry.token0, entry.token1, swap, context);
+        if (volumeUSD !== null) this.addToBucket(chainId, entry.buckets, swap.blockNumber, volumeUSD);
+      }
+
+      await onRangeDone(end);
+      start = end + 1;
+    }
+    return true;
+  }
+
+  /**
+   * USD value of one side of a swap (see PRICING A SWAP)
+   */
+  private async valueSwap(
+    chainId: number,
+    token0: string,
+    token1: string,
+    swap: PoolSwap,
+    context: PricingContext
+  ): Promise<number | null> {
+    const sides = [
+      { token: token0, amount: swap.amount0 },
+      { token: token1, amount: swap.amount1 },
+    ].filter(side => context.decimals.has(side.token));
+    if (sides.length === 0) return null;
+
+    const toUnits = (side: { token: string; amount: bigint }) =>
+      Number(side.amount) / Math.pow(10, context.decimals.get(side.token)!);
+
+    const stable = sides.find(side => context.stablecoins.has(side.token));
+    if (stable) return toUnits(stable);
+
+    for (const side of sides) {
+      const price = await this.cachedPrice(context, `${side.token}:${swap.blockNumber}`,
+        () => priceHistoryService.getPriceAtBlock(chainId, side.token, swap.blockNumber));
+      if (price !== null) return toUnits(side) * price;
+    }
+    for (const side of sides) {
+      const price = await this.cachedPrice(context, `${side.token}:spot`,
+        () => spotPricingEngine.computeSpotPrice(side.token, chainId));
+      if (price !== null && price > 0) return toUnits(side) * price;
+    }
+    return null;
+  }
+
+  private async cachedPrice(context: PricingContext, key: string, lookup: () => Promise<number | null>): Promise<number | null> {
+    if (!context.prices.has(key)) {
+      context.prices.set(key, await lookup().catch(() => null));
+    }
+    return context.prices.get(key)!;
+  }
+
+  private async createPricingContext(chainId: number): Promise<PricingContext> {
+    const tokens = await this.storageService.getTokensByNetwork(chainId);
+    return {
+      decimals: new Map(tokens.map(token => [token.address.toLowerCase(), token.decimals])),
+      stablecoins: new Set(networkConfig.getStablecoins(chainId).map(token => token.address.toLowerCase())),
+      prices: new Map(),
+    };
+  }
+
+  private addToBucket(chainId: number, buckets: Array<[number, number]>, blockNumber: number, volumeUSD: number): void {
+    const size = this.bucketBlocks(chainId);
+    const bucketStart = Math.floor(blockNumber / size) * size;
+    const last = buckets[buckets.length - 1];
+    if (last && last[0] === bucketStart) {
+      last[1] += volumeUSD;
+      return;
+    }
+    // Backfilled swaps can land before the newest bucket: keep the buckets ordered
+    const index = buckets.findIndex(bucket => bucket[0] >= bucketStart);
+    if (index === -1) {
+      buckets.push([bucketStart, volumeUSD]);
+    } else if (buckets[index][0] === bucketStart) {
+      buckets[index][1] += volumeUSD;
+    } else {
+      buckets.splice(index, 0, [bucketStart, volumeUSD]);
+    }
+  }
+
+  private pruneBuckets(chainId: number, checkpoint: VolumeIndexCheckpoint): void {
+    const windowStart = checkpoint.lastBlock - this.windowBlocks(chainId) + 1;
+    const size = this.bucketBlocks(chainId);
+    for (const entry of Object.values(checkpoint.pools)) {
+      entry.buckets = entry.buckets.filter(([bucketStart]) => bucketStart + size > windowStart);
+    }
+  }
+
+  private async loadCheckpoint(chainId: number): Promise<VolumeIndexCheckpoint> {
+    if (!this.checkpoints.has(chainId)) {
+      this.checkpoints.set(chainId, await this.storageService.getVolumeIndex(chainId));
+    }
+    return this.checkpoints.get(chainId)!;
+  }
+
+  private async saveCheckpoint(chainId: number): Promise<void> {
+    const checkpoint = this.checkpoints.get(chainId);
+    if (checkpoint) await this.storageService.saveVolumeIndex(chainId, checkpoint);
+  }
+
+  private windowBlocks(chainId: number): number {
+    return volumeIndexerConfig.WINDOW_BLOCKS[chainId] ?? 7200;
+  }
+
+  private bucketBlocks(chainId: number): number {
+    return Math.ceil(this.windowBlocks(chainId) / volumeIndexerConfig.BUCKETS_PER_WINDOW);
+  }
+
+  private scanRange(chainId: number): number {
+    return this.logRanges.get(chainId) ?? volumeIndexerConfig.MAX_LOG_BLOCK_RANGE[chainId] ?? 1000;
+  }
+}
+
+export const volumeIndexer = new VolumeIndexer(storageService, new EthersAdapter());
@@ -8,6 +8,7 @@ export interface Token {
   logoURI?: string;
   chainId: number;
   logoFetchedAt?: number;
+  riskFlags?: string[]; // Contract risks flagged (not blocking) when promoted from quarantine
 }
 
 export interface PoolData {
@@ -7,10 +7,18 @@
  * - Timestamp for cache validation
  */
 
+import type { PoolLiquidityContribution, PoolPriceContribution } from './types';
+import type { PricingMode } from '../infrastructure/config/PricingConfig';
+
 /**
  * Source of data - for audit trail
  */
-export type DataSource = 'explorer-api' | 'rpc-call' | 'cached' | 'multicall' | 'alchemy-api' | 'insufficient-data';
+export type DataSource = 'explorer-api' | 'rpc-call' | 'cached' | 'multicall' | 'alchemy-api' | 'price-history' | 'swap-logs' | 'insufficient-data';
+
+/**
+ * Market data fields attributed individually in TokenMarketData.dataSources
+ */
+export type MarketDataField = 'price' | 'priceChange24h' | 'liquidity' | 'volume24h' | 'marketCap';
 
 /**
  * Complete market data for a single token
@@ -28,11 +36,16 @@ export interface TokenMarketData {
   priceChange24h?: number; // Percentage change
   priceHigh24h?: number;
   priceLow24h?: number;
+  priceConfidence?: number; // 0-1, from liquidity-weighted aggregation
+  pricingBreakdown?: PoolPriceContribution[]; // Per-pool contributions to the price
 
   // Market metrics
-  marketCap?: number; // Total USD value
-  fullyDilutedMarketCap?: number;
+  marketCap?: number; // Circulating supply × price
+  fullyDilutedMarketCap?: number; // Total supply × price
+  circulatingSupply?: number; // Whole tokens, excluding treasury/burn/escrow holders (TokenSupplyConfig)
+  totalSupply?: number; // Whole tokens
   liquidity?: number; // Total USD liquidity
+  liquidityBreakdown?: PoolLiquidityContribution[]; // Per-pool contributions to the liquidity
   volume24h?: number; // Trading volume in USD
   holders?: number; // Number of token holders
 
@@ -44,6 +57,7 @@ export interface TokenMarketData {
 
   // Data source and timing
   dataSource: DataSource;
+  dataSources?: Partial<Record<MarketDataField, DataSource>>; // Per-field attribution
   timestamp: number; // Unix timestamp when data was fetched
   cachedUntil?: number; // When this cache expires
 }
@@ -55,8 +69,8 @@ export interface MarketOverview {
   chainId: number;
   tokens: TokenMarketData[];
   timestamp: number;
-  totalLiquidity: number; // Sum of all liquidity
-  totalVolume24h: number; // Sum of all volume
+  totalLiquidity: number; // USD liquidity of the tokens' pools, each pool counted once
+  totalVolume24h: number; // 24h swap volume of the tokens' pools, each pool counted once
 }
 
 /**
@@ -98,5 +112,6 @@ export interface FetchMarketDataOptions {
   chainId?: number; // Optional - chainId passed separately in service method
   forceRefresh?: boolean; // Bypass cache
   preferDataSource?: DataSource; // Try this source first
+  pricingMode?: PricingMode; // Defaults to pricingConfig.DEFAULT_PRICING_MODE
   timeout?: number; // Maximum time to wait (ms)
 }
@@ -20,6 +20,27 @@
  */
 export type TradingRoute = string[];
 
+/**
+ * One hop of a route: a swap through a specific pool
+ */
+export interface RouteHop {
+  tokenIn: string;
+  tokenOut: string;
+  poolAddress: string;
+  dexType: 'v2' | 'v3';
+  feeTier?: number; // Pips (1e-6), from the pool registry
+  factory?: string; // Lowercase factory address, when known
+}
+
+/**
+ * A route through the token graph, pinned to the pools it swaps through
+ * tokens has one more entry than hops: tokens[i] → tokens[i + 1] via hops[i]
+ */
+export interface SwapRoute {
+  tokens: TradingRoute;
+  hops: RouteHop[];
+}
+
 /**
  * Quote for a single trading route
  */
@@ -31,13 +52,40 @@ export interface RouteQuote {
   executionPrice?: number; // Output tokens per input token
 }
 
+/**
+ * Which side of the trade is fixed
+ * - exactIn: amountIn is given, amountOut is quoted
+ * - exactOut: amountOut is given, the required amountIn is quoted
+ */
+export type TradeType = 'exactIn' | 'exactOut';
+
+/**
+ * How exposed a trade is to thin liquidity, classified from its price impact
+ */
+export type LiquidityRisk = 'high' | 'medium' | 'low';
+
+/**
+ * Execution quality of a quote (or of one leg of a split)
+ * Prices are decimal-adjusted: output tokens per input token
+ */
+export interface QuoteExecutionDetails {
+  midPrice: number; // Marginal price from the pool states, before fees and slippage
+  executionPrice: number; // Price actually received for this amount
+  priceImpact: number; // Percentage, including LP fees, e.g., 2.5
+  liquidityRisk: LiquidityRisk;
+  amountOutMinimum?: string; // exactIn: output after the slippage tolerance
+  amountInMaximum?: string; // exactOut: input ceiling under the slippage tolerance
+}
+
 /**
  * Single route in a multi-route distribution
  */
-export interface RouteAllocation {
+export interface RouteAllocation extends Partial<QuoteExecutionDetails> {
   route: TradingRoute;
+  pools?: string[]; // Pool address used for each hop
   amount: string; // Amount of input token for this route
   output: string; // Output amount for this specific route
+  estimatedGas?: number; // Gas units for this leg's hops (excludes the transaction base)
 }
 
 /**
@@ -55,16 +103,23 @@ export interface RouteAllocation {
  *   ]
  * }
  */
-export interface SwapQuote {
+export interface SwapQuote extends Partial<QuoteExecutionDetails> {
   tokenIn: string;
   tokenOut: string;
   amountIn: string;
+  tradeType?: TradeType;
+  amountInRequired?: string; // exactOut: input needed for amountOut
+  slippage?: number; // Tolerance used for amountOutMinimum / amountInMaximum (percentage)
   // Single route quote
   route?: TradingRoute;
+  pools?: string[]; // Pool address used for each hop
   amountOut?: string;
   // Multi-route distribution
   distribution?: RouteAllocation[];
   finalAmountOut?: string;
+  // Gas
+  estimatedGas?: number; // Gas units for the whole swap (every transaction it is built into)
+  gasCostUSD?: number;
   // Metadata
   timestamp: number;
   chainId: number;
@@ -76,11 +131,7 @@ export interface SwapQuote {
  */
 export interface TradeExecutionPlan {
   finalAmountOut: string;
-  distribution: {
-    route: TradingRoute;
-    amount: string;
-    output?: string;
-  }[];
+  distribution: RouteAllocation[];
 }
 
 /**
@@ -89,7 +140,9 @@ export interface TradeExecutionPlan {
 export interface QuoteRequest {
   tokenIn: string;
   tokenOut: string;
-  amountIn: string;
+  tradeType?: TradeType; // Default exactIn
+  amountIn?: string; // Required for exactIn
+  amountOut?: string; // Required for exactOut
   chainId: number;
   slippage?: number; // Percentage, default 0.5%
 }
@@ -120,6 +173,63 @@ export interface SwapExecutionParams {
   walletAddress: string;
 }
 
+/**
+ * Request to turn a quote into unsigned transactions
+ */
+export interface SwapBuildRequest {
+  quote: SwapQuote;
+  recipient: string; // Receives the output tokens
+  slippage?: number; // Percentage, default 0.5%
+  deadlineSeconds?: number; // From now, default 20 minutes
+  walletAddress?: string; // Sender; when set, current allowances are checked
+}
+
+/**
+ * A transaction ready for a wallet to sign (never signed or sent by the server)
+ */
+export interface UnsignedTransaction {
+  chainId: number;
+  to: string;
+  data: string;
+  value: string;
+}
+
+/**
+ * One swap transaction, executing one or more legs of the quote through a single router
+ */
+export interface SwapTransaction extends UnsignedTransaction {
+  router: 'swapRouter02' | 'v2Router';
+  legs: number[]; // Indexes into the quote's distribution (0 for a single route)
+  amountIn: string; // Input pulled by the router (maximum for exactOut)
+}
+
+/**
+ * Allowance the sender must grant a router before a swap transaction
+ */
+export interface ApprovalRequirement {
+  token: string;
+  spender: string;
+  amount: string;
+  currentAllowance?: string; // Only when walletAddress was given
+  required: boolean; // False only when currentAllowance already covers amount
+  transaction: UnsignedTransaction; // approve(spender, amount)
+}
+
+/**
+ * Unsigned transactions and approvals for a quote
+ * More than one swap transaction means legs go through different routers and
+ * do not execute atomically.
+ */
+export interface SwapBuildResult {
+  success: boolean;
+  transactions?: SwapTransaction[];
+  approvals?: ApprovalRequirement[];
+  atomic?: boolean;
+  deadline?: number; // Unix seconds
+  error?: string;
+  timestamp: number;
+}
+
 /**
  * Result of a swap execution
  */
@@ -161,12 +271,24 @@ export interface SwapStatus {
 export interface SwapConfig {
   // Maximum hops in a route
   maxRouteDepth: number;
+  // Number of shortest routes returned by the route search
+  maxRoutes: number;
+  // Query DEX factories for pairs the pool registry does not know
+  factoryFallback: boolean;
   // Default slippage tolerance (percentage)
   defaultSlippage: number;
   // Whether to attempt multi-route splits
   allowMultiRoute: boolean;
   // Minimum liquidity to consider a pool
   minPoolLiquidity: string;
+  // Price impact (percentage) at which a trade is classified medium / high liquidity risk
+  liquidityRiskThresholds: { medium: number; high: number };
+  // Split optimizer: curve samples per route, simulation budget per split, finest allocation step (bps of amount)
+  splitCurvePoints: number;
+  maxSplitSimulations: number;
+  splitResolutionBps: number;
+  // Seconds until a built swap transaction expires
+  defaultDeadlineSeconds: number;
 }
 
 /**
@@ -176,7 +298,7 @@ export interface RouteAnalysis {
   route: TradingRoute;
   hopCount: number;
   estimatedPriceImpact: number;
-  liquidityRisk: 'high' | 'medium' | 'low';
+  liquidityRisk: LiquidityRisk;
   slippagePrediction: number; // Expected slippage percentage
 }
 
@@ -193,9 +315,12 @@ export interface RouteAnalysisRequest {
  * Trade simulation result
  */
 export interface SimulationResult {
+  amountIn: bigint;
   amountOut: bigint;
   priceImpact: number;
   executionPrice: number;
+  midPrice: number;
+  hopTicksCrossed: number[]; // Initialized V3 ticks crossed per hop (0 for V2), drives gas estimates
 }
 
 /**
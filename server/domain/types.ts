@@ -39,8 +39,81 @@ export interface PoolMetadata {
   dexType: "v2" | "v3";
   token0: string;
   token1: string;
-  feeTier?: number; // Only for V3
+  feeTier?: number; // Pips (1e-6): V3 fee tier, or the factory's fixed fee for V2
+  factory?: string; // Lowercase factory address, recorded at discovery
   weight: number; // 1 for V2 (light), 2 for V3 (heavier)
+  broken?: { since: number; reason: string }; // Failed repeated refreshes: no longer scheduled or routed through
+}
+
+/**
+ * Which math produced a spot price.
+ * - v2-reserves: decimal-adjusted reserve1/reserve0 ratio
+ * - v3-sqrtPrice: (sqrtPriceX96 / 2^96)^2, decimal-adjusted
+ * - stablecoin-peg: USD stablecoin with no routes, pegged at 1.0
+ */
+export type PricingMath = "v2-reserves" | "v3-sqrtPrice" | "stablecoin-peg";
+
+/**
+ * Result of a spot price computation, with attribution of the pool and math used.
+ */
+export interface SpotPriceResult {
+  price: number; // In USD
+  poolAddress: string | null; // Pool the price was derived from (null for stablecoin-peg)
+  baseSymbol: string | null; // Base token the pool pairs against (null for stablecoin-peg)
+  pricingMath: PricingMath;
+}
+
+/**
+ * One pool's contribution to a liquidity-weighted price.
+ */
+export interface PoolPriceContribution {
+  poolAddress: string;
+  baseSymbol: string;
+  pricingMath: PricingMath;
+  price: number; // USD price implied by this pool
+  depthUSD: number; // USD value of both sides of the pool (virtual in-range amounts for V3)
+  weight: number; // Share of retained depth (0 for outliers)
+  outlier: boolean; // Deviated beyond the outlier band and was dropped
+}
+
+/**
+ * Liquidity-weighted price across every cached pricing pool of a token.
+ */
+export interface AggregatedPriceResult {
+  price: number; // In USD
+  confidence: number; // 0-1
+  totalDepthUSD: number; // Depth of retained (non-outlier) pools
+  pools: PoolPriceContribution[];
+}
+
+/**
+ * One pool's share of a token's USD liquidity.
+ */
+export interface PoolLiquidityContribution {
+  poolAddress: string;
+  baseSymbol: string;
+  amountMath: "v2-reserves" | "v3-virtual"; // V3: in-range amounts from liquidity and sqrtPriceX96
+  tokenAmount: number; // Whole tokens of the priced token held by the pool
+  baseAmount: number; // Whole tokens of the counter (base) token
+  tokenSideUSD: number;
+  baseSideUSD: number;
+  liquidityUSD: number; // tokenSideUSD + baseSideUSD
+}
+
+/**
+ * USD liquidity of a token across every cached pool in its pricing routes.
+ */
+export interface TokenLiquidityResult {
+  liquidityUSD: number;
+  pools: PoolLiquidityContribution[];
+}
+
+/**
+ * A token that prices another on its way to a base token (token → intermediate → … → base)
+ */
+export interface IntermediateToken {
+  symbol: string;
+  decimals: number;
 }
 
 /**
@@ -49,10 +122,70 @@ export interface PoolMetadata {
 export interface PoolRegistry {
   pools: Record<string, PoolMetadata>;
   pricingRoutes: Record<string, Record<string, string[]>>; // [tokenAddress][baseSymbol] = poolAddresses[]
+  intermediateRoutes?: Record<string, Record<string, string[]>>; // [tokenAddress][intermediateAddress] = poolAddresses[] (tokens without a base pair)
+  intermediateTokens?: Record<string, IntermediateToken>; // Intermediate address -> metadata (intermediates need not be listed)
   topologyTimestamp?: Record<string, number>; // Timestamp (ms) when token topology was last refreshed
+  filteredPools?: Record<string, string[]>; // [tokenAddress] = pools the liquidity filter cut at its last discovery
   refCount?: Record<string, number>; // Per-pool user count (poolAddress -> count)
 }
 
+/**
+ * Factory log discovery: a pool created by a tracked factory and paired with a base token
+ * [token0, token1, dexType, feeTier (pips, V3 only), factory, creation block]
+ */
+export type FactoryPoolEntry = [string, string, 'v2' | 'v3', number | null, string, number];
+
+/**
+ * Factory log discovery: scan cursors and the base-paired pools found so far
+ */
+export interface FactoryPoolIndex {
+  cursors: Record<string, number>; // Lowercase factory -> last scanned block
+  pools: Record<string, FactoryPoolEntry>; // Lowercase pool address -> entry
+}
+
+/**
+ * Topology journal: a token's pricing routes as the pricing engine resolves them
+ */
+export interface TokenTopology {
+  source: 'direct' | 'intermediate' | 'none'; // Base pairs, intermediate tokens, or no route
+  routes: Record<string, string[]>; // Base symbol (direct) or intermediate address -> pool addresses
+}
+
+export interface TopologyPoolChange {
+  poolAddress: string;
+  token0: string;
+  token1: string;
+  dexType: 'v2' | 'v3';
+}
+
+export interface TopologyDroppedPool {
+  poolAddress: string;
+  token: string; // Token whose discovery filtered the pool out
+  route: string; // Base symbol the pool pairs the token with
+  liquidityUSD: number; // As reported by the subgraph
+  reason: 'below-liquidity-threshold';
+}
+
+export interface TopologyRouteChange {
+  token: string;
+  before: TokenTopology;
+  after: TokenTopology;
+}
+
+export type TopologyTrigger = 'discovery' | 'factory-logs';
+
+/**
+ * Topology journal entry: what one registry update changed. Entries are appended, never rewritten.
+ */
+export interface TopologyChangeSet {
+  timestamp: number;
+  chainId: number;
+  trigger: TopologyTrigger; // A discovery run, or pools registered from factory logs
+  poolsAdded: TopologyPoolChange[];
+  poolsDropped: TopologyDroppedPool[];
+  routeChanges: TopologyRouteChange[];
+}
+
 /**
  * PHASE 7: Quarantine Entry
  */
@@ -62,6 +195,51 @@ export interface QuarantineEntry {
   discoveredAt: number; // Timestamp when token was discovered
   validationScheduled: boolean; // Whether validation has been queued
   promoted: boolean; // Whether token passed validation and was promoted to primary
+  validation?: QuarantineValidation; // Outcome of the latest validation run
+  risk?: TokenRiskReport; // Contract risk analysis of the latest validation run
+}
+
+/**
+ * PHASE 7: Contract risk analysis
+ */
+export type TokenRiskFlag =
+  | 'no-code' // No contract at the address
+  | 'proxy' // Delegates to an implementation (EIP-1967, beacon, EIP-1167 clone)
+  | 'upgradeable' // Exposes upgradeTo-style selectors
+  | 'mintable' // Privileged mint selectors, owner not renounced
+  | 'pausable' // Privileged pause selectors, owner not renounced
+  | 'blacklist' // Privileged blacklist/freeze selectors, owner not renounced
+  | 'nonstandard-decimals' // decimals() missing or not a uint8 word
+  | 'nonstandard-symbol' // symbol() missing or not an ABI string (e.g. bytes32)
+  | 'fee-on-transfer' // Recipient receives less than was sent
+  | 'transfer-reverts'; // A plain transfer from a holder fails
+
+export type TokenRiskAction = 'block' | 'flag';
+
+export interface TokenRiskFinding {
+  flag: TokenRiskFlag;
+  action: TokenRiskAction; // From the configured policy
+  detail: string;
+}
+
+export interface TokenRiskReport {
+  analyzedAt: number;
+  proxy: { kind: 'eip1967' | 'eip1967-beacon' | 'eip1167' | 'zos'; implementation: string | null } | null;
+  owner: string | null; // owner() result (zero address when renounced), null if the contract has none
+  transferFeeBps: number | null; // Simulated transfer fee, null when the transfer could not be simulated
+  findings: TokenRiskFinding[];
+  verdict: 'pass' | TokenRiskAction; // Most severe action among the findings
+}
+
+/**
+ * PHASE 7: Outcome of one validation run of a quarantined token
+ */
+export interface QuarantineValidation {
+  checkedAt: number;
+  liquidityUSD: number | null; // Measured across the token's pools (null if it could not be measured)
+  minLiquidityUSD: number; // Threshold applied
+  pools: number; // Pools read live and valued
+  reasons: string[]; // Why the token was not promoted (empty when promoted)
 }
 
 /**
@@ -70,3 +248,37 @@ export interface QuarantineEntry {
 export interface QuarantineRegistry {
   entries: Record<string, QuarantineEntry>;
 }
+
+/**
+ * Price History: one token's stored series (compact tuples, oldest first)
+ */
+export interface TokenPriceHistory {
+  raw: Array<[number, number, number]>; // [timestamp, price, blockNumber]
+  minute: Array<[number, number, number, number, number, number]>; // [bucketStart, open, high, low, close, lastBlock]
+  hour: Array<[number, number, number, number, number, number]>; // Same layout as minute
+}
+
+/**
+ * Price History: persisted store of one chain
+ */
+export interface PriceHistoryStore {
+  tokens: Record<string, TokenPriceHistory>; // Lowercase token address -> series
+}
+
+/**
+ * Volume Index: one pool's swap volume within the rolling window
+ */
+export interface PoolVolumeEntry {
+  token0: string; // Lowercase
+  token1: string; // Lowercase
+  since: number; // First block indexed for this pool
+  buckets: Array<[number, number]>; // [bucketStartBlock, volumeUSD], oldest first
+}
+
+/**
+ * Volume Index: persisted checkpoint of one chain
+ */
+export interface VolumeIndexCheckpoint {
+  lastBlock: number; // Last block indexed for every pool in `pools` (0 = never indexed)
+  pools: Record<string, PoolVolumeEntry>; // Lowercase pool address -> volume
+}
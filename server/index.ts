@@ -18,6 +18,12 @@ import http from 'http';
 import { priceViewerService } from './application/services/PriceViewerService.ts';
 import { sharedStateCache } from './application/services/SharedStateCache.ts';
 import { SwapController } from './application/services/SwapController.ts';
+import { createMarketViewerService } from './application/services/MarketViewerService.ts';
+import { PriceStreamService } from './application/services/PriceStreamService.ts';
+import { priceHistoryService } from './application/services/PriceHistoryService.ts';
+import { volumeIndexer } from './application/services/VolumeIndexer.ts';
+import { tokenSupplyService } from './application/services/TokenSupplyService.ts';
+import { factoryLogScanner } from './application/services/FactoryLogScanner.ts';
 import { providersConfig } from './infrastructure/config/ProvidersConfig';
 import { getRpcConfig } from './infrastructure/config/RpcConfig';
 import { explorerConfig } from './infrastructure/config/ExplorerConfig';
@@ -68,10 +74,10 @@ if (process.env.SKIP_DISCOVERY !== 'true') {
   console.log('⏭️  Pool discovery skipped (SKIP_DISCOVERY=true)');
 }
 
-const swapController = new SwapController();
+const swapController = new SwapController(ethersAdapter);
 
 // Initialize TokenDiscoveryManager for use by other services
-const tokenDiscoveryManager = new TokenDiscoveryManager(storageService);
+const tokenDiscoveryManager = new TokenDiscoveryManager(storageService, ethersAdapter);
 
 // PHASE 7: Initialize and start quarantine validator
 const quarantineValidator = new QuarantineValidator(storageService, ethersAdapter, tokenDiscoveryManager);
@@ -80,14 +86,37 @@ quarantineValidator.startValidationLoop(ChainId.ETHEREUM); // Ethereum
 quarantineValidator.startValidationLoop(ChainId.POLYGON); // Polygon
 
 // PHASE 8: Initialize and start garbage collection manager
-const gcManager = new GCManager(storageService);
+const gcManager = new GCManager(storageService, ethersAdapter);
 gcManager.startAllCleanupLoops();
 
-// Graceful shutdown: stop validators and GC
+// 24h swap volume indexer (Swap logs of registry pools)
+volumeIndexer.start(ChainId.ETHEREUM);
+volumeIndexer.start(ChainId.POLYGON);
+
+// Token supply reads (market cap / FDV)
+tokenSupplyService.start(ChainId.ETHEREUM);
+tokenSupplyService.start(ChainId.POLYGON);
+
+// Factory creation log scanning (subgraph-free discovery source and fallback);
+// pools created for listed tokens are added to the registry as they are found
+factoryLogScanner.onPoolsFound((chainId, pools) => tokenDiscoveryManager.registerFactoryPools(chainId, pools).then(() => undefined));
+factoryLogScanner.start(ChainId.ETHEREUM);
+factoryLogScanner.start(ChainId.POLYGON);
+
+// Server-push price stream (WebSocket on /api/market/stream)
+const priceStreamService = new PriceStreamService(createMarketViewerService(storageService));
+priceStreamService.attach(server);
+
+// Graceful shutdown: stop validators, GC, the volume indexer, supply reads, factory log scanning and the price stream, and save price history
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down...');
   quarantineValidator.stopAllLoops();
   gcManager.stopAllCleanupLoops();
+  volumeIndexer.stop();
+  tokenSupplyService.stop();
+  factoryLogScanner.stop();
+  priceStreamService.close();
+  priceHistoryService.stop();
   server.close();
 });
 
@@ -95,6 +124,11 @@ process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down...');
   quarantineValidator.stopAllLoops();
   gcManager.stopAllCleanupLoops();
+  volumeIndexer.stop();
+  tokenSupplyService.stop();
+  factoryLogScanner.stop();
+  priceStreamService.close();
+  priceHistoryService.stop();
   server.close();
 });
 
@@ -1,8 +1,10 @@
 
 import { ethers } from "ethers";
-import { providersConfig } from "../config/ProvidersConfig";
-import { getContractAddress, PoolABIs, MULTICALL_ABI } from "../config/ContractAddressConfig";
+import { getRpcProviderPool, getRpcPoolHealth, isRateLimitError, type RpcEndpointHealth } from "./RpcProviderPool";
+import { getInfraContractAddress, V2_POOL_ABI, V3_POOL_ABI, MULTICALL_ABI, ERC20_ABI } from "../config/ContractAddressConfig";
 import type { MulticallResult } from "../../application/services/MulticallEngine";
+import { ticksInWord, wordForTick, type V3TickData } from "../../application/services/V3SwapMath";
+import { POOL_EVENT_TOPICS, type PoolLog } from "../../application/services/PoolEventDecoder";
 
 // Keep retry logic as it's useful for network requests
 const MAX_RETRIES = 3;
@@ -29,13 +31,7 @@ async function withRetry<T>(
       return await fn();
     } catch (error: any) {
       lastError = error;
-      const isRateLimited =
-        error?.info?.error?.code === 429 ||
-        error?.code === 429 ||
-        error?.message?.includes("429") ||
-        error?.message?.includes("rate limit") ||
-        error?.message?.includes("compute units");
-      if ((isRateLimited || error?.code === "CALL_EXCEPTION") && attempt < maxRetries - 1) {
+      if ((isRateLimitError(error) || error?.code === "CALL_EXCEPTION") && attempt < maxRetries - 1) {
         const delayMs = BASE_DELAY_MS * Math.pow(2, attempt);
         await sleep(delayMs);
         continue;
@@ -46,7 +42,45 @@ async function withRetry<T>(
   throw lastError!;
 }
 
+// One call's outcome in a Multicall3 tryBlockAndAggregate
+export interface CallResult {
+  success: boolean;
+  returnData: string;
+}
+
+function toCallResults(returnData: any[]): CallResult[] {
+  return returnData.map(([success, data]) => ({ success: Boolean(success), returnData: String(data) }));
+}
+
+function describeFailedCall(call: CallResult): string {
+  if (call.success) return "Empty return data (no contract at address?)";
+  if (call.returnData === "0x") return "Call reverted";
+  try {
+    const [reason] = ethers.AbiCoder.defaultAbiCoder().decode(["string"], ethers.dataSlice(call.returnData, 4));
+    return `Call reverted: ${reason}`;
+  } catch {
+    return `Call reverted (${call.returnData.slice(0, 10)})`;
+  }
+}
+
 // Define interfaces for different DEX version data
+/**
+ * A token's supply as read in one multicall
+ */
+export interface TokenSupplyReading {
+  totalSupply: bigint; // Raw units
+  excludedBalance: bigint; // Raw units held by the token's excluded addresses
+  blockNumber: number;
+}
+
+/**
+ * Balance changes of a simulated ERC20 transfer
+ */
+export interface TransferSimulation {
+  sent: bigint; // Debited from the holder (raw units)
+  received: bigint; // Credited to the recipient (raw units)
+}
+
 interface V2Data {
   reserve0: bigint;
   reserve1: bigint;
@@ -59,56 +93,67 @@ interface V3Data {
 }
 
 export class EthersAdapter {
-  private providers: { [chainId: number]: ethers.JsonRpcProvider } = {};
-
   constructor() {
-    // Constructor is now empty, providers are created on-demand
+    // Providers live in the shared per-chain RpcProviderPool, created on demand
   }
 
-  private getProvider(chainId: number): ethers.JsonRpcProvider {
-    if (this.providers[chainId]) {
-      return this.providers[chainId];
-    }
-
-    if (!providersConfig.isChainSupported(chainId)) {
-      throw new Error(`Provider for chain ID ${chainId} not configured.`);
-    }
+  /**
+   * Runs a request on the chain's provider pool: failover across endpoints inside one attempt,
+   * backoff between attempts when every endpoint is rate limited.
+   *
+   * @param chainId - The blockchain network ID.
+   * @param context - Label for retry logging.
+   * @param fn - The request, given the provider to use.
+   * @param providerIndex - Endpoint to prefer (e.g. a batch's round-robin slot).
+   */
+  private withProvider<T>(
+    chainId: number,
+    context: string,
+    fn: (provider: ethers.JsonRpcProvider) => Promise<T>,
+    providerIndex?: number
+  ): Promise<T> {
+    const pool = getRpcProviderPool(chainId);
+    return withRetry(() => pool.execute(fn, providerIndex), context);
+  }
 
-    // Assumes getChainProviders and getRpcEndpoint exist and are correct
-    const { rpcEndpoint } = providersConfig.getChainProviders(chainId);
-    if (!rpcEndpoint) {
-      throw new Error(`RPC endpoint for chain ID ${chainId} not found.`);
-    }
+  /**
+   * Number of RPC endpoints serving a chain (the round-robin width for multicall batches).
+   */
+  public getProviderCount(chainId: number): number {
+    return getRpcProviderPool(chainId).size();
+  }
 
-    const provider = new ethers.JsonRpcProvider(rpcEndpoint);
-    this.providers[chainId] = provider;
-    return provider;
+  /**
+   * Health of every RPC endpoint in use, by chain.
+   */
+  public getProviderHealth(): Record<number, RpcEndpointHealth[]> {
+    return getRpcPoolHealth();
   }
 
   /**
    * Executes a multicall batch, dynamically handling different DEX versions.
+   * Calls may fail individually (Multicall3 tryBlockAndAggregate): a reverting or
+   * non-standard pool fails its own result without reverting the batch.
    *
    * @param pools - An array of objects containing the address and dexVersion for each pool.
    * @param providerIndex - The index of the provider to use (for logging/debugging).
    * @param chainId - The blockchain network ID.
+   * @param blockTag - Block to read at (default: latest).
    * @returns A promise that resolves to an array of multicall results.
    */
   public async executeMulticall(
     pools: PoolIdentifier[],
-    providerIndex: number, // Retained for context, though provider is now chosen by chainId
-    chainId: number
+    providerIndex: number, // Preferred endpoint in the chain's provider pool
+    chainId: number,
+    blockTag?: number
   ): Promise<MulticallResult[]> {
-    const provider = this.getProvider(chainId);
-    // REMOVED: No longer need to read the registry on every call.
-    // const registry = await storageService.getPoolRegistry(chainId);
-    const multicallAddress = getContractAddress(chainId, "multicall");
-    const multicallContract = new ethers.Contract(multicallAddress, MULTICALL_ABI, provider);
+    const multicallAddress = getInfraContractAddress(chainId, "multicall");
 
     const calls: { target: string; callData: string }[] = [];
     const poolCallMappings: { address: string; version: "v2" | "v3" | "v4"; callCount: number }[] = [];
 
-    const v2Iface = new ethers.Interface(PoolABIs.v2);
-    const v3Iface = new ethers.Interface(PoolABIs.v3); // v4 uses v3 ABI
+    const v2Iface = new ethers.Interface(V2_POOL_ABI);
+    const v3Iface = new ethers.Interface(V3_POOL_ABI); // v4 uses v3 ABI
 
     for (const pool of pools) {
       const { address: poolAddress, dexVersion } = pool;
@@ -126,54 +171,55 @@ export class EthersAdapter {
 
     if (calls.length === 0) return [];
 
-    const result = await withRetry(
-      () => multicallContract.aggregate(calls),
-      `multicall(${pools.length} pools on provider ${providerIndex})`
+    const result = await this.withProvider(
+      chainId,
+      `multicall(${pools.length} pools on provider ${providerIndex})`,
+      provider => new ethers.Contract(multicallAddress, MULTICALL_ABI, provider).tryBlockAndAggregate(false, calls, blockTag !== undefined ? { blockTag } : {}),
+      providerIndex
     );
 
     const blockNumber = Number(result.blockNumber);
-    const returnData = result.returnData as string[];
+    const callResults = toCallResults(result.returnData);
     const results: MulticallResult[] = [];
     let dataIndex = 0;
 
     for (const mapping of poolCallMappings) {
-      try {
-        let success = true;
-        let poolData: any = {};
-
-        if (mapping.version === 'v2') {
-          const [reservesResult] = returnData.slice(dataIndex, dataIndex + 1);
-          if (reservesResult === '0x') success = false;
-          else {
-            const [reserve0, reserve1] = v2Iface.decodeFunctionResult("getReserves", reservesResult);
-            poolData = {
-              reserve0: BigInt(reserve0.toString()),
-              reserve1: BigInt(reserve1.toString()),
-            } as V2Data;
-          }
-        } else if (mapping.version === 'v3' || mapping.version === 'v4') {
-          const [slot0Result, liquidityResult] = returnData.slice(dataIndex, dataIndex + 2);
-           if (slot0Result === '0x' || liquidityResult === '0x') success = false;
-           else {
-            const [sqrtPriceX96, tick] = v3Iface.decodeFunctionResult("slot0", slot0Result);
-            const [liquidity] = v3Iface.decodeFunctionResult("liquidity", liquidityResult);
-            poolData = {
-              sqrtPriceX96: BigInt(sqrtPriceX96.toString()),
-              tick: Number(tick),
-              liquidity: BigInt(liquidity.toString()),
-            } as V3Data;
-          }
-        }
+      const poolCalls = callResults.slice(dataIndex, dataIndex + mapping.callCount);
+      dataIndex += mapping.callCount;
 
+      // A revert, or empty return data (no code at the address), fails this pool only
+      const failedCall = poolCalls.find(call => !call.success || call.returnData === '0x');
+      if (failedCall) {
         results.push({
           poolAddress: mapping.address,
           blockNumber,
-          success,
-          data: success ? poolData : undefined,
-          error: success ? undefined : new Error("Multicall execution failed"),
+          success: false,
+          error: new Error(describeFailedCall(failedCall)),
         });
+        continue;
+      }
+
+      try {
+        let poolData: V2Data | V3Data;
+        if (mapping.version === 'v2') {
+          const [reserve0, reserve1] = v2Iface.decodeFunctionResult("getReserves", poolCalls[0].returnData);
+          poolData = {
+            reserve0: BigInt(reserve0.toString()),
+            reserve1: BigInt(reserve1.toString()),
+          };
+        } else {
+          const [sqrtPriceX96, tick] = v3Iface.decodeFunctionResult("slot0", poolCalls[0].returnData);
+          const [liquidity] = v3Iface.decodeFunctionResult("liquidity", poolCalls[1].returnData);
+          poolData = {
+            sqrtPriceX96: BigInt(sqrtPriceX96.toString()),
+            tick: Number(tick),
+            liquidity: BigInt(liquidity.toString()),
+          };
+        }
 
+        results.push({ poolAddress: mapping.address, blockNumber, success: true, data: poolData });
       } catch (error) {
+        // Return data that does not decode: non-standard pool
         results.push({
           poolAddress: mapping.address,
           blockNumber,
@@ -181,9 +227,429 @@ export class EthersAdapter {
           error: error as Error,
         });
       }
-      dataIndex += mapping.callCount;
     }
 
     return results;
   }
+
+  /**
+   * Calls a single view method on a contract.
+   *
+   * @param address - The contract address.
+   * @param abi - Human-readable ABI containing the method.
+   * @param method - The method name.
+   * @param args - The method arguments.
+   * @param chainId - The blockchain network ID.
+   * @returns The decoded return value (a Result for multi-value returns).
+   */
+  public async callContractMethod(
+    address: string,
+    abi: string[],
+    method: string,
+    args: unknown[],
+    chainId: number
+  ): Promise<any> {
+    return this.withProvider(
+      chainId,
+      `${method}(${address})`,
+      provider => new ethers.Contract(address, abi, provider)[method](...args)
+    );
+  }
+
+  /**
+   * Reads factory() for many pools, one multicall per chunk. Calls fail individually,
+   * so a pool without factory() does not affect the rest of its chunk.
+   *
+   * @param poolAddresses - Pool addresses.
+   * @param chainId - The blockchain network ID.
+   * @returns Lowercase factory address per lowercase pool address; pools that failed are omitted.
+   */
+  public async fetchPoolFactories(poolAddresses: string[], chainId: number): Promise<Map<string, string>> {
+    const multicallAddress = getInfraContractAddress(chainId, "multicall");
+    const v2Iface = new ethers.Interface(V2_POOL_ABI);
+    const factories = new Map<string, string>();
+    const CHUNK_SIZE = 200;
+
+    for (let i = 0; i < poolAddresses.length; i += CHUNK_SIZE) {
+      const chunk = poolAddresses.slice(i, i + CHUNK_SIZE);
+      const result = await this.withProvider(
+        chainId,
+        `factory(${chunk.length} pools)`,
+        provider => new ethers.Contract(multicallAddress, MULTICALL_ABI, provider).tryBlockAndAggregate(
+          false,
+          chunk.map(address => ({ target: ethers.getAddress(address), callData: v2Iface.encodeFunctionData("factory", []) }))
+        )
+      );
+      toCallResults(result.returnData).forEach((call, j) => {
+        if (!call.success || call.returnData === "0x") return; // No factory(): left unresolved
+        try {
+          const [factory] = v2Iface.decodeFunctionResult("factory", call.returnData);
+          factories.set(chunk[j].toLowerCase(), String(factory).toLowerCase());
+        } catch {
+          // Non-standard return data: left unresolved
+        }
+      });
+    }
+
+    return factories;
+  }
+
+  /**
+   * Reads totalSupply() and the balances of excluded addresses for many tokens, one multicall per chunk.
+   * Calls fail individually; a token is omitted if any of its calls failed.
+   *
+   * @param tokens - Token addresses with the holders to exclude from circulating supply.
+   * @param chainId - The blockchain network ID.
+   * @returns Supply per lowercase token address.
+   */
+  public async fetchTokenSupplies(
+    tokens: Array<{ address: string; excluded: string[] }>,
+    chainId: number
+  ): Promise<Map<string, TokenSupplyReading>> {
+    const multicallAddress = getInfraContractAddress(chainId, "multicall");
+    const erc20Iface = new ethers.Interface(ERC20_ABI);
+    const supplies = new Map<string, TokenSupplyReading>();
+    const MAX_CALLS = 200;
+
+    // Chunk by token so a token's calls always land in the same multicall (same block)
+    const chunks: Array<typeof tokens> = [];
+    let chunkCalls = 0;
+    for (const token of tokens) {
+      const calls = 1 + token.excluded.length;
+      if (chunks.length === 0 || chunkCalls + calls > MAX_CALLS) {
+        chunks.push([]);
+        chunkCalls = 0;
+      }
+      chunks[chunks.length - 1].push(token);
+      chunkCalls += calls;
+    }
+
+    for (const chunk of chunks) {
+      const calls = chunk.flatMap(token => {
+        const target = ethers.getAddress(token.address);
+        return [
+          { target, callData: erc20Iface.encodeFunctionData("totalSupply", []) },
+          ...token.excluded.map(holder => ({ target, callData: erc20Iface.encodeFunctionData("balanceOf", [ethers.getAddress(holder)]) })),
+        ];
+      });
+      const result = await this.withProvider(
+        chainId,
+        `totalSupply(${chunk.length} tokens)`,
+        provider => new ethers.Contract(multicallAddress, MULTICALL_ABI, provider).tryBlockAndAggregate(false, calls)
+      );
+      const blockNumber = Number(result.blockNumber);
+      const results = toCallResults(result.returnData);
+
+      let offset = 0;
+      for (const token of chunk) {
+        const tokenResults = results.slice(offset, offset + 1 + token.excluded.length);
+        offset += tokenResults.length;
+        if (tokenResults.some(call => !call.success || call.returnData === "0x")) continue;
+        try {
+          const [totalSupply] = erc20Iface.decodeFunctionResult("totalSupply", tokenResults[0].returnData);
+          const excludedBalance = tokenResults.slice(1).reduce(
+            (sum, call) => sum + BigInt(erc20Iface.decodeFunctionResult("balanceOf", call.returnData)[0]),
+            0n
+          );
+          supplies.set(token.address.toLowerCase(), { totalSupply: BigInt(totalSupply), excludedBalance, blockNumber });
+        } catch {
+          // Non-standard return data: left unresolved
+        }
+      }
+    }
+
+    return supplies;
+  }
+
+  /**
+   * Reads the latest block number.
+   *
+   * @param chainId - The blockchain network ID.
+   * @returns The chain head block number.
+   */
+  public async getBlockNumber(chainId: number): Promise<number> {
+    return this.withProvider(chainId, `blockNumber(${chainId})`, provider => provider.getBlockNumber());
+  }
+
+  /**
+   * Reads events emitted by the given pools: by default the state-changing ones (V2 Sync, V3 Swap/Mint/Burn).
+   * Addresses are queried in chunks so a large alive set does not exceed provider filter limits.
+   *
+   * @param poolAddresses - Pool addresses.
+   * @param fromBlock - First block (inclusive).
+   * @param toBlock - Last block (inclusive).
+   * @param chainId - The blockchain network ID.
+   * @param topics - Accepted topic0 values.
+   * @returns The matching logs, in no particular order.
+   */
+  public async fetchPoolLogs(
+    poolAddresses: string[],
+    fromBlock: number,
+    toBlock: number,
+    chainId: number,
+    topics: string[] = POOL_EVENT_TOPICS
+  ): Promise<PoolLog[]> {
+    const logs: PoolLog[] = [];
+    const CHUNK_SIZE = 200;
+
+    for (let i = 0; i < poolAddresses.length; i += CHUNK_SIZE) {
+      const address = poolAddresses.slice(i, i + CHUNK_SIZE).map(a => ethers.getAddress(a));
+      const chunkLogs = await this.withProvider(
+        chainId,
+        `getLogs(${address.length} pools, ${fromBlock}-${toBlock})`,
+        provider => provider.getLogs({ address, topics: [topics], fromBlock, toBlock })
+      );
+      for (const log of chunkLogs) {
+        logs.push({
+          address: log.address,
+          topics: log.topics,
+          data: log.data,
+          blockNumber: log.blockNumber,
+          logIndex: log.index,
+        });
+      }
+    }
+
+    return logs;
+  }
+
+  /**
+   * Reads a contract's runtime bytecode.
+   *
+   * @param address - The contract address.
+   * @param chainId - The blockchain network ID.
+   * @returns The bytecode as hex ("0x" for an account without code).
+   */
+  public async getContractCode(address: string, chainId: number): Promise<string> {
+    return this.withProvider(chainId, `getCode(${address})`, provider => provider.getCode(address));
+  }
+
+  /**
+   * Reads one storage slot of a contract.
+   *
+   * @param address - The contract address.
+   * @param slot - The slot, as a 32-byte hex string.
+   * @param chainId - The blockchain network ID.
+   * @returns The slot value as a 32-byte hex string.
+   */
+  public async getStorageSlot(address: string, slot: string, chainId: number): Promise<string> {
+    return this.withProvider(chainId, `getStorage(${address})`, provider => provider.getStorage(address, slot));
+  }
+
+  /**
+   * Executes arbitrary calls in one multicall. Calls fail individually (Multicall3
+   * tryBlockAndAggregate), so a reverting call leaves the others intact.
+   *
+   * @param calls - Target and ABI-encoded calldata of each call.
+   * @param chainId - The blockchain network ID.
+   * @returns One result per call, in order, with the raw return data.
+   */
+  public async tryAggregate(calls: Array<{ target: string; callData: string }>, chainId: number): Promise<CallResult[]> {
+    const multicallAddress = getInfraContractAddress(chainId, "multicall");
+    const result = await this.withProvider(
+      chainId,
+      `tryAggregate(${calls.length} calls)`,
+      provider => new ethers.Contract(multicallAddress, MULTICALL_ABI, provider).tryBlockAndAggregate(false, calls)
+    );
+    return toCallResults(result.returnData);
+  }
+
+  /**
+   * Simulates an ERC20 transfer from `holder` with eth_call, without sending anything.
+   *
+   * The holder's code is overridden with the Multicall3 runtime code for the duration of the
+   * call, so Multicall3 runs AS the holder: it reads both balances, transfers, and reads them
+   * again, all in one call sharing state. Requires an RPC endpoint supporting eth_call state
+   * overrides (geth-style third parameter).
+   *
+   * @param token - The token contract address.
+   * @param holder - An address holding at least `amount` (e.g. one of the token's pools).
+   * @param recipient - The transfer recipient.
+   * @param amount - Raw amount to transfer.
+   * @param chainId - The blockchain network ID.
+   * @returns The balance changes, or null if the transfer reverted or returned false, or a
+   *          balance could not be read (a token whose balanceOf reverts is not measured as fee-free).
+   */
+  public async simulateTransfer(
+    token: string,
+    holder: string,
+    recipient: string,
+    amount: bigint,
+    chainId: number
+  ): Promise<TransferSimulation | null> {
+    const multicallAddress = getInfraContractAddress(chainId, "multicall");
+    const multicallIface = new ethers.Interface(MULTICALL_ABI);
+    const erc20Iface = new ethers.Interface(ERC20_ABI);
+    const target = ethers.getAddress(token);
+    const from = ethers.getAddress(holder);
+    const to = ethers.getAddress(recipient);
+
+    const balanceOf = (account: string) => ({ target, callData: erc20Iface.encodeFunctionData("balanceOf", [account]) });
+    const calls = [
+      balanceOf(from),
+      balanceOf(to),
+      { target, callData: erc20Iface.encodeFunctionData("transfer", [to, amount]) },
+      balanceOf(from),
+      balanceOf(to),
+    ];
+
+    const multicallCode = await this.getContractCode(multicallAddress, chainId);
+    const returnData = await this.withProvider(
+      chainId,
+      `simulateTransfer(${token})`,
+      provider => provider.send("eth_call", [
+        { to: from, data: multicallIface.encodeFunctionData("tryBlockAndAggregate", [false, calls]) },
+        "latest",
+        { [from]: { code: multicallCode } },
+      ])
+    );
+    const [, , results] = multicallIface.decodeFunctionResult("tryBlockAndAggregate", returnData);
+    const [fromBefore, toBefore, transfer, fromAfter, toAfter] = toCallResults(results);
+
+    if (!transfer.success) return null;
+    // Tokens that return nothing from transfer() are accepted; an explicit false is a failure
+    if (transfer.returnData !== "0x" && BigInt(ethers.dataSlice(transfer.returnData, 0, 32)) === 0n) return null;
+    if ([fromBefore, toBefore, fromAfter, toAfter].some(call => !call.success || ethers.dataLength(call.returnData) !== 32)) return null;
+
+    const balance = (call: CallResult) => BigInt(erc20Iface.decodeFunctionResult("balanceOf", call.returnData)[0]);
+    return {
+      sent: balance(fromBefore) - balance(fromAfter),
+      received: balance(toAfter) - balance(toBefore),
+    };
+  }
+
+  /**
+   * Reads the current gas price from the chain's fee data.
+   *
+   * @param chainId - The blockchain network ID.
+   * @returns Gas price in wei (eth_gasPrice, falling back to maxFeePerGas), or null if unavailable.
+   */
+  public async getGasPrice(chainId: number): Promise<bigint | null> {
+    const feeData = await this.withProvider(chainId, `feeData(${chainId})`, provider => provider.getFeeData());
+    return feeData.gasPrice ?? feeData.maxFeePerGas ?? null;
+  }
+
+  /**
+   * Reads the tick data a V3 swap simulation needs, pinned to a single block.
+   *
+   * Three multicall rounds:
+   * 1. slot0, liquidity, fee, tickSpacing (fixes the block for the next rounds)
+   * 2. tickBitmap words within `wordRadius` of the current tick's word
+   * 3. ticks(tick).liquidityNet for every initialized tick found in those words
+   *
+   * Calls fail individually (tryBlockAndAggregate). A word whose bitmap or ticks cannot be read
+   * narrows the window to the readable words around the current one, so the simulation reports
+   * the window as exhausted there instead of skipping liquidity it never saw.
+   *
+   * @param poolAddress - The V3 pool address.
+   * @param chainId - The blockchain network ID.
+   * @param wordRadius - Number of bitmap words to load on each side of the current word.
+   * @returns The tick data window for the pool.
+   * @throws If the pool state or the current tick's word cannot be read.
+   */
+  public async fetchV3TickData(poolAddress: string, chainId: number, wordRadius: number): Promise<V3TickData> {
+    const multicallAddress = getInfraContractAddress(chainId, "multicall");
+    const tryAggregate = async (calls: { target: string; callData: string }[], context: string, overrides: ethers.Overrides = {}) => {
+      const result = await this.withProvider(
+        chainId,
+        context,
+        provider => new ethers.Contract(multicallAddress, MULTICALL_ABI, provider).tryBlockAndAggregate(false, calls, overrides)
+      );
+      return { blockNumber: Number(result.blockNumber), results: toCallResults(result.returnData) };
+    };
+    const v3Iface = new ethers.Interface(V3_POOL_ABI);
+    const target = ethers.getAddress(poolAddress);
+
+    const stateMethods = ["slot0", "liquidity", "fee", "tickSpacing"];
+    const stateResult = await tryAggregate(
+      stateMethods.map(method => ({ target, callData: v3Iface.encodeFunctionData(method, []) })),
+      `v3 state(${poolAddress})`
+    );
+    stateResult.results.forEach((call, i) => {
+      if (!call.success || call.returnData === "0x") {
+        throw new Error(`v3 ${stateMethods[i]}(${poolAddress}) failed: ${describeFailedCall(call)}`);
+      }
+    });
+    const blockNumber = stateResult.blockNumber;
+    const [slot0Data, liquidityData, feeData, tickSpacingData] = stateResult.results.map(call => call.returnData);
+    const [sqrtPriceX96, tick] = v3Iface.decodeFunctionResult("slot0", slot0Data);
+    const [liquidity] = v3Iface.decodeFunctionResult("liquidity", liquidityData);
+    const [fee] = v3Iface.decodeFunctionResult("fee", feeData);
+    const [tickSpacing] = v3Iface.decodeFunctionResult("tickSpacing", tickSpacingData);
+
+    const spacing = Number(tickSpacing);
+    const currentWord = wordForTick(Number(tick), spacing);
+    let minWord = currentWord - wordRadius;
+    let maxWord = currentWord + wordRadius;
+
+    // Keep the window to the words around the current one that read cleanly
+    const excludeWord = (word: number, context: string) => {
+      if (word === currentWord) throw new Error(`${context} failed for the current tick's word`);
+      if (word < currentWord) minWord = Math.max(minWord, word + 1);
+      else maxWord = Math.min(maxWord, word - 1);
+    };
+
+    const wordPositions: number[] = [];
+    for (let word = minWord; word <= maxWord; word++) wordPositions.push(word);
+
+    const bitmapResult = await tryAggregate(
+      wordPositions.map(word => ({ target, callData: v3Iface.encodeFunctionData("tickBitmap", [word]) })),
+      `v3 tickBitmap(${poolAddress}, ${wordPositions.length} words)`,
+      { blockTag: blockNumber }
+    );
+
+    const bitmap = new Map<number, bigint>();
+    bitmapResult.results.forEach((call, i) => {
+      if (!call.success || call.returnData === "0x") {
+        excludeWord(wordPositions[i], `v3 tickBitmap(${poolAddress})`);
+        return;
+      }
+      const [word] = v3Iface.decodeFunctionResult("tickBitmap", call.returnData);
+      bitmap.set(wordPositions[i], BigInt(word.toString()));
+    });
+
+    const initializedTicks: number[] = [];
+    for (const [word, wordValue] of bitmap) {
+      if (word >= minWord && word <= maxWord && wordValue !== 0n) initializedTicks.push(...ticksInWord(word, wordValue, spacing));
+    }
+
+    const liquidityNet = new Map<number, bigint>();
+    if (initializedTicks.length > 0) {
+      const ticksResult = await tryAggregate(
+        initializedTicks.map(t => ({ target, callData: v3Iface.encodeFunctionData("ticks", [t]) })),
+        `v3 ticks(${poolAddress}, ${initializedTicks.length} ticks)`,
+        { blockTag: blockNumber }
+      );
+      ticksResult.results.forEach((call, i) => {
+        if (!call.success || call.returnData === "0x") {
+          excludeWord(wordForTick(initializedTicks[i], spacing), `v3 ticks(${poolAddress})`);
+          return;
+        }
+        const decoded = v3Iface.decodeFunctionResult("ticks", call.returnData);
+        liquidityNet.set(initializedTicks[i], BigInt(decoded[1].toString()));
+      });
+    }
+
+    // Drop what fell outside the narrowed window
+    for (const word of bitmap.keys()) {
+      if (word < minWord || word > maxWord) bitmap.delete(word);
+    }
+    for (const t of liquidityNet.keys()) {
+      const word = wordForTick(t, spacing);
+      if (word < minWord || word > maxWord) liquidityNet.delete(t);
+    }
+
+    return {
+      sqrtPriceX96: BigInt(sqrtPriceX96.toString()),
+      tick: Number(tick),
+      liquidity: BigInt(liquidity.toString()),
+      fee: Number(fee),
+      tickSpacing: spacing,
+      bitmap,
+      liquidityNet,
+      minWord,
+      maxWord,
+      blockNumber,
+    };
+  }
 }
@@ -0,0 +1,301 @@
+/**
+ * RpcProviderPool - Health-scored RPC providers for one chain
+ *
+ * RESPONSIBILITY:
+ * - Hold one JsonRpcProvider per configured endpoint (Infura, Alchemy, public RPC, ...)
+ * - Route each request to the caller's preferred endpoint, or the healthiest one
+ * - Fail over to the next endpoint when a provider errors, times out or rate-limits
+ * - Track latency, error rate and 429s, with a circuit breaker per endpoint (see RpcPoolConfig)
+ *
+ * Pools are shared process-wide (getRpcProviderPool), so every EthersAdapter
+ * instance sees the same health state.
+ */
+
+import { ethers } from "ethers";
+import { providersConfig } from "../config/ProvidersConfig";
+import { rpcPoolConfig } from "../config/RpcPoolConfig";
+import type { RpcEndpoint } from "../config/RpcConfig";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Health snapshot of one endpoint, for the status endpoint
+ */
+export interface RpcEndpointHealth {
+  index: number;
+  name: string;
+  host: string; // URL host only: paths carry API keys
+  circuit: CircuitState;
+  openUntil: number | null;
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  consecutiveFailures: number;
+  latencyMs: number | null;
+  errorRate: number;
+}
+
+interface PooledEndpoint {
+  index: number;
+  endpoint: RpcEndpoint;
+  provider: ethers.JsonRpcProvider;
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  consecutiveFailures: number;
+  latencyMs: number | null; // EWMA
+  errorRate: number; // EWMA, 0-1
+  openUntil: number | null; // Circuit open until this time
+  openDurationMs: number; // Cooldown used by the next failed half-open trial
+  trial: Promise<void> | null; // Half-open: the one request probing the endpoint; others wait for it
+}
+
+/**
+ * True if the provider (not the contract) refused the request for rate limiting
+ */
+export function isRateLimitError(error: any): boolean {
+  return (
+    error?.info?.error?.code === 429 ||
+    error?.code === 429 ||
+    error?.message?.includes("429") ||
+    error?.message?.includes("rate limit") ||
+    error?.message?.includes("compute units")
+  );
+}
+
+/**
+ * Reverts and bad arguments are answers, not provider failures: retrying elsewhere would not help
+ */
+function isProviderFault(error: any): boolean {
+  return error?.code !== "CALL_EXCEPTION" && error?.code !== "INVALID_ARGUMENT";
+}
+
+export class RpcProviderPool {
+  private endpoints: PooledEndpoint[];
+
+  constructor(private chainId: number, endpoints: RpcEndpoint[]) {
+    if (endpoints.length === 0) {
+      throw new Error(`No RPC endpoint configured for chain ID ${chainId}.`);
+    }
+
+    const network = ethers.Network.from(chainId);
+    this.endpoints = endpoints.map((endpoint, index) => {
+      const request = new ethers.FetchRequest(endpoint.url);
+      request.timeout = rpcPoolConfig.REQUEST_TIMEOUT_MS;
+      return {
+        index,
+        endpoint,
+        // Static network: no eth_chainId probing (and retry loop) against dead endpoints
+        provider: new ethers.JsonRpcProvider(request, network, { staticNetwork: network }),
+        requests: 0,
+        failures: 0,
+        rateLimited: 0,
+        consecutiveFailures: 0,
+        latencyMs: null,
+        errorRate: 0,
+        openUntil: null,
+        openDurationMs: rpcPoolConfig.OPEN_CIRCUIT_MS,
+        trial: null,
+      };
+    });
+    console.log(`📡 RPC pool for chain ${chainId}: ${endpoints.map(e => e.name).join(", ")}`);
+  }
+
+  public size(): number {
+    return this.endpoints.length;
+  }
+
+  /**
+   * Run a request, failing over across endpoints on provider faults.
+   * A half-open endpoint takes one trial request at a time; when no other endpoint answers,
+   * the request waits for that trial and runs there if it closed the circuit.
+   *
+   * @param fn - The request, given the provider to use.
+   * @param preferredIndex - Endpoint to try first if its circuit allows (e.g. a batch's round-robin slot).
+   * @returns The first successful result.
+   * @throws The request's own error for reverts, otherwise the last provider error.
+   */
+  public async execute<T>(fn: (provider: ethers.JsonRpcProvider) => Promise<T>, preferredIndex?: number): Promise<T> {
+    let lastError: unknown = null;
+    const trialsInFlight: PooledEndpoint[] = [];
+
+    for (const endpoint of this.candidates(preferredIndex)) {
+      const halfOpen = endpoint.openUntil !== null && endpoint.openUntil <= Date.now();
+      if (halfOpen && endpoint.trial) {
+        trialsInFlight.push(endpoint);
+        continue;
+      }
+
+      try {
+        return await this.run(endpoint, fn, halfOpen);
+      } catch (error) {
+        if (!isProviderFault(error)) throw error;
+        lastError = error;
+      }
+    }
+
+    for (const endpoint of trialsInFlight) {
+      await endpoint.trial;
+      if (endpoint.openUntil !== null) continue; // Trial failed: circuit open again
+
+      try {
+        return await this.run(endpoint, fn, false);
+      } catch (error) {
+        if (!isProviderFault(error)) throw error;
+        lastError = error;
+      }
+    }
+
+    throw lastError ?? new Error(`No RPC provider available for chain ${this.chainId}`);
+  }
+
+  public getHealth(): RpcEndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map(endpoint => ({
+      index: endpoint.index,
+      name: endpoint.endpoint.name,
+      host: hostOf(endpoint.endpoint.url),
+      circuit: circuitState(endpoint, now),
+      openUntil: endpoint.openUntil,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      rateLimited: endpoint.rateLimited,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      errorRate: Number(endpoint.errorRate.toFixed(3)),
+    }));
+  }
+
+  /**
+   * Endpoints to try, in order: the preferred one (if usable), then the rest by score.
+   * If every circuit is open, the endpoint that re-opens soonest is tried anyway.
+   */
+  private candidates(preferredIndex?: number): PooledEndpoint[] {
+    const now = Date.now();
+    const usable = this.endpoints
+      .filter(endpoint => circuitState(endpoint, now) !== "open")
+      .sort((a, b) => score(a) - score(b));
+
+    if (usable.length === 0) {
+      const soonest = [...this.endpoints].sort((a, b) => (a.openUntil ?? 0) - (b.openUntil ?? 0))[0];
+      return [soonest];
+    }
+
+    if (preferredIndex !== undefined) {
+      const preferred = usable.findIndex(endpoint => endpoint.index === preferredIndex % this.endpoints.length);
+      if (preferred > 0) usable.unshift(...usable.splice(preferred, 1));
+    }
+    return usable;
+  }
+
+  /**
+   * Run a request on one endpoint and record the outcome. A half-open request is the
+   * endpoint's trial until it settles.
+   */
+  private run<T>(endpoint: PooledEndpoint, fn: (provider: ethers.JsonRpcProvider) => Promise<T>, halfOpen: boolean): Promise<T> {
+    const startTime = Date.now();
+    const request = (async () => {
+      try {
+        const result = await fn(endpoint.provider);
+        this.recordSuccess(endpoint, Date.now() - startTime);
+        return result;
+      } catch (error) {
+        if (isProviderFault(error)) {
+          this.recordFailure(endpoint, error, halfOpen);
+        } else {
+          this.recordSuccess(endpoint, Date.now() - startTime);
+        }
+        throw error;
+      }
+    })();
+
+    if (halfOpen) {
+      endpoint.trial = request.then(() => undefined, () => undefined).finally(() => { endpoint.trial = null; });
+    }
+    return request;
+  }
+
+  private recordSuccess(endpoint: PooledEndpoint, latencyMs: number): void {
+    endpoint.requests++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs + rpcPoolConfig.LATENCY_EWMA_ALPHA * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate *= 1 - rpcPoolConfig.ERROR_EWMA_ALPHA;
+
+    if (endpoint.openUntil !== null) {
+      console.log(`✅ [RPC] ${endpoint.endpoint.name} (chain ${this.chainId}) recovered, circuit closed`);
+    }
+    endpoint.openUntil = null;
+    endpoint.openDurationMs = rpcPoolConfig.OPEN_CIRCUIT_MS;
+  }
+
+  private recordFailure(endpoint: PooledEndpoint, error: any, halfOpenTrial: boolean): void {
+    endpoint.requests++;
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.errorRate += rpcPoolConfig.ERROR_EWMA_ALPHA * (1 - endpoint.errorRate);
+
+    const now = Date.now();
+    if (isRateLimitError(error)) {
+      endpoint.rateLimited++;
+      this.openCircuit(endpoint, now + rpcPoolConfig.RATE_LIMIT_COOLDOWN_MS, "rate limited");
+    } else if (halfOpenTrial) {
+      endpoint.openDurationMs = Math.min(endpoint.openDurationMs * 2, rpcPoolConfig.MAX_OPEN_CIRCUIT_MS);
+      this.openCircuit(endpoint, now + endpoint.openDurationMs, "trial request failed");
+    } else if (endpoint.consecutiveFailures >= rpcPoolConfig.FAILURE_THRESHOLD) {
+      this.openCircuit(endpoint, now + endpoint.openDurationMs, `${endpoint.consecutiveFailures} consecutive failures`);
+    }
+  }
+
+  private openCircuit(endpoint: PooledEndpoint, until: number, reason: string): void {
+    endpoint.openUntil = Math.max(endpoint.openUntil ?? 0, until);
+    console.warn(`⚠️ [RPC] ${endpoint.endpoint.name} (chain ${this.chainId}) circuit open for ${Math.round((endpoint.openUntil - Date.now()) / 1000)}s: ${reason}`);
+  }
+}
+
+function circuitState(endpoint: PooledEndpoint, now: number): CircuitState {
+  if (endpoint.openUntil === null) return "closed";
+  return endpoint.openUntil > now ? "open" : "half-open";
+}
+
+// Lower is better; untried endpoints rank first so every endpoint gets measured,
+// endpoints that have only ever failed rank last
+function score(endpoint: PooledEndpoint): number {
+  if (endpoint.latencyMs === null) return endpoint.requests === 0 ? 0 : Number.MAX_SAFE_INTEGER;
+  return endpoint.latencyMs * (1 + rpcPoolConfig.ERROR_RATE_PENALTY * endpoint.errorRate);
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "invalid-url";
+  }
+}
+
+const pools = new Map<number, RpcProviderPool>();
+
+/**
+ * Get the shared provider pool of a chain, creating it from ProvidersConfig on first use
+ */
+export function getRpcProviderPool(chainId: number): RpcProviderPool {
+  if (!pools.has(chainId)) {
+    if (!providersConfig.isChainSupported(chainId)) {
+      throw new Error(`Provider for chain ID ${chainId} not configured.`);
+    }
+    pools.set(chainId, new RpcProviderPool(chainId, providersConfig.getChainRpcEndpoints(chainId)));
+  }
+  return pools.get(chainId)!;
+}
+
+/**
+ * Health of every pool created so far, by chain
+ */
+export function getRpcPoolHealth(): Record<number, RpcEndpointHealth[]> {
+  const health: Record<number, RpcEndpointHealth[]> = {};
+  for (const [chainId, pool] of pools) {
+    health[chainId] = pool.getHealth();
+  }
+  return health;
+}
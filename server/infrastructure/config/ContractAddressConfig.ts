@@ -14,11 +14,62 @@ import { networkConfig } from "./NetworkConfig";
 
 // V2 & V3 Pool ABIs
 export const V2_POOL_ABI = [
-  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)"
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+  "function factory() view returns (address)"
 ];
 export const V3_POOL_ABI = [
   "function slot0() view returns (uint160 sqrtPriceX96, int24 tick)",
-  "function liquidity() view returns (uint128)"
+  "function liquidity() view returns (uint128)",
+  "function factory() view returns (address)",
+  "function fee() view returns (uint24)",
+  "function tickSpacing() view returns (int24)",
+  "function tickBitmap(int16 wordPosition) view returns (uint256)",
+  "function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)"
+];
+
+// Pool events that change the state PoolScheduler tracks (V2 Sync; V3 Swap, Mint, Burn)
+export const POOL_EVENTS_ABI = [
+  "event Sync(uint112 reserve0, uint112 reserve1)",
+  "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
+  "event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)",
+  "event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)"
+];
+
+// Swap events of both pool versions (same name, distinct topic0), for volume indexing
+export const SWAP_EVENTS_ABI = [
+  "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+  "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)"
+];
+
+// Pool creation events of V2 and V3 factories, for log-based discovery
+export const FACTORY_EVENTS_ABI = [
+  "event PairCreated(address indexed token0, address indexed token1, address pair, uint256)",
+  "event PoolCreated(address indexed token0, address indexed token1, uint24 indexed fee, int24 tickSpacing, address pool)"
+];
+
+// ERC20 ABI
+export const ERC20_ABI = [
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)"
+];
+
+// Router ABIs (Uniswap V2-style Router02, and Uniswap SwapRouter02 which routes both V2 and V3)
+export const V2_ROUTER_ABI = [
+  "function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)",
+  "function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline) returns (uint256[] amounts)"
+];
+export const SWAP_ROUTER_02_ABI = [
+  "function exactInput(tuple(bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params) payable returns (uint256 amountOut)",
+  "function exactOutput(tuple(bytes path, address recipient, uint256 amountOut, uint256 amountInMaximum) params) payable returns (uint256 amountIn)",
+  "function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to) payable returns (uint256 amountOut)",
+  "function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to) payable returns (uint256 amountIn)",
+  "function multicall(uint256 deadline, bytes[] data) payable returns (bytes[] results)",
+  "function multicall(bytes[] data) payable returns (bytes[] results)"
 ];
 
 // V2 & V3 Factory ABIs
@@ -26,8 +77,10 @@ export const V2_FACTORY_ABI = ['function getPair(address tokenA, address tokenB)
 export const V3_FACTORY_ABI = ['function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)'];
 
 // Multicall
+// Multicall3. tryBlockAndAggregate is payable on-chain; declared view here so ethers eth_calls it
 export const MULTICALL_ABI = [
-  "function aggregate(tuple(address target, bytes callData)[] calls) view returns (uint256 blockNumber, bytes[] returnData)"
+  "function aggregate(tuple(address target, bytes callData)[] calls) view returns (uint256 blockNumber, bytes[] returnData)",
+  "function tryBlockAndAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) view returns (uint256 blockNumber, bytes32 blockHash, tuple(bool success, bytes returnData)[] returnData)"
 ];
 
 
@@ -50,7 +103,13 @@ const INFRA_CONTRACT_ADDRESSES: Record<string, InfraContractAddresses> = {
 };
 
 // DEX Factory addresses and fee tiers by chain ID
-export const FACTORIES = {
+interface ChainFactories {
+  v2: string[];
+  v3: string[];
+  v3_fees: number[];
+}
+
+export const FACTORIES: Record<number, ChainFactories> = {
   [1]: { // Ethereum
     v2: [
       '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f', // Uniswap V2
@@ -73,6 +132,55 @@ export const FACTORIES = {
   }
 };
 
+// Swap fee model for each factory's pools, by chain ID (factory keys lowercase). Fees in pips (1e-6).
+// - fee: charged by every pool of a V2 fork; V3 pools each carry their own fee tier instead
+// - dynamicFee: pool view method returning the current fee, for pools whose fee can change
+export interface FactoryFeeConfig {
+  name: string;
+  dexType: 'v2' | 'v3';
+  fee?: number;
+  dynamicFee?: { abi: string; method: string; pipsPerUnit: number };
+}
+
+// Fee assumed for a V2 pool whose factory is not configured (Uniswap V2: 0.3%)
+export const DEFAULT_V2_FEE = 3000;
+
+export const FACTORY_FEES: Record<number, Record<string, FactoryFeeConfig>> = {
+  [1]: { // Ethereum
+    '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f': { name: 'Uniswap V2', dexType: 'v2', fee: 3000 },
+    '0xc0aee478e3658e2610c5f7a4a2e1777ce9e4f2ac': { name: 'SushiSwap V2', dexType: 'v2', fee: 3000 },
+    '0x1f98431c8ad98523631ae4a59f267346ea31f984': { name: 'Uniswap V3', dexType: 'v3' },
+  },
+  [137]: { // Polygon
+    '0x5757371414417b8c6caad45baef941abc7d3ab32': { name: 'QuickSwap', dexType: 'v2', fee: 3000 },
+    '0xc35dadb65012ec5796536bd9864ed8773abc74c4': { name: 'SushiSwap V2', dexType: 'v2', fee: 3000 },
+    '0x1f98431c8ad98523631ae4a59f267346ea31f984': { name: 'Uniswap V3', dexType: 'v3' },
+  },
+};
+
+// Router that executes swaps for each factory's pools, by chain ID (factory keys lowercase)
+// - swapRouter02: Uniswap SwapRouter02, routes Uniswap V3 pools and Uniswap V2 pairs
+// - v2Router: UniswapV2Router02-compatible router of a V2 fork
+export interface RouterConfig {
+  address: string;
+  kind: 'swapRouter02' | 'v2Router';
+}
+
+const UNISWAP_SWAP_ROUTER_02 = '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45';
+
+export const ROUTERS: Record<number, Record<string, RouterConfig>> = {
+  [1]: { // Ethereum
+    '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f': { address: UNISWAP_SWAP_ROUTER_02, kind: 'swapRouter02' }, // Uniswap V2
+    '0xc0aee478e3658e2610c5f7a4a2e1777ce9e4f2ac': { address: '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F', kind: 'v2Router' }, // SushiSwap V2
+    '0x1f98431c8ad98523631ae4a59f267346ea31f984': { address: UNISWAP_SWAP_ROUTER_02, kind: 'swapRouter02' }, // Uniswap V3
+  },
+  [137]: { // Polygon
+    '0x5757371414417b8c6caad45baef941abc7d3ab32': { address: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff', kind: 'v2Router' }, // QuickSwap
+    '0xc35dadb65012ec5796536bd9864ed8773abc74c4': { address: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506', kind: 'v2Router' }, // SushiSwap V2
+    '0x1f98431c8ad98523631ae4a59f267346ea31f984': { address: UNISWAP_SWAP_ROUTER_02, kind: 'swapRouter02' }, // Uniswap V3
+  },
+};
+
 
 // ------------------
 // Utility Functions
@@ -108,3 +216,11 @@ export function getInfraContractAddress(
 
   return address;
 }
+
+/**
+ * Fee model of a factory's pools.
+ * @returns The factory's fee config, or undefined if the factory is not configured.
+ */
+export function getFactoryFeeConfig(chainId: number, factory: string): FactoryFeeConfig | undefined {
+  return FACTORY_FEES[chainId]?.[factory.toLowerCase()];
+}
@@ -0,0 +1,69 @@
+/**
+ * DiscoveryConfig - Centralized configuration for pool topology discovery sources
+ *
+ * SOURCES:
+ * - 'subgraph': hosted subgraphs in SubgraphConfig, pools ranked by their reported USD liquidity
+ * - 'factory-logs': PairCreated / PoolCreated logs of every factory in FACTORIES, scanned
+ *   by FactoryLogScanner into a persisted index of base-paired pools
+ * - SOURCE selects the source per chain; with FALLBACK_TO_FACTORY_LOGS, a subgraph chain
+ *   uses the factory index whenever every subgraph query for a token fails
+ *
+ * FACTORY LOG SCANNING:
+ * - One cursor per factory, starting at its deployment block (FACTORY_START_BLOCKS); a
+ *   factory without a start block is only scanned from the head onwards
+ * - Logs are read in ranges of at most MAX_LOG_BLOCK_RANGE blocks, halved on provider errors
+ *   down to MIN_LOG_BLOCK_RANGE
+ * - A pass scans at most MAX_BLOCKS_PER_PASS blocks per factory; passes repeat every
+ *   CATCH_UP_INTERVAL_MS while behind the head, every POLL_INTERVAL_MS once caught up
+ *
+ * INTERMEDIATE ROUTES:
+ * - A token with no base-paired pool is searched for intermediates: its pools against
+ *   non-base tokens, of which the INTERMEDIATE_CANDIDATES deepest counterparts are tried
+ * - A counterpart with base-paired pools completes a route; the others are searched in turn,
+ *   up to pricingConfig.MAX_ROUTE_DEPTH pools from the token
+ * - Subgraph-only: the factory index holds base-paired pools only
+ */
+
+import { ChainId } from './NetworkConfig';
+
+export type DiscoverySource = 'subgraph' | 'factory-logs';
+
+export const discoveryConfig = {
+  // === Source ===
+  SOURCE: {
+    [ChainId.ETHEREUM]: 'subgraph',
+    [ChainId.POLYGON]: 'subgraph',
+  } as Record<number, DiscoverySource>,
+  FALLBACK_TO_FACTORY_LOGS: true,
+
+  // === Factory log scanning ===
+  FACTORY_START_BLOCKS: {
+    [ChainId.ETHEREUM]: {
+      '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f': 10000835, // Uniswap V2
+      '0xc0aee478e3658e2610c5f7a4a2e1777ce9e4f2ac': 10794229, // SushiSwap V2
+      '0x1f98431c8ad98523631ae4a59f267346ea31f984': 12369621, // Uniswap V3
+    },
+    [ChainId.POLYGON]: {
+      '0x5757371414417b8c6caad45baef941abc7d3ab32': 4931780, // QuickSwap
+      '0xc35dadb65012ec5796536bd9864ed8773abc74c4': 11333218, // SushiSwap V2
+      '0x1f98431c8ad98523631ae4a59f267346ea31f984': 22757547, // Uniswap V3
+    },
+  } as Record<number, Record<string, number>>,
+  MAX_LOG_BLOCK_RANGE: {
+    [ChainId.ETHEREUM]: 5000,
+    [ChainId.POLYGON]: 3000,
+  } as Record<number, number>,
+  MIN_LOG_BLOCK_RANGE: 100,
+  MAX_BLOCKS_PER_PASS: {
+    [ChainId.ETHEREUM]: 200_000,
+    [ChainId.POLYGON]: 600_000,
+  } as Record<number, number>,
+  CATCH_UP_INTERVAL_MS: 5 * 1000,
+  POLL_INTERVAL_MS: 5 * 60 * 1000, // New pools need no block-level freshness
+
+  // === Intermediate routes ===
+  INTERMEDIATE_CANDIDATES: 3, // Counterparts tried per token and level, by pooled USD liquidity
+  INTERMEDIATE_QUERY_LIMIT: 100, // Pools fetched per subgraph when listing a token's counterparts
+} as const;
+
+export type DiscoveryConfig = typeof discoveryConfig;
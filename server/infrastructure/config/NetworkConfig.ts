@@ -47,6 +47,14 @@ export interface NetworkDefinition {
   gas: {
     standard: number;
     fast: number;
+    fallbackGasPriceGwei: number; // Used when the RPC fee data call fails
+    // Swap gas model (units): a transaction pays txBase once, then per hop
+    swap: {
+      txBase: number; // Intrinsic cost + router entry
+      v2Hop: number;
+      v3Hop: number;
+      v3InitializedTick: number; // Extra per initialized tick crossed
+    };
   };
 }
 
@@ -102,7 +110,7 @@ class NetworkConfig {
       chainId: ChainId.ETHEREUM,
       name: 'Ethereum',
       symbol: 'ETH',
-      rpcUrl: 'https://mainnet.infura.io/v3/', // Will be completed by ProvidersConfig
+      rpcUrl: 'https://ethereum-rpc.publicnode.com', // Keyless public RPC: last-resort fallback
       
       stablecoins,
       
@@ -119,6 +127,13 @@ class NetworkConfig {
       gas: {
         standard: 21000,
         fast: 21000,
+        fallbackGasPriceGwei: 20,
+        swap: {
+          txBase: 60000,
+          v2Hop: 60000,
+          v3Hop: 80000,
+          v3InitializedTick: 31000,
+        },
       },
     };
   }
@@ -176,6 +191,13 @@ class NetworkConfig {
       gas: {
         standard: 30,
         fast: 50,
+        fallbackGasPriceGwei: 50,
+        swap: {
+          txBase: 60000,
+          v2Hop: 60000,
+          v3Hop: 80000,
+          v3InitializedTick: 31000,
+        },
       },
     };
   }
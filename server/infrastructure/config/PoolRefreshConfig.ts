@@ -0,0 +1,40 @@
+/**
+ * PoolRefreshConfig - Centralized configuration for how alive pools are kept fresh
+ *
+ * REFRESH MODES (per chain):
+ * - timers: PoolScheduler re-reads every pool on its volatility tier (5s / 10s / 30s)
+ * - block-following: BlockFollower reads each new block's Sync/Swap/Mint/Burn logs for the
+ *   alive set and applies or re-fetches only the touched pools. Tier timers remain as a
+ *   safety net, stretched to one refresh per SAFETY_NET_REFRESH_MS while blocks are followed
+ *
+ * BROKEN POOLS:
+ * - Each pool's multicall reads succeed or fail on their own (Multicall3 tryBlockAndAggregate)
+ * - A pool whose reads fail BROKEN_POOL_FAILURE_THRESHOLD refreshes in a row is marked broken
+ *   in the registry and no longer scheduled or routed through
+ */
+
+import { ChainId } from './NetworkConfig';
+
+export type PoolRefreshMode = 'timers' | 'block-following';
+
+export const poolRefreshConfig = {
+  // === Mode ===
+  MODE: {
+    [ChainId.ETHEREUM]: 'block-following',
+    [ChainId.POLYGON]: 'block-following',
+  } as Record<number, PoolRefreshMode>,
+
+  // === Block following ===
+  BLOCK_POLL_INTERVAL_MS: {
+    [ChainId.ETHEREUM]: 4 * 1000, // ~12s blocks
+    [ChainId.POLYGON]: 2 * 1000, // ~2s blocks
+  } as Record<number, number>,
+  MAX_BLOCK_RANGE: 100, // Larger gaps are not replayed: every alive pool is re-fetched instead
+  SAFETY_NET_REFRESH_MS: 60 * 1000, // Timer refresh per pool while blocks are followed
+
+  // === Failures ===
+  FAILED_POOL_RETRY_MS: 5 * 1000, // Delay before re-reading a pool whose read failed
+  BROKEN_POOL_FAILURE_THRESHOLD: 5, // Consecutive failed reads before a pool is marked broken
+} as const;
+
+export type PoolRefreshConfig = typeof poolRefreshConfig;
@@ -0,0 +1,42 @@
+/**
+ * PriceHistoryConfig - Centralized configuration for the historical price store
+ *
+ * TIERS (per chain, per token):
+ * - raw: every computed price with its block number, kept RAW_RETENTION_MS
+ * - 1m: OHLC candles downsampled from raw, kept MINUTE_RETENTION_MS
+ * - 1h: OHLC candles downsampled from 1m, kept HOUR_RETENTION_MS
+ *
+ * Candle requests are served from the 1m tier for sub-hour intervals and from the
+ * 1h tier otherwise, so the 1m retention must cover the 24h change window.
+ */
+
+import type { PriceHistoryInterval } from '../../../shared/schema';
+
+export type { PriceHistoryInterval };
+
+export const priceHistoryConfig = {
+  // === Retention ===
+  RAW_RETENTION_MS: 60 * 60 * 1000, // 1 hour
+  MINUTE_RETENTION_MS: 48 * 60 * 60 * 1000, // 48 hours
+  HOUR_RETENTION_MS: 90 * 24 * 60 * 60 * 1000, // 90 days
+
+  // === 24h stats ===
+  CHANGE_REFERENCE_TOLERANCE_MS: 60 * 60 * 1000, // Max gap between the window start and the reference candle's close
+
+  // === Candle intervals ===
+  INTERVAL_MS: {
+    '1m': 60 * 1000,
+    '5m': 5 * 60 * 1000,
+    '15m': 15 * 60 * 1000,
+    '1h': 60 * 60 * 1000,
+    '4h': 4 * 60 * 60 * 1000,
+    '1d': 24 * 60 * 60 * 1000,
+  } as Record<PriceHistoryInterval, number>,
+  DEFAULT_INTERVAL: '1h' as PriceHistoryInterval,
+  MAX_CANDLES: 1000, // Per history request
+
+  // === Persistence ===
+  PERSIST_INTERVAL_MS: 60 * 1000, // Dirty chains are written to disk at most this often
+} as const;
+
+export type PriceHistoryConfig = typeof priceHistoryConfig;
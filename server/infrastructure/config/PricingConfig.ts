@@ -0,0 +1,33 @@
+/**
+ * PricingConfig - Centralized configuration for spot price computation
+ *
+ * All tunables used by SpotPricingEngine when deriving USD prices from pool
+ * states are defined here.
+ *
+ * PRICING MODES:
+ * - first-available: first cached pool on the preferred base (stablecoin → wrapped native → any)
+ * - liquidity-weighted: every cached pool on every base, weighted by USD depth,
+ *   outliers outside the band dropped, aggregate returned with a confidence score
+ *
+ * ROUTE DEPTH:
+ * - A token without a base pair is priced through intermediate tokens
+ *   (token → intermediate → … → base), both modes resolving each intermediate recursively
+ * - MAX_ROUTE_DEPTH bounds the pools chained from the token to its first base token
+ *   (1 = direct base pairs only); discovery searches intermediates to the same depth
+ */
+
+export type PricingMode = 'first-available' | 'liquidity-weighted';
+
+export const pricingConfig = {
+  // === Mode ===
+  DEFAULT_PRICING_MODE: 'liquidity-weighted' as PricingMode,
+
+  // === Liquidity-weighted aggregation ===
+  OUTLIER_BAND: 0.05, // Drop pools whose price deviates more than 5% from the depth-weighted median
+  CONFIDENT_DEPTH_USD: 100_000, // Retained depth at which depth stops reducing confidence
+
+  // === Multi-hop routes ===
+  MAX_ROUTE_DEPTH: 3, // token → intermediate → intermediate → base
+} as const;
+
+export type PricingConfig = typeof pricingConfig;
@@ -14,7 +14,7 @@
  * Change values here to switch providers globally.
  */
 
-import { getRpcConfig } from './RpcConfig';
+import { getRpcConfig, RpcEndpoint } from './RpcConfig';
 import { explorerConfig } from './ExplorerConfig';
 
 class ProvidersConfig {
@@ -69,6 +69,13 @@ class ProvidersConfig {
     };
   }
 
+  /**
+   * Get every RPC endpoint for a chain (for the provider pool)
+   */
+  public getChainRpcEndpoints(chainId: number): RpcEndpoint[] {
+    return this.rpcConfigInstance.getRpcEndpoints(chainId);
+  }
+
   /**
    * Check if a chain is supported by any provider
    */
@@ -0,0 +1,63 @@
+/**
+ * QuarantineConfig - Centralized configuration for quarantined token validation
+ *
+ * LIQUIDITY GATE:
+ * - The token's discovered pools are read live (V2 reserves, V3 in-range liquidity) and
+ *   valued in USD against base-token spot prices (SpotPricingEngine.computeTokenLiquidity)
+ * - A token is promoted only when that liquidity reaches MIN_LIQUIDITY_USD[chainId]
+ * - Below the threshold the token stays quarantined and is re-checked every
+ *   QUARANTINE_VALIDATION_INTERVAL_MS until GC purges it (QUARANTINE_TTL_MS)
+ *
+ * CONTRACT RISK:
+ * - Tokens passing the liquidity gate are inspected by TokenRiskAnalyzer
+ * - Each finding is handled per RISK_POLICY: 'block' keeps the token quarantined,
+ *   'flag' promotes it with the flag attached to its token list entry
+ * - Privileged selectors are matched against the bytecode (and the implementation's, for
+ *   proxies); all but the upgrade selectors are ignored once owner() returns the zero
+ *   address (ownership renounced). Contracts without an owner() count them all
+ * - Fee-on-transfer is measured by simulating a transfer of TRANSFER_PROBE_SHARE_BPS of the
+ *   largest pool's balance to TRANSFER_PROBE_RECIPIENT
+ */
+
+import { ChainId } from './NetworkConfig';
+import type { TokenRiskAction, TokenRiskFlag } from '../../domain/types';
+
+export const quarantineConfig = {
+  // === Liquidity gate ===
+  MIN_LIQUIDITY_USD: {
+    [ChainId.ETHEREUM]: 50_000,
+    [ChainId.POLYGON]: 10_000, // Cheaper to seed, but also cheaper to trade: lower bar
+  } as Record<number, number>,
+
+  // === Contract risk ===
+  RISK_POLICY: {
+    'no-code': 'block',
+    'proxy': 'flag',
+    'upgradeable': 'flag',
+    'mintable': 'flag',
+    'pausable': 'flag',
+    'blacklist': 'block',
+    'nonstandard-decimals': 'block', // Every amount shown would be wrong
+    'nonstandard-symbol': 'flag',
+    'fee-on-transfer': 'block', // Quotes and simulations assume amounts arrive in full
+    'transfer-reverts': 'block',
+  } as Record<TokenRiskFlag, TokenRiskAction>,
+  PRIVILEGED_SELECTORS: {
+    mintable: ['mint(address,uint256)', 'mint(uint256)', 'mintTo(address,uint256)', 'issue(uint256)'],
+    pausable: ['pause()', 'unpause()', 'setPaused(bool)'],
+    blacklist: [
+      'blacklist(address)',
+      'addBlackList(address)',
+      'addToBlacklist(address)',
+      'setBlacklist(address,bool)',
+      'blockAddress(address)',
+      'freeze(address)',
+    ],
+    upgradeable: ['upgradeTo(address)', 'upgradeToAndCall(address,bytes)'],
+  } as Record<'mintable' | 'pausable' | 'blacklist' | 'upgradeable', string[]>,
+  MAX_TRANSFER_FEE_BPS: 1, // Tolerance for rounding in rebasing/share-based tokens
+  TRANSFER_PROBE_SHARE_BPS: 10, // 0.1% of the holder's balance
+  TRANSFER_PROBE_RECIPIENT: '0x000000000000000000000000000000000000bEEF', // Fresh address, unlikely to be fee-exempt
+} as const;
+
+export type QuarantineConfig = typeof quarantineConfig;
@@ -20,6 +20,14 @@ export interface RpcProvider {
   };
 }
 
+/**
+ * One RPC endpoint of a chain, as used by the provider pool
+ */
+export interface RpcEndpoint {
+  name: string;
+  url: string;
+}
+
 class RpcConfig {
   private static instance: RpcConfig;
   private providers: RpcProvider[] = [];
@@ -69,6 +77,27 @@ class RpcConfig {
     return provider.endpoints[chainId as ChainId]!;
   }
 
+  /**
+   * Get every RPC endpoint configured for a chain, in provider priority order
+   *
+   * @param chainId The ID of the chain
+   * @returns Named endpoints, always ending with the public RPC from NetworkConfig as last resort
+   */
+  public getRpcEndpoints(chainId: number): RpcEndpoint[] {
+    const endpoints = this.providers
+      .filter((p) => p.endpoints[chainId as ChainId])
+      .map((p) => ({ name: p.name, url: p.endpoints[chainId as ChainId]! }));
+
+    if (endpoints.length === 0) {
+      console.warn(`⚠️ No dedicated RPC provider found for chain ${chainId}. Using public RPC.`)
+    }
+    const publicUrl = networkConfig.getNetwork(chainId).rpcUrl;
+    if (!endpoints.some((e) => e.url === publicUrl)) {
+      endpoints.push({ name: 'Public', url: publicUrl });
+    }
+    return endpoints;
+  }
+
   /**
    * Load providers from environment variables
    * Best-effort: if a key is missing, that provider is simply disabled
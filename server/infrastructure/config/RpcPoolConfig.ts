@@ -0,0 +1,31 @@
+/**
+ * RpcPoolConfig - Centralized configuration for the per-chain RPC provider pool
+ *
+ * HEALTH TRACKING (per endpoint):
+ * - Latency and error rate as exponentially weighted moving averages
+ * - Endpoints are ranked by latency, inflated by error rate
+ *
+ * CIRCUIT BREAKER (per endpoint):
+ * - closed: receives traffic
+ * - open: skipped until its cooldown ends (FAILURE_THRESHOLD consecutive failures, or any 429)
+ * - half-open: after the cooldown, a single trial request; success closes the circuit,
+ *   failure re-opens it with a doubled cooldown (capped at MAX_OPEN_CIRCUIT_MS)
+ */
+
+export const rpcPoolConfig = {
+  // === Requests ===
+  REQUEST_TIMEOUT_MS: 10 * 1000, // Per JSON-RPC request, so a hung endpoint fails over
+
+  // === Health scoring ===
+  LATENCY_EWMA_ALPHA: 0.2,
+  ERROR_EWMA_ALPHA: 0.1,
+  ERROR_RATE_PENALTY: 4, // Score = latency * (1 + penalty * errorRate)
+
+  // === Circuit breaker ===
+  FAILURE_THRESHOLD: 3, // Consecutive failures that open the circuit
+  OPEN_CIRCUIT_MS: 30 * 1000, // First cooldown
+  MAX_OPEN_CIRCUIT_MS: 5 * 60 * 1000,
+  RATE_LIMIT_COOLDOWN_MS: 10 * 1000, // A 429 opens the circuit at once for this long
+} as const;
+
+export type RpcPoolConfig = typeof rpcPoolConfig;
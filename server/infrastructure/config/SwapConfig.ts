@@ -0,0 +1,40 @@
+/**
+ * SwapConfig - Centralized configuration for route search and quoting
+ *
+ * All tunables used by RoutingEngine, TradeSimulator and SwapController
+ * are defined here.
+ *
+ * ROUTE SEARCH:
+ * - Routes are found in an in-memory token graph built from the pool registry
+ * - The k shortest routes (by hop count) up to maxRouteDepth hops are returned
+ * - Factory lookups are only a fallback for pairs the registry does not know
+ *
+ * SPLITS:
+ * - Each route's output curve is sampled at splitCurvePoints amounts
+ * - The amount is water-filled across routes by marginal rate, then the curve
+ *   segments the allocation lands in are bisected down to splitResolutionBps
+ * - maxSplitSimulations bounds the work for one split
+ */
+
+import type { SwapConfig } from '../../domain/swapper.types';
+
+export const swapConfig: SwapConfig = {
+  // === Route search ===
+  maxRouteDepth: 3,
+  maxRoutes: 5,
+  factoryFallback: true,
+
+  // === Quoting ===
+  defaultSlippage: 0.5,
+  allowMultiRoute: true,
+  minPoolLiquidity: '0',
+  liquidityRiskThresholds: { medium: 1, high: 5 }, // Price impact %
+
+  // === Split optimization ===
+  splitCurvePoints: 8,
+  maxSplitSimulations: 120,
+  splitResolutionBps: 10, // 0.1% of the amount
+
+  // === Transaction building ===
+  defaultDeadlineSeconds: 20 * 60,
+};
@@ -6,6 +6,7 @@
  * 
  * TIMING HIERARCHY:
  * - Stay-alive protocol: 30s (client-side, user watching)
+ * - Price stream: interest re-asserted every 5s (inside the pool grace period), 30s ping
  * - Pool refresh: 10s (main loop check), 5-30s per pool (tiered)
  * - Micro-batching: 75ms collection window
  * - GC cleanup: Various intervals (10s state, 30s pools, 30d logos)
@@ -20,6 +21,8 @@ export const timingConfig = {
   // === Cache TTLs ===
   MARKET_DATA_CACHE_TTL_MS: 5 * 60 * 1000, // 5 minutes
   STATE_CACHE_TTL_MS: 30 * 1000, // 30 seconds
+  STATE_HISTORY_MAX_AGE_MS: 2 * 60 * 1000, // Per-block pool states kept for block-consistent snapshots
+  STATE_HISTORY_DEPTH: 16, // Max per-block states kept per pool
   LOGO_CACHE_TTL_MS: 30 * 24 * 60 * 60 * 1000, // 30 days
   QUARANTINE_TTL_MS: 7 * 24 * 60 * 60 * 1000, // 7 days
 
@@ -27,16 +30,22 @@ export const timingConfig = {
   POOL_GRACE_PERIOD_MS: 10 * 1000, // 10 seconds before removal after refCount=0
   TOPOLOGY_TTL_MS: 7 * 24 * 60 * 60 * 1000, // 7 days before topology refresh
 
+  // === Price Stream ===
+  STREAM_INTEREST_INTERVAL_MS: 5 * 1000, // Re-assert pool interest for subscribed tokens (must be < POOL_GRACE_PERIOD_MS)
+  STREAM_HEARTBEAT_INTERVAL_MS: 30 * 1000, // Ping clients; drop those that did not answer the previous ping
+
   // === Micro-batching ===
   MICROBATCH_COLLECTION_WINDOW_MS: 150, // Milliseconds to collect pools before multicall
 
+  // === Swap Simulation ===
+  SIMULATION_STATE_TTL_MS: 5 * 1000, // Reuse fetched pool state across simulations of one quote
+
   // === Discovery ===
   DISCOVERY_RETRY_WINDOW_MS: 5 * 60 * 1000, // 5 minutes between discovery attempts for same token
   DISCOVERY_TOPOLOGY_TTL_MS: 7 * 24 * 60 * 60 * 1000, // 7 days before stale
 
   // === Quarantine Validation ===
   QUARANTINE_VALIDATION_INTERVAL_MS: 10 * 60 * 1000, // Every 10 minutes
-  QUARANTINE_MIN_LIQUIDITY: 1000 * Math.pow(10, 18), // 1000 base units
 
   // === GC Cleanup Intervals ===
   STATE_CLEANUP_INTERVAL_MS: 10 * 1000, // Every 10 seconds
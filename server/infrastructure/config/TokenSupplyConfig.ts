@@ -0,0 +1,44 @@
+/**
+ * TokenSupplyConfig - Centralized configuration for token supply and market cap
+ *
+ * SUPPLY:
+ * - totalSupply() of every listed token is re-read every REFRESH_INTERVAL_MS (batched multicall)
+ * - Circulating supply = totalSupply - balances of the token's excluded addresses
+ *
+ * EXCLUDED ADDRESSES:
+ * - BURN_ADDRESSES apply to every token
+ * - EXCLUDED_ADDRESSES adds per-token holders whose balance does not circulate
+ *   (treasury, team vesting, bridge escrow), keyed by chain then lowercase token address
+ *
+ * VALUATION:
+ * - Market cap = circulating supply × price; fully diluted valuation = total supply × price
+ */
+
+import { ChainId } from './NetworkConfig';
+
+export const tokenSupplyConfig = {
+  // === Refresh ===
+  REFRESH_INTERVAL_MS: 10 * 60 * 1000, // Supplies change slowly
+
+  // === Excluded holders ===
+  BURN_ADDRESSES: [
+    '0x0000000000000000000000000000000000000000',
+    '0x000000000000000000000000000000000000dEaD',
+  ],
+  EXCLUDED_ADDRESSES: {
+    [ChainId.ETHEREUM]: {
+      // '<token address>': ['<treasury>', '<bridge escrow>', ...],
+    },
+    [ChainId.POLYGON]: {},
+  } as Record<number, Record<string, string[]>>,
+} as const;
+
+export type TokenSupplyConfig = typeof tokenSupplyConfig;
+
+/**
+ * Holders excluded from a token's circulating supply (burn addresses included)
+ */
+export function getExcludedAddresses(chainId: number, tokenAddress: string): string[] {
+  const tokenExclusions = tokenSupplyConfig.EXCLUDED_ADDRESSES[chainId]?.[tokenAddress.toLowerCase()] ?? [];
+  return [...tokenSupplyConfig.BURN_ADDRESSES, ...tokenExclusions];
+}
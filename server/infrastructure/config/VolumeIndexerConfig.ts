@@ -0,0 +1,35 @@
+/**
+ * VolumeIndexerConfig - Centralized configuration for the 24h swap volume indexer
+ *
+ * WINDOW:
+ * - The rolling window is WINDOW_BLOCKS[chainId] blocks (24h at the chain's block time)
+ * - Volume is summed into BUCKETS_PER_WINDOW block buckets per pool, so the window edge
+ *   moves one bucket (~15 min) at a time
+ *
+ * SCANNING:
+ * - Swap logs are read in ranges of at most MAX_LOG_BLOCK_RANGE blocks, halved on
+ *   provider errors (result-size limits) down to MIN_LOG_BLOCK_RANGE
+ * - Progress is checkpointed to disk after every range, so a restart resumes where it
+ *   stopped; downtime longer than the window restarts the window at the head
+ */
+
+import { ChainId } from './NetworkConfig';
+
+export const volumeIndexerConfig = {
+  // === Window ===
+  WINDOW_BLOCKS: {
+    [ChainId.ETHEREUM]: 7200, // ~12s blocks
+    [ChainId.POLYGON]: 43200, // ~2s blocks
+  } as Record<number, number>,
+  BUCKETS_PER_WINDOW: 96,
+
+  // === Scanning ===
+  POLL_INTERVAL_MS: 60 * 1000, // Volume does not need block-level freshness
+  MAX_LOG_BLOCK_RANGE: {
+    [ChainId.ETHEREUM]: 2000,
+    [ChainId.POLYGON]: 1000,
+  } as Record<number, number>,
+  MIN_LOG_BLOCK_RANGE: 10,
+} as const;
+
+export type VolumeIndexerConfig = typeof volumeIndexerConfig;
@@ -4,13 +4,21 @@ import { priceViewerService } from "./application/services/PriceViewerService.ts
 import { SwapController } from "./application/services/SwapController.ts";
 import { sharedStateCache } from "./application/services/SharedStateCache.ts";
 import { poolController } from "./application/services/PoolController.ts";
+import { spotPricingEngine } from "./application/services/SpotPricingEngine.ts";
 import { MarketViewerService, createMarketViewerService } from "./application/services/MarketViewerService.ts";
 import { getApiCallLogger } from "./infrastructure/logging/ApiCallLogger.ts";
 import { timingConfig } from "./infrastructure/config/TimingConfig.ts";
 import { logoSourcesConfig } from "./infrastructure/config/LogoSourcesConfig.ts";
 import { logoFetcherAdapter } from "./infrastructure/adapters/LogoFetcherAdapter.ts";
 import { MockPoolDataConfig } from "./infrastructure/config/MockPoolDataConfig.ts";
-import type { QuoteResponse, SwapQuote, MarketOverview } from "../shared/schema.ts";
+import { ethers } from "ethers";
+import { swapConfig } from "./infrastructure/config/SwapConfig.ts";
+import type { TradeType } from "./domain/swapper.types.ts";
+import { priceHistoryConfig } from "./infrastructure/config/PriceHistoryConfig.ts";
+import type { PricingMode } from "./infrastructure/config/PricingConfig.ts";
+import { priceHistoryIntervalSchema } from "../shared/schema.ts";
+import type { QuoteResponse, SwapBuildResponse, SwapQuote, MarketOverview, PriceHistoryResponse, PriceSnapshotResponse, TopologyChangesResponse, TokenTopologyHistoryResponse } from "../shared/schema.ts";
+import { topologyJournal, describeTopology } from "./application/services/TopologyJournal.ts";
 
 export async function registerRoutes(
   app: Express,
@@ -24,7 +32,8 @@ export async function registerRoutes(
 
   /**
    * PHASE 8: Sort tokens by specified field
-   * Supported fields: symbol, name, address, decimals
+   * Supported fields: symbol, name, address, decimals, marketCap, fdv
+   * (tokens without a market cap / FDV sort last in both directions)
    * @param tokens Array of tokens to sort
    * @param sortParam Sort field (format: "field" or "field_desc" for descending)
    * @returns Sorted token array
@@ -53,6 +62,16 @@ export async function registerRoutes(
           aVal = a.decimals || 0;
           bVal = b.decimals || 0;
           break;
+        case 'marketCap':
+        case 'fdv': {
+          const field = sortField === 'marketCap' ? 'marketCap' : 'fullyDilutedMarketCap';
+          if (a[field] === undefined || b[field] === undefined) {
+            return (a[field] === undefined ? 1 : 0) - (b[field] === undefined ? 1 : 0);
+          }
+          aVal = a[field];
+          bVal = b[field];
+          break;
+        }
         default:
           // Default to symbol
           aVal = (a.symbol || '').toLowerCase();
@@ -84,8 +103,11 @@ export async function registerRoutes(
       console.log(`📋 Fetching tokens: chain=${chainId}, page=${page}, sort=${sortParam}, pageSize=${TOKENS_PER_PAGE}`);
       
       // COLD PATH: Fetch ONLY tokens for selected network
-      const tokens = await app.locals.storageService.getTokensByNetwork(chainId);
-      const poolRegistry = await app.locals.storageService.getPoolRegistry(chainId);
+      const listedTokens = await app.locals.storageService.getTokensByNetwork(chainId);
+
+      // Market cap / FDV at the last recorded price (no pricing on the cold path)
+      const valuations = await marketViewerService.getTokenValuations(chainId, listedTokens.map((t: any) => t.address));
+      const tokens = listedTokens.map((token: any) => ({ ...token, ...valuations.get(token.address.toLowerCase()) }));
       
       // PHASE 8: Sort tokens before pagination
       const sortedTokens = sortTokens(tokens, sortParam);
@@ -96,24 +118,24 @@ export async function registerRoutes(
       
       console.log(`✓ Token pagination: ${paginatedTokens.length} tokens returned (total: ${tokens.length}, page: ${page})`);
       
-      // Attach pricing pools to each token (cold path responsibility)
-      const tokensWithPools = paginatedTokens.map((token: any) => {
-        if (!token) return null;
+      // Attach pricing pools to each token (cold path responsibility): the token's routes and,
+      // recursively, those of the base and intermediate tokens its price goes through
+      const tokensWithPools: any[] = [];
+      for (const token of paginatedTokens) {
+        if (!token) continue;
         const tokenLower = token.address?.toLowerCase();
-        if (!tokenLower) return { ...token, pricingPools: [] };
-        
-        // Flatten the nested pricingRoutes structure into a single array of pool addresses
-        const tokenRoutes = poolRegistry?.pricingRoutes?.[tokenLower] || {};
-        const flattenedPools: string[] = [];
-        for (const baseSymbol in tokenRoutes) {
-          flattenedPools.push(...tokenRoutes[baseSymbol]);
+        if (!tokenLower) {
+          tokensWithPools.push({ ...token, pricingPools: [] });
+          continue;
         }
-        console.log(`   Token ${startIndex + paginatedTokens.indexOf(token) + 1}: ${(token.symbol || 'N/A').padEnd(6)} ${token.address.slice(0,8)}... → ${flattenedPools.length} pool(s)`);
-        return {
+
+        const pricingPools = await spotPricingEngine.collectPricingPools(tokenLower, chainId);
+        console.log(`   Token ${startIndex + paginatedTokens.indexOf(token) + 1}: ${(token.symbol || 'N/A').padEnd(6)} ${token.address.slice(0,8)}... → ${pricingPools.length} pool(s)`);
+        tokensWithPools.push({
           ...token,
-          pricingPools: flattenedPools,
-        };
-      }).filter(Boolean);
+          pricingPools,
+        });
+      }
       
       res.json({ 
         tokens: tokensWithPools, 
@@ -173,21 +195,27 @@ export async function registerRoutes(
   });
 
   /**
-   * GET /api/market/token/:tokenAddress?chainId=1
+   * GET /api/market/token/:tokenAddress?chainId=1&pricingMode=liquidity-weighted
    * Get detailed market data for a single token
    * Returns: TokenMarketData with price, liquidity, volume, and data source attribution
+   * (plus priceConfidence and per-pool pricingBreakdown in liquidity-weighted mode)
    */
   app.get('/api/market/token/:tokenAddress', async (req, res) => {
     try {
       const { tokenAddress } = req.params;
       const chainId = req.query.chainId ? Number(req.query.chainId) : 137;
       const forceRefresh = req.query.forceRefresh === 'true';
+      const pricingMode = req.query.pricingMode as PricingMode | undefined;
+
+      if (pricingMode && pricingMode !== 'first-available' && pricingMode !== 'liquidity-weighted') {
+        return res.status(400).json({ message: "pricingMode must be 'first-available' or 'liquidity-weighted'" });
+      }
       
       const startTime = Date.now();
       const marketData = await marketViewerService.getTokenMarketData(
         tokenAddress,
         chainId,
-        { forceRefresh }
+        { forceRefresh, pricingMode }
       );
       const durationMs = Date.now() - startTime;
       
@@ -204,6 +232,49 @@ export async function registerRoutes(
     }
   });
 
+  /**
+   * GET /api/market/token/:tokenAddress/history?chainId=1&interval=1h&from=<ms>&to=<ms>
+   * Get OHLC price candles for a token from the historical price store
+   * Returns: PriceHistoryResponse - candles oldest first (buckets without prices are omitted)
+   */
+  app.get('/api/market/token/:tokenAddress/history', async (req, res) => {
+    try {
+      const { tokenAddress } = req.params;
+      const chainId = req.query.chainId ? Number(req.query.chainId) : 137;
+      const interval = priceHistoryIntervalSchema.safeParse(req.query.interval ?? priceHistoryConfig.DEFAULT_INTERVAL);
+      const from = req.query.from !== undefined ? Number(req.query.from) : undefined;
+      const to = req.query.to !== undefined ? Number(req.query.to) : undefined;
+
+      if (!interval.success) {
+        return res.status(400).json({ message: `interval must be one of ${priceHistoryIntervalSchema.options.join(', ')}` });
+      }
+      if ((from !== undefined && !Number.isFinite(from)) || (to !== undefined && !Number.isFinite(to))) {
+        return res.status(400).json({ message: "from and to must be timestamps in milliseconds" });
+      }
+
+      const startTime = Date.now();
+      const candles = await marketViewerService.getTokenPriceHistory(tokenAddress, chainId, interval.data, from, to);
+      const durationMs = Date.now() - startTime;
+
+      apiLogger.logSuccess('MarketViewer', `/api/market/token/${tokenAddress}/history`, chainId, durationMs, {
+        requestedBy: 'TokenDetails',
+        purpose: `price-history-${interval.data}`,
+      });
+
+      const response: PriceHistoryResponse = {
+        address: tokenAddress,
+        chainId,
+        interval: interval.data,
+        candles,
+        timestamp: Date.now(),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error fetching token price history" });
+    }
+  });
+
   /**
    * GET /api/market/search?q=USDC&chainId=1
    * Search for tokens by symbol, name, or address
@@ -273,6 +344,8 @@ export async function registerRoutes(
    * - Client sends stay-alive every 30s while user watches tokens
    * - Backend increments refCount on each request
    * - GCManager decrements and removes pools when refCount=0
+   *
+   * Clients of the price stream (/api/market/stream) do not need this: subscriptions keep pools alive.
    */
   app.post('/api/market/stay-alive', async (req, res) => {
     try {
@@ -289,23 +362,13 @@ export async function registerRoutes(
       console.log(`💓 [STAY-ALIVE] Request for ${tokenAddresses.length} tokens on chain ${chainId}`);
       const startTime = Date.now();
 
-      // Get pool registry for this chain
-      const poolRegistry = await app.locals.storageService.getPoolRegistry(chainId);
-
-      // For each token, increment refCount for all its pricing pools
+      // For each token, increment refCount for every pool its price is computed from
       let totalPoolsIncremented = 0;
       for (const tokenAddr of tokenAddresses) {
-        const tokenLower = tokenAddr.toLowerCase();
-        const tokenRoutes = poolRegistry.pricingRoutes[tokenLower] || {};
-        
-        // Flatten the nested structure to get all pool addresses for this token
-        for (const baseSymbol in tokenRoutes) {
-          const poolAddresses = tokenRoutes[baseSymbol];
-          for (const poolAddress of poolAddresses) {
-            // PoolController.incrementRefCount handles the tracking
-            poolController.incrementRefCount(poolAddress, chainId);
-            totalPoolsIncremented++;
-          }
+        for (const poolAddress of await spotPricingEngine.collectPricingPools(tokenAddr, chainId)) {
+          // PoolController.incrementRefCount handles the tracking
+          poolController.incrementRefCount(poolAddress, chainId);
+          totalPoolsIncremented++;
         }
       }
 
@@ -408,6 +471,7 @@ export async function registerRoutes(
           status: 'pending',
           tokenAddress,
           metadata: entry.metadata,
+          validation: entry.validation,
         });
       }
 
@@ -507,17 +571,38 @@ export async function registerRoutes(
 
   app.post('/api/swap/quote', async (req, res) => {
     try {
-      const { tokenIn, tokenOut, amountIn, chainId } = req.body;
+      const { tokenIn, tokenOut, amountIn, amountOut, chainId, slippage } = req.body;
+      const tradeType: TradeType = req.body.tradeType ?? 'exactIn';
 
-      if (!tokenIn || !tokenOut || !amountIn) {
+      if (tradeType !== 'exactIn' && tradeType !== 'exactOut') {
+        return res.status(400).json({ message: "tradeType must be 'exactIn' or 'exactOut'" });
+      }
+
+      if (tradeType === 'exactIn' && (!tokenIn || !tokenOut || !amountIn)) {
         return res.status(400).json({ message: "Missing required parameters: tokenIn, tokenOut, amountIn" });
       }
 
+      if (tradeType === 'exactOut' && (!tokenIn || !tokenOut || !amountOut)) {
+        return res.status(400).json({ message: "Missing required parameters: tokenIn, tokenOut, amountOut" });
+      }
+
+      if (slippage !== undefined && (typeof slippage !== 'number' || slippage < 0 || slippage >= 100)) {
+        return res.status(400).json({ message: "slippage must be a percentage between 0 and 100" });
+      }
+
+      const chainIdValue = chainId || 137;
+      const slippageValue = slippage ?? swapConfig.defaultSlippage;
       const startTime = Date.now();
-      const quote = await swapController.getQuote(tokenIn, tokenOut, amountIn);
+      const quote = await swapController.getQuote(
+        tokenIn,
+        tokenOut,
+        tradeType === 'exactIn' ? amountIn : amountOut,
+        chainIdValue,
+        slippageValue,
+        tradeType
+      );
       const durationMs = Date.now() - startTime;
-      
-      const chainIdValue = chainId || 137;
+
       apiLogger.logSuccess('SwapController', `/api/swap/quote`, chainIdValue, durationMs, {
         requestedBy: 'SwapInterface',
         purpose: 'quote',
@@ -529,11 +614,23 @@ export async function registerRoutes(
           ? {
               tokenIn,
               tokenOut,
-              amountIn,
+              amountIn: tradeType === 'exactIn' ? amountIn : quote.amountInRequired,
+              tradeType,
+              ...(quote.amountInRequired && { amountInRequired: quote.amountInRequired }),
               ...(quote.route && { route: quote.route }),
+              ...(quote.pools && { pools: quote.pools }),
               ...(quote.amountOut && { amountOut: quote.amountOut }),
               ...(quote.distribution && { distribution: quote.distribution }),
               ...(quote.finalAmountOut && { finalAmountOut: quote.finalAmountOut }),
+              midPrice: quote.midPrice,
+              executionPrice: quote.executionPrice,
+              priceImpact: quote.priceImpact,
+              liquidityRisk: quote.liquidityRisk,
+              amountOutMinimum: quote.amountOutMinimum,
+              amountInMaximum: quote.amountInMaximum,
+              slippage: slippageValue,
+              estimatedGas: quote.estimatedGas,
+              gasCostUSD: quote.gasCostUSD,
               timestamp: Date.now(),
               chainId: chainIdValue,
             }
@@ -553,6 +650,59 @@ export async function registerRoutes(
     }
   });
 
+  /**
+   * POST /api/swap/build
+   * Build unsigned transactions for a quote from /api/swap/quote
+   * Request: { quote, recipient, slippage?, deadlineSeconds?, walletAddress? }
+   * Returns: SwapBuildResponse with router calldata and required approvals.
+   * Nothing is signed or broadcast: the client's wallet sends the transactions.
+   */
+  app.post('/api/swap/build', async (req, res) => {
+    try {
+      const { quote, recipient, slippage, deadlineSeconds, walletAddress } = req.body;
+
+      if (!quote || !quote.tokenIn || !quote.tokenOut || !quote.chainId) {
+        return res.status(400).json({ message: "Missing required parameter: quote (from /api/swap/quote)" });
+      }
+
+      if (!recipient || !ethers.isAddress(recipient)) {
+        return res.status(400).json({ message: "recipient must be a valid address" });
+      }
+
+      if (walletAddress !== undefined && !ethers.isAddress(walletAddress)) {
+        return res.status(400).json({ message: "walletAddress must be a valid address" });
+      }
+
+      if (slippage !== undefined && (typeof slippage !== 'number' || slippage < 0 || slippage >= 100)) {
+        return res.status(400).json({ message: "slippage must be a percentage between 0 and 100" });
+      }
+
+      if (deadlineSeconds !== undefined && (!Number.isInteger(deadlineSeconds) || deadlineSeconds <= 0)) {
+        return res.status(400).json({ message: "deadlineSeconds must be a positive integer" });
+      }
+
+      const startTime = Date.now();
+      const result = await swapController.buildSwap({ quote, recipient, slippage, deadlineSeconds, walletAddress });
+      const durationMs = Date.now() - startTime;
+
+      apiLogger.logSuccess('SwapController', `/api/swap/build`, quote.chainId, durationMs, {
+        requestedBy: 'SwapInterface',
+        purpose: 'build',
+      });
+
+      const response: SwapBuildResponse = result;
+      res.status(result.success ? 200 : 422).json(response);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error(error);
+      res.status(500).json({
+        success: false,
+        error: errorMsg,
+        timestamp: Date.now(),
+      });
+    }
+  });
+
   app.post(`${api.snapshots.getLatest.path}/:chain`, async (req, res) => {
     try {
       const tokenAddresses = req.body.tokens;
@@ -560,8 +710,9 @@ export async function registerRoutes(
       if (!tokenAddresses || !Array.isArray(tokenAddresses)) {
         return res.status(400).json({ message: "Missing required parameter: tokens (must be an array)" });
       }
-      const prices = priceViewerService.getSnapshots(tokenAddresses, chain);
-      res.json(prices);
+      const snapshot = await priceViewerService.getSnapshots(tokenAddresses, chain);
+      const response: PriceSnapshotResponse = { timestamp: Date.now(), chainId: chain, ...snapshot };
+      res.json(response);
     } catch (error) {
       console.error(error);
       res.status(500).json({ message: "Internal server error" });
@@ -569,21 +720,23 @@ export async function registerRoutes(
   });
 
   // Test endpoint to populate mock pool data for UI testing
+  // Mock data is Polygon data by default; it never expires so GC does not purge it mid-test
   app.post('/api/test/populate-pools', async (req, res) => {
     try {
       const timestamp = Math.floor(Date.now() / 1000);
+      const chainId = Number(req.body?.chainId ?? 137);
       
       // Populate mock pools with timestamps
       for (const poolData of MockPoolDataConfig.pools) {
-        sharedStateCache.setPoolState(poolData.address, {
+        sharedStateCache.setPoolState(chainId, poolData.address, {
           ...poolData,
           timestamp,
-        });
+        }, Infinity);
       }
 
       // Set token metadata
       for (const token of Object.values(MockPoolDataConfig.tokens)) {
-        sharedStateCache.setTokenMetadata(token.address, {
+        sharedStateCache.setTokenMetadata(chainId, token.address, {
           symbol: token.symbol,
           name: token.name,
           decimals: token.decimals,
@@ -592,6 +745,7 @@ export async function registerRoutes(
 
       res.json({
         message: 'Mock pools populated successfully',
+        chainId,
         poolsCount: MockPoolDataConfig.pools.length,
       });
     } catch (error) {
@@ -600,6 +754,72 @@ export async function registerRoutes(
     }
   });
 
+  /**
+   * GET /api/topology/changes?chainId=1&since=<ms>
+   * Get the topology change sets recorded after `since` (the whole journal when omitted)
+   * Returns: TopologyChangesResponse - change sets oldest first
+   */
+  app.get('/api/topology/changes', async (req, res) => {
+    try {
+      const chainId = req.query.chainId ? Number(req.query.chainId) : 137;
+      const since = req.query.since !== undefined ? Number(req.query.since) : 0;
+
+      if (!Number.isFinite(since)) {
+        return res.status(400).json({ message: "since must be a timestamp in milliseconds" });
+      }
+
+      const response: TopologyChangesResponse = {
+        chainId,
+        since,
+        changes: await topologyJournal.getChanges(chainId, since),
+        timestamp: Date.now(),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error fetching topology changes" });
+    }
+  });
+
+  /**
+   * GET /api/topology/token/:tokenAddress/history?chainId=1
+   * Get a token's current pricing routes and every journaled change that touched them
+   * Returns: TokenTopologyHistoryResponse - events oldest first
+   */
+  app.get('/api/topology/token/:tokenAddress/history', async (req, res) => {
+    try {
+      const { tokenAddress } = req.params;
+      const chainId = req.query.chainId ? Number(req.query.chainId) : 137;
+
+      const poolRegistry = await app.locals.storageService.getPoolRegistry(chainId);
+      const response: TokenTopologyHistoryResponse = {
+        address: tokenAddress,
+        chainId,
+        current: describeTopology(poolRegistry, tokenAddress.toLowerCase()),
+        events: await topologyJournal.getTokenHistory(chainId, tokenAddress),
+        timestamp: Date.now(),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error fetching token topology history" });
+    }
+  });
+
+  /**
+   * GET /api/rpc/status
+   * Health of every RPC endpoint in use, by chain
+   * Returns: { chains: { [chainId]: [{ name, host, circuit, latencyMs, errorRate, rateLimited, ... }] } }
+   */
+  app.get('/api/rpc/status', (req, res) => {
+    try {
+      res.json({ chains: app.locals.ethersAdapter.getProviderHealth(), timestamp: Date.now() });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error getting RPC provider status" });
+    }
+  });
+
   /**
    * GET /api/logs/status
    * Get API call logging statistics (for debugging/monitoring)
@@ -8,6 +8,7 @@ export const tokenSchema = z.object({
   address: z.string(),
   decimals: z.number(),
   logoURI: z.string().optional(),
+  riskFlags: z.array(z.string()).optional(), // Contract risks flagged during quarantine
 });
 
 export const tokenEntrySchema = z.object({
@@ -24,6 +25,15 @@ export const snapshotSchema = z.object({
   entries: z.array(tokenEntrySchema),
 });
 
+// Prices of the requested tokens, all computed from pool states at one block
+export const priceSnapshotResponseSchema = z.object({
+  timestamp: z.number(),
+  chainId: z.number(),
+  blockNumber: z.number().nullable(), // null when no pool could be read
+  source: z.enum(['cache', 'multicall']),
+  prices: z.record(z.number().nullable()),
+});
+
 // Minimal token info for cold path (paginated list)
 export const tokenMetadataSchema = z.object({
   address: z.string(),
@@ -34,6 +44,27 @@ export const tokenMetadataSchema = z.object({
 });
 
 // === Market Viewer Types ===
+export const poolPriceContributionSchema = z.object({
+  poolAddress: z.string(),
+  baseSymbol: z.string(),
+  pricingMath: z.enum(['v2-reserves', 'v3-sqrtPrice', 'stablecoin-peg']),
+  price: z.number(),
+  depthUSD: z.number(),
+  weight: z.number(),
+  outlier: z.boolean(),
+});
+
+export const poolLiquidityContributionSchema = z.object({
+  poolAddress: z.string(),
+  baseSymbol: z.string(),
+  amountMath: z.enum(['v2-reserves', 'v3-virtual']),
+  tokenAmount: z.number(),
+  baseAmount: z.number(),
+  tokenSideUSD: z.number(),
+  baseSideUSD: z.number(),
+  liquidityUSD: z.number(),
+});
+
 export const tokenMarketDataSchema = z.object({
   address: z.string(),
   symbol: z.string(),
@@ -44,8 +75,14 @@ export const tokenMarketDataSchema = z.object({
   priceChange24h: z.number().optional(),
   priceHigh24h: z.number().optional(),
   priceLow24h: z.number().optional(),
+  priceConfidence: z.number().optional(),
+  pricingBreakdown: z.array(poolPriceContributionSchema).optional(),
   marketCap: z.number().optional(),
+  fullyDilutedMarketCap: z.number().optional(),
+  circulatingSupply: z.number().optional(),
+  totalSupply: z.number().optional(),
   liquidity: z.number().optional(),
+  liquidityBreakdown: z.array(poolLiquidityContributionSchema).optional(),
   volume24h: z.number().optional(),
   holders: z.number().optional(),
   logoURI: z.string().optional(),
@@ -53,6 +90,7 @@ export const tokenMarketDataSchema = z.object({
   twitter: z.string().optional(),
   description: z.string().optional(),
   dataSource: z.enum(['explorer-api', 'rpc-call', 'cached', 'multicall', 'alchemy-api', 'search']),
+  dataSources: z.record(z.string(), z.string()).optional(), // Per-field attribution (price, liquidity, ...)
   timestamp: z.number(),
   cachedUntil: z.number().optional(),
 });
@@ -75,6 +113,113 @@ export const tokenSearchResultSchema = z.object({
   relevanceScore: z.number(),
 });
 
+// === Price History Types (GET /api/market/token/:address/history) ===
+export const priceHistoryIntervalSchema = z.enum(['1m', '5m', '15m', '1h', '4h', '1d']);
+
+export const priceCandleSchema = z.object({
+  time: z.number(), // Bucket start (ms)
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  blockNumber: z.number(),
+});
+
+export const priceHistoryResponseSchema = z.object({
+  address: z.string(),
+  chainId: z.number(),
+  interval: priceHistoryIntervalSchema,
+  candles: z.array(priceCandleSchema),
+  timestamp: z.number(),
+});
+
+// === Topology Journal Types (GET /api/topology/changes, GET /api/topology/token/:address/history) ===
+export const tokenTopologySchema = z.object({
+  source: z.enum(['direct', 'intermediate', 'none']),
+  routes: z.record(z.string(), z.array(z.string())), // Base symbol or intermediate address -> pool addresses
+});
+
+export const topologyPoolChangeSchema = z.object({
+  poolAddress: z.string(),
+  token0: z.string(),
+  token1: z.string(),
+  dexType: z.enum(['v2', 'v3']),
+});
+
+export const topologyDroppedPoolSchema = z.object({
+  poolAddress: z.string(),
+  token: z.string(),
+  route: z.string(),
+  liquidityUSD: z.number(),
+  reason: z.literal('below-liquidity-threshold'),
+});
+
+export const topologyRouteChangeSchema = z.object({
+  token: z.string(),
+  before: tokenTopologySchema,
+  after: tokenTopologySchema,
+});
+
+export const topologyTriggerSchema = z.enum(['discovery', 'factory-logs']);
+
+export const topologyChangeSetSchema = z.object({
+  timestamp: z.number(),
+  chainId: z.number(),
+  trigger: topologyTriggerSchema,
+  poolsAdded: z.array(topologyPoolChangeSchema),
+  poolsDropped: z.array(topologyDroppedPoolSchema),
+  routeChanges: z.array(topologyRouteChangeSchema),
+});
+
+export const topologyChangesResponseSchema = z.object({
+  chainId: z.number(),
+  since: z.number(),
+  changes: z.array(topologyChangeSetSchema),
+  timestamp: z.number(),
+});
+
+export const tokenTopologyEventSchema = z.object({
+  timestamp: z.number(),
+  trigger: topologyTriggerSchema,
+  poolsAdded: z.array(topologyPoolChangeSchema),
+  poolsDropped: z.array(topologyDroppedPoolSchema),
+  routeChange: topologyRouteChangeSchema.nullable(),
+});
+
+export const tokenTopologyHistoryResponseSchema = z.object({
+  address: z.string(),
+  chainId: z.number(),
+  current: tokenTopologySchema, // Routes in the registry now
+  events: z.array(tokenTopologyEventSchema), // Oldest first
+  timestamp: z.number(),
+});
+
+// === Price Stream Types (WebSocket /api/market/stream) ===
+export const priceStreamClientMessageSchema = z.object({
+  type: z.enum(['subscribe', 'unsubscribe']),
+  chainId: z.number(),
+  tokens: z.array(z.string()),
+});
+
+export const priceUpdateSchema = z.object({
+  address: z.string(),
+  price: z.number(),
+  priceConfidence: z.number().optional(),
+});
+
+export const priceStreamServerMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('prices'),
+    chainId: z.number(),
+    prices: z.array(priceUpdateSchema),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal('error'),
+    message: z.string(),
+  }),
+]);
+
 // === Swapper Types ===
 export const routeQuoteSchema = z.object({
   route: z.array(z.string()),
@@ -84,20 +229,44 @@ export const routeQuoteSchema = z.object({
   executionPrice: z.number().optional(),
 });
 
+export const liquidityRiskSchema = z.enum(['high', 'medium', 'low']);
+
 export const routeAllocationSchema = z.object({
   route: z.array(z.string()),
+  pools: z.array(z.string()).optional(),
   amount: z.string(),
   output: z.string(),
+  midPrice: z.number().optional(),
+  executionPrice: z.number().optional(),
+  priceImpact: z.number().optional(),
+  liquidityRisk: liquidityRiskSchema.optional(),
+  amountOutMinimum: z.string().optional(),
+  amountInMaximum: z.string().optional(),
+  estimatedGas: z.number().optional(),
 });
 
+export const tradeTypeSchema = z.enum(['exactIn', 'exactOut']);
+
 export const swapQuoteSchema = z.object({
   tokenIn: z.string(),
   tokenOut: z.string(),
   amountIn: z.string(),
+  tradeType: tradeTypeSchema.optional(),
+  amountInRequired: z.string().optional(),
   route: z.array(z.string()).optional(),
+  pools: z.array(z.string()).optional(),
   amountOut: z.string().optional(),
   distribution: z.array(routeAllocationSchema).optional(),
   finalAmountOut: z.string().optional(),
+  midPrice: z.number().optional(),
+  executionPrice: z.number().optional(),
+  priceImpact: z.number().optional(),
+  liquidityRisk: liquidityRiskSchema.optional(),
+  amountOutMinimum: z.string().optional(),
+  amountInMaximum: z.string().optional(),
+  slippage: z.number().optional(),
+  estimatedGas: z.number().optional(),
+  gasCostUSD: z.number().optional(),
   timestamp: z.number(),
   chainId: z.number(),
 });
@@ -110,18 +279,70 @@ export const quoteResponseSchema = z.object({
   timestamp: z.number(),
 });
 
+export const unsignedTransactionSchema = z.object({
+  chainId: z.number(),
+  to: z.string(),
+  data: z.string(),
+  value: z.string(),
+});
+
+export const swapTransactionSchema = unsignedTransactionSchema.extend({
+  router: z.enum(['swapRouter02', 'v2Router']),
+  legs: z.array(z.number()),
+  amountIn: z.string(),
+});
+
+export const approvalRequirementSchema = z.object({
+  token: z.string(),
+  spender: z.string(),
+  amount: z.string(),
+  currentAllowance: z.string().optional(),
+  required: z.boolean(),
+  transaction: unsignedTransactionSchema,
+});
+
+export const swapBuildResponseSchema = z.object({
+  success: z.boolean(),
+  transactions: z.array(swapTransactionSchema).optional(),
+  approvals: z.array(approvalRequirementSchema).optional(),
+  atomic: z.boolean().optional(),
+  deadline: z.number().optional(),
+  error: z.string().optional(),
+  timestamp: z.number(),
+});
+
 // Export types
 export type Token = z.infer<typeof tokenSchema>;
 export type TokenEntry = z.infer<typeof tokenEntrySchema>;
 export type Snapshot = z.infer<typeof snapshotSchema>;
+export type PriceSnapshotResponse = z.infer<typeof priceSnapshotResponseSchema>;
 export type TokenMetadata = z.infer<typeof tokenMetadataSchema>;
+export type PoolPriceContribution = z.infer<typeof poolPriceContributionSchema>;
+export type PoolLiquidityContribution = z.infer<typeof poolLiquidityContributionSchema>;
 export type TokenMarketData = z.infer<typeof tokenMarketDataSchema>;
 export type MarketOverview = z.infer<typeof marketOverviewSchema>;
 export type TokenSearchResult = z.infer<typeof tokenSearchResultSchema>;
+export type PriceHistoryInterval = z.infer<typeof priceHistoryIntervalSchema>;
+export type PriceCandle = z.infer<typeof priceCandleSchema>;
+export type PriceHistoryResponse = z.infer<typeof priceHistoryResponseSchema>;
+export type TokenTopology = z.infer<typeof tokenTopologySchema>;
+export type TopologyChangeSet = z.infer<typeof topologyChangeSetSchema>;
+export type TopologyChangesResponse = z.infer<typeof topologyChangesResponseSchema>;
+export type TokenTopologyEvent = z.infer<typeof tokenTopologyEventSchema>;
+export type TokenTopologyHistoryResponse = z.infer<typeof tokenTopologyHistoryResponseSchema>;
+export type PriceStreamClientMessage = z.infer<typeof priceStreamClientMessageSchema>;
+export type PriceUpdate = z.infer<typeof priceUpdateSchema>;
+export type PriceStreamServerMessage = z.infer<typeof priceStreamServerMessageSchema>;
 export type RouteQuote = z.infer<typeof routeQuoteSchema>;
+export type LiquidityRisk = z.infer<typeof liquidityRiskSchema>;
+export type TradeType = z.infer<typeof tradeTypeSchema>;
 export type RouteAllocation = z.infer<typeof routeAllocationSchema>;
 export type SwapQuote = z.infer<typeof swapQuoteSchema>;
 export type QuoteResponse = z.infer<typeof quoteResponseSchema>;
+export type UnsignedTransaction = z.infer<typeof unsignedTransactionSchema>;
+export type SwapTransaction = z.infer<typeof swapTransactionSchema>;
+export type ApprovalRequirement = z.infer<typeof approvalRequirementSchema>;
+export type SwapBuildResponse = z.infer<typeof swapBuildResponseSchema>;
 
 // === API Request/Response Types ===
 // Used by frontend to strict type responses
@@ -50,6 +50,7 @@ export default defineConfig(({ command, mode }) => {
         '/api': {
           target: `http://localhost:${backendPort}`,
           changeOrigin: true,
+          ws: true, // Price stream (/api/market/stream)
         },
       },
       fs: {